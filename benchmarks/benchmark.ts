@@ -0,0 +1,326 @@
+/**
+ * benchmark - Gas and FHE operation counts for the survey contract, checked against committed budgets
+ *
+ * Usage: npx hardhat test benchmarks/benchmark.ts
+ *
+ * Example: BENCHMARK_SCENARIOS=7q-500r npx hardhat test benchmarks/benchmark.ts
+ *          BENCHMARK_UPDATE=1 npx hardhat test benchmarks/benchmark.ts
+ *
+ * It runs as a test file because the FHEVM mock only deploys itself inside `hardhat test`; it lives
+ * outside test/ so the regular test run skips it. This script:
+ * - Deploys a fresh contract per scenario on the Hardhat network with the FHEVM mock
+ * - Creates a survey with N rating questions and submits M signed responses through one relayer account
+ * - Closes and publishes it, then requests the first question's average and histogram
+ * - Counts the FHE operations of each transaction from the FHEVM executor's events
+ * - Writes benchmarks/results/benchmark.json and benchmark.md
+ * - Fails a scenario when any of its paths uses more gas or FHE operations than benchmarks/budgets.json allows
+ *
+ * Scenarios are named <questions>q-<respondents>r. BENCHMARK_SCENARIOS picks some by name (comma separated),
+ * including ones without a budget yet; by default every scenario in the budget file runs.
+ * BENCHMARK_UPDATE=1 rewrites the budgets of the scenarios that ran from their measurements.
+ */
+
+import { expect } from "chai";
+import { id, Interface, type TransactionReceipt, Wallet } from "ethers";
+import * as fs from "fs";
+import { ethers, fhevm } from "hardhat";
+import * as path from "path";
+
+import { FIVE_STAR_RATING, MemoryContentStore, SurveyClient } from "../src/sdk";
+
+const BUDGET_FILE = path.join("benchmarks", "budgets.json");
+const RESULTS_DIR = path.join("benchmarks", "results");
+
+/** Headroom added to measured gas when budgets are rewritten; FHE operation counts are kept exact */
+const GAS_HEADROOM = 1.05;
+
+/** Events the FHEVM executor emits once per FHE operation */
+const FHE_EVENTS = new Interface([
+  ...["Add", "Sub", "Mul", "Div", "Rem", "BitAnd", "BitOr", "BitXor", "Shl", "Shr", "Rotl", "Rotr"]
+    .concat(["Eq", "Ne", "Ge", "Gt", "Le", "Lt", "Min", "Max"])
+    .map((op) => `event Fhe${op}(address indexed caller, bytes32 lhs, bytes32 rhs, bytes1 scalarByte, bytes32 result)`),
+  "event FheNeg(address indexed caller, bytes32 ct, bytes32 result)",
+  "event FheNot(address indexed caller, bytes32 ct, bytes32 result)",
+  "event VerifyCiphertext(address indexed caller, bytes32 inputHandle, address userAddress, bytes inputProof, uint8 inputType, bytes32 result)",
+  "event Cast(address indexed caller, bytes32 ct, uint8 toType, bytes32 result)",
+  "event TrivialEncrypt(address indexed caller, uint256 pt, uint8 toType, bytes32 result)",
+  "event FheIfThenElse(address indexed caller, bytes32 control, bytes32 ifTrue, bytes32 ifFalse, bytes32 result)",
+  "event FheRand(address indexed caller, uint8 randType, bytes16 seed, bytes32 result)",
+  "event FheRandBounded(address indexed caller, uint256 upperBound, uint8 randType, bytes16 seed, bytes32 result)",
+]);
+
+const PATHS = [
+  "createSurvey",
+  "submitResponse",
+  "publishResults",
+  "requestQuestionAverage",
+  "requestQuestionHistogram",
+] as const;
+type BenchmarkPath = (typeof PATHS)[number];
+
+interface Scenario {
+  name: string;
+  questions: number;
+  respondents: number;
+}
+
+/** Largest gas and FHE operation count one call of a path may use */
+interface Budget {
+  gas: number;
+  fheOps: number;
+}
+
+type BudgetFile = Record<string, Partial<Record<BenchmarkPath, Budget>>>;
+
+interface PathMeasurement {
+  calls: number;
+  gas: { min: number; max: number; mean: number };
+  /** FHE operations of the most expensive call */
+  fheOps: number;
+  /** The same call's operations by executor event, e.g. { FheAdd: 3 } */
+  fheOpsByType: Record<string, number>;
+}
+
+interface ScenarioResult extends Scenario {
+  paths: Record<BenchmarkPath, PathMeasurement>;
+}
+
+/**
+ * Parses a scenario name such as 5q-100r
+ */
+function parseScenario(name: string): Scenario {
+  const match = /^(\d+)q-(\d+)r$/.exec(name.trim());
+  if (!match) {
+    throw new Error(`Scenario "${name}" must look like <questions>q-<respondents>r, e.g. 5q-100r`);
+  }
+  const scenario = { name: name.trim(), questions: Number(match[1]), respondents: Number(match[2]) };
+  if (scenario.questions < 1 || scenario.respondents < 3) {
+    throw new Error(`Scenario "${name}" needs at least 1 question and 3 respondents to publish results`);
+  }
+  return scenario;
+}
+
+function fheOperations(receipt: TransactionReceipt): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const log of receipt.logs) {
+    const event = FHE_EVENTS.getEvent(log.topics[0]);
+    if (event) {
+      counts[event.name] = (counts[event.name] ?? 0) + 1;
+    }
+  }
+  return counts;
+}
+
+const total = (counts: Record<string, number>) => Object.values(counts).reduce((sum, count) => sum + count, 0);
+
+/**
+ * Summarises the receipts of every call of one path
+ */
+function measure(receipts: TransactionReceipt[]): PathMeasurement {
+  const gas = receipts.map((receipt) => Number(receipt.gasUsed));
+  const ops = receipts.map(fheOperations);
+  const heaviest = ops.reduce((max, counts) => (total(counts) > total(max) ? counts : max), {});
+  return {
+    calls: receipts.length,
+    gas: {
+      min: Math.min(...gas),
+      max: Math.max(...gas),
+      mean: Math.round(gas.reduce((sum, value) => sum + value, 0) / gas.length),
+    },
+    fheOps: total(heaviest),
+    fheOpsByType: heaviest,
+  };
+}
+
+/**
+ * Receipt of the transaction a call just sent; Hardhat mines each transaction in its own block
+ */
+async function lastReceipt(): Promise<TransactionReceipt> {
+  const block = await ethers.provider.getBlock("latest");
+  const hash = block?.transactions.at(-1);
+  const receipt = hash ? await ethers.provider.getTransactionReceipt(hash) : null;
+  if (!receipt) {
+    throw new Error("No transaction in the latest block");
+  }
+  return receipt;
+}
+
+async function runScenario(scenario: Scenario): Promise<ScenarioResult> {
+  const [creator, relayer] = await ethers.getSigners();
+  const contract = await (await ethers.getContractFactory("EmployeePrivacySurvey")).deploy();
+  const address = await contract.getAddress();
+  const creatorClient = SurveyClient.connect(address, creator, new MemoryContentStore());
+  const relayerClient = SurveyClient.connect(address, relayer);
+  const receipts = Object.fromEntries(PATHS.map((name) => [name, [] as TransactionReceipt[]])) as Record<
+    BenchmarkPath,
+    TransactionReceipt[]
+  >;
+
+  const surveyId = await creatorClient.createSurvey({
+    title: `Benchmark ${scenario.name}`,
+    description: "",
+    questions: Array.from({ length: scenario.questions }, (_, index) => ({
+      text: `Question ${index + 1}`,
+      ...FIVE_STAR_RATING,
+    })),
+    durationDays: 30,
+    minResponses: 3,
+  });
+  receipts.createSurvey.push(await lastReceipt());
+
+  // Respondents only sign; the relayer sends every transaction, so no respondent account needs funds
+  for (let index = 0; index < scenario.respondents; index++) {
+    const respondent = new Wallet(id(`benchmark respondent ${index}`), ethers.provider);
+    const answers = Array.from({ length: scenario.questions }, (_, question) => 1 + ((index + question) % 5));
+    const response = await SurveyClient.connect(address, respondent).prepareResponse(
+      surveyId,
+      answers,
+      fhevm,
+      relayer.address,
+    );
+    receipts.submitResponse.push(await relayerClient.submitSignedResponse(response));
+  }
+
+  await creatorClient.closeSurvey(surveyId);
+  receipts.publishResults.push(await creatorClient.publishResults(surveyId));
+  await creatorClient.requestAverage(surveyId, 0);
+  receipts.requestQuestionAverage.push(await lastReceipt());
+  await creatorClient.requestHistogram(surveyId, 0);
+  receipts.requestQuestionHistogram.push(await lastReceipt());
+
+  const paths = Object.fromEntries(PATHS.map((name) => [name, measure(receipts[name])]));
+  return { ...scenario, paths: paths as Record<BenchmarkPath, PathMeasurement> };
+}
+
+/**
+ * Paths of a scenario above their budget, as messages
+ */
+function overBudget(result: ScenarioResult, budgets: BudgetFile): string[] {
+  const scenarioBudgets = budgets[result.name] ?? {};
+  return PATHS.flatMap((name) => {
+    const budget = scenarioBudgets[name];
+    const measured = result.paths[name];
+    if (!budget) {
+      return [];
+    }
+    const problems: string[] = [];
+    if (measured.gas.max > budget.gas) {
+      problems.push(`${result.name} ${name}: ${measured.gas.max} gas, budget ${budget.gas}`);
+    }
+    if (measured.fheOps > budget.fheOps) {
+      problems.push(`${result.name} ${name}: ${measured.fheOps} FHE operations, budget ${budget.fheOps}`);
+    }
+    return problems;
+  });
+}
+
+function budgetsFrom(result: ScenarioResult): Record<BenchmarkPath, Budget> {
+  const entries = PATHS.map((name) => {
+    const measured = result.paths[name];
+    return [name, { gas: Math.ceil(measured.gas.max * GAS_HEADROOM), fheOps: measured.fheOps }];
+  });
+  return Object.fromEntries(entries) as Record<BenchmarkPath, Budget>;
+}
+
+function markdownReport(results: ScenarioResult[], budgets: BudgetFile): string {
+  const lines = [
+    "# Survey Contract Benchmark",
+    "",
+    `Generated ${new Date().toISOString()} on the Hardhat network with the FHEVM mock.`,
+    "Gas is per transaction; FHE operations count the executor events of the most expensive call.",
+    "",
+    "| Scenario | Path | Calls | Gas (min) | Gas (mean) | Gas (max) | Gas budget | FHE ops | FHE ops budget |",
+    "| --- | --- | ---: | ---: | ---: | ---: | ---: | ---: | ---: |",
+  ];
+  for (const result of results) {
+    for (const name of PATHS) {
+      const { calls, gas, fheOps } = result.paths[name];
+      const budget = budgets[result.name]?.[name];
+      lines.push(
+        `| ${result.name} | ${name} | ${calls} | ${gas.min} | ${gas.mean} | ${gas.max} | ${budget?.gas ?? "-"} | ` +
+          `${fheOps} | ${budget?.fheOps ?? "-"} |`,
+      );
+    }
+  }
+  lines.push("", "## FHE operations by type", "");
+  for (const result of results) {
+    const types = PATHS.map((name) => {
+      const byType = Object.entries(result.paths[name].fheOpsByType)
+        .map(([type, count]) => `${type} ${count}`)
+        .join(", ");
+      return `- ${name}: ${byType || "none"}`;
+    });
+    lines.push(`### ${result.name}`, "", ...types, "");
+  }
+  return lines.join("\n");
+}
+
+function readBudgets(): BudgetFile {
+  return fs.existsSync(BUDGET_FILE) ? (JSON.parse(fs.readFileSync(BUDGET_FILE, "utf8")) as BudgetFile) : {};
+}
+
+/**
+ * Writes the reports and, when updating, the new budgets
+ */
+function saveResults(results: ScenarioResult[], budgets: BudgetFile, update: boolean) {
+  if (update) {
+    for (const result of results) {
+      budgets[result.name] = budgetsFrom(result);
+    }
+    fs.writeFileSync(BUDGET_FILE, `${JSON.stringify(budgets, null, 2)}\n`);
+    console.log(`Updated budgets in ${BUDGET_FILE}`);
+  }
+
+  fs.mkdirSync(RESULTS_DIR, { recursive: true });
+  fs.writeFileSync(path.join(RESULTS_DIR, "benchmark.json"), `${JSON.stringify(results, null, 2)}\n`);
+  const report = markdownReport(results, budgets);
+  fs.writeFileSync(path.join(RESULTS_DIR, "benchmark.md"), `${report}\n`);
+  console.log(`\n${report}\nResults written to ${RESULTS_DIR}/benchmark.json and benchmark.md`);
+}
+
+describe("Benchmark", function () {
+  const budgets = readBudgets();
+  const names = process.env.BENCHMARK_SCENARIOS?.split(",") ?? Object.keys(budgets);
+  if (names.length === 0) {
+    throw new Error(`No scenarios: set BENCHMARK_SCENARIOS (e.g. 1q-10r,7q-500r) or add some to ${BUDGET_FILE}`);
+  }
+  const update = process.env.BENCHMARK_UPDATE === "1";
+  const results: ScenarioResult[] = [];
+  let snapshot: string;
+
+  before(async function () {
+    if (!fhevm.isMock) {
+      throw new Error("The benchmark runs on the Hardhat network with the FHEVM mock (omit --network)");
+    }
+    snapshot = await ethers.provider.send("evm_snapshot", []);
+  });
+
+  // Every scenario starts from the same chain, so the first decryption request or deployment
+  // never lands in one scenario's numbers and not another's
+  afterEach(async function () {
+    await ethers.provider.send("evm_revert", [snapshot]);
+    snapshot = await ethers.provider.send("evm_snapshot", []);
+  });
+
+  after(function () {
+    if (results.length > 0) {
+      saveResults(results, budgets, update);
+    }
+  });
+
+  for (const scenario of names.map(parseScenario)) {
+    it(`${scenario.name}: ${scenario.questions} question(s), ${scenario.respondents} respondents`, async function () {
+      this.timeout(0);
+      const result = await runScenario(scenario);
+      results.push(result);
+
+      if (update) {
+        return;
+      }
+      if (!budgets[scenario.name]) {
+        console.log(`    No budget for ${scenario.name}; rerun with BENCHMARK_UPDATE=1 to record one`);
+      }
+      expect(overBudget(result, budgets), "paths over budget").to.deep.equal([]);
+    });
+  }
+});
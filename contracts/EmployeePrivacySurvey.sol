@@ -1,8 +1,10 @@
 // SPDX-License-Identifier: BSD-3-Clause-Clear
 pragma solidity ^0.8.24;
 
-import { FHE, euint8, ebool } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, euint8, euint32, ebool, externalEuint8, externalEbool } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
+import { OrganizationRegistry } from "./OrganizationRegistry.sol";
+import { SurveyDirectory } from "./SurveyDirectory.sol";
 
 /**
  * @title EmployeePrivacySurvey - Privacy-Preserving Employee Satisfaction Survey
@@ -12,61 +14,212 @@ import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
  *
  * Key FHEVM Concepts Demonstrated:
  * - Access Control: Using FHE.allow and FHE.allowThis for encrypted data permissions
- * - Encrypted Arithmetic: Computing sums and averages on encrypted ratings
+ * - Encrypted Arithmetic: Keeping running encrypted totals of ratings as responses arrive
+ * - Encrypted Comparison: Counting each answer value with FHE.eq and FHE.select
+ * - Encrypted Booleans: Storing yes/no answers as ebool and counting them with FHE.select
+ * - Encrypted Segments: Tallying answers per department from an encrypted segment index
+ * - Scheduling: Surveys accept responses only between their start and end timestamps, and close on their own once they expire
+ * - Organisations: Authors create surveys for an organisation and its analysts may reveal their results
+ * - Unlinkable Responses: Responses are signed by an anonymous per-survey key, and invite-only surveys
+ *   accept a blind-signed ticket instead of a roster proof, so nothing on chain names the respondent
+ * - Off-chain Content: Titles, descriptions and question texts live in a content-addressed JSON document; only its hash is stored
  * - Public Decryption: Revealing aggregated results while preserving individual privacy
  * - User Decryption: Allowing authorized users to decrypt specific values
  *
  * Use this example to learn:
- * 1. How to handle encrypted user input (euint8 ratings)
- * 2. How to perform homomorphic operations (FHE.add) on encrypted data
+ * 1. How to handle encrypted user input (externalEuint8 and externalEbool answers with an input proof)
+ * 2. How to perform homomorphic operations (FHE.add) on encrypted data without overflowing small types
  * 3. How to manage access control for encrypted values
  * 4. How to request decryption of aggregated results
  */
 contract EmployeePrivacySurvey is SepoliaConfig {
 
+    /// @dev Widest answer range a scale question may use (0-10 covers eNPS)
+    uint8 public constant MAX_ANSWER_BUCKETS = 11;
+
+    /// @dev Most segments (e.g. departments) a survey may declare; every response updates each segment's totals
+    uint8 public constant MAX_SEGMENTS = 8;
+
+    /// @dev Most FHE work one response may need, in answer buckets: a scale question counts its buckets plus
+    /// one, a yes/no question two, and each segment one more per question. Revising a response this large
+    /// (e.g. 7 five-star questions) stays under fhEVM's per-transaction HCU limit; more reverts with
+    /// HCUTransactionLimitExceeded, and revisions reach it before new responses do
+    uint8 public constant MAX_RESPONSE_COST = 42;
+
+    /// @dev Floor applied until the owner configures another one
+    uint256 public constant DEFAULT_MIN_RESPONSES_FLOOR = 3;
+
+    /// @dev EIP-712 type the respondent key signs; handles are the bytes32 values of the encrypted answers
+    bytes32 public constant RESPONSE_TYPEHASH =
+        keccak256(
+            "Response(uint256 surveyId,bytes32[] ratings,bytes32[] yesNo,bytes32 segment,bytes inputProof)"
+        );
+
+    /// @dev EIP-712 type of a revision; revision numbers count up from 1 so an old signature cannot be replayed
+    bytes32 public constant REVISION_TYPEHASH =
+        keccak256(
+            "Revision(uint256 surveyId,uint256 revision,bytes32[] ratings,bytes32[] yesNo,bytes inputProof)"
+        );
+
+    /// @dev Length in bytes of the ticket issuer's RSA modulus and of every ticket (2048 bits)
+    uint256 public constant TICKET_BYTES = 256;
+
+    /// @dev Public exponent of the ticket issuer's RSA key
+    uint256 public constant TICKET_EXPONENT = 65537;
+
+    bytes32 private constant DOMAIN_TYPEHASH =
+        keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)");
+
+    /// @dev Largest s value of a non-malleable secp256k1 signature (half the curve order)
+    uint256 private constant MAX_SIGNATURE_S = 0x7FFFFFFFFFFFFFFFFFFFFFFFFFFFFFFF5D576E7357A4501DDFE92F46681B20A0;
+
     address public owner;
     uint256 public surveyCounter;
 
+    /// @dev Organisations and member roles, deployed with this contract
+    OrganizationRegistry public immutable organizations;
+
+    /// @dev Paginated survey listing and batched reads over this contract, deployed with it
+    SurveyDirectory public immutable directory;
+
+    /// @dev No survey can reveal aggregates with fewer responses than this
+    uint256 public minResponsesFloor;
+
+    /// @dev RSA modulus of the key that blind-signs each invite-only survey's tickets, set when the survey is created
+    mapping(uint256 => bytes) public ticketIssuers;
+
+    /// @dev Hashes of the moduli surveys were created with; no two surveys share one, so a ticket admits to one survey only
+    mapping(bytes32 => bool) public ticketIssuerUsed;
+
+    /// @dev How a question is answered
+    enum QuestionType {
+        Scale, // a number between minValue and maxValue, e.g. 1-5 stars, 0-10 eNPS or 1-5 agree/disagree
+        YesNo // an encrypted boolean, stored with minValue 0 (no) and maxValue 1 (yes)
+    }
+
+    /// @dev Where a survey is in its schedule
+    enum SurveyStatus {
+        Upcoming, // before startTime
+        Open, // accepting responses
+        Ended // past endTime or closed by its creator
+    }
+
+    /// @dev Answer type and accepted range of a question
+    struct QuestionConfig {
+        QuestionType questionType;
+        uint8 minValue;
+        uint8 maxValue;
+    }
+
     /// @dev Survey structure containing all survey metadata and encrypted responses
     struct Survey {
         address creator;
-        string title;
-        string description;
-        string[] questions;
+        bytes32 contentHash; // keccak256 of the off-chain JSON document holding the title, description and question texts
+        QuestionConfig[] questionConfigs; // one per question
+        uint256 yesNoQuestions; // number of questions answered with an ebool
         uint256 startTime;
         uint256 endTime;
         bool active;
         bool resultsPublished;
         uint256 totalResponses;
-        mapping(address => bool) hasResponded;
-        mapping(uint256 => euint8[]) encryptedResponses; // questionId => all encrypted ratings
-        address[] respondents;
+        uint256 minResponses; // responses required before any aggregate can be revealed
+        bytes32 eligibilityRoot; // Merkle root of invited respondent addresses, zero when anyone may respond
+        uint256 organizationId; // organisation the survey was created for, zero for a personal survey
+        string[] segments; // segment labels respondents pick one of, empty for an unsegmented survey
+        mapping(bytes32 => uint256) responseNumbers; // nullifier => 1-based position in the answer arrays, 0 if none
+        mapping(bytes32 => uint256) revisions; // nullifier => how many times the response was revised
+        mapping(uint256 => euint8[]) encryptedResponses; // questionId => all encrypted scale answers
+        mapping(uint256 => ebool[]) encryptedYesNoAnswers; // questionId => all encrypted yes/no answers
+        mapping(uint256 => euint32) encryptedTotals; // questionId => running encrypted sum of answers (yes = 1)
+        mapping(uint256 => euint32[MAX_ANSWER_BUCKETS]) encryptedHistograms; // questionId => encrypted count per answer value
+        euint8[] encryptedSegments; // segment index of each response, in response order
+        euint32[MAX_SEGMENTS] segmentCounts; // encrypted number of responses per segment
+        mapping(uint256 => euint32[MAX_SEGMENTS]) segmentTotals; // questionId => encrypted sum of answers per segment
+    }
+
+    /// @dev What comes with a response besides the answers; anyone may submit it, usually a relayer
+    struct ResponseAuthorization {
+        bytes32 nullifier; // responseNullifier of the respondent key, so answers changed after signing revert
+        bytes ticket; // issuer's RSA signature over ticketMessage(nullifier) for invite-only surveys, empty otherwise
+        bytes signature; // the respondent key's EIP-712 signature over the Response type
+    }
+
+    /// @dev What comes with replacement answers
+    struct RevisionAuthorization {
+        bytes32 nullifier; // responseNullifier of the respondent key
+        uint256 revision; // one more than the response's current revision count
+        bytes signature; // the respondent key's EIP-712 signature over the Revision type
     }
 
     /// @dev Structure for storing decrypted results
     struct DecryptedResult {
         uint8 averageRating;
-        uint8 totalResponses;
+        uint256 totalResponses;
+        uint32 totalScore;
+        bool revealed;
+    }
+
+    /// @dev Structure for storing a decrypted answer distribution
+    struct DecryptedHistogram {
+        uint32[] counts; // counts[i] = number of answers equal to minValue + i
+        bool revealed;
+    }
+
+    /// @dev Structure for storing a segment's decrypted results; all zero when the segment was withheld
+    struct DecryptedSegment {
+        uint32 respondents;
+        uint32[] totals; // totals[i] = sum of the segment's answers to question i (yes = 1)
         bool revealed;
     }
 
+    /// @dev Which aggregate a decryption request reveals
+    enum RevealKind {
+        Average,
+        Histogram,
+        Segment
+    }
+
+    /// @dev Survey and question (or segment, for RevealKind.Segment) a pending decryption request belongs to
+    struct DecryptionTarget {
+        uint256 surveyId;
+        uint256 questionId;
+        RevealKind kind;
+        bool pending;
+    }
+
     mapping(uint256 => Survey) public surveys;
     mapping(uint256 => mapping(uint256 => DecryptedResult)) public questionResults; // surveyId => questionId => result
+    mapping(uint256 => mapping(uint256 => DecryptedHistogram)) private questionHistograms; // surveyId => questionId => distribution
+    mapping(uint256 => mapping(uint256 => DecryptedSegment)) private segmentResults; // surveyId => segment => results
+    mapping(uint256 => DecryptionTarget) private decryptionTargets; // requestId => survey/question
+    mapping(uint256 => bytes32) public surveyTemplates; // surveyId => "<template id>@<version>" it was created from
 
     // Events for tracking survey lifecycle
     event SurveyCreated(
         uint256 indexed surveyId,
         address indexed creator,
-        string title,
+        bytes32 contentHash,
+        uint256 startTime,
         uint256 endTime
     );
 
+    event SurveyTemplateRecorded(uint256 indexed surveyId, bytes32 template);
+
     event ResponseSubmitted(
         uint256 indexed surveyId,
-        address indexed respondent,
+        bytes32 indexed nullifier,
         uint256 timestamp
     );
 
+    event ResponseRevised(
+        uint256 indexed surveyId,
+        bytes32 indexed nullifier,
+        uint256 revision,
+        uint256 timestamp
+    );
+
+    event SurveyClosed(uint256 indexed surveyId, uint256 timestamp);
+
     event ResultsPublished(
         uint256 indexed surveyId,
         uint256 totalResponses
@@ -78,6 +231,29 @@ contract EmployeePrivacySurvey is SepoliaConfig {
         uint256 requestId
     );
 
+    event QuestionAverageRevealed(
+        uint256 indexed surveyId,
+        uint256 indexed questionId,
+        uint8 averageRating,
+        uint256 totalResponses,
+        uint32 totalScore
+    );
+
+    event QuestionHistogramRevealed(
+        uint256 indexed surveyId,
+        uint256 indexed questionId,
+        uint32[] counts
+    );
+
+    event SegmentResultsRevealed(
+        uint256 indexed surveyId,
+        uint256 indexed segment,
+        uint32 respondents,
+        uint32[] totals
+    );
+
+    event MinResponsesFloorUpdated(uint256 floor);
+
     modifier onlyOwner() {
         require(msg.sender == owner, "Not authorized");
         _;
@@ -88,119 +264,639 @@ contract EmployeePrivacySurvey is SepoliaConfig {
         _;
     }
 
+    /// @dev The creator, or an analyst of the organisation the survey belongs to
+    modifier onlyResultReader(uint256 _surveyId) {
+        _requireResultReader(_surveyId);
+        _;
+    }
+
     modifier surveyActive(uint256 _surveyId) {
-        require(surveys[_surveyId].active, "Survey not active");
-        require(block.timestamp <= surveys[_surveyId].endTime, "Survey expired");
+        _requireActive(_surveyId);
         _;
     }
 
     constructor() {
         owner = msg.sender;
+        minResponsesFloor = DEFAULT_MIN_RESPONSES_FLOOR;
+        organizations = new OrganizationRegistry();
+        directory = new SurveyDirectory(address(this));
     }
 
     /**
      * @notice Create a new employee satisfaction survey
-     * @dev Creates a new survey with specified questions and duration
-     * @param _title Survey title
-     * @param _description Survey description
-     * @param _questions Array of question strings
-     * @param _durationDays Survey duration in days
+     * @dev Creates a new survey with specified questions and schedule. A start time in the past opens
+     * the survey straight away, so 0 means "now". The title, description and question texts live in
+     * an off-chain JSON document; only its hash is stored, and readers refuse documents that do not match it
+     * @param _contentHash keccak256 of the survey's content document
+     * @param _questionConfigs Answer type and range of each question, in the document's question order
+     * @param _startTime Timestamp responses are accepted from
+     * @param _endTime Timestamp of the last second responses are accepted
+     * @param _minResponses Responses required before results can be revealed (at least minResponsesFloor)
+     * @param _eligibilityRoot Merkle root of the addresses allowed to respond, or zero for an open survey
+     * @param _ticketIssuer Big-endian 2048-bit RSA modulus (public exponent TICKET_EXPONENT) of the key that
+     * blind-signs the survey's tickets, one no other survey uses; empty for an open survey
+     * @param _segments Segment labels, e.g. departments, respondents pick one of; empty for no segments
+     * @param _organizationId Organisation the survey is for (the caller must be one of its authors), or zero
      * @return surveyId The ID of the newly created survey
      */
     function createSurvey(
-        string memory _title,
-        string memory _description,
-        string[] memory _questions,
-        uint256 _durationDays
-    ) external returns (uint256) {
-        require(bytes(_title).length > 0, "Title cannot be empty");
-        require(_questions.length > 0, "Must have at least one question");
-        require(_durationDays > 0, "Duration must be positive");
+        bytes32 _contentHash,
+        QuestionConfig[] calldata _questionConfigs,
+        uint256 _startTime,
+        uint256 _endTime,
+        uint256 _minResponses,
+        bytes32 _eligibilityRoot,
+        bytes calldata _ticketIssuer,
+        string[] memory _segments,
+        uint256 _organizationId
+    ) external returns (uint256 surveyId) {
+        require(_contentHash != bytes32(0), "Content hash required");
+        require(_questionConfigs.length > 0, "Must have at least one question");
+        require(_endTime > _startTime && _endTime > block.timestamp, "End must be after start");
+        require(_minResponses >= minResponsesFloor, "Minimum responses below floor");
+        require(_segments.length <= MAX_SEGMENTS, "Too many segments");
+        require(
+            _organizationId == 0 || organizations.hasRole(_organizationId, OrganizationRegistry.Role.Author, msg.sender),
+            "Not organization author"
+        );
 
         surveyCounter++;
-        uint256 surveyId = surveyCounter;
+        surveyId = surveyCounter;
 
         Survey storage newSurvey = surveys[surveyId];
         newSurvey.creator = msg.sender;
-        newSurvey.title = _title;
-        newSurvey.description = _description;
-        newSurvey.startTime = block.timestamp;
-        newSurvey.endTime = block.timestamp + (_durationDays * 1 days);
+        newSurvey.contentHash = _contentHash;
+        newSurvey.startTime = _startTime > block.timestamp ? _startTime : block.timestamp;
+        newSurvey.endTime = _endTime;
         newSurvey.active = true;
         newSurvey.resultsPublished = false;
         newSurvey.totalResponses = 0;
+        newSurvey.minResponses = _minResponses;
+        newSurvey.eligibilityRoot = _eligibilityRoot;
+        newSurvey.segments = _segments;
+        newSurvey.organizationId = _organizationId;
+        _storeQuestions(newSurvey, _questionConfigs);
+        _storeTicketIssuer(surveyId, _eligibilityRoot, _ticketIssuer);
 
-        // Store questions
-        for (uint256 i = 0; i < _questions.length; i++) {
-            newSurvey.questions.push(_questions[i]);
+        emit SurveyCreated(surveyId, msg.sender, _contentHash, newSurvey.startTime, _endTime);
+    }
+
+    /// @dev Stores each question's config, pinning yes/no questions to 0-1, once the segments are stored,
+    /// and checks a response to them fits in one transaction (see MAX_RESPONSE_COST)
+    function _storeQuestions(Survey storage survey, QuestionConfig[] calldata _questionConfigs) private {
+        uint256 responseCost = survey.segments.length * _questionConfigs.length;
+        for (uint256 i = 0; i < _questionConfigs.length; i++) {
+            QuestionConfig memory config = _questionConfigs[i];
+            if (config.questionType == QuestionType.YesNo) {
+                config.minValue = 0;
+                config.maxValue = 1;
+                survey.yesNoQuestions++;
+                responseCost += 2;
+            } else {
+                require(
+                    config.minValue < config.maxValue && config.maxValue - config.minValue < MAX_ANSWER_BUCKETS,
+                    "Invalid answer range"
+                );
+                responseCost += uint256(config.maxValue - config.minValue) + 2;
+            }
+            survey.questionConfigs.push(config);
         }
+        require(responseCost <= MAX_RESPONSE_COST, "Too many answers for one transaction");
+    }
 
-        emit SurveyCreated(surveyId, msg.sender, _title, newSurvey.endTime);
-        return surveyId;
+    /**
+     * @dev Stores an invite-only survey's ticket issuer key. Tickets carry no survey id, since the issuer
+     * signs them blind, so a key used by two surveys would let one roster answer the other.
+     */
+    function _storeTicketIssuer(uint256 _surveyId, bytes32 _eligibilityRoot, bytes calldata _modulus) private {
+        if (_eligibilityRoot == bytes32(0)) {
+            require(_modulus.length == 0, "Open surveys take no ticket issuer");
+            return;
+        }
+        require(_modulus.length == TICKET_BYTES && uint8(_modulus[0]) >= 0x80, "Invalid ticket issuer key");
+        bytes32 modulusHash = keccak256(_modulus);
+        require(!ticketIssuerUsed[modulusHash], "Ticket issuer key already used");
+        ticketIssuerUsed[modulusHash] = true;
+        ticketIssuers[_surveyId] = _modulus;
     }
 
     /**
-     * @notice Submit encrypted survey responses (1-5 star ratings)
+     * @notice Submit encrypted survey responses
      * @dev This demonstrates how to handle encrypted user input in FHEVM
      *
      * FHEVM Concept: Encrypted Input & Access Control
-     * - Each rating is converted to euint8 (encrypted 8-bit unsigned integer)
+     * - Scale answers arrive as externalEuint8 handles and yes/no answers as externalEbool handles,
+     *   all covered by the same input proof
+     * - FHE.fromExternal() verifies each handle against the input proof and returns an euint8 or ebool
+     * - Scale answers are clamped into the question's range homomorphically, so an out-of-range value
+     *   never causes a revert that would reveal something about the plaintext
+     * - Each answer is added to the question's euint32 running total (a yes counts as one), so
+     *   revealing a result later costs the same number of FHE operations however many employees respond
+     * - FHE.eq() and FHE.select() add one to the histogram bucket matching the answer
+     *   and zero to every other bucket, so the distribution is built without decrypting
      * - FHE.allowThis() grants the contract permission to use the encrypted value
-     * - FHE.allow() grants the respondent permission to decrypt their own response
+     * - FHE.allow() grants the respondent key permission to decrypt the respondent's own answers. The
+     *   sender may be a relayer, and an ACL entry for the respondent's address would name them
+     * - In a segmented survey the respondent's segment index is encrypted too, and every segment's
+     *   totals get FHE.select(segment == s, answer, 0) added, so nobody learns which segment grew
      *
-     * Privacy Guarantee: Individual ratings remain encrypted and cannot be viewed by anyone
+     * Unlinkability: the answers are signed (EIP-712) by the respondent key, a key the respondent derives
+     * from a wallet signature for each survey, and a relayer sends the transaction, encrypting for the
+     * relayer's address. The nullifier is derived from that key, so storage, events and calldata hold no
+     * value computable from the respondent's address. Invite-only surveys take a ticket the issuer
+     * blind-signed with the survey's own key after checking the roster: the issuer saw who asked, but not
+     * which nullifier it signed.
+     *
+     * Privacy Guarantee: Individual answers never appear in calldata and cannot be viewed by anyone
      * until aggregated results are computed and decrypted by the survey creator
      *
      * @param _surveyId Survey ID
-     * @param _ratings Array of ratings (1-5 scale) that will be encrypted
+     * @param _encryptedRatings Encrypted scale answers, one per Scale question in question order
+     * @param _encryptedYesNo Encrypted yes/no answers, one per YesNo question in question order
+     * @param _encryptedSegment Encrypted index into the survey's segments, ignored when it has none
+     * @param _inputProof Proof binding the encrypted handles to this contract and the sender
+     * @param _authorization Respondent key's nullifier and signature, plus a ticket for invite-only surveys
      */
     function submitResponse(
         uint256 _surveyId,
-        uint8[] memory _ratings
+        externalEuint8[] calldata _encryptedRatings,
+        externalEbool[] calldata _encryptedYesNo,
+        externalEuint8 _encryptedSegment,
+        bytes calldata _inputProof,
+        ResponseAuthorization calldata _authorization
     ) external surveyActive(_surveyId) {
         Survey storage survey = surveys[_surveyId];
-        require(!survey.hasResponded[msg.sender], "Already responded");
-        require(_ratings.length == survey.questions.length, "Answer count mismatch");
+        address respondentKey = _recoverRespondent(
+            _surveyId,
+            _encryptedRatings,
+            _encryptedYesNo,
+            _encryptedSegment,
+            _inputProof,
+            _authorization.signature
+        );
+        bytes32 nullifier = _respondentNullifier(_surveyId, respondentKey, _authorization.nullifier);
+        require(survey.responseNumbers[nullifier] == 0, "Already responded");
+        require(
+            survey.eligibilityRoot == bytes32(0) || _validTicket(_surveyId, nullifier, _authorization.ticket),
+            "Not eligible for this survey"
+        );
+        _requireAnswerCounts(survey, _encryptedRatings.length, _encryptedYesNo.length);
 
-        // Validate and encrypt each rating
-        for (uint256 i = 0; i < _ratings.length; i++) {
-            uint8 rating = _ratings[i];
-            require(rating >= 1 && rating <= 5, "Rating must be between 1-5");
+        _recordAnswers(survey, _encryptedRatings, _encryptedYesNo, _inputProof);
+        if (survey.segments.length > 0) {
+            // FHEVM Operation: An out-of-range index counts towards the last segment instead of reverting
+            euint8 segment = FHE.fromExternal(_encryptedSegment, _inputProof);
+            segment = FHE.min(segment, uint8(survey.segments.length - 1));
+            FHE.allowThis(segment);
+            survey.encryptedSegments.push(segment);
+            _tallySegments(survey, survey.totalResponses, new euint32[](0));
+        }
 
-            // FHEVM Operation: Encrypt the rating
-            euint8 encryptedRating = FHE.asEuint8(rating);
+        survey.totalResponses++;
+        survey.responseNumbers[nullifier] = survey.totalResponses;
+        _allowViewer(survey, survey.totalResponses - 1, respondentKey);
 
-            // Store the encrypted response
-            survey.encryptedResponses[i].push(encryptedRating);
+        emit ResponseSubmitted(_surveyId, nullifier, block.timestamp);
+    }
+
+    /**
+     * @notice Replace a response's answers while the survey is open
+     * @dev FHEVM Concept: Homomorphic Update
+     * - The previous encrypted answers are still stored, so each running total gets the new answer
+     *   added and the previous one subtracted, and each histogram bucket gets +1 for the new answer's
+     *   value and -1 for the previous one's, all without decrypting anything
+     * - totalResponses does not change, the respondent is still counted once
+     * - The new answers are allowed to the respondent key that signs the revision
+     * - The response keeps its segment; the segment totals move from the previous answers to the new ones
+     * - Like submitResponse, the revision is signed by the respondent key and may be sent by a relayer
+     *
+     * @param _surveyId Survey ID
+     * @param _encryptedRatings New scale answers, one per Scale question in question order
+     * @param _encryptedYesNo New yes/no answers, one per YesNo question in question order
+     * @param _inputProof Proof binding the encrypted handles to this contract and the sender
+     * @param _authorization Respondent key's nullifier, revision number and signature
+     */
+    function reviseResponse(
+        uint256 _surveyId,
+        externalEuint8[] calldata _encryptedRatings,
+        externalEbool[] calldata _encryptedYesNo,
+        bytes calldata _inputProof,
+        RevisionAuthorization calldata _authorization
+    ) external surveyActive(_surveyId) {
+        Survey storage survey = surveys[_surveyId];
+        address respondentKey = _recoverReviser(
+            _surveyId,
+            _encryptedRatings,
+            _encryptedYesNo,
+            _inputProof,
+            _authorization
+        );
+        bytes32 nullifier = _respondentNullifier(_surveyId, respondentKey, _authorization.nullifier);
+        uint256 responseNumber = survey.responseNumbers[nullifier];
+        require(responseNumber != 0, "No response to revise");
+        require(_authorization.revision == survey.revisions[nullifier] + 1, "Stale revision");
+        _requireAnswerCounts(survey, _encryptedRatings.length, _encryptedYesNo.length);
 
-            // FHEVM Access Control: Set permissions for the encrypted value
-            FHE.allowThis(encryptedRating);  // Contract can use this value
-            FHE.allow(encryptedRating, msg.sender);  // Respondent can decrypt their own response
+        // Segment totals need the answers being replaced, so read them before they are swapped out
+        euint32[] memory previous =
+            survey.segments.length > 0 ? _answerValues(survey, responseNumber - 1) : new euint32[](0);
+        _reviseAnswers(survey, responseNumber - 1, _encryptedRatings, _encryptedYesNo, _inputProof);
+        if (previous.length > 0) {
+            _tallySegments(survey, responseNumber - 1, previous);
         }
+        _allowViewer(survey, responseNumber - 1, respondentKey);
 
-        survey.hasResponded[msg.sender] = true;
-        survey.totalResponses++;
-        survey.respondents.push(msg.sender);
+        survey.revisions[nullifier] = _authorization.revision;
+
+        emit ResponseRevised(_surveyId, nullifier, _authorization.revision, block.timestamp);
+    }
+
+    /**
+     * @notice Nullifier that marks a respondent as done with a survey
+     * @dev Derived from the respondent key, which only the respondent can derive from their wallet, so it
+     * cannot be matched against a list of employee addresses. Bound to this contract so it differs between deployments
+     * @param _respondentKey Address of the key that signs the respondent's answers to this survey
+     */
+    function responseNullifier(uint256 _surveyId, address _respondentKey) public view returns (bytes32) {
+        return keccak256(abi.encode(address(this), _surveyId, _respondentKey));
+    }
+
+    /**
+     * @notice What the ticket issuer signs for a response: the nullifier stretched to 2048 bits with
+     * keccak256, its top byte cleared so it is below the issuer's modulus
+     */
+    function ticketMessage(bytes32 _nullifier) public pure returns (bytes memory message) {
+        for (uint256 i = 0; i < TICKET_BYTES / 32; i++) {
+            message = bytes.concat(message, keccak256(abi.encode(_nullifier, i)));
+        }
+        message[0] = 0;
+    }
+
+    /**
+     * @notice EIP-712 domain separator of signed responses
+     */
+    function domainSeparator() public view returns (bytes32) {
+        return keccak256(
+            abi.encode(
+                DOMAIN_TYPEHASH,
+                keccak256("EmployeePrivacySurvey"),
+                keccak256("1"),
+                block.chainid,
+                address(this)
+            )
+        );
+    }
+
+    /**
+     * @dev The claimed nullifier, reverting unless it is the nullifier of the key the signature recovered to.
+     * Any change to the signed answers recovers a different key, so the check catches them too.
+     */
+    function _respondentNullifier(
+        uint256 _surveyId,
+        address _respondentKey,
+        bytes32 _nullifier
+    ) private view returns (bytes32) {
+        require(
+            _respondentKey != address(0) && responseNullifier(_surveyId, _respondentKey) == _nullifier,
+            "Invalid response signature"
+        );
+        return _nullifier;
+    }
+
+    /**
+     * @dev Whether the ticket is the survey's issuer's RSA signature over the nullifier's ticket message.
+     * The modexp precompile (0x05) computes ticket^TICKET_EXPONENT mod modulus.
+     */
+    function _validTicket(uint256 _surveyId, bytes32 _nullifier, bytes calldata _ticket) private view returns (bool) {
+        bytes memory modulus = ticketIssuers[_surveyId];
+        if (modulus.length == 0 || _ticket.length != TICKET_BYTES) {
+            return false;
+        }
+        (bool ok, bytes memory signed) = address(0x05).staticcall(
+            abi.encodePacked(TICKET_BYTES, uint256(32), TICKET_BYTES, _ticket, TICKET_EXPONENT, modulus)
+        );
+        return ok && keccak256(signed) == keccak256(ticketMessage(_nullifier));
+    }
+
+    /**
+     * @dev Reverts unless there is one answer per question, yes/no questions answered with an ebool
+     */
+    function _requireAnswerCounts(Survey storage survey, uint256 _ratings, uint256 _yesNo) private view {
+        require(
+            _yesNo == survey.yesNoQuestions && _ratings + _yesNo == survey.questionConfigs.length,
+            "Answer count mismatch"
+        );
+    }
+
+    /**
+     * @dev Respondent key that signed the response, or zero when the signature is malformed
+     */
+    function _recoverRespondent(
+        uint256 _surveyId,
+        externalEuint8[] calldata _encryptedRatings,
+        externalEbool[] calldata _encryptedYesNo,
+        externalEuint8 _encryptedSegment,
+        bytes calldata _inputProof,
+        bytes calldata _signature
+    ) private view returns (address) {
+        bytes32 structHash = keccak256(
+            abi.encode(
+                RESPONSE_TYPEHASH,
+                _surveyId,
+                keccak256(abi.encodePacked(_encryptedRatings)),
+                keccak256(abi.encodePacked(_encryptedYesNo)),
+                _encryptedSegment,
+                keccak256(_inputProof)
+            )
+        );
+        return _recoverSigner(structHash, _signature);
+    }
+
+    /**
+     * @dev Respondent key that signed the revision, or zero when the signature is malformed
+     */
+    function _recoverReviser(
+        uint256 _surveyId,
+        externalEuint8[] calldata _encryptedRatings,
+        externalEbool[] calldata _encryptedYesNo,
+        bytes calldata _inputProof,
+        RevisionAuthorization calldata _authorization
+    ) private view returns (address) {
+        bytes32 structHash = keccak256(
+            abi.encode(
+                REVISION_TYPEHASH,
+                _surveyId,
+                _authorization.revision,
+                keccak256(abi.encodePacked(_encryptedRatings)),
+                keccak256(abi.encodePacked(_encryptedYesNo)),
+                keccak256(_inputProof)
+            )
+        );
+        return _recoverSigner(structHash, _authorization.signature);
+    }
+
+    /**
+     * @dev Signer of an EIP-712 struct hash in this contract's domain, or zero when the signature is malformed
+     */
+    function _recoverSigner(bytes32 _structHash, bytes calldata _signature) private view returns (address) {
+        bytes32 digest = keccak256(abi.encodePacked("\x19\x01", domainSeparator(), _structHash));
+        if (_signature.length != 65) {
+            return address(0);
+        }
+        bytes32 r = bytes32(_signature[0:32]);
+        bytes32 s = bytes32(_signature[32:64]);
+        if (uint256(s) > MAX_SIGNATURE_S) {
+            return address(0);
+        }
+        return ecrecover(digest, uint8(_signature[64]), r, s);
+    }
+
+    /**
+     * @dev Verify each encrypted answer against the input proof and fold it into its question's aggregates
+     */
+    function _recordAnswers(
+        Survey storage survey,
+        externalEuint8[] calldata _encryptedRatings,
+        externalEbool[] calldata _encryptedYesNo,
+        bytes calldata _inputProof
+    ) private {
+        euint32 one = FHE.asEuint32(1);
+        euint32 zero = FHE.asEuint32(0);
+        uint256 nextRating; // questions answered so far minus nextRating is the next yes/no index
+
+        for (uint256 i = 0; i < survey.questionConfigs.length; i++) {
+            if (survey.questionConfigs[i].questionType == QuestionType.YesNo) {
+                _recordYesNo(survey, i, FHE.fromExternal(_encryptedYesNo[i - nextRating], _inputProof), one, zero);
+            } else {
+                _recordScale(survey, i, FHE.fromExternal(_encryptedRatings[nextRating++], _inputProof), one, zero);
+            }
+        }
+    }
+
+    /**
+     * @dev FHEVM Access Control: let the respondent key decrypt the stored answers of a response
+     */
+    function _allowViewer(Survey storage survey, uint256 _responseIndex, address _viewer) private {
+        for (uint256 i = 0; i < survey.questionConfigs.length; i++) {
+            if (survey.questionConfigs[i].questionType == QuestionType.YesNo) {
+                FHE.allow(survey.encryptedYesNoAnswers[i][_responseIndex], _viewer);
+            } else {
+                FHE.allow(survey.encryptedResponses[i][_responseIndex], _viewer);
+            }
+        }
+    }
+
+    /**
+     * @dev Each answer of a response as an euint32 (yes = 1), the form the segment totals add up
+     */
+    function _answerValues(Survey storage survey, uint256 _responseIndex) private returns (euint32[] memory values) {
+        values = new euint32[](survey.questionConfigs.length);
+        for (uint256 i = 0; i < values.length; i++) {
+            values[i] = survey.questionConfigs[i].questionType == QuestionType.YesNo
+                ? FHE.select(survey.encryptedYesNoAnswers[i][_responseIndex], FHE.asEuint32(1), FHE.asEuint32(0))
+                : FHE.asEuint32(survey.encryptedResponses[i][_responseIndex]);
+        }
+    }
+
+    /**
+     * @dev Add a response's answers to its segment's totals without learning the segment. A new response
+     * (no previous answers) is also counted; a revision subtracts the answers it replaces.
+     */
+    function _tallySegments(Survey storage survey, uint256 _responseIndex, euint32[] memory _previous) private {
+        euint32 one = FHE.asEuint32(1);
+        euint32 zero = FHE.asEuint32(0);
+        euint32[] memory current = _answerValues(survey, _responseIndex);
+        euint8 segment = survey.encryptedSegments[_responseIndex];
+
+        for (uint8 s = 0; s < survey.segments.length; s++) {
+            // FHEVM Operation: Every segment is updated, with zero added to all but the respondent's
+            ebool inSegment = FHE.eq(segment, s);
+            if (_previous.length == 0) {
+                survey.segmentCounts[s] = FHE.add(survey.segmentCounts[s], FHE.select(inSegment, one, zero));
+                FHE.allowThis(survey.segmentCounts[s]);
+            }
+            for (uint256 i = 0; i < current.length; i++) {
+                euint32 total = FHE.add(survey.segmentTotals[i][s], FHE.select(inSegment, current[i], zero));
+                if (_previous.length > 0) {
+                    total = FHE.sub(total, FHE.select(inSegment, _previous[i], zero));
+                }
+                survey.segmentTotals[i][s] = total;
+                FHE.allowThis(total);
+            }
+        }
+    }
+
+    /**
+     * @dev Verify a Merkle proof for an address. Leaves are keccak256(keccak256(abi.encode(account)))
+     * and pairs are hashed in sorted order, the same layout as OpenZeppelin's StandardMerkleTree.
+     */
+    function _verifyEligibility(bytes32 _root, address _account, bytes32[] calldata _proof)
+        private
+        pure
+        returns (bool)
+    {
+        bytes32 node = keccak256(bytes.concat(keccak256(abi.encode(_account))));
+        for (uint256 i = 0; i < _proof.length; i++) {
+            bytes32 sibling = _proof[i];
+            node = node < sibling
+                ? keccak256(abi.encodePacked(node, sibling))
+                : keccak256(abi.encodePacked(sibling, node));
+        }
+        return node == _root;
+    }
+
+    /**
+     * @dev Clamp a verified scale answer into its range and fold it into the question's aggregates
+     */
+    function _recordScale(Survey storage survey, uint256 _questionId, euint8 _answer, euint32 _one, euint32 _zero)
+        private
+    {
+        QuestionConfig storage config = survey.questionConfigs[_questionId];
+
+        // FHEVM Operation: Keep the answer within the question's range without learning its value
+        euint8 answer = FHE.min(FHE.max(_answer, config.minValue), config.maxValue);
+
+        // Store the encrypted response
+        survey.encryptedResponses[_questionId].push(answer);
+
+        // FHEVM Operation: Update the running total in a type wide enough for any company size
+        survey.encryptedTotals[_questionId] = FHE.add(survey.encryptedTotals[_questionId], answer);
+        FHE.allowThis(survey.encryptedTotals[_questionId]);
+
+        // FHEVM Operation: Count the answer in its histogram bucket without learning which one
+        euint32[MAX_ANSWER_BUCKETS] storage histogram = survey.encryptedHistograms[_questionId];
+        for (uint8 bucket = 0; bucket <= config.maxValue - config.minValue; bucket++) {
+            ebool matches = FHE.eq(answer, config.minValue + bucket);
+            histogram[bucket] = FHE.add(histogram[bucket], FHE.select(matches, _one, _zero));
+            FHE.allowThis(histogram[bucket]);
+        }
+
+        // FHEVM Access Control: Only the contract can use the stored answer
+        FHE.allowThis(answer);
+    }
+
+    /**
+     * @dev Fold a verified yes/no answer into the question's aggregates; any ebool is in range
+     */
+    function _recordYesNo(Survey storage survey, uint256 _questionId, ebool _answer, euint32 _one, euint32 _zero)
+        private
+    {
+        survey.encryptedYesNoAnswers[_questionId].push(_answer);
+
+        // FHEVM Operation: The running total counts yes answers
+        euint32 yes = FHE.select(_answer, _one, _zero);
+        survey.encryptedTotals[_questionId] = FHE.add(survey.encryptedTotals[_questionId], yes);
+        FHE.allowThis(survey.encryptedTotals[_questionId]);
+
+        // Bucket 0 counts no answers, bucket 1 counts yes answers
+        euint32[MAX_ANSWER_BUCKETS] storage histogram = survey.encryptedHistograms[_questionId];
+        histogram[0] = FHE.add(histogram[0], FHE.select(_answer, _zero, _one));
+        histogram[1] = FHE.add(histogram[1], yes);
+        FHE.allowThis(histogram[0]);
+        FHE.allowThis(histogram[1]);
 
-        emit ResponseSubmitted(_surveyId, msg.sender, block.timestamp);
+        FHE.allowThis(_answer);
+    }
+
+    /**
+     * @dev Verify each new answer against the input proof and swap it for the response's previous answer
+     */
+    function _reviseAnswers(
+        Survey storage survey,
+        uint256 _responseIndex,
+        externalEuint8[] calldata _encryptedRatings,
+        externalEbool[] calldata _encryptedYesNo,
+        bytes calldata _inputProof
+    ) private {
+        euint32 one = FHE.asEuint32(1);
+        euint32 zero = FHE.asEuint32(0);
+        uint256 nextRating;
+
+        for (uint256 i = 0; i < survey.questionConfigs.length; i++) {
+            if (survey.questionConfigs[i].questionType == QuestionType.YesNo) {
+                ebool answer = FHE.fromExternal(_encryptedYesNo[i - nextRating], _inputProof);
+                _reviseYesNo(survey, i, _responseIndex, answer, one, zero);
+            } else {
+                euint8 answer = FHE.fromExternal(_encryptedRatings[nextRating++], _inputProof);
+                _reviseScale(survey, i, _responseIndex, answer, one, zero);
+            }
+        }
+    }
+
+    /**
+     * @dev Replace a stored scale answer, moving the aggregates from the previous value to the new one
+     */
+    function _reviseScale(
+        Survey storage survey,
+        uint256 _questionId,
+        uint256 _responseIndex,
+        euint8 _answer,
+        euint32 _one,
+        euint32 _zero
+    ) private {
+        QuestionConfig storage config = survey.questionConfigs[_questionId];
+        euint8 answer = FHE.min(FHE.max(_answer, config.minValue), config.maxValue);
+        euint8 previous = survey.encryptedResponses[_questionId][_responseIndex];
+        survey.encryptedResponses[_questionId][_responseIndex] = answer;
+
+        // FHEVM Operation: Adding before subtracting keeps the euint32 total from ever going below zero
+        survey.encryptedTotals[_questionId] = FHE.sub(FHE.add(survey.encryptedTotals[_questionId], answer), previous);
+        FHE.allowThis(survey.encryptedTotals[_questionId]);
+
+        // FHEVM Operation: One more in the new answer's bucket, one less in the previous answer's
+        euint32[MAX_ANSWER_BUCKETS] storage histogram = survey.encryptedHistograms[_questionId];
+        for (uint8 bucket = 0; bucket <= config.maxValue - config.minValue; bucket++) {
+            uint8 value = config.minValue + bucket;
+            euint32 added = FHE.add(histogram[bucket], FHE.select(FHE.eq(answer, value), _one, _zero));
+            histogram[bucket] = FHE.sub(added, FHE.select(FHE.eq(previous, value), _one, _zero));
+            FHE.allowThis(histogram[bucket]);
+        }
+
+        FHE.allowThis(answer);
+    }
+
+    /**
+     * @dev Replace a stored yes/no answer; a changed answer moves one count between the yes and no buckets
+     */
+    function _reviseYesNo(
+        Survey storage survey,
+        uint256 _questionId,
+        uint256 _responseIndex,
+        ebool _answer,
+        euint32 _one,
+        euint32 _zero
+    ) private {
+        ebool previous = survey.encryptedYesNoAnswers[_questionId][_responseIndex];
+        survey.encryptedYesNoAnswers[_questionId][_responseIndex] = _answer;
+
+        euint32 yes = FHE.select(_answer, _one, _zero);
+        euint32 wasYes = FHE.select(previous, _one, _zero);
+        survey.encryptedTotals[_questionId] = FHE.sub(FHE.add(survey.encryptedTotals[_questionId], yes), wasYes);
+        FHE.allowThis(survey.encryptedTotals[_questionId]);
+
+        euint32[MAX_ANSWER_BUCKETS] storage histogram = survey.encryptedHistograms[_questionId];
+        histogram[0] = FHE.sub(FHE.add(histogram[0], wasYes), yes);
+        histogram[1] = FHE.sub(FHE.add(histogram[1], yes), wasYes);
+        FHE.allowThis(histogram[0]);
+        FHE.allowThis(histogram[1]);
+
+        FHE.allowThis(_answer);
     }
 
     /**
      * @notice Get survey information
      * @param _surveyId Survey ID
      * @return creator Survey creator address
-     * @return title Survey title
-     * @return description Survey description
+     * @return contentHash keccak256 of the content document with the title, description and question texts
      * @return startTime Survey start timestamp
      * @return endTime Survey end timestamp
-     * @return active Whether survey is active
+     * @return active Whether survey is active; false once closed by its creator or past endTime
      * @return resultsPublished Whether results have been published
      * @return totalResponses Number of responses received
      */
     function getSurvey(uint256 _surveyId) external view returns (
         address creator,
-        string memory title,
-        string memory description,
+        bytes32 contentHash,
         uint256 startTime,
         uint256 endTime,
         bool active,
@@ -210,33 +906,115 @@ contract EmployeePrivacySurvey is SepoliaConfig {
         Survey storage survey = surveys[_surveyId];
         return (
             survey.creator,
-            survey.title,
-            survey.description,
+            survey.contentHash,
             survey.startTime,
             survey.endTime,
-            survey.active,
+            !_isClosed(survey),
             survey.resultsPublished,
             survey.totalResponses
         );
     }
 
     /**
-     * @notice Get survey questions
+     * @notice Get the Merkle root of a survey's invited respondents
+     * @param _surveyId Survey ID
+     * @return Roster root, zero when anyone may respond
+     */
+    function getEligibilityRoot(uint256 _surveyId) external view returns (bytes32) {
+        return surveys[_surveyId].eligibilityRoot;
+    }
+
+    /**
+     * @notice Record which template version a survey was created from (only creator, once)
+     * @dev Surveys built from the same template version ask the same questions, so their results can
+     * be compared over time
+     * @param _surveyId Survey ID
+     * @param _template Template id and version as a short string, e.g. "employee-satisfaction@2"
+     */
+    function recordTemplate(uint256 _surveyId, bytes32 _template) external onlySurveyCreator(_surveyId) {
+        require(surveyTemplates[_surveyId] == bytes32(0), "Template already recorded");
+        surveyTemplates[_surveyId] = _template;
+        emit SurveyTemplateRecorded(_surveyId, _template);
+    }
+
+    /**
+     * @notice Get the organisation a survey was created for
+     * @param _surveyId Survey ID
+     * @return Organisation ID in `organizations`, zero for a personal survey
+     */
+    function getSurveyOrganization(uint256 _surveyId) external view returns (uint256) {
+        return surveys[_surveyId].organizationId;
+    }
+
+    /**
+     * @notice Check whether an address may respond to a survey with the given proof
+     * @dev The ticket issuer checks this before signing a ticket; responses themselves carry no proof
+     * @param _surveyId Survey ID
+     * @param _account Respondent address
+     * @param _proof Merkle proof for the account's roster entry
+     * @return True for open surveys or when the proof matches the survey's roster
+     */
+    function isEligible(uint256 _surveyId, address _account, bytes32[] calldata _proof) external view returns (bool) {
+        bytes32 root = surveys[_surveyId].eligibilityRoot;
+        return root == bytes32(0) || _verifyEligibility(root, _account, _proof);
+    }
+
+    /**
+     * @notice Get the segment labels of a survey
+     * @param _surveyId Survey ID
+     * @return Segment labels, in index order; empty for an unsegmented survey
+     */
+    function getSegments(uint256 _surveyId) external view returns (string[] memory) {
+        return surveys[_surveyId].segments;
+    }
+
+    /**
+     * @notice Get the answer type and range of every question
+     * @param _surveyId Survey ID
+     * @return Array of question configs, in question order
+     */
+    function getQuestionConfigs(uint256 _surveyId) external view returns (QuestionConfig[] memory) {
+        return surveys[_surveyId].questionConfigs;
+    }
+
+    /**
+     * @notice Check if a response with this nullifier was submitted
      * @param _surveyId Survey ID
-     * @return Array of question strings
+     * @param _nullifier responseNullifier of the respondent key
+     * @return Whether the respondent has responded
      */
-    function getSurveyQuestions(uint256 _surveyId) external view returns (string[] memory) {
-        return surveys[_surveyId].questions;
+    function hasResponded(uint256 _surveyId, bytes32 _nullifier) external view returns (bool) {
+        return surveys[_surveyId].responseNumbers[_nullifier] != 0;
     }
 
     /**
-     * @notice Check if employee has responded
+     * @notice How many times a response was revised; the next revision must be this plus one
      * @param _surveyId Survey ID
-     * @param _employee Employee address
-     * @return Whether the employee has responded
+     * @param _nullifier responseNullifier of the respondent key
      */
-    function hasResponded(uint256 _surveyId, address _employee) external view returns (bool) {
-        return surveys[_surveyId].hasResponded[_employee];
+    function getRevisionCount(uint256 _surveyId, bytes32 _nullifier) external view returns (uint256) {
+        return surveys[_surveyId].revisions[_nullifier];
+    }
+
+    /**
+     * @notice A response's encrypted answers, for user decryption with the respondent key
+     * @dev FHEVM Concept: User Decryption. Handles are not secret, the ACL decides who can decrypt them.
+     * @param _surveyId Survey ID
+     * @param _nullifier responseNullifier of the respondent key
+     * @return One handle per question in question order (euint8 for scale questions, ebool for yes/no)
+     */
+    function getAnswers(uint256 _surveyId, bytes32 _nullifier) external view returns (bytes32[] memory) {
+        Survey storage survey = surveys[_surveyId];
+        uint256 responseNumber = survey.responseNumbers[_nullifier];
+        require(responseNumber != 0, "No response");
+
+        bytes32[] memory handles = new bytes32[](survey.questionConfigs.length);
+        for (uint256 i = 0; i < handles.length; i++) {
+            handles[i] = survey.questionConfigs[i].questionType == QuestionType.YesNo
+                ? ebool.unwrap(survey.encryptedYesNoAnswers[i][responseNumber - 1])
+                : euint8.unwrap(survey.encryptedResponses[i][responseNumber - 1]);
+        }
+        return handles;
     }
 
     /**
@@ -253,20 +1031,52 @@ contract EmployeePrivacySurvey is SepoliaConfig {
      */
     function closeSurvey(uint256 _surveyId) external onlySurveyCreator(_surveyId) {
         surveys[_surveyId].active = false;
+        emit SurveyClosed(_surveyId, block.timestamp);
     }
 
     /**
-     * @notice Publish results and enable decryption (only creator)
-     * @dev This marks the survey as ready for result computation
+     * @notice Publish results and enable decryption
+     * @dev This marks the survey as ready for result computation. Results stay locked until the
+     * survey has collected its minimum number of responses, so no aggregate can single out a respondent.
+     * The creator may publish once they closed the survey; after endTime anyone may, e.g. a keeper,
+     * since the responses can no longer change and decryption requests stay with the creator
      * @param _surveyId Survey ID
      */
-    function publishResults(uint256 _surveyId) external onlySurveyCreator(_surveyId) {
-        require(!surveys[_surveyId].active, "Survey still active");
-        require(!surveys[_surveyId].resultsPublished, "Results already published");
-        require(surveys[_surveyId].totalResponses > 0, "No responses");
+    function publishResults(uint256 _surveyId) external {
+        Survey storage survey = surveys[_surveyId];
+        bool expired = block.timestamp > survey.endTime;
+        require(expired || survey.creator == msg.sender, "Not survey creator");
+        require(expired || !survey.active, "Survey still active");
+        require(!survey.resultsPublished, "Results already published");
+        require(survey.totalResponses > 0, "No responses");
+        require(getResponsesNeeded(_surveyId) == 0, "Not enough responses");
 
-        surveys[_surveyId].resultsPublished = true;
-        emit ResultsPublished(_surveyId, surveys[_surveyId].totalResponses);
+        survey.resultsPublished = true;
+        emit ResultsPublished(_surveyId, survey.totalResponses);
+    }
+
+    /// @dev Open and within its schedule; a function rather than inline modifier code to keep the contract small
+    function _requireActive(uint256 _surveyId) private view {
+        require(surveys[_surveyId].active, "Survey not active");
+        require(block.timestamp >= surveys[_surveyId].startTime, "Survey not started");
+        require(block.timestamp <= surveys[_surveyId].endTime, "Survey expired");
+    }
+
+    /// @dev Who may request decryptions: the creator and the analysts of the survey's organisation
+    function _requireResultReader(uint256 _surveyId) private view {
+        Survey storage survey = surveys[_surveyId];
+        require(
+            survey.creator == msg.sender || (
+                survey.organizationId != 0 &&
+                organizations.hasRole(survey.organizationId, OrganizationRegistry.Role.Analyst, msg.sender)
+            ),
+            "Not survey creator or analyst"
+        );
+    }
+
+    /// @dev Closed by its creator or past its end time; either way it takes no more responses
+    function _isClosed(Survey storage survey) private view returns (bool) {
+        return !survey.active || block.timestamp > survey.endTime;
     }
 
     /**
@@ -274,15 +1084,15 @@ contract EmployeePrivacySurvey is SepoliaConfig {
      * @dev This demonstrates encrypted arithmetic and public decryption in FHEVM
      *
      * FHEVM Concepts:
-     * 1. Homomorphic Addition: FHE.add() performs addition on encrypted values
-     *    without decrypting them first
+     * 1. Homomorphic Addition: submitResponse() already folded every rating into an
+     *    euint32 running total with FHE.add(), so nothing needs to be summed here
      * 2. Public Decryption: FHE.requestDecryption() initiates decryption of the
      *    encrypted sum, which will be revealed to everyone
      *
      * Process:
-     * - Sum all encrypted responses using FHE.add()
-     * - Request decryption of the sum via the relayer
-     * - Callback will process the decrypted value
+     * - Request decryption of the question's running total via the relayer
+     * - Remember which survey/question the returned request ID belongs to
+     * - processQuestionAverage() divides by the public response count once the oracle answers
      *
      * Privacy Guarantee: Only the aggregated sum is decrypted, individual responses
      * remain encrypted and private
@@ -290,32 +1100,22 @@ contract EmployeePrivacySurvey is SepoliaConfig {
      * @param _surveyId Survey ID
      * @param _questionId Question ID
      */
-    function requestQuestionAverage(uint256 _surveyId, uint256 _questionId) external onlySurveyCreator(_surveyId) {
-        require(surveys[_surveyId].resultsPublished, "Results not published");
-        require(_questionId < surveys[_surveyId].questions.length, "Invalid question");
-        require(surveys[_surveyId].encryptedResponses[_questionId].length > 0, "No responses for question");
+    function requestQuestionAverage(uint256 _surveyId, uint256 _questionId) external onlyResultReader(_surveyId) {
+        _requireRevealable(_surveyId, _questionId);
+        require(!questionResults[_surveyId][_questionId].revealed, "Result already revealed");
 
-        Survey storage survey = surveys[_surveyId];
-        euint8[] storage responses = survey.encryptedResponses[_questionId];
-
-        // FHEVM Operation: Calculate encrypted sum using homomorphic addition
-        euint8 encryptedSum = responses[0];
-        for (uint256 i = 1; i < responses.length; i++) {
-            // FHE.add() adds two encrypted values without decrypting them
-            encryptedSum = FHE.add(encryptedSum, responses[i]);
-        }
+        // FHEVM Operation: Request public decryption of the running total
+        // This sends the encrypted value to the relayer for decryption
+        bytes32[] memory cts = new bytes32[](1);
+        cts[0] = FHE.toBytes32(surveys[_surveyId].encryptedTotals[_questionId]);
 
-        // Create count as encrypted value
-        euint8 encryptedCount = FHE.asEuint8(uint8(responses.length));
-
-        // FHEVM Operation: Request public decryption
-        // This sends the encrypted values to the relayer for decryption
-        bytes32[] memory cts = new bytes32[](2);
-        cts[0] = FHE.toBytes32(encryptedSum);
-        cts[1] = FHE.toBytes32(encryptedCount);
-
-        uint256 requestId = uint256(keccak256(abi.encodePacked(_surveyId, _questionId, block.timestamp)));
-        FHE.requestDecryption(cts, this.processQuestionAverage.selector);
+        uint256 requestId = FHE.requestDecryption(cts, this.processQuestionAverage.selector);
+        decryptionTargets[requestId] = DecryptionTarget({
+            surveyId: _surveyId,
+            questionId: _questionId,
+            kind: RevealKind.Average,
+            pending: true
+        });
 
         emit ResultDecryptionRequested(_surveyId, _questionId, requestId);
     }
@@ -325,85 +1125,341 @@ contract EmployeePrivacySurvey is SepoliaConfig {
      * @dev This function is called by the FHEVM relayer after decryption
      *
      * FHEVM Concept: Decryption Callback
-     * - The relayer calls this function with decrypted values
-     * - In production, you would use the requestId to map back to the specific survey/question
-     * - Here we demonstrate the pattern for educational purposes
+     * - The relayer calls this function with the ABI-encoded cleartexts and the KMS signatures
+     * - FHE.checkSignatures() rejects any cleartexts that were not produced for this request
+     * - The requestId maps back to the survey/question recorded in requestQuestionAverage()
      *
-     * @param decryptedSum The decrypted sum of all ratings
-     * @param decryptedCount The decrypted count of responses
+     * @param requestId Decryption request ID returned by FHE.requestDecryption()
+     * @param cleartexts ABI-encoded decrypted sum of all ratings for the question
+     * @param decryptionProof KMS signatures over the cleartexts
      */
     function processQuestionAverage(
-        uint256 /* requestId */,
-        uint8 decryptedSum,
-        uint8 decryptedCount
-    ) external pure {
-        // Calculate average rating
-        // uint8 averageRating = decryptedCount > 0 ? decryptedSum / decryptedCount : 0;
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory decryptionProof
+    ) external {
+        DecryptionTarget storage target = _completeDecryption(requestId, RevealKind.Average, cleartexts, decryptionProof);
+
+        uint32 decryptedSum = abi.decode(cleartexts, (uint32));
+        uint256 responseCount = surveys[target.surveyId].totalResponses;
+        uint8 averageRating = uint8(decryptedSum / responseCount);
 
-        // In production, you would:
-        // 1. Use requestId to identify which survey/question this belongs to
-        // 2. Store the result in questionResults mapping
-        // 3. Emit an event with the revealed average
-        // emit QuestionAverageRevealed(surveyId, questionId, averageRating, decryptedCount);
+        questionResults[target.surveyId][target.questionId] = DecryptedResult({
+            averageRating: averageRating,
+            totalResponses: responseCount,
+            totalScore: decryptedSum,
+            revealed: true
+        });
+
+        emit QuestionAverageRevealed(target.surveyId, target.questionId, averageRating, responseCount, decryptedSum);
+    }
+
+    /**
+     * @notice Request decryption of the answer distribution for a question
+     * @dev Decrypts the encrypted bucket counts built in submitResponse(), one per value in the question's range
+     *
+     * FHEVM Concept: Multi-value Public Decryption
+     * - All buckets are sent in one FHE.requestDecryption() call
+     * - processQuestionHistogram() receives them ABI-encoded in bucket order
+     *
+     * Privacy Guarantee: Only how many employees chose each answer is revealed,
+     * never which employee chose which answer
+     *
+     * @param _surveyId Survey ID
+     * @param _questionId Question ID
+     */
+    function requestQuestionHistogram(uint256 _surveyId, uint256 _questionId) external onlyResultReader(_surveyId) {
+        _requireRevealable(_surveyId, _questionId);
+        require(!questionHistograms[_surveyId][_questionId].revealed, "Histogram already revealed");
+
+        euint32[MAX_ANSWER_BUCKETS] storage histogram = surveys[_surveyId].encryptedHistograms[_questionId];
+        bytes32[] memory cts = new bytes32[](_bucketCount(_surveyId, _questionId));
+        for (uint256 bucket = 0; bucket < cts.length; bucket++) {
+            cts[bucket] = FHE.toBytes32(histogram[bucket]);
+        }
+
+        uint256 requestId = FHE.requestDecryption(cts, this.processQuestionHistogram.selector);
+        decryptionTargets[requestId] = DecryptionTarget({
+            surveyId: _surveyId,
+            questionId: _questionId,
+            kind: RevealKind.Histogram,
+            pending: true
+        });
+
+        emit ResultDecryptionRequested(_surveyId, _questionId, requestId);
+    }
+
+    /**
+     * @notice Process decrypted answer distribution callback
+     * @dev Called by the FHEVM relayer after decryption, verified like processQuestionAverage()
+     * @param requestId Decryption request ID returned by FHE.requestDecryption()
+     * @param cleartexts ABI-encoded decrypted bucket counts, one 32-byte word per bucket
+     * @param decryptionProof KMS signatures over the cleartexts
+     */
+    function processQuestionHistogram(
+        uint256 requestId,
+        bytes calldata cleartexts,
+        bytes calldata decryptionProof
+    ) external {
+        DecryptionTarget storage target = _completeDecryption(requestId, RevealKind.Histogram, cleartexts, decryptionProof);
+
+        uint32[] memory counts = _decodeCounts(cleartexts, 0, _bucketCount(target.surveyId, target.questionId));
+
+        DecryptedHistogram storage result = questionHistograms[target.surveyId][target.questionId];
+        result.counts = counts;
+        result.revealed = true;
+
+        emit QuestionHistogramRevealed(target.surveyId, target.questionId, counts);
+    }
+
+    /**
+     * @notice Request decryption of one segment's response count and per-question totals
+     * @dev FHEVM Concept: Homomorphic Threshold
+     * - Segment sizes are encrypted, so the contract cannot check them with a plain require
+     * - FHE.ge() and FHE.eq() test every segment against the survey's response threshold, and FHE.select()
+     *   swaps the values for zeros unless every segment with responses reached it
+     * - Checking all segments, not just this one, stops a small segment from being recovered by
+     *   subtracting the other segments' results from the survey-wide totals
+     *
+     * Privacy Guarantee: A withheld segment decrypts to zero respondents, which only says the
+     * threshold was not met, never how far off it was
+     *
+     * @param _surveyId Survey ID
+     * @param _segment Index into the survey's segments
+     */
+    function requestSegmentResults(uint256 _surveyId, uint256 _segment) external onlyResultReader(_surveyId) {
+        Survey storage survey = surveys[_surveyId];
+        require(survey.resultsPublished, "Results not published");
+        require(_segment < survey.segments.length, "Invalid segment");
+        require(!segmentResults[_surveyId][_segment].revealed, "Segment already revealed");
+
+        uint32 threshold = uint32(_responseThreshold(_surveyId));
+        ebool largeEnough = FHE.asEbool(true);
+        for (uint256 s = 0; s < survey.segments.length; s++) {
+            euint32 count = survey.segmentCounts[s];
+            largeEnough = FHE.and(largeEnough, FHE.or(FHE.eq(count, 0), FHE.ge(count, threshold)));
+        }
+
+        euint32 zero = FHE.asEuint32(0);
+        bytes32[] memory cts = new bytes32[](survey.questionConfigs.length + 1);
+        cts[0] = FHE.toBytes32(_withheldUnless(largeEnough, survey.segmentCounts[_segment], zero));
+        for (uint256 i = 0; i < survey.questionConfigs.length; i++) {
+            cts[i + 1] = FHE.toBytes32(_withheldUnless(largeEnough, survey.segmentTotals[i][_segment], zero));
+        }
+
+        uint256 requestId = FHE.requestDecryption(cts, this.processSegmentResults.selector);
+        decryptionTargets[requestId] = DecryptionTarget({
+            surveyId: _surveyId,
+            questionId: _segment,
+            kind: RevealKind.Segment,
+            pending: true
+        });
+
+        emit ResultDecryptionRequested(_surveyId, _segment, requestId);
+    }
+
+    /**
+     * @dev The value if the condition holds, zero otherwise, readable by this contract for decryption
+     */
+    function _withheldUnless(ebool _condition, euint32 _value, euint32 _zero) private returns (euint32 result) {
+        result = FHE.select(_condition, _value, _zero);
+        FHE.allowThis(result);
+    }
+
+    /**
+     * @notice Process decrypted segment results callback
+     * @dev Called by the FHEVM relayer after decryption, verified like processQuestionAverage()
+     * @param requestId Decryption request ID returned by FHE.requestDecryption()
+     * @param cleartexts ABI-encoded respondent count followed by one total per question
+     * @param decryptionProof KMS signatures over the cleartexts
+     */
+    function processSegmentResults(
+        uint256 requestId,
+        bytes calldata cleartexts,
+        bytes calldata decryptionProof
+    ) external {
+        DecryptionTarget storage target = _completeDecryption(requestId, RevealKind.Segment, cleartexts, decryptionProof);
+
+        uint32 respondents = abi.decode(cleartexts[0:32], (uint32));
+        uint32[] memory totals = _decodeCounts(cleartexts, 1, surveys[target.surveyId].questionConfigs.length);
+
+        DecryptedSegment storage result = segmentResults[target.surveyId][target.questionId];
+        result.respondents = respondents;
+        result.totals = totals;
+        result.revealed = true;
+
+        emit SegmentResultsRevealed(target.surveyId, target.questionId, respondents, totals);
+    }
+
+    /**
+     * @dev Checks shared by the question reveals: published, a valid question and enough responses
+     */
+    function _requireRevealable(uint256 _surveyId, uint256 _questionId) private view {
+        require(surveys[_surveyId].resultsPublished, "Results not published");
+        require(_questionId < surveys[_surveyId].questionConfigs.length, "Invalid question");
+        require(surveys[_surveyId].totalResponses > 0, "No responses for question");
+        require(getResponsesNeeded(_surveyId) == 0, "Not enough responses");
+    }
+
+    /**
+     * @dev Target of a pending request of the given kind, once the KMS signatures over its cleartexts check
+     * out; the request cannot be answered twice
+     */
+    function _completeDecryption(
+        uint256 _requestId,
+        RevealKind _kind,
+        bytes memory _cleartexts,
+        bytes memory _decryptionProof
+    ) private returns (DecryptionTarget storage target) {
+        target = decryptionTargets[_requestId];
+        require(target.pending && target.kind == _kind, "Unknown decryption request");
+
+        FHE.checkSignatures(_requestId, _cleartexts, _decryptionProof);
+        target.pending = false;
+    }
+
+    /**
+     * @dev Decode `_count` uint32 cleartexts starting at word `_first`; the count depends on the survey,
+     * so the static words are decoded one at a time
+     */
+    function _decodeCounts(bytes calldata _cleartexts, uint256 _first, uint256 _count)
+        private
+        pure
+        returns (uint32[] memory values)
+    {
+        values = new uint32[](_count);
+        for (uint256 i = 0; i < _count; i++) {
+            values[i] = abi.decode(_cleartexts[(_first + i) * 32:(_first + i + 1) * 32], (uint32));
+        }
     }
 
     /**
      * @notice Get current survey info for UI
      * @param _surveyId Survey ID
-     * @return active Whether survey is active
+     * @return active Whether survey is active; false once closed by its creator or past endTime
      * @return resultsPublished Whether results are published
      * @return totalResponses Number of responses
      * @return questionsCount Number of questions
-     * @return timeRemaining Time remaining in seconds
+     * @return timeRemaining Seconds until the survey opens when upcoming, until it ends when open, 0 once ended
+     * @return status Upcoming, Open or Ended
      */
     function getCurrentSurveyInfo(uint256 _surveyId) external view returns (
         bool active,
         bool resultsPublished,
         uint256 totalResponses,
         uint256 questionsCount,
-        uint256 timeRemaining
+        uint256 timeRemaining,
+        SurveyStatus status
     ) {
         Survey storage survey = surveys[_surveyId];
-        uint256 timeLeft = survey.endTime > block.timestamp ? survey.endTime - block.timestamp : 0;
+        if (_isClosed(survey)) {
+            status = SurveyStatus.Ended;
+        } else if (block.timestamp < survey.startTime) {
+            status = SurveyStatus.Upcoming;
+            timeRemaining = survey.startTime - block.timestamp;
+        } else {
+            status = SurveyStatus.Open;
+            timeRemaining = survey.endTime - block.timestamp;
+        }
 
         return (
-            survey.active,
+            status != SurveyStatus.Ended,
             survey.resultsPublished,
             survey.totalResponses,
-            survey.questions.length,
-            timeLeft
+            survey.questionConfigs.length,
+            timeRemaining,
+            status
         );
     }
 
-    /**
-     * @notice Get employee response status
-     * @param _surveyId Survey ID
-     * @param _employee Employee address
-     * @return responded Whether employee has responded
-     * @return responseTime Response timestamp (0 if not implemented)
-     */
-    function getEmployeeResponseStatus(uint256 _surveyId, address _employee) external view returns (
-        bool responded,
-        uint256 responseTime
-    ) {
-        return (surveys[_surveyId].hasResponded[_employee], 0);
-    }
-
     /**
      * @notice Get question result if available
      * @param _surveyId Survey ID
      * @param _questionId Question ID
-     * @return averageRating Average rating (if revealed)
+     * @return averageRating Average rating rounded down (if revealed)
      * @return totalResponses Total responses (if revealed)
+     * @return totalScore Sum of all ratings, for computing a fractional average (if revealed)
      * @return revealed Whether result has been revealed
      */
     function getQuestionResult(uint256 _surveyId, uint256 _questionId) external view returns (
         uint8 averageRating,
-        uint8 totalResponses,
+        uint256 totalResponses,
+        uint32 totalScore,
         bool revealed
     ) {
         DecryptedResult storage result = questionResults[_surveyId][_questionId];
-        return (result.averageRating, result.totalResponses, result.revealed);
+        return (result.averageRating, result.totalResponses, result.totalScore, result.revealed);
+    }
+
+    /**
+     * @notice Get the answer distribution of a question if available
+     * @param _surveyId Survey ID
+     * @param _questionId Question ID
+     * @return counts Number of answers per value, counts[0] being the question's minValue (if revealed)
+     * @return revealed Whether the distribution has been revealed
+     */
+    function getQuestionHistogram(uint256 _surveyId, uint256 _questionId) external view returns (
+        uint32[] memory counts,
+        bool revealed
+    ) {
+        DecryptedHistogram storage result = questionHistograms[_surveyId][_questionId];
+        return (result.counts, result.revealed);
+    }
+
+    /**
+     * @notice Get a segment's results if available
+     * @param _surveyId Survey ID
+     * @param _segment Index into the survey's segments
+     * @return respondents Responses in the segment, zero when it was withheld (if revealed)
+     * @return totals Sum of the segment's answers per question, yes counting as one (if revealed)
+     * @return revealed Whether the segment has been revealed
+     */
+    function getSegmentResults(uint256 _surveyId, uint256 _segment) external view returns (
+        uint32 respondents,
+        uint32[] memory totals,
+        bool revealed
+    ) {
+        DecryptedSegment storage result = segmentResults[_surveyId][_segment];
+        return (result.respondents, result.totals, result.revealed);
+    }
+
+    /**
+     * @dev Number of histogram buckets a question uses, one per value in its range
+     */
+    function _bucketCount(uint256 _surveyId, uint256 _questionId) private view returns (uint256) {
+        QuestionConfig storage config = surveys[_surveyId].questionConfigs[_questionId];
+        return uint256(config.maxValue - config.minValue) + 1;
+    }
+
+    /**
+     * @notice Get how many more responses a survey needs before its results can be revealed
+     * @dev The threshold is the survey's own minimum or the current floor, whichever is higher,
+     * so raising the floor also protects surveys that are already running
+     * @param _surveyId Survey ID
+     * @return Remaining responses needed (0 once results can be unlocked)
+     */
+    function getResponsesNeeded(uint256 _surveyId) public view returns (uint256) {
+        uint256 threshold = _responseThreshold(_surveyId);
+        uint256 collected = surveys[_surveyId].totalResponses;
+        return collected >= threshold ? 0 : threshold - collected;
+    }
+
+    /**
+     * @dev Fewest responses any revealed aggregate may cover: the survey's minimum or the floor, whichever is higher
+     */
+    function _responseThreshold(uint256 _surveyId) private view returns (uint256) {
+        uint256 threshold = surveys[_surveyId].minResponses;
+        return minResponsesFloor > threshold ? minResponsesFloor : threshold;
+    }
+
+    /**
+     * @notice Set the contract-wide minimum number of responses (only owner)
+     * @param _floor New floor, must be at least one
+     */
+    function setMinResponsesFloor(uint256 _floor) external onlyOwner {
+        require(_floor > 0, "Floor must be positive");
+        minResponsesFloor = _floor;
+        emit MinResponsesFloorUpdated(_floor);
     }
 
     /**
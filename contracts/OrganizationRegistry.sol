@@ -0,0 +1,176 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+/**
+ * @title OrganizationRegistry - Organisations and the roles of their members
+ * @author Zama FHE Community
+ * @notice Whoever creates an organisation becomes its first admin. Admins grant and revoke roles:
+ * - Admin: manages the organisation's members
+ * - Author: creates surveys for the organisation
+ * - Analyst: reveals the results of the organisation's surveys alongside their creator
+ * @dev EmployeePrivacySurvey deploys its own registry and checks authors and analysts against it;
+ * read the address from its `organizations()` getter. Nothing here is encrypted, roles are public.
+ */
+contract OrganizationRegistry {
+
+    /// @dev Roles a member may hold, any combination of them
+    enum Role {
+        Admin,
+        Author,
+        Analyst
+    }
+
+    struct Organization {
+        string name;
+        address[] members; // accounts holding at least one role
+        mapping(address => uint8) roles; // account => bit (1 << role) set for every role held
+        mapping(address => uint256) memberNumbers; // account => 1-based position in members, 0 if none
+        uint256 admins; // members holding Role.Admin; never drops to zero
+    }
+
+    uint256 public organizationCounter;
+    mapping(uint256 => Organization) private organizations;
+
+    event OrganizationCreated(uint256 indexed organizationId, address indexed admin, string name);
+
+    event RoleGranted(uint256 indexed organizationId, Role indexed role, address indexed account, address sender);
+
+    event RoleRevoked(uint256 indexed organizationId, Role indexed role, address indexed account, address sender);
+
+    modifier onlyOrganizationAdmin(uint256 _organizationId) {
+        require(hasRole(_organizationId, Role.Admin, msg.sender), "Not organization admin");
+        _;
+    }
+
+    /**
+     * @notice Create an organisation with the caller as its first admin
+     * @param _name Organisation name
+     * @return organizationId The ID of the new organisation
+     */
+    function createOrganization(string calldata _name) external returns (uint256) {
+        require(bytes(_name).length > 0, "Name cannot be empty");
+
+        organizationCounter++;
+        uint256 organizationId = organizationCounter;
+        organizations[organizationId].name = _name;
+
+        emit OrganizationCreated(organizationId, msg.sender, _name);
+        _grant(organizationId, Role.Admin, msg.sender);
+        return organizationId;
+    }
+
+    /**
+     * @notice Give an account a role in an organisation (only its admins); granting a held role does nothing
+     * @param _organizationId Organisation ID
+     * @param _role Role to grant
+     * @param _account Member to grant it to
+     */
+    function grantRole(uint256 _organizationId, Role _role, address _account)
+        external
+        onlyOrganizationAdmin(_organizationId)
+    {
+        require(_account != address(0), "Invalid account");
+        _grant(_organizationId, _role, _account);
+    }
+
+    /**
+     * @notice Take a role away from an account (only the organisation's admins); revoking a missing role does nothing
+     * @dev The last admin cannot be removed, so every organisation stays manageable
+     * @param _organizationId Organisation ID
+     * @param _role Role to revoke
+     * @param _account Member to revoke it from
+     */
+    function revokeRole(uint256 _organizationId, Role _role, address _account)
+        external
+        onlyOrganizationAdmin(_organizationId)
+    {
+        Organization storage organization = organizations[_organizationId];
+        uint8 bit = uint8(1 << uint8(_role));
+        uint8 roles = organization.roles[_account];
+        if (roles & bit == 0) {
+            return;
+        }
+        if (_role == Role.Admin) {
+            require(organization.admins > 1, "Organization needs an admin");
+            organization.admins--;
+        }
+
+        organization.roles[_account] = roles & ~bit;
+        if (roles == bit) {
+            // Last role gone: move the final member into the freed slot
+            uint256 index = organization.memberNumbers[_account] - 1;
+            address last = organization.members[organization.members.length - 1];
+            organization.members[index] = last;
+            organization.memberNumbers[last] = index + 1;
+            organization.members.pop();
+            delete organization.memberNumbers[_account];
+        }
+        emit RoleRevoked(_organizationId, _role, _account, msg.sender);
+    }
+
+    /**
+     * @notice Check whether an account holds a role in an organisation
+     * @param _organizationId Organisation ID
+     * @param _role Role to check
+     * @param _account Account to check
+     * @return True if the account holds the role
+     */
+    function hasRole(uint256 _organizationId, Role _role, address _account) public view returns (bool) {
+        return organizations[_organizationId].roles[_account] & (1 << uint8(_role)) != 0;
+    }
+
+    /**
+     * @notice Every role an account holds in an organisation
+     * @param _organizationId Organisation ID
+     * @param _account Account to look up
+     * @return Bit (1 << role) set for each role held, 0 for non-members
+     */
+    function getRoles(uint256 _organizationId, address _account) external view returns (uint8) {
+        return organizations[_organizationId].roles[_account];
+    }
+
+    /**
+     * @notice Get an organisation's name and size
+     * @param _organizationId Organisation ID
+     * @return name Organisation name, empty if it does not exist
+     * @return memberCount Accounts holding at least one role
+     */
+    function getOrganization(uint256 _organizationId) external view returns (string memory name, uint256 memberCount) {
+        Organization storage organization = organizations[_organizationId];
+        return (organization.name, organization.members.length);
+    }
+
+    /**
+     * @notice List an organisation's members with their roles
+     * @param _organizationId Organisation ID
+     * @return members Accounts holding at least one role, in no particular order
+     * @return roles Role bits of each member, as getRoles returns them
+     */
+    function getMembers(uint256 _organizationId) external view returns (address[] memory members, uint8[] memory roles) {
+        Organization storage organization = organizations[_organizationId];
+        members = organization.members;
+        roles = new uint8[](members.length);
+        for (uint256 i = 0; i < members.length; i++) {
+            roles[i] = organization.roles[members[i]];
+        }
+    }
+
+    function _grant(uint256 _organizationId, Role _role, address _account) private {
+        Organization storage organization = organizations[_organizationId];
+        uint8 bit = uint8(1 << uint8(_role));
+        uint8 roles = organization.roles[_account];
+        if (roles & bit != 0) {
+            return;
+        }
+        if (roles == 0) {
+            organization.members.push(_account);
+            organization.memberNumbers[_account] = organization.members.length;
+        }
+        if (_role == Role.Admin) {
+            organization.admins++;
+        }
+
+        organization.roles[_account] = roles | bit;
+        emit RoleGranted(_organizationId, _role, _account, msg.sender);
+    }
+}
@@ -0,0 +1,173 @@
+// SPDX-License-Identifier: BSD-3-Clause-Clear
+pragma solidity ^0.8.24;
+
+/// @dev The EmployeePrivacySurvey views the directory reads
+interface ISurveySource {
+    function surveyCounter() external view returns (uint256);
+
+    function getSurvey(uint256 _surveyId) external view returns (
+        address creator,
+        bytes32 contentHash,
+        uint256 startTime,
+        uint256 endTime,
+        bool active,
+        bool resultsPublished,
+        uint256 totalResponses
+    );
+
+    function getCurrentSurveyInfo(uint256 _surveyId) external view returns (
+        bool active,
+        bool resultsPublished,
+        uint256 totalResponses,
+        uint256 questionsCount,
+        uint256 timeRemaining,
+        uint8 status
+    );
+
+    function getResponsesNeeded(uint256 _surveyId) external view returns (uint256);
+
+    function getSurveyOrganization(uint256 _surveyId) external view returns (uint256);
+}
+
+/**
+ * @title SurveyDirectory - Paginated survey summaries and batched reads
+ * @author Zama FHE Community
+ * @notice Lists a survey contract's surveys a page at a time, filtered by creator and status, and
+ * bundles any number of its view calls into one. Frontends use it to load hundreds of surveys in a
+ * handful of RPC calls instead of several per survey.
+ * @dev EmployeePrivacySurvey deploys its own directory; read the address from its `directory()`
+ * getter. Everything here is a view over the survey contract and holds no state of its own.
+ * A listing reads surveys only up to the end of the requested page, so its cost grows with the page
+ * and not with the number of surveys; filters that match few surveys still read the ones they skip.
+ */
+contract SurveyDirectory {
+
+    /// @dev Which surveys a listing returns; Ended leaves out surveys whose results are published
+    enum StatusFilter {
+        Any,
+        Upcoming,
+        Open,
+        Ended,
+        Published
+    }
+
+    /// @dev What a survey list shows about each survey
+    struct SurveySummary {
+        uint256 id;
+        address creator;
+        bytes32 contentHash; // of the off-chain document with the title, description and question texts
+        uint256 startTime;
+        uint256 endTime;
+        uint8 status; // EmployeePrivacySurvey.SurveyStatus: Upcoming, Open or Ended
+        bool resultsPublished;
+        uint256 totalResponses;
+        uint256 responsesNeeded;
+        uint256 questionsCount;
+        uint256 organizationId;
+    }
+
+    ISurveySource public immutable surveys;
+
+    constructor(address _surveys) {
+        surveys = ISurveySource(_surveys);
+    }
+
+    /**
+     * @notice List surveys in ID order, a page at a time
+     * @dev Stops at the first match after the page instead of counting every match
+     * @param _creator Only surveys created by this account, address(0) for every creator
+     * @param _status Only surveys in this state
+     * @param _offset Matching surveys to skip
+     * @param _limit Most summaries to return
+     * @return page Summaries of the matching surveys after `_offset`
+     * @return more Whether more surveys match after this page
+     */
+    function listSurveys(address _creator, StatusFilter _status, uint256 _offset, uint256 _limit)
+        external
+        view
+        returns (SurveySummary[] memory page, bool more)
+    {
+        uint256 counter = surveys.surveyCounter();
+        SurveySummary[] memory found = new SurveySummary[](_limit);
+        uint256 count;
+        uint256 skipped;
+        uint256 id = 1;
+        if (_creator == address(0) && _status == StatusFilter.Any) {
+            // Every survey matches, so the page starts right after the first `_offset` IDs
+            id = _offset < counter ? _offset + 1 : counter + 1;
+            skipped = _offset;
+        }
+        for (; id <= counter; id++) {
+            if (!_matches(id, _creator, _status)) {
+                continue;
+            }
+            if (skipped < _offset) {
+                skipped++;
+            } else if (count < _limit) {
+                found[count++] = _summary(id);
+            } else {
+                more = true;
+                break;
+            }
+        }
+
+        page = new SurveySummary[](count);
+        for (uint256 i = 0; i < count; i++) {
+            page[i] = found[i];
+        }
+    }
+
+    /**
+     * @notice Call several of the survey contract's views in one request
+     * @dev Reverts with the first failing call's revert data
+     * @param _calls ABI-encoded calls to the survey contract
+     * @return results ABI-encoded return data, one per call
+     */
+    function multicall(bytes[] calldata _calls) external view returns (bytes[] memory results) {
+        results = new bytes[](_calls.length);
+        for (uint256 i = 0; i < _calls.length; i++) {
+            (bool success, bytes memory result) = address(surveys).staticcall(_calls[i]);
+            if (!success) {
+                assembly {
+                    revert(add(result, 32), mload(result))
+                }
+            }
+            results[i] = result;
+        }
+    }
+
+    function _summary(uint256 _surveyId) private view returns (SurveySummary memory summary) {
+        summary.id = _surveyId;
+        (
+            summary.creator,
+            summary.contentHash,
+            summary.startTime,
+            summary.endTime,
+            ,
+            summary.resultsPublished,
+            summary.totalResponses
+        ) = surveys.getSurvey(_surveyId);
+        (, , , summary.questionsCount, , summary.status) = surveys.getCurrentSurveyInfo(_surveyId);
+        summary.responsesNeeded = surveys.getResponsesNeeded(_surveyId);
+        summary.organizationId = surveys.getSurveyOrganization(_surveyId);
+    }
+
+    /// @dev Reads only what the filters need, so skipping a survey costs at most two calls
+    function _matches(uint256 _surveyId, address _creator, StatusFilter _status) private view returns (bool) {
+        if (_creator != address(0)) {
+            (address creator, , , , , , ) = surveys.getSurvey(_surveyId);
+            if (creator != _creator) {
+                return false;
+            }
+        }
+        if (_status == StatusFilter.Any) {
+            return true;
+        }
+        (, bool resultsPublished, , , , uint8 status) = surveys.getCurrentSurveyInfo(_surveyId);
+        if (resultsPublished) {
+            return _status == StatusFilter.Published;
+        }
+        // SurveyStatus is one less than its StatusFilter
+        return uint8(_status) == status + 1;
+    }
+}
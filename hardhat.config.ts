@@ -76,7 +76,8 @@ const config: HardhatUserConfig = {
       // https://hardhat.org/hardhat-network/#solidity-optimizer-support
       optimizer: {
         enabled: true,
-        runs: 800,
+        // Favour code size over call cost, the survey contract sits close to the 24 KiB limit
+        runs: 100,
       },
       evmVersion: "cancun",
     },
@@ -1,17 +1,125 @@
-import React from 'react'
-import './App.css'
+import { useMemo, useState } from "react";
+
+import "./App.css";
+import { Alerts } from "./components/Alerts";
+import { CreateSurveyForm } from "./components/CreateSurveyForm";
+import { Header } from "./components/Header";
+import { ResultsDashboard } from "./components/ResultsDashboard";
+import { SurveyList } from "./components/SurveyList";
+import { WalletPanel } from "./components/WalletPanel";
+import { useAlerts } from "./hooks/useAlerts";
+import { useLanguage } from "./hooks/useLanguage";
+import { useSurveys } from "./hooks/useSurveys";
+import { useWallet } from "./hooks/useWallet";
+import { UI_LANGUAGES } from "./lib/i18n";
+import { localizeSurvey, organizationsWithRole, surveyLanguages } from "./lib/surveys";
+import { type NewSurvey, OrganizationRole } from "./sdk";
+
+type Section = "surveys" | "create" | "results";
 
 function App() {
+  const [section, setSection] = useState<Section>("surveys");
+  const [resultsId, setResultsId] = useState<number | null>(null);
+  const { alerts, showAlert } = useAlerts();
+  const wallet = useWallet(showAlert);
+  const { language, preferred, text, setLanguage } = useLanguage();
+  const surveys = useSurveys(wallet.account, wallet.signer, showAlert, language);
+  const languages = useMemo(
+    () => [...new Set([language, ...UI_LANGUAGES, ...surveys.surveys.flatMap(surveyLanguages)])].sort(),
+    [language, surveys.surveys],
+  );
+  // Looked up on every render so the dashboard follows reveals and new responses
+  const resultsSurvey = surveys.surveys.find((survey) => survey.id === resultsId);
+
+  const handleCreate = async (survey: NewSurvey) => {
+    const created = await surveys.createSurvey(survey);
+    if (created) {
+      setSection("surveys");
+    }
+    return created;
+  };
+
   return (
-    <div className="App">
-      <div dangerouslySetInnerHTML={{
-        __html: `
-          <!-- Include the content from index_original.html here -->
-          <div id="original-app-container"></div>
-        `
-      }} />
+    <div className="container">
+      <Header
+        contractStatus={surveys.contractStatus}
+        text={text}
+        language={language}
+        languages={languages}
+        onLanguageChange={setLanguage}
+      />
+
+      <WalletPanel
+        account={wallet.account}
+        balance={wallet.balance}
+        connecting={wallet.connecting}
+        onConnect={wallet.connect}
+        onDisconnect={wallet.disconnect}
+      />
+
+      <nav className="nav">
+        <button
+          type="button"
+          className={`nav-btn${section !== "create" ? " active" : ""}`}
+          onClick={() => setSection("surveys")}
+        >
+          {text.surveysNav}
+        </button>
+        <button
+          type="button"
+          className={`nav-btn${section === "create" ? " active" : ""}`}
+          onClick={() => setSection("create")}
+        >
+          {text.createNav}
+        </button>
+      </nav>
+
+      {section === "results" && resultsSurvey ? (
+        <ResultsDashboard
+          survey={localizeSurvey(resultsSurvey, preferred)}
+          onLoadResponseTimes={surveys.loadResponseTimes}
+          onBack={() => setSection("surveys")}
+          language={language}
+        />
+      ) : section !== "create" ? (
+        <section className="section">
+          <h2>{text.surveysHeading}</h2>
+          <SurveyList
+            surveys={surveys.surveys}
+            view={surveys.listView}
+            onViewChange={surveys.showListView}
+            more={surveys.more}
+            account={wallet.account}
+            participation={surveys.participation}
+            memberships={surveys.memberships}
+            languages={preferred}
+            language={language}
+            onCreateFirst={() => setSection("create")}
+            onSubmit={surveys.submitResponse}
+            onRevise={surveys.reviseResponse}
+            onViewAnswers={surveys.decryptMyAnswers}
+            onClose={surveys.closeSurvey}
+            onPublish={surveys.publishResults}
+            onReveal={surveys.revealResults}
+            onOpenResults={(survey) => {
+              setResultsId(survey.id);
+              setSection("results");
+            }}
+          />
+        </section>
+      ) : (
+        <section className="section">
+          <h2>{text.createHeading}</h2>
+          <CreateSurveyForm
+            organizations={organizationsWithRole(surveys.memberships, OrganizationRole.Author)}
+            onCreate={handleCreate}
+          />
+        </section>
+      )}
+
+      <Alerts alerts={alerts} />
     </div>
-  )
+  );
 }
 
-export default App
\ No newline at end of file
+export default App;
@@ -0,0 +1,15 @@
+import type { Alert } from "../hooks/useAlerts";
+
+const ICONS = { success: "✅", error: "❌", warning: "⚠️", info: "ℹ️" };
+
+export function Alerts({ alerts }: { alerts: Alert[] }) {
+  return (
+    <div className="alerts" role="status">
+      {alerts.map((alert) => (
+        <div key={alert.id} className={`alert alert-${alert.type}`}>
+          {ICONS[alert.type]} {alert.message}
+        </div>
+      ))}
+    </div>
+  );
+}
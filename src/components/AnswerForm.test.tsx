@@ -0,0 +1,78 @@
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { describe, expect, it, vi } from "vitest";
+
+import { FIVE_STAR_RATING, QuestionType, type SurveyQuestion, YES_NO } from "../sdk";
+import { AnswerForm } from "./AnswerForm";
+
+const QUESTIONS: SurveyQuestion[] = [
+  { text: "How satisfied are you with your role?", ...FIVE_STAR_RATING },
+  { text: "Do you feel valued?", ...YES_NO },
+  { text: "How likely are you to recommend us?", questionType: QuestionType.Scale, minValue: 0, maxValue: 10 },
+];
+
+describe("AnswerForm", () => {
+  it("offers one option per value of each question's scale", () => {
+    render(<AnswerForm surveyId={1} questions={QUESTIONS} onSubmit={vi.fn()} />);
+
+    const [rating, yesNo, enps] = screen.getAllByRole("group");
+    expect(rating.querySelectorAll("input[type=radio]")).toHaveLength(5);
+    expect(yesNo.querySelectorAll("input[type=radio]")).toHaveLength(2);
+    expect(enps.querySelectorAll("input[type=radio]")).toHaveLength(11);
+    expect(screen.getByLabelText("👍 Yes")).toBeInTheDocument();
+  });
+
+  it("submits numbers for scales and booleans for yes/no questions", async () => {
+    const user = userEvent.setup();
+    const onSubmit = vi.fn().mockResolvedValue(undefined);
+    render(<AnswerForm surveyId={1} questions={QUESTIONS} onSubmit={onSubmit} />);
+
+    await user.click(screen.getByLabelText("4⭐"));
+    await user.click(screen.getByLabelText("👎 No"));
+    await user.click(screen.getByLabelText("0"));
+    await user.click(screen.getByRole("button", { name: /submit survey response/i }));
+
+    expect(onSubmit).toHaveBeenCalledWith([4, false, 0]);
+  });
+
+  it("marks only the chosen option as selected", async () => {
+    const user = userEvent.setup();
+    render(<AnswerForm surveyId={1} questions={QUESTIONS} onSubmit={vi.fn()} />);
+
+    await user.click(screen.getByLabelText("2⭐"));
+    await user.click(screen.getByLabelText("5⭐"));
+
+    expect(screen.getByLabelText("5⭐")).toBeChecked();
+    expect(screen.getByLabelText("2⭐")).not.toBeChecked();
+    expect(screen.getByLabelText("5⭐").closest("label")).toHaveClass("selected");
+  });
+
+  it("refuses to submit until every question is answered", async () => {
+    const user = userEvent.setup();
+    const onSubmit = vi.fn();
+    render(<AnswerForm surveyId={1} questions={QUESTIONS} onSubmit={onSubmit} />);
+
+    await user.click(screen.getByLabelText("3⭐"));
+    await user.click(screen.getByRole("button", { name: /submit survey response/i }));
+
+    expect(screen.getByRole("alert")).toHaveTextContent("Please answer question 2 before submitting");
+    expect(onSubmit).not.toHaveBeenCalled();
+  });
+
+  it("asks segmented surveys for the respondent's team and submits its index", async () => {
+    const user = userEvent.setup();
+    const onSubmit = vi.fn().mockResolvedValue(undefined);
+    render(
+      <AnswerForm surveyId={1} questions={[QUESTIONS[1]]} segments={["Engineering", "Sales"]} onSubmit={onSubmit} />,
+    );
+
+    await user.click(screen.getByLabelText("👍 Yes"));
+    await user.click(screen.getByRole("button", { name: /submit survey response/i }));
+    expect(screen.getByRole("alert")).toHaveTextContent("Please pick your team before submitting");
+
+    await user.click(screen.getByLabelText("Sales"));
+    await user.click(screen.getByRole("button", { name: /submit survey response/i }));
+
+    expect(onSubmit).toHaveBeenCalledWith([true], 1);
+  });
+});
@@ -0,0 +1,133 @@
+import { type FormEvent, useState } from "react";
+
+import { messages } from "../lib/i18n";
+import { answerLabel } from "../lib/surveys";
+import { type Answer, answerValues, DEFAULT_LANGUAGE, QuestionType, type SurveyQuestion } from "../sdk";
+
+interface AnswerFormProps {
+  surveyId: number;
+  questions: SurveyQuestion[];
+  /** `segment` is the index of the picked segment, for surveys that have segments */
+  onSubmit(answers: Answer[], segment?: number): Promise<void>;
+  /** Segment labels the respondent picks one of, e.g. departments */
+  segments?: string[];
+  /** Answers to start from, e.g. the ones being revised */
+  initialAnswers?: Answer[];
+  submitLabel?: string;
+  /** Language of the form's own texts */
+  language?: string;
+}
+
+/**
+ * One row of answer buttons per question. Nothing leaves the form until every question is answered.
+ */
+export function AnswerForm({
+  surveyId,
+  questions,
+  onSubmit,
+  segments,
+  initialAnswers,
+  submitLabel,
+  language = DEFAULT_LANGUAGE,
+}: AnswerFormProps) {
+  const text = messages(language);
+  const [answers, setAnswers] = useState<(Answer | undefined)[]>(() =>
+    questions.map((_, index) => initialAnswers?.[index]),
+  );
+  const [segment, setSegment] = useState<number | undefined>();
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const select = (questionIndex: number, value: number) => {
+    const answer = questions[questionIndex].questionType === QuestionType.YesNo ? value === 1 : value;
+    setAnswers((current) => current.map((existing, index) => (index === questionIndex ? answer : existing)));
+    setError(null);
+  };
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    const missing = answers.findIndex((answer) => answer === undefined);
+    if (missing !== -1) {
+      setError(text.answers.missing(missing + 1));
+      return;
+    }
+    if (segments && segment === undefined) {
+      setError(text.answers.missingTeam);
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await (segments ? onSubmit(answers as Answer[], segment) : onSubmit(answers as Answer[]));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form className="answer-form" onSubmit={handleSubmit}>
+      <h3>{text.answers.heading}</h3>
+      <p className="hint">{text.answers.hint}</p>
+
+      {questions.map((question, questionIndex) => (
+        <fieldset key={questionIndex} className="survey-section">
+          <legend>
+            Q{questionIndex + 1}: {question.text}
+          </legend>
+          <div className="answer-options">
+            {answerValues(question).map((value) => {
+              const answer = answers[questionIndex];
+              const checked = answer !== undefined && Number(answer) === value;
+              return (
+                <label key={value} className={`rating-btn${checked ? " selected" : ""}`}>
+                  <input
+                    type="radio"
+                    name={`survey-${surveyId}-question-${questionIndex}`}
+                    value={value}
+                    checked={checked}
+                    onChange={() => select(questionIndex, value)}
+                  />
+                  {answerLabel(question, value, text)}
+                </label>
+              );
+            })}
+          </div>
+        </fieldset>
+      ))}
+
+      {segments && (
+        <fieldset className="survey-section">
+          <legend>{text.answers.team}</legend>
+          <div className="answer-options">
+            {segments.map((label, index) => (
+              <label key={label} className={`rating-btn${segment === index ? " selected" : ""}`}>
+                <input
+                  type="radio"
+                  name={`survey-${surveyId}-segment`}
+                  value={index}
+                  checked={segment === index}
+                  onChange={() => {
+                    setSegment(index);
+                    setError(null);
+                  }}
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+          <p className="hint">{text.answers.teamHint}</p>
+        </fieldset>
+      )}
+
+      {error && (
+        <p className="form-error" role="alert">
+          ❌ {error}
+        </p>
+      )}
+      <button type="submit" className={`btn btn-large${submitting ? " btn-loading" : ""}`} disabled={submitting}>
+        {submitLabel ?? text.answers.submit}
+      </button>
+      <p className="hint">{text.answers.encryptedHint}</p>
+    </form>
+  );
+}
@@ -0,0 +1,189 @@
+import { fireEvent, render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { describe, expect, it, vi } from "vitest";
+
+import { DEFAULT_MIN_RESPONSES } from "../lib/config";
+import { QuestionType } from "../sdk";
+import { CreateSurveyForm } from "./CreateSurveyForm";
+
+async function fillDetails(user: ReturnType<typeof userEvent.setup>) {
+  await user.type(screen.getByLabelText(/survey title/i), "Quarterly Pulse");
+  await user.type(screen.getByLabelText(/survey description/i), "Short pulse survey");
+}
+
+describe("CreateSurveyForm", () => {
+  it("builds a survey with one question config per answer format", async () => {
+    const user = userEvent.setup();
+    const onCreate = vi.fn().mockResolvedValue(true);
+    render(<CreateSurveyForm onCreate={onCreate} />);
+
+    await fillDetails(user);
+    await user.selectOptions(screen.getByLabelText("Question 2 format"), "yesno");
+    await user.selectOptions(screen.getByLabelText("Question 3 format"), "enps");
+    await user.click(screen.getByRole("button", { name: /create survey/i }));
+
+    const survey = onCreate.mock.calls[0][0];
+    expect(survey).toMatchObject({
+      title: "Quarterly Pulse",
+      description: "Short pulse survey",
+      durationDays: 14,
+      minResponses: DEFAULT_MIN_RESPONSES,
+    });
+    expect(survey.questions).toHaveLength(5);
+    expect(survey.questions[0]).toMatchObject({ questionType: QuestionType.Scale, minValue: 1, maxValue: 5 });
+    expect(survey.questions[1]).toMatchObject({ questionType: QuestionType.YesNo, minValue: 0, maxValue: 1 });
+    expect(survey.questions[2]).toMatchObject({ questionType: QuestionType.Scale, minValue: 0, maxValue: 10 });
+  });
+
+  it("adds and removes questions and skips blank ones", async () => {
+    const user = userEvent.setup();
+    const onCreate = vi.fn().mockResolvedValue(true);
+    render(<CreateSurveyForm onCreate={onCreate} />);
+
+    await fillDetails(user);
+    await user.click(screen.getByRole("button", { name: "Remove question 1" }));
+    await user.click(screen.getByRole("button", { name: /add question/i }));
+    await user.click(screen.getByRole("button", { name: /add question/i }));
+    await user.type(screen.getByLabelText("Question 5"), "Anything else?");
+    await user.click(screen.getByRole("button", { name: /create survey/i }));
+
+    const texts = onCreate.mock.calls[0][0].questions.map((question: { text: string }) => question.text);
+    expect(texts).toHaveLength(5);
+    expect(texts[0]).toMatch(/direct supervisor/);
+    expect(texts[4]).toBe("Anything else?");
+  });
+
+  it("requires at least one question", async () => {
+    const user = userEvent.setup();
+    const onCreate = vi.fn();
+    render(<CreateSurveyForm onCreate={onCreate} />);
+
+    await fillDetails(user);
+    for (let index = 1; index <= 5; index++) {
+      await user.clear(screen.getByLabelText(`Question ${index}`));
+    }
+    await user.click(screen.getByRole("button", { name: /create survey/i }));
+
+    expect(screen.getByRole("alert")).toHaveTextContent("provide at least 1 survey question");
+    expect(onCreate).not.toHaveBeenCalled();
+  });
+
+  it("refuses more questions than one encrypted response can carry", async () => {
+    const user = userEvent.setup();
+    const onCreate = vi.fn().mockResolvedValue(false);
+    render(<CreateSurveyForm onCreate={onCreate} />);
+
+    await fillDetails(user);
+    for (const index of [6, 7, 8]) {
+      await user.click(screen.getByRole("button", { name: /add question/i }));
+      await user.type(screen.getByLabelText(`Question ${index}`), `Question ${index}?`);
+    }
+    await user.click(screen.getByRole("button", { name: /create survey/i }));
+    expect(screen.getByRole("alert")).toHaveTextContent("at most 7 star ratings");
+    expect(onCreate).not.toHaveBeenCalled();
+
+    for (const index of [6, 7, 8]) {
+      await user.selectOptions(screen.getByLabelText(`Question ${index} format`), "yesno");
+    }
+    await user.click(screen.getByRole("button", { name: /create survey/i }));
+    expect(onCreate.mock.calls[0][0].questions).toHaveLength(8);
+  });
+
+  it("passes an optional roster root and rejects malformed ones", async () => {
+    const user = userEvent.setup();
+    const onCreate = vi.fn().mockResolvedValue(false);
+    render(<CreateSurveyForm onCreate={onCreate} />);
+
+    await fillDetails(user);
+    await user.click(screen.getByRole("button", { name: /create survey/i }));
+    expect(onCreate.mock.calls[0][0]).not.toHaveProperty("eligibilityRoot");
+
+    await user.type(screen.getByLabelText(/roster root/i), "0x1234");
+    await user.click(screen.getByRole("button", { name: /create survey/i }));
+    expect(screen.getByRole("alert")).toHaveTextContent("32-byte root");
+    expect(onCreate).toHaveBeenCalledTimes(1);
+
+    const root = `0x${"ab".repeat(32)}`;
+    await user.clear(screen.getByLabelText(/roster root/i));
+    await user.type(screen.getByLabelText(/roster root/i), root);
+    await user.click(screen.getByRole("button", { name: /create survey/i }));
+    expect(onCreate.mock.calls[1][0]).toMatchObject({ eligibilityRoot: root });
+  });
+
+  it("offers the organisations the account may author surveys for", async () => {
+    const user = userEvent.setup();
+    const onCreate = vi.fn().mockResolvedValue(false);
+    const { rerender } = render(<CreateSurveyForm onCreate={onCreate} />);
+    expect(screen.queryByLabelText(/organization/i)).not.toBeInTheDocument();
+
+    rerender(<CreateSurveyForm organizations={[{ id: 3n, name: "Acme HR", memberCount: 4 }]} onCreate={onCreate} />);
+    await fillDetails(user);
+    await user.click(screen.getByRole("button", { name: /create survey/i }));
+    expect(onCreate.mock.calls[0][0]).not.toHaveProperty("organizationId");
+
+    await user.selectOptions(screen.getByLabelText(/organization/i), "Acme HR");
+    await user.click(screen.getByRole("button", { name: /create survey/i }));
+    expect(onCreate.mock.calls[1][0]).toMatchObject({ organizationId: 3n });
+  });
+
+  it("schedules the survey when opening and closing times are set", async () => {
+    const user = userEvent.setup();
+    const onCreate = vi.fn().mockResolvedValue(false);
+    render(<CreateSurveyForm onCreate={onCreate} />);
+
+    await fillDetails(user);
+    fireEvent.change(screen.getByLabelText(/opens at/i), { target: { value: "2099-11-02T09:00" } });
+    fireEvent.change(screen.getByLabelText(/closes at/i), { target: { value: "2099-11-02T08:00" } });
+    await user.click(screen.getByRole("button", { name: /create survey/i }));
+    expect(screen.getByRole("alert")).toHaveTextContent("after the opening time");
+    expect(onCreate).not.toHaveBeenCalled();
+
+    fireEvent.change(screen.getByLabelText(/closes at/i), { target: { value: "2099-11-02T17:00" } });
+    await user.click(screen.getByRole("button", { name: /create survey/i }));
+    const survey = onCreate.mock.calls[0][0];
+    expect(survey.startTime).toEqual(new Date("2099-11-02T09:00"));
+    expect(survey.endTime).toEqual(new Date("2099-11-02T17:00"));
+    expect(survey).not.toHaveProperty("durationDays");
+  });
+
+  it("resets only after the survey was created", async () => {
+    const user = userEvent.setup();
+    const onCreate = vi.fn().mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+    render(<CreateSurveyForm onCreate={onCreate} />);
+
+    await fillDetails(user);
+    await user.click(screen.getByRole("button", { name: /create survey/i }));
+    expect(screen.getByLabelText(/survey title/i)).toHaveValue("Quarterly Pulse");
+
+    await user.click(screen.getByRole("button", { name: /create survey/i }));
+    expect(screen.getByLabelText(/survey title/i)).toHaveValue("");
+  });
+
+  it("fills the form from a template and keeps its version and translations unless the texts change", async () => {
+    const user = userEvent.setup();
+    const onCreate = vi.fn().mockResolvedValue(false);
+    render(<CreateSurveyForm onCreate={onCreate} />);
+
+    await user.selectOptions(screen.getByLabelText(/start from template/i), "employee-satisfaction");
+    await user.click(screen.getByRole("button", { name: /use template/i }));
+    expect(screen.getByRole("alert")).toHaveTextContent("quarter: required");
+
+    await user.type(screen.getByLabelText("Quarter"), "Q3 2026");
+    await user.click(screen.getByRole("button", { name: /use template/i }));
+    expect(screen.getByLabelText(/survey title/i)).toHaveValue("Q3 2026 Employee Satisfaction Survey");
+    await user.click(screen.getByRole("button", { name: /create survey/i }));
+    expect(onCreate.mock.calls[0][0]).toMatchObject({
+      durationDays: 14,
+      minResponses: 5,
+      template: "employee-satisfaction@1",
+      language: "en",
+    });
+    expect(Object.keys(onCreate.mock.calls[0][0].translations)).toEqual(["es", "fr"]);
+    expect(onCreate.mock.calls[0][0].translations.es.title).toBe("Encuesta de satisfacción de empleados Q3 2026");
+
+    await user.type(screen.getByLabelText("Question 1"), " Why?");
+    await user.click(screen.getByRole("button", { name: /create survey/i }));
+    expect(onCreate.mock.calls[1][0]).not.toHaveProperty("template");
+    expect(onCreate.mock.calls[1][0]).not.toHaveProperty("translations");
+  });
+});
@@ -0,0 +1,434 @@
+import { isHexString, ZeroHash } from "ethers";
+import { type FormEvent, useState } from "react";
+
+import { DEFAULT_MIN_RESPONSES, QUESTION_FORMATS, type QuestionFormat, questionFormat } from "../lib/config";
+import { SURVEY_TEMPLATES } from "../lib/templates";
+import {
+  MAX_RESPONSE_COST,
+  type NewSurvey,
+  type OrganizationInfo,
+  renderTemplate,
+  responseCost,
+  type SurveyQuestion,
+  type SurveyTranslation,
+} from "../sdk";
+
+interface QuestionRow {
+  text: string;
+  format: QuestionFormat;
+}
+
+const DEFAULT_QUESTIONS: QuestionRow[] = [
+  "How satisfied are you with the overall work environment?",
+  "How satisfied are you with your direct supervisor's management style?",
+  "How satisfied are you with the compensation and benefits?",
+  "How satisfied are you with career development opportunities?",
+  "How satisfied are you with team collaboration atmosphere?",
+].map((text) => ({ text, format: "rating" }));
+
+const EMPTY_FORM = {
+  title: "",
+  description: "",
+  durationDays: "14",
+  startTime: "",
+  endTime: "",
+  minResponses: String(DEFAULT_MIN_RESPONSES),
+  eligibilityRoot: "",
+  organizationId: "",
+  questions: DEFAULT_QUESTIONS,
+};
+
+/**
+ * Template the form was filled from, with the questions that make a survey count as that version
+ * and the texts its translations were written for
+ */
+interface AppliedTemplate {
+  ref: string;
+  title: string;
+  description: string;
+  questions: SurveyQuestion[];
+  language?: string;
+  translations?: Record<string, SurveyTranslation>;
+}
+
+function sameQuestions(a: SurveyQuestion[], b: SurveyQuestion[]): boolean {
+  return (
+    a.length === b.length &&
+    a.every(
+      (question, index) =>
+        question.text === b[index].text &&
+        question.questionType === b[index].questionType &&
+        question.minValue === b[index].minValue &&
+        question.maxValue === b[index].maxValue,
+    )
+  );
+}
+
+interface CreateSurveyFormProps {
+  /** Organisations the account is an author of, offered as owners of the survey */
+  organizations?: OrganizationInfo[];
+  /** Resolves to true once the survey exists, which resets the form */
+  onCreate(survey: NewSurvey): Promise<boolean>;
+}
+
+export function CreateSurveyForm({ organizations = [], onCreate }: CreateSurveyFormProps) {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [templateId, setTemplateId] = useState("");
+  const [templateValues, setTemplateValues] = useState<Record<string, string>>({});
+  const [applied, setApplied] = useState<AppliedTemplate | null>(null);
+  const template = SURVEY_TEMPLATES.find((candidate) => candidate.id === templateId);
+
+  const update = (changes: Partial<typeof EMPTY_FORM>) => setForm((current) => ({ ...current, ...changes }));
+
+  const updateQuestion = (index: number, changes: Partial<QuestionRow>) =>
+    update({ questions: form.questions.map((row, i) => (i === index ? { ...row, ...changes } : row)) });
+
+  const selectTemplate = (id: string) => {
+    const selected = SURVEY_TEMPLATES.find((candidate) => candidate.id === id);
+    setTemplateId(id);
+    setTemplateValues(
+      Object.fromEntries(
+        (selected?.parameters ?? []).map((parameter) => [parameter.name, String(parameter.default ?? "")]),
+      ),
+    );
+  };
+
+  const applyTemplate = () => {
+    if (!template) {
+      return;
+    }
+    try {
+      const survey = renderTemplate(template, templateValues);
+      update({
+        title: survey.title,
+        description: survey.description,
+        ...(survey.durationDays !== undefined && { durationDays: String(survey.durationDays) }),
+        startTime: "",
+        endTime: "",
+        minResponses: String(survey.minResponses),
+        questions: survey.questions.map((question) => ({
+          text: question.text,
+          format: questionFormat(question) ?? "rating",
+        })),
+      });
+      setApplied({
+        ref: survey.template!,
+        title: survey.title,
+        description: survey.description,
+        questions: survey.questions,
+        language: survey.language,
+        translations: survey.translations,
+      });
+      setError(null);
+    } catch (renderError) {
+      setError((renderError as Error).message);
+    }
+  };
+
+  const handleSubmit = async (event: FormEvent) => {
+    event.preventDefault();
+    const title = form.title.trim();
+    const description = form.description.trim();
+    const durationDays = parseInt(form.durationDays);
+    // datetime-local values carry no zone and are read as local time
+    const startTime = form.startTime ? new Date(form.startTime) : undefined;
+    const endTime = form.endTime ? new Date(form.endTime) : undefined;
+    const minResponses = parseInt(form.minResponses);
+    const eligibilityRoot = form.eligibilityRoot.trim();
+    const questions = form.questions
+      .map((row) => ({ text: row.text.trim(), ...QUESTION_FORMATS[row.format].config }))
+      .filter((question) => question.text);
+
+    if (!title || !description || !(endTime || durationDays >= 1) || questions.length < 1) {
+      setError("Please fill all required fields and provide at least 1 survey question");
+      return;
+    }
+    if (responseCost(questions) > MAX_RESPONSE_COST) {
+      setError(
+        "Too many questions to encrypt in one response (at most 7 star ratings): remove some or make some yes/no",
+      );
+      return;
+    }
+    if (endTime && (endTime <= new Date() || (startTime && endTime <= startTime))) {
+      setError("The closing time must be in the future and after the opening time");
+      return;
+    }
+    if (!(minResponses >= 1)) {
+      setError("Please set how many responses are required before results unlock");
+      return;
+    }
+    if (eligibilityRoot && (!isHexString(eligibilityRoot, 32) || eligibilityRoot === ZeroHash)) {
+      setError("The roster root must be the 0x-prefixed 32-byte root printed by build-roster-tree");
+      return;
+    }
+
+    setError(null);
+    setSubmitting(true);
+    try {
+      const schedule = { ...(startTime && { startTime }), ...(endTime ? { endTime } : { durationDays }) };
+      const fromTemplate = applied !== null && sameQuestions(questions, applied.questions);
+      // Translations only fit the texts they were written for
+      const translated =
+        fromTemplate && applied.translations && title === applied.title && description === applied.description;
+      const survey: NewSurvey = {
+        title,
+        description,
+        questions,
+        ...schedule,
+        minResponses,
+        ...(eligibilityRoot !== "" && { eligibilityRoot }),
+        ...(form.organizationId !== "" && { organizationId: BigInt(form.organizationId) }),
+        // Edited questions no longer match the template version, so the survey does not claim it
+        ...(fromTemplate && { template: applied.ref }),
+        ...(applied?.language !== undefined && { language: applied.language }),
+        ...(translated && { translations: applied.translations }),
+      };
+      if (await onCreate(survey)) {
+        setForm(EMPTY_FORM);
+        selectTemplate("");
+        setApplied(null);
+      }
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <div className="form-group">
+        <label className="form-label" htmlFor="survey-template">
+          📐 Start From Template (optional)
+        </label>
+        <select
+          id="survey-template"
+          className="form-control"
+          value={templateId}
+          onChange={(event) => selectTemplate(event.target.value)}
+        >
+          <option value="">Blank survey</option>
+          {SURVEY_TEMPLATES.map((candidate) => (
+            <option key={candidate.id} value={candidate.id}>
+              {candidate.name} (v{candidate.version})
+            </option>
+          ))}
+        </select>
+        {template && (
+          <>
+            <p className="hint">{template.summary}</p>
+            {template.parameters.map((parameter) => (
+              <input
+                key={parameter.name}
+                type={parameter.type === "number" ? "number" : "text"}
+                className="form-control"
+                aria-label={parameter.label}
+                placeholder={parameter.label}
+                value={templateValues[parameter.name] ?? ""}
+                onChange={(event) =>
+                  setTemplateValues((current) => ({ ...current, [parameter.name]: event.target.value }))
+                }
+              />
+            ))}
+            <button type="button" className="btn btn-secondary" onClick={applyTemplate}>
+              📐 Use Template
+            </button>
+          </>
+        )}
+        <p className="hint">
+          📊 Surveys created from a template record its version on chain, so results can be compared across quarters.
+          Editing the questions afterwards makes it a new survey that no longer counts as that version.
+        </p>
+      </div>
+      <div className="form-group">
+        <label className="form-label" htmlFor="survey-title">
+          📝 Survey Title
+        </label>
+        <input
+          id="survey-title"
+          type="text"
+          className="form-control"
+          placeholder="Enter survey title..."
+          maxLength={100}
+          required
+          value={form.title}
+          onChange={(event) => update({ title: event.target.value })}
+        />
+      </div>
+      <div className="form-group">
+        <label className="form-label" htmlFor="survey-description">
+          📄 Survey Description
+        </label>
+        <textarea
+          id="survey-description"
+          className="form-control"
+          rows={4}
+          placeholder="Describe the purpose and content of this survey..."
+          maxLength={500}
+          required
+          value={form.description}
+          onChange={(event) => update({ description: event.target.value })}
+        />
+      </div>
+      <div className="form-group">
+        <label className="form-label" htmlFor="survey-duration">
+          ⏰ Survey Duration (Days)
+        </label>
+        <input
+          id="survey-duration"
+          type="number"
+          className="form-control"
+          min={1}
+          max={30}
+          required
+          value={form.durationDays}
+          onChange={(event) => update({ durationDays: event.target.value })}
+        />
+      </div>
+      <div className="form-group">
+        <label className="form-label" htmlFor="survey-start">
+          🚀 Opens At (optional)
+        </label>
+        <input
+          id="survey-start"
+          type="datetime-local"
+          className="form-control"
+          value={form.startTime}
+          onChange={(event) => update({ startTime: event.target.value })}
+        />
+      </div>
+      <div className="form-group">
+        <label className="form-label" htmlFor="survey-end">
+          🏁 Closes At (optional)
+        </label>
+        <input
+          id="survey-end"
+          type="datetime-local"
+          className="form-control"
+          value={form.endTime}
+          onChange={(event) => update({ endTime: event.target.value })}
+        />
+        <p className="hint">
+          🗓️ Leave both empty to open the survey now for the duration above. A closing time replaces the duration, so a
+          survey can also run for just a few hours.
+        </p>
+      </div>
+      <div className="form-group">
+        <label className="form-label" htmlFor="survey-min-responses">
+          🛡️ Minimum Responses Before Results Unlock
+        </label>
+        <input
+          id="survey-min-responses"
+          type="number"
+          className="form-control"
+          min={1}
+          required
+          value={form.minResponses}
+          onChange={(event) => update({ minResponses: event.target.value })}
+        />
+        <p className="hint">
+          🔒 Averages and distributions stay encrypted until this many employees have responded, so no result can point
+          to one person (the contract enforces a minimum of its own)
+        </p>
+      </div>
+      <div className="form-group">
+        <label className="form-label" htmlFor="survey-eligibility-root">
+          🎟️ Invited Employees Roster Root (optional)
+        </label>
+        <input
+          id="survey-eligibility-root"
+          type="text"
+          className="form-control"
+          placeholder="0x..."
+          value={form.eligibilityRoot}
+          onChange={(event) => update({ eligibilityRoot: event.target.value })}
+        />
+        <p className="hint">
+          👥 Paste the root printed by <code>npx hardhat build-roster-tree</code> to accept responses only from wallets
+          on that roster. Leave empty to let anyone respond.
+        </p>
+      </div>
+      {organizations.length > 0 && (
+        <div className="form-group">
+          <label className="form-label" htmlFor="survey-organization">
+            🏢 Organization
+          </label>
+          <select
+            id="survey-organization"
+            className="form-control"
+            value={form.organizationId}
+            onChange={(event) => update({ organizationId: event.target.value })}
+          >
+            <option value="">Personal survey</option>
+            {organizations.map((organization) => (
+              <option key={organization.id.toString()} value={organization.id.toString()}>
+                {organization.name}
+              </option>
+            ))}
+          </select>
+          <p className="hint">
+            📊 Surveys created for an organization can also be revealed by its analysts. Only organizations you are an
+            author of are listed.
+          </p>
+        </div>
+      )}
+
+      <fieldset className="form-group">
+        <legend className="form-label">📋 Survey Questions</legend>
+        {form.questions.map((row, index) => (
+          <div key={index} className="question-row">
+            <input
+              type="text"
+              className="form-control"
+              aria-label={`Question ${index + 1}`}
+              placeholder={`Question ${index + 1}`}
+              value={row.text}
+              onChange={(event) => updateQuestion(index, { text: event.target.value })}
+            />
+            <select
+              className="form-control question-format"
+              aria-label={`Question ${index + 1} format`}
+              value={row.format}
+              onChange={(event) => updateQuestion(index, { format: event.target.value as QuestionFormat })}
+            >
+              {Object.entries(QUESTION_FORMATS).map(([format, { label }]) => (
+                <option key={format} value={format}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              className="btn-icon"
+              aria-label={`Remove question ${index + 1}`}
+              disabled={form.questions.length === 1}
+              onClick={() => update({ questions: form.questions.filter((_, i) => i !== index) })}
+            >
+              ✕
+            </button>
+          </div>
+        ))}
+        <button
+          type="button"
+          className="btn btn-secondary"
+          onClick={() => update({ questions: [...form.questions, { text: "", format: "rating" }] })}
+        >
+          ➕ Add Question
+        </button>
+        <p className="hint">
+          💡 Answer formats: ⭐ Rating 1-5 (1=Very Dissatisfied ... 5=Very Satisfied), 📈 eNPS 0-10 (0=Not at all likely
+          ... 10=Extremely likely), 🤝 Agreement 1-7 (1=Strongly Disagree ... 7=Strongly Agree), ✅ Yes / No
+        </p>
+      </fieldset>
+
+      {error && (
+        <p className="form-error" role="alert">
+          ❌ {error}
+        </p>
+      )}
+      <button type="submit" className={`btn btn-large${submitting ? " btn-loading" : ""}`} disabled={submitting}>
+        📋 Create Survey
+      </button>
+    </form>
+  );
+}
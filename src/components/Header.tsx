@@ -0,0 +1,43 @@
+import type { ContractStatus } from "../hooks/useSurveys";
+import { CONTRACT_ADDRESS, ETHERSCAN_URL } from "../lib/config";
+import { languageName, type Messages } from "../lib/i18n";
+import { shortAddress } from "../lib/surveys";
+
+interface HeaderProps {
+  contractStatus: ContractStatus;
+  text: Messages;
+  language: string;
+  /** Languages the reader can pick: the app's own and those the surveys are translated into */
+  languages: string[];
+  onLanguageChange(language: string): void;
+}
+
+export function Header({ contractStatus, text, language, languages, onLanguageChange }: HeaderProps) {
+  return (
+    <div className="header">
+      <h1>{text.heading}</h1>
+      <p>{text.subtitle}</p>
+      <p className="header-contract">
+        {text.contract}:{" "}
+        <a href={`${ETHERSCAN_URL}/address/${CONTRACT_ADDRESS}`} target="_blank" rel="noreferrer">
+          {shortAddress(CONTRACT_ADDRESS)}
+        </a>{" "}
+        | {text.network}
+      </p>
+      <div className={`contract-status contract-status-${contractStatus}`}>
+        {contractStatus !== "checking" && <span className="status-dot" />}
+        <span>{text.contractStatus[contractStatus]}</span>
+      </div>
+      <label className="header-language">
+        🌐 {text.language}{" "}
+        <select value={language} onChange={(event) => onLanguageChange(event.target.value)}>
+          {languages.map((tag) => (
+            <option key={tag} value={tag} lang={tag}>
+              {languageName(tag)}
+            </option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+}
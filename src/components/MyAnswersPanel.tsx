@@ -0,0 +1,61 @@
+import { useState } from "react";
+
+import { messages } from "../lib/i18n";
+import { answerLabel, type Survey } from "../lib/surveys";
+import { type Answer, DEFAULT_LANGUAGE } from "../sdk";
+
+interface MyAnswersPanelProps {
+  survey: Survey;
+  onViewAnswers(survey: Survey): Promise<Answer[] | null>;
+  /** Language of the panel's own texts */
+  language?: string;
+}
+
+/**
+ * The respondent's own answers to an on-chain survey. They stay encrypted until the respondent
+ * asks, and are then decrypted for their respondent key only; this browser never stores them.
+ */
+export function MyAnswersPanel({ survey, onViewAnswers, language = DEFAULT_LANGUAGE }: MyAnswersPanelProps) {
+  const text = messages(language);
+  const [answers, setAnswers] = useState<Answer[] | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const show = async () => {
+    setLoading(true);
+    try {
+      setAnswers(await onViewAnswers(survey));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!answers) {
+    return (
+      <button
+        type="button"
+        className={`btn btn-secondary${loading ? " btn-loading" : ""}`}
+        disabled={loading}
+        onClick={show}
+      >
+        {text.answers.view}
+      </button>
+    );
+  }
+
+  return (
+    <section className="my-answers" aria-label={text.answers.mineLabel}>
+      <h3>{text.answers.mineHeading}</h3>
+      <ul>
+        {survey.questions.map((question, index) => (
+          <li key={index}>
+            Q{index + 1}: {question.text} <strong>{answerLabel(question, Number(answers[index]), text)}</strong>
+          </li>
+        ))}
+      </ul>
+      <p className="hint">{text.answers.decryptedHint}</p>
+      <button type="button" className="btn btn-secondary" onClick={() => setAnswers(null)}>
+        {text.answers.hide}
+      </button>
+    </section>
+  );
+}
@@ -0,0 +1,130 @@
+import { render, screen, waitFor, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+import { createLocalSurvey, recordLocalResponse, type Survey } from "../lib/surveys";
+import { FIVE_STAR_RATING, YES_NO } from "../sdk";
+import { ResultsDashboard } from "./ResultsDashboard";
+
+const CREATOR = "0x1111111111111111111111111111111111111111";
+
+function localSurvey(): Survey {
+  return createLocalSurvey(
+    7,
+    CREATOR,
+    "Quarterly Pulse",
+    "Short pulse survey",
+    [
+      { text: "How satisfied are you with your role?", ...FIVE_STAR_RATING },
+      { text: "Do you feel valued?", ...YES_NO },
+    ],
+    { durationDays: 7 },
+  );
+}
+
+/** An on-chain survey whose first question is fully revealed and second still encrypted */
+function chainSurvey(): Survey {
+  const survey = localSurvey();
+  return {
+    ...survey,
+    onChain: true,
+    totalResponses: 3,
+    resultsPublished: true,
+    results: [
+      { counts: [0, 0, 1, 0, 2], totalResponses: 3, average: 13 / 3, distributionRevealed: true },
+      { counts: [0, 0], totalResponses: 3, average: null, distributionRevealed: false },
+    ],
+  };
+}
+
+const RESPONSE_TIMES = [
+  new Date("2025-01-02T09:00:00.000Z"),
+  new Date("2025-01-03T09:00:00.000Z"),
+  new Date("2025-01-05T09:00:00.000Z"),
+];
+
+describe("ResultsDashboard", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("charts revealed questions and flags the ones still encrypted", async () => {
+    const onLoadResponseTimes = vi.fn().mockResolvedValue(RESPONSE_TIMES);
+    render(<ResultsDashboard survey={chainSurvey()} onLoadResponseTimes={onLoadResponseTimes} onBack={vi.fn()} />);
+
+    expect(screen.getByRole("note")).toHaveTextContent("Not revealed yet: Q2");
+    const [revealed, encrypted] = screen.getAllByTestId("question-chart");
+    expect(within(revealed).getByRole("img")).toHaveAccessibleName("Q1 answers: 1⭐ 0, 2⭐ 0, 3⭐ 1, 4⭐ 0, 5⭐ 2");
+    expect(within(revealed).getByText("Average: ⭐ 4.3/5")).toBeInTheDocument();
+    expect(within(encrypted).queryByRole("img")).not.toBeInTheDocument();
+    expect(within(encrypted).getByText("🔒 Distribution not revealed yet")).toBeInTheDocument();
+
+    expect(await screen.findByRole("img", { name: /^3 responses between/ })).toBeInTheDocument();
+    expect(onLoadResponseTimes).toHaveBeenCalledWith(expect.objectContaining({ id: 7 }));
+  });
+
+  it("shows its texts and dates in the picked language", async () => {
+    render(
+      <ResultsDashboard
+        survey={chainSurvey()}
+        onLoadResponseTimes={vi.fn().mockResolvedValue(RESPONSE_TIMES)}
+        onBack={vi.fn()}
+        language="es"
+      />,
+    );
+
+    expect(screen.getByRole("note")).toHaveTextContent("Aún sin revelar: Q2");
+    const [revealed, encrypted] = screen.getAllByTestId("question-chart");
+    expect(within(revealed).getByText("Media: ⭐ 4.3/5")).toBeInTheDocument();
+    expect(within(encrypted).getByText("Sí / No")).toBeInTheDocument();
+    expect(await screen.findByText(RESPONSE_TIMES[0].toLocaleDateString("es"))).toBeInTheDocument();
+  });
+
+  it("explains that local surveys record no response times", () => {
+    const survey = recordLocalResponse(localSurvey(), [4, true]);
+    const onLoadResponseTimes = vi.fn();
+    render(<ResultsDashboard survey={survey} onLoadResponseTimes={onLoadResponseTimes} onBack={vi.fn()} />);
+
+    expect(screen.getByText("Response times are only recorded for on-chain surveys.")).toBeInTheDocument();
+    expect(screen.getByText("✅ Every question has been revealed")).toBeInTheDocument();
+    expect(onLoadResponseTimes).not.toHaveBeenCalled();
+  });
+
+  it("downloads CSV and JSON exports and prints the report", async () => {
+    const user = userEvent.setup();
+    const createObjectURL = vi.fn().mockReturnValue("blob:results");
+    const revokeObjectURL = vi.fn();
+    Object.assign(URL, { createObjectURL, revokeObjectURL });
+    const downloads: string[] = [];
+    // URLs revoked by the time the click handler has returned, when the browser may not have read them yet
+    const revokedAfterClick: number[] = [];
+    vi.spyOn(HTMLAnchorElement.prototype, "click").mockImplementation(function (this: HTMLAnchorElement) {
+      downloads.push(this.download);
+      void Promise.resolve().then(() => revokedAfterClick.push(revokeObjectURL.mock.calls.length));
+    });
+    const print = vi.spyOn(window, "print").mockImplementation(() => {});
+    const onBack = vi.fn();
+    render(
+      <ResultsDashboard
+        survey={chainSurvey()}
+        onLoadResponseTimes={vi.fn().mockResolvedValue(RESPONSE_TIMES)}
+        onBack={onBack}
+      />,
+    );
+
+    await user.click(screen.getByRole("button", { name: "⬇️ CSV" }));
+    expect(createObjectURL).toHaveBeenLastCalledWith(expect.objectContaining({ type: "text/csv" }));
+
+    await user.click(screen.getByRole("button", { name: "⬇️ JSON" }));
+    expect(createObjectURL).toHaveBeenLastCalledWith(expect.objectContaining({ type: "application/json" }));
+    expect(downloads).toEqual(["survey-7-results.csv", "survey-7-results.json"]);
+    expect(revokedAfterClick).toEqual([0, 1]);
+    await waitFor(() => expect(revokeObjectURL).toHaveBeenCalledTimes(2));
+
+    await user.click(screen.getByRole("button", { name: "🖨️ Print report" }));
+    expect(print).toHaveBeenCalled();
+
+    await user.click(screen.getByRole("button", { name: "◀ Back to surveys" }));
+    expect(onBack).toHaveBeenCalled();
+  });
+});
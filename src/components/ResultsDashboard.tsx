@@ -0,0 +1,246 @@
+import { useEffect, useState } from "react";
+
+import { messages, type Messages } from "../lib/i18n";
+import {
+  buildReport,
+  type QuestionReport,
+  reportFileName,
+  reportToCsv,
+  reportToJson,
+  responseCurve,
+  type ResultsReport,
+  unrevealedQuestions,
+} from "../lib/report";
+import { answerLabel, formatAverage, type Survey } from "../lib/surveys";
+import { DEFAULT_LANGUAGE, type QuestionConfig } from "../sdk";
+
+interface ResultsDashboardProps {
+  /** The survey as the reader sees it, texts in their language */
+  survey: Survey;
+  /** When each response came in, oldest first; null when that cannot be read */
+  onLoadResponseTimes(survey: Survey): Promise<Date[] | null>;
+  onBack(): void;
+  /** Language of the dashboard's own texts and dates; exports stay in English */
+  language?: string;
+}
+
+/** Chart height in SVG units; widths are percentages of 100 */
+const CHART_HEIGHT = 50;
+
+function download(fileName: string, type: string, text: string) {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Some browsers start the download after click() returns, and fail it if the URL is gone by then
+  setTimeout(() => URL.revokeObjectURL(url));
+}
+
+/**
+ * Running response count as a step line, from the first response to the latest
+ */
+function ResponseTimeline({ report, language, text }: { report: ResultsReport; language: string; text: Messages }) {
+  const points = responseCurve(report);
+  if (points.length === 0) {
+    return <p className="hint">{text.results.noResponses}</p>;
+  }
+  const first = points[0].time.getTime();
+  const span = Math.max(1, points[points.length - 1].time.getTime() - first);
+  const x = (time: Date) => ((time.getTime() - first) / span) * 100;
+  const y = (count: number) => CHART_HEIGHT - (count / points.length) * CHART_HEIGHT;
+  const path = points.reduce((line, point) => `${line} H ${x(point.time)} V ${y(point.count)}`, `M 0 ${CHART_HEIGHT}`);
+
+  return (
+    <figure className="response-timeline">
+      <svg
+        viewBox={`0 0 100 ${CHART_HEIGHT}`}
+        preserveAspectRatio="none"
+        role="img"
+        aria-label={text.results.timelineLabel(
+          points.length,
+          points[0].time.toLocaleString(language),
+          points[points.length - 1].time.toLocaleString(language),
+        )}
+      >
+        <path d={path} className="timeline-line" vectorEffect="non-scaling-stroke" />
+      </svg>
+      <figcaption className="chart-axis">
+        <span>{points[0].time.toLocaleDateString(language)}</span>
+        <span>{points[points.length - 1].time.toLocaleDateString(language)}</span>
+      </figcaption>
+    </figure>
+  );
+}
+
+/**
+ * One bar per answer, scaled to the most chosen one. Labels are the reader's, not the report's.
+ */
+function AnswerChart({ question, config, text }: { question: QuestionReport; config: QuestionConfig; text: Messages }) {
+  if (!question.distribution) {
+    return <div className="hint">{text.results.distributionPending}</div>;
+  }
+  const distribution = question.distribution.map((answer) => ({
+    ...answer,
+    label: answerLabel(config, answer.value, text),
+  }));
+  const highest = Math.max(1, ...distribution.map((answer) => answer.count));
+  const slot = 100 / distribution.length;
+
+  return (
+    <figure className="answer-chart">
+      <svg
+        viewBox={`0 0 100 ${CHART_HEIGHT}`}
+        preserveAspectRatio="none"
+        role="img"
+        aria-label={text.results.chartLabel(
+          question.number,
+          distribution.map((answer) => `${answer.label} ${answer.count}`).join(", "),
+        )}
+      >
+        {distribution.map((answer, index) => {
+          const height = (answer.count / highest) * CHART_HEIGHT;
+          return (
+            <rect
+              key={answer.value}
+              className="answer-bar"
+              x={index * slot + slot * 0.15}
+              y={CHART_HEIGHT - height}
+              width={slot * 0.7}
+              height={height}
+            >
+              <title>
+                {answer.label}: {answer.count} ({answer.share}%)
+              </title>
+            </rect>
+          );
+        })}
+      </svg>
+      <figcaption className="chart-axis">
+        {distribution.map((answer) => (
+          <span key={answer.value}>
+            {answer.label}
+            <br />
+            {answer.count} ({answer.share}%)
+          </span>
+        ))}
+      </figcaption>
+    </figure>
+  );
+}
+
+/**
+ * A survey's results on one page: revealed averages and answer distributions as bar charts, the
+ * responses over time, which questions are still encrypted, and CSV, JSON and printed exports
+ */
+export function ResultsDashboard({
+  survey,
+  onLoadResponseTimes,
+  onBack,
+  language = DEFAULT_LANGUAGE,
+}: ResultsDashboardProps) {
+  const text = messages(language);
+  const [responseTimes, setResponseTimes] = useState<Date[] | null>(null);
+  const [loadingTimes, setLoadingTimes] = useState(survey.onChain);
+
+  useEffect(() => {
+    if (!survey.onChain) {
+      return;
+    }
+    let cancelled = false;
+    setLoadingTimes(true);
+    onLoadResponseTimes(survey).then((times) => {
+      if (!cancelled) {
+        setResponseTimes(times);
+        setLoadingTimes(false);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+    // Reload for another survey or after new responses, not whenever the survey list refreshes
+  }, [survey.id, survey.onChain, survey.totalResponses, onLoadResponseTimes]);
+
+  const report = buildReport(survey, responseTimes ?? []);
+  const unrevealed = unrevealedQuestions(report);
+
+  return (
+    <section className="section results-dashboard" aria-label={text.results.dashboardLabel}>
+      <div className="results-actions">
+        <button type="button" className="btn btn-secondary" onClick={onBack}>
+          {text.results.back}
+        </button>
+        <button
+          type="button"
+          className="btn btn-secondary"
+          onClick={() => download(reportFileName(report, "csv"), "text/csv", reportToCsv(report))}
+        >
+          ⬇️ CSV
+        </button>
+        <button
+          type="button"
+          className="btn btn-secondary"
+          onClick={() => download(reportFileName(report, "json"), "application/json", reportToJson(report))}
+        >
+          ⬇️ JSON
+        </button>
+        <button type="button" className="btn" onClick={() => window.print()}>
+          {text.results.print}
+        </button>
+      </div>
+
+      <h3>{report.title}</h3>
+      {report.description && <p className="project-description">{report.description}</p>}
+      <div className="project-stats">
+        <span>
+          <strong>
+            {text.results.responses}: {report.totalResponses}
+          </strong>
+        </span>
+        <span>{report.resultsPublished ? text.results.published : text.results.notPublished}</span>
+        <span>{text.results.generated(new Date(report.generatedAt).toLocaleString(language))}</span>
+      </div>
+
+      {unrevealed.length > 0 ? (
+        <div className="content-error" role="note">
+          {text.results.unrevealed(unrevealed.map((question) => `Q${question.number}`).join(", "))}
+        </div>
+      ) : (
+        <div className="threshold threshold-unlocked">{text.results.allRevealed}</div>
+      )}
+
+      <div className="survey-section">
+        <strong>{text.results.timeline}</strong>
+        {!survey.onChain ? (
+          <p className="hint">{text.results.timesOffChain}</p>
+        ) : loadingTimes ? (
+          <p className="hint">{text.results.loadingTimes}</p>
+        ) : responseTimes === null ? (
+          <p className="hint">{text.results.timesUnreadable}</p>
+        ) : (
+          <ResponseTimeline report={report} language={language} text={text} />
+        )}
+      </div>
+
+      {report.questions.map((question, index) => (
+        <div key={question.number} className="survey-section" data-testid="question-chart">
+          <strong>
+            Q{question.number}: {question.text}
+          </strong>
+          <div className="result-summary">
+            <span>{formatAverage(survey.questions[index], question.average, text)}</span>
+            <span>
+              {question.type === "yesno"
+                ? text.results.yesNo
+                : text.results.scale(question.minValue, question.maxValue)}
+            </span>
+            <span>
+              {text.results.responses}: {question.responses}
+            </span>
+          </div>
+          <AnswerChart question={question} config={survey.questions[index]} text={text} />
+        </div>
+      ))}
+    </section>
+  );
+}
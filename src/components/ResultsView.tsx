@@ -0,0 +1,68 @@
+import { messages, type Messages } from "../lib/i18n";
+import { answerLabel, formatAverage, type Survey } from "../lib/surveys";
+import { DEFAULT_LANGUAGE } from "../sdk";
+
+/**
+ * How many more responses an on-chain survey needs before results can be unlocked
+ */
+function ResponseThreshold({ responsesNeeded, text }: { responsesNeeded: number; text: Messages }) {
+  if (responsesNeeded > 0) {
+    return <div className="threshold threshold-locked">{text.results.needed(responsesNeeded)}</div>;
+  }
+  return <div className="threshold threshold-unlocked">{text.results.unlockable}</div>;
+}
+
+/**
+ * Per-question averages and answer distributions, as far as they have been revealed
+ */
+export function ResultsView({ survey, language = DEFAULT_LANGUAGE }: { survey: Survey; language?: string }) {
+  const text = messages(language);
+  return (
+    <div className="results">
+      {survey.onChain && survey.responsesNeeded !== undefined && (
+        <ResponseThreshold responsesNeeded={survey.responsesNeeded} text={text} />
+      )}
+
+      {survey.questions.map((question, index) => {
+        const result = survey.results[index];
+        const total = result.counts.reduce((sum, count) => sum + count, 0);
+        return (
+          <div key={index} className="survey-section" data-testid="question-result">
+            <strong>
+              Q{index + 1}: {question.text}
+            </strong>
+            <div className="result-summary">
+              <span>{formatAverage(question, result.average, text)}</span>
+              <span>
+                {text.results.responses}: {result.totalResponses}
+              </span>
+            </div>
+
+            {result.distributionRevealed ? (
+              <div className="distribution">
+                {result.counts.map((count, bucket) => {
+                  const share = total > 0 ? Math.round((count / total) * 100) : 0;
+                  return (
+                    <div key={bucket} className="distribution-row">
+                      <span className="distribution-label">
+                        {answerLabel(question, question.minValue + bucket, text)}
+                      </span>
+                      <div className="distribution-track">
+                        <div className="distribution-fill" style={{ width: `${share}%` }} />
+                      </div>
+                      <span className="distribution-count">
+                        {count} ({share}%)
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
+            ) : (
+              survey.onChain && <div className="hint">{text.results.distributionHidden}</div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,292 @@
+import { render, screen, within } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { describe, expect, it, vi } from "vitest";
+
+import { createLocalSurvey, recordLocalResponse, type Survey } from "../lib/surveys";
+import { FIVE_STAR_RATING, OrganizationRole, YES_NO } from "../sdk";
+import { SurveyCard } from "./SurveyCard";
+
+const CREATOR = "0x1111111111111111111111111111111111111111";
+const EMPLOYEE = "0x2222222222222222222222222222222222222222";
+
+function localSurvey(): Survey {
+  return createLocalSurvey(
+    7,
+    CREATOR,
+    "Quarterly Pulse",
+    "Short pulse survey",
+    [
+      { text: "How satisfied are you with your role?", ...FIVE_STAR_RATING },
+      { text: "Do you feel valued?", ...YES_NO },
+    ],
+    { durationDays: 7 },
+  );
+}
+
+function chainSurvey(changes: Partial<Survey> = {}): Survey {
+  return { ...localSurvey(), onChain: true, responsesNeeded: 2, totalResponses: 3, ...changes };
+}
+
+function actions() {
+  return {
+    onSubmit: vi.fn().mockResolvedValue(undefined),
+    onRevise: vi.fn().mockResolvedValue(undefined),
+    onViewAnswers: vi.fn().mockResolvedValue([4, false]),
+    onClose: vi.fn().mockResolvedValue(undefined),
+    onPublish: vi.fn().mockResolvedValue(undefined),
+    onReveal: vi.fn().mockResolvedValue(undefined),
+  };
+}
+
+describe("SurveyCard", () => {
+  it("lets an employee answer an open survey", async () => {
+    const user = userEvent.setup();
+    const handlers = actions();
+    const survey = localSurvey();
+    render(<SurveyCard survey={survey} account={EMPLOYEE} {...handlers} />);
+
+    await user.click(screen.getByLabelText("5⭐"));
+    await user.click(screen.getByLabelText("👍 Yes"));
+    await user.click(screen.getByRole("button", { name: /submit survey response/i }));
+
+    expect(handlers.onSubmit).toHaveBeenCalledWith(survey, [5, true]);
+  });
+
+  it("hides the answer form from creators, past respondents and visitors", () => {
+    const survey = localSurvey();
+    const participation = {
+      surveyId: 7,
+      timestamp: "2025-01-01T00:00:00.000Z",
+      mode: "chain" as const,
+      txHash: "0xabc123def4567890",
+    };
+
+    const { rerender } = render(<SurveyCard survey={survey} account={CREATOR} {...actions()} />);
+    expect(screen.queryByRole("button", { name: /submit survey response/i })).not.toBeInTheDocument();
+    expect(screen.getByText("👑 Your Survey")).toBeInTheDocument();
+
+    rerender(<SurveyCard survey={survey} account={EMPLOYEE} participation={participation} {...actions()} />);
+    expect(screen.queryByRole("button", { name: /submit survey response/i })).not.toBeInTheDocument();
+    expect(screen.getByRole("link", { name: /TX: 0xabc123de/ })).toHaveAttribute(
+      "href",
+      "https://sepolia.etherscan.io/tx/0xabc123def4567890",
+    );
+
+    rerender(<SurveyCard survey={survey} account={null} {...actions()} />);
+    expect(screen.getByText("Please connect wallet to participate in survey")).toBeInTheDocument();
+  });
+
+  it("counts down to a scheduled survey and keeps it closed until then", () => {
+    const startTime = new Date(Date.now() + (2 * 24 + 5) * 60 * 60 * 1000 + 30_000);
+    const survey = createLocalSurvey(8, CREATOR, "Launch Day", "", [{ text: "Ready?", ...YES_NO }], {
+      startTime,
+      endTime: new Date(startTime.getTime() + 8 * 60 * 60 * 1000),
+    });
+    render(<SurveyCard survey={survey} account={EMPLOYEE} {...actions()} />);
+
+    expect(screen.getByText("Status: 🕒 Upcoming")).toBeInTheDocument();
+    expect(screen.getByText("Opens in: 2d 5h")).toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: /submit survey response/i })).not.toBeInTheDocument();
+  });
+
+  it("lets a respondent edit their answers while the survey is open", async () => {
+    const user = userEvent.setup();
+    const handlers = actions();
+    const survey = chainSurvey();
+    const participation = {
+      surveyId: 7,
+      timestamp: "2025-01-01T00:00:00.000Z",
+      mode: "chain" as const,
+      txHash: "0xabc123def4567890",
+    };
+    const { rerender } = render(
+      <SurveyCard survey={survey} account={EMPLOYEE} participation={participation} {...handlers} />,
+    );
+
+    await user.click(screen.getByRole("button", { name: /edit my answers/i }));
+    await user.click(screen.getByLabelText("2⭐"));
+    await user.click(screen.getByLabelText("👍 Yes"));
+    await user.click(screen.getByRole("button", { name: /save new answers/i }));
+    expect(handlers.onRevise).toHaveBeenCalledWith(survey, [2, true]);
+
+    rerender(
+      <SurveyCard
+        survey={{ ...survey, active: false }}
+        account={EMPLOYEE}
+        participation={participation}
+        {...handlers}
+      />,
+    );
+    expect(screen.queryByRole("button", { name: /edit my answers/i })).not.toBeInTheDocument();
+  });
+
+  it("decrypts a respondent's own on-chain answers on request", async () => {
+    const user = userEvent.setup();
+    const handlers = actions();
+    const survey = chainSurvey();
+    const participation = { surveyId: 7, timestamp: "2025-01-01T00:00:00.000Z", mode: "chain" as const };
+    render(<SurveyCard survey={survey} account={EMPLOYEE} participation={participation} {...handlers} />);
+
+    expect(screen.queryByRole("region", { name: "My answers" })).not.toBeInTheDocument();
+    await user.click(screen.getByRole("button", { name: /view my answers/i }));
+
+    expect(handlers.onViewAnswers).toHaveBeenCalledWith(survey);
+    const panel = screen.getByRole("region", { name: "My answers" });
+    expect(within(panel).getByText("4⭐")).toBeInTheDocument();
+    expect(within(panel).getByText("👎 No")).toBeInTheDocument();
+  });
+
+  it("keeps queued and local responses out of editing and decryption", () => {
+    const queued = { surveyId: 7, timestamp: "2025-01-01T00:00:00.000Z", mode: "queued" as const };
+    const { rerender } = render(
+      <SurveyCard survey={chainSurvey()} account={EMPLOYEE} participation={queued} {...actions()} />,
+    );
+    expect(screen.getByText(/encrypted and queued, sent once the connection is back/i)).toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: /edit my answers/i })).not.toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: /view my answers/i })).not.toBeInTheDocument();
+
+    const local = { ...queued, mode: "local" as const };
+    rerender(
+      <SurveyCard
+        survey={recordLocalResponse(localSurvey(), [5, true])}
+        account={EMPLOYEE}
+        participation={local}
+        {...actions()}
+      />,
+    );
+    expect(screen.getByText(/Local Mode/)).toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: /edit my answers/i })).not.toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: /view my answers/i })).not.toBeInTheDocument();
+  });
+
+  it("shows local tallies as averages and distributions", () => {
+    const survey = recordLocalResponse(recordLocalResponse(localSurvey(), [5, true]), [4, false]);
+    render(<SurveyCard survey={survey} account={null} {...actions()} />);
+
+    const [rating, valued] = screen.getAllByTestId("question-result");
+    expect(rating).toHaveTextContent("Average: ⭐ 4.5/5");
+    expect(rating).toHaveTextContent("Responses: 2");
+    expect(within(rating).getByText("4⭐").parentElement).toHaveTextContent("1 (50%)");
+    expect(valued).toHaveTextContent("Answered Yes: 50%");
+  });
+
+  it("keeps on-chain results locked until they are revealed", () => {
+    render(<SurveyCard survey={chainSurvey()} account={null} {...actions()} />);
+
+    expect(screen.getByText(/2 more responses needed/)).toBeInTheDocument();
+    expect(screen.getAllByText("🔒 Average not revealed yet")).toHaveLength(2);
+    expect(screen.getAllByText(/distribution stays encrypted/)).toHaveLength(2);
+  });
+
+  it("walks the creator through close, publish and reveal", async () => {
+    const user = userEvent.setup();
+    const handlers = actions();
+    const { rerender } = render(<SurveyCard survey={chainSurvey()} account={CREATOR} {...handlers} />);
+
+    await user.click(screen.getByRole("button", { name: /close survey/i }));
+    expect(handlers.onClose).toHaveBeenCalled();
+
+    rerender(<SurveyCard survey={chainSurvey({ active: false })} account={CREATOR} {...handlers} />);
+    expect(screen.getByRole("button", { name: /publish results/i })).toBeDisabled();
+
+    rerender(
+      <SurveyCard survey={chainSurvey({ active: false, responsesNeeded: 0 })} account={CREATOR} {...handlers} />,
+    );
+    await user.click(screen.getByRole("button", { name: /publish results/i }));
+    expect(handlers.onPublish).toHaveBeenCalled();
+
+    const published = chainSurvey({ active: false, responsesNeeded: 0, resultsPublished: true });
+    rerender(<SurveyCard survey={published} account={CREATOR} {...handlers} />);
+    await user.click(screen.getByRole("button", { name: /reveal results/i }));
+    expect(handlers.onReveal).toHaveBeenCalledWith(published);
+  });
+
+  it("offers publishing once an open survey has expired", () => {
+    const expired = chainSurvey({ responsesNeeded: 0, endTime: new Date(Date.now() - 60_000).toISOString() });
+    render(<SurveyCard survey={expired} account={CREATOR} {...actions()} />);
+
+    expect(screen.queryByRole("button", { name: /close survey/i })).not.toBeInTheDocument();
+    expect(screen.getByRole("button", { name: /publish results/i })).toBeEnabled();
+  });
+
+  it("lets analysts of the survey's organisation reveal its published results", async () => {
+    const user = userEvent.setup();
+    const handlers = actions();
+    const membership = { id: 3n, name: "Acme HR", memberCount: 4, roles: [OrganizationRole.Analyst] };
+    const closed = chainSurvey({ organizationId: 3, active: false, responsesNeeded: 0 });
+
+    const { rerender } = render(
+      <SurveyCard survey={closed} account={EMPLOYEE} memberships={[membership]} {...handlers} />,
+    );
+    expect(screen.getByText("🏢 Acme HR")).toBeInTheDocument();
+    expect(screen.getByText("📊 Analyst Access")).toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: /publish results/i })).not.toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: /reveal results/i })).not.toBeInTheDocument();
+
+    const published = { ...closed, resultsPublished: true };
+    rerender(<SurveyCard survey={published} account={EMPLOYEE} memberships={[membership]} {...handlers} />);
+    await user.click(screen.getByRole("button", { name: /reveal results/i }));
+    expect(handlers.onReveal).toHaveBeenCalledWith(published);
+
+    const author = { ...membership, roles: [OrganizationRole.Author] };
+    rerender(<SurveyCard survey={published} account={EMPLOYEE} memberships={[author]} {...handlers} />);
+    expect(screen.queryByRole("button", { name: /reveal results/i })).not.toBeInTheDocument();
+    expect(screen.queryByText("📊 Analyst Access")).not.toBeInTheDocument();
+  });
+
+  it("refuses to show content that does not match its on-chain hash", () => {
+    const survey = chainSurvey({
+      title: "Survey #7",
+      description: "",
+      questions: [
+        { text: "", ...FIVE_STAR_RATING },
+        { text: "", ...YES_NO },
+      ],
+      contentError: "Survey content does not match its on-chain hash",
+    });
+    render(<SurveyCard survey={survey} account={EMPLOYEE} {...actions()} />);
+
+    expect(screen.getByRole("alert")).toHaveTextContent(/does not match its on-chain hash/);
+    expect(screen.queryByRole("button", { name: /submit survey response/i })).not.toBeInTheDocument();
+    expect(screen.queryByLabelText("5⭐")).not.toBeInTheDocument();
+  });
+
+  it("shows the survey in the reader's language and answers it as the same survey", async () => {
+    const user = userEvent.setup();
+    const handlers = actions();
+    const survey: Survey = {
+      ...localSurvey(),
+      language: "en",
+      translations: {
+        es: {
+          title: "Pulso trimestral",
+          description: "Encuesta breve",
+          questions: ["¿Qué tan satisfecho está con su puesto?", "¿Se siente valorado?"],
+        },
+      },
+    };
+    const { rerender } = render(<SurveyCard survey={survey} account={EMPLOYEE} languages={["es-MX"]} {...handlers} />);
+
+    expect(screen.getByRole("article", { name: "Pulso trimestral" })).toBeInTheDocument();
+    expect(screen.getByText("🌐 en · es")).toBeInTheDocument();
+    expect(screen.getAllByText(/¿Se siente valorado\?/)).not.toHaveLength(0);
+    await user.click(screen.getByLabelText("5⭐"));
+    await user.click(screen.getByLabelText("👍 Yes"));
+    await user.click(screen.getByRole("button", { name: /submit survey response/i }));
+    expect(handlers.onSubmit).toHaveBeenCalledWith(survey, [5, true]);
+
+    rerender(<SurveyCard survey={survey} account={EMPLOYEE} languages={["de"]} {...handlers} />);
+    expect(screen.getByRole("article", { name: "Quarterly Pulse" })).toBeInTheDocument();
+  });
+
+  it("shows its own texts and dates in the picked language", () => {
+    const survey = localSurvey();
+    render(<SurveyCard survey={survey} account={null} language="fr" {...actions()} />);
+
+    expect(screen.getByText("Connectez votre portefeuille pour participer à l'enquête")).toBeInTheDocument();
+    expect(screen.getByText("État: 🟢 Ouverte")).toBeInTheDocument();
+    expect(
+      screen.getByText(new RegExp(`Date limite: ${new Date(survey.endTime).toLocaleDateString("fr")}`)),
+    ).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,265 @@
+import { useState } from "react";
+
+import { useNow } from "../hooks/useNow";
+import { ETHERSCAN_URL } from "../lib/config";
+import { messages, type Messages } from "../lib/i18n";
+import {
+  countdown,
+  isSurveyAnalyst,
+  localizeSurvey,
+  type Participation,
+  shortAddress,
+  type Survey,
+  surveyLanguages,
+  surveyStatus,
+} from "../lib/surveys";
+import { type Answer, DEFAULT_LANGUAGE, type OrganizationMembership } from "../sdk";
+import { AnswerForm } from "./AnswerForm";
+import { MyAnswersPanel } from "./MyAnswersPanel";
+import { ResultsView } from "./ResultsView";
+
+export interface SurveyActions {
+  onSubmit(survey: Survey, answers: Answer[], segment?: number): Promise<void>;
+  onRevise(survey: Survey, answers: Answer[]): Promise<void>;
+  /** Decrypts the connected account's own answers; null when that failed */
+  onViewAnswers(survey: Survey): Promise<Answer[] | null>;
+  onClose(survey: Survey): Promise<void>;
+  onPublish(survey: Survey): Promise<void>;
+  onReveal(survey: Survey): Promise<void>;
+  /** Opens the survey's results dashboard; no dashboard button without it */
+  onOpenResults?(survey: Survey): void;
+}
+
+interface SurveyCardProps extends SurveyActions {
+  survey: Survey;
+  account: string | null;
+  participation?: Participation;
+  /** Organisations the account holds a role in; analysts of the survey's organisation may reveal it */
+  memberships?: OrganizationMembership[];
+  /** Languages the reader prefers, most preferred first; the survey's own language when none fits */
+  languages?: readonly string[];
+  /** Language of the app's own texts and dates, the one the reader picked */
+  language?: string;
+}
+
+function hasUnrevealedResults(survey: Survey): boolean {
+  return survey.results.some((result) => result.average === null || !result.distributionRevealed);
+}
+
+function RevealButton({
+  survey,
+  text,
+  onReveal,
+}: { survey: Survey; text: Messages } & Pick<SurveyActions, "onReveal">) {
+  return (
+    <button type="button" className="btn" onClick={() => onReveal(survey)}>
+      {text.card.reveal}
+    </button>
+  );
+}
+
+/**
+ * Close, publish and reveal buttons for the survey's creator, offered in lifecycle order. Expired
+ * surveys count as closed, so they go straight to publishing.
+ */
+function CreatorActions({
+  survey,
+  ended,
+  text,
+  onClose,
+  onPublish,
+  onReveal,
+}: { survey: Survey; ended: boolean; text: Messages } & Pick<SurveyActions, "onClose" | "onPublish" | "onReveal">) {
+  if (!survey.onChain) {
+    return null;
+  }
+  if (survey.active && !ended) {
+    return (
+      <button type="button" className="btn" onClick={() => onClose(survey)}>
+        {text.card.close}
+      </button>
+    );
+  }
+  if (!survey.resultsPublished) {
+    return (
+      <button
+        type="button"
+        className="btn"
+        disabled={survey.totalResponses === 0 || (survey.responsesNeeded ?? 0) > 0}
+        onClick={() => onPublish(survey)}
+      >
+        {text.card.publish}
+      </button>
+    );
+  }
+  return hasUnrevealedResults(survey) ? <RevealButton survey={survey} text={text} onReveal={onReveal} /> : null;
+}
+
+export function SurveyCard({
+  survey,
+  account,
+  participation,
+  memberships = [],
+  languages = [],
+  language = DEFAULT_LANGUAGE,
+  onSubmit,
+  onRevise,
+  onViewAnswers,
+  onOpenResults,
+  ...creatorActions
+}: SurveyCardProps) {
+  const [editing, setEditing] = useState(false);
+  const now = useNow();
+  const text = messages(language);
+  // Texts in the reader's language; actions still get the survey as loaded
+  const shown = localizeSurvey(survey, languages);
+  const available = surveyLanguages(survey);
+  const status = surveyStatus(survey, now);
+  const isActive = status === "open";
+  const isCreator = account !== null && survey.creator.toLowerCase() === account.toLowerCase();
+  // Analysts may only reveal, closing and publishing stay with the creator
+  const isAnalyst = account !== null && !isCreator && isSurveyAnalyst(survey, memberships);
+  const organization = memberships.find((membership) => Number(membership.id) === survey.organizationId);
+  // Nobody answers questions whose wording could not be verified
+  const hasContent = !survey.contentError;
+  const canParticipate = account !== null && !isCreator && isActive && !participation && hasContent;
+  // Only sent on-chain responses can be revised: local answers are not kept
+  const sent = survey.onChain && participation !== undefined && participation.mode !== "queued";
+  const canRevise = account !== null && isActive && sent && hasContent;
+  const timeLeft = countdown(survey, now);
+  const timing =
+    status === "upcoming"
+      ? text.card.opensIn(timeLeft ?? "")
+      : isActive
+      ? text.card.remaining(timeLeft ?? "")
+      : text.card.ended;
+  const startTime = new Date(survey.startTime);
+  const endTime = new Date(survey.endTime);
+
+  return (
+    <article className="project-card" aria-label={shown.title}>
+      <div className="project-title" lang={shown.language}>
+        {shown.title}
+      </div>
+      <div className="project-description" lang={shown.language}>
+        {shown.description}
+      </div>
+
+      {survey.contentError && (
+        <div className="content-error" role="alert">
+          {text.card.contentError(survey.contentError)}
+        </div>
+      )}
+
+      <div className="project-stats">
+        <span>
+          <strong>
+            {text.card.status}: {text.status[status]}
+          </strong>
+        </span>
+        <span>
+          {text.card.questions}: {survey.questions.length}
+        </span>
+        {survey.eligibilityRoot && <span>{text.card.inviteOnly}</span>}
+        {survey.template && <span title={text.card.templateTitle}>📐 {survey.template}</span>}
+        {available.length > 1 && <span title={text.card.languagesTitle}>🌐 {available.join(" · ")}</span>}
+        {survey.organizationId !== undefined && (
+          <span>🏢 {organization?.name ?? text.card.organization(survey.organizationId)}</span>
+        )}
+        <span>{timing}</span>
+      </div>
+
+      {hasContent && <ResultsView survey={shown} language={language} />}
+
+      {hasContent && onOpenResults && (
+        <button type="button" className="btn btn-secondary" onClick={() => onOpenResults(survey)}>
+          {text.card.dashboard}
+        </button>
+      )}
+
+      {canParticipate && (
+        <AnswerForm
+          surveyId={survey.id}
+          questions={shown.questions}
+          segments={survey.segments}
+          language={language}
+          onSubmit={(...response) => onSubmit(survey, ...response)}
+        />
+      )}
+
+      <div className="survey-meta">
+        {text.card.creator}: {shortAddress(survey.creator)}
+        <br />
+        {text.card.opens}: {startTime.toLocaleDateString(language)} {startTime.toLocaleTimeString(language)}
+        <br />
+        {text.card.deadline}: {endTime.toLocaleDateString(language)} {endTime.toLocaleTimeString(language)}
+      </div>
+
+      {isCreator && (
+        <>
+          <div className="owner-badge">{text.card.yourSurvey}</div>
+          <div className="creator-actions">
+            <CreatorActions survey={survey} ended={status === "ended"} text={text} {...creatorActions} />
+          </div>
+        </>
+      )}
+
+      {isAnalyst && (
+        <>
+          <div className="owner-badge">{text.card.analyst}</div>
+          {survey.onChain && survey.resultsPublished && hasUnrevealedResults(survey) && (
+            <div className="creator-actions">
+              <RevealButton survey={survey} text={text} onReveal={creatorActions.onReveal} />
+            </div>
+          )}
+        </>
+      )}
+
+      {participation && (
+        <div className="completed-badge">
+          {text.card.participated}
+          {participation.revisedAt && text.card.edited}{" "}
+          {participation.mode === "queued" ? (
+            text.card.queued
+          ) : participation.txHash ? (
+            <a href={`${ETHERSCAN_URL}/tx/${participation.txHash}`} target="_blank" rel="noreferrer">
+              - TX: {participation.txHash.substring(0, 10)}...
+            </a>
+          ) : (
+            participation.mode === "local" && text.card.localMode
+          )}
+        </div>
+      )}
+
+      {sent && account && hasContent && (
+        <MyAnswersPanel
+          key={participation.revisedAt ?? participation.timestamp}
+          survey={shown}
+          language={language}
+          onViewAnswers={() => onViewAnswers(survey)}
+        />
+      )}
+
+      {canRevise && (
+        <button type="button" className="btn btn-secondary" onClick={() => setEditing((current) => !current)}>
+          {editing ? text.card.cancelEditing : text.card.editAnswers}
+        </button>
+      )}
+
+      {canRevise && editing && (
+        <AnswerForm
+          surveyId={survey.id}
+          questions={shown.questions}
+          submitLabel={text.card.saveAnswers}
+          language={language}
+          onSubmit={async (answers) => {
+            await onRevise(survey, answers);
+            setEditing(false);
+          }}
+        />
+      )}
+
+      {!account && <div className="connect-hint">{text.card.connectWallet}</div>}
+    </article>
+  );
+}
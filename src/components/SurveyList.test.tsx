@@ -0,0 +1,137 @@
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { useState } from "react";
+import { describe, expect, it, vi } from "vitest";
+
+import { createLocalSurvey, PAGE_SIZE, type Survey, type SurveyListView } from "../lib/surveys";
+import { FIVE_STAR_RATING } from "../sdk";
+import { SurveyList } from "./SurveyList";
+
+const CREATOR = "0x1111111111111111111111111111111111111111";
+const EMPLOYEE = "0x2222222222222222222222222222222222222222";
+
+function survey(id: number, changes: Partial<Survey> = {}): Survey {
+  return {
+    ...createLocalSurvey(
+      id,
+      CREATOR,
+      `Survey ${id}`,
+      "",
+      [{ text: "How satisfied are you with your role?", ...FIVE_STAR_RATING }],
+      { durationDays: 7 },
+    ),
+    ...changes,
+  };
+}
+
+const FIRST_PAGE: SurveyListView = { status: "all", mine: false, page: 1 };
+
+/** Keeps the list's view the way useSurveys does */
+function LocalList({ surveys, account }: { surveys: Survey[]; account: string | null }) {
+  const [view, setView] = useState(FIRST_PAGE);
+  return (
+    <SurveyList
+      surveys={surveys}
+      view={view}
+      onViewChange={setView}
+      account={account}
+      participation={{}}
+      memberships={[]}
+      onCreateFirst={vi.fn()}
+      onSubmit={vi.fn()}
+      onRevise={vi.fn()}
+      onViewAnswers={vi.fn()}
+      onClose={vi.fn()}
+      onPublish={vi.fn()}
+      onReveal={vi.fn()}
+    />
+  );
+}
+
+function renderList(surveys: Survey[], account: string | null = EMPLOYEE) {
+  render(<LocalList surveys={surveys} account={account} />);
+}
+
+function renderContractPage(surveys: Survey[], view: SurveyListView, more: boolean) {
+  const onViewChange = vi.fn();
+  render(
+    <SurveyList
+      surveys={surveys}
+      view={view}
+      onViewChange={onViewChange}
+      more={more}
+      account={EMPLOYEE}
+      participation={{}}
+      memberships={[]}
+      onCreateFirst={vi.fn()}
+      onSubmit={vi.fn()}
+      onRevise={vi.fn()}
+      onViewAnswers={vi.fn()}
+      onClose={vi.fn()}
+      onPublish={vi.fn()}
+      onReveal={vi.fn()}
+    />,
+  );
+  return onViewChange;
+}
+
+function titles() {
+  return screen.queryAllByRole("article").map((card) => card.getAttribute("aria-label"));
+}
+
+describe("SurveyList", () => {
+  it("shows surveys a page at a time", async () => {
+    const user = userEvent.setup();
+    renderList(Array.from({ length: PAGE_SIZE + 2 }, (_, index) => survey(index + 1)));
+
+    expect(titles()).toHaveLength(PAGE_SIZE);
+    expect(screen.getByText(`Page 1 of 2 (${PAGE_SIZE + 2} surveys)`)).toBeInTheDocument();
+    expect(screen.getByRole("button", { name: /previous/i })).toBeDisabled();
+
+    await user.click(screen.getByRole("button", { name: /next/i }));
+    expect(titles()).toEqual([`Survey ${PAGE_SIZE + 1}`, `Survey ${PAGE_SIZE + 2}`]);
+    expect(screen.getByRole("button", { name: /next/i })).toBeDisabled();
+  });
+
+  it("filters by status and by creator", async () => {
+    const user = userEvent.setup();
+    renderList(
+      [
+        survey(1),
+        survey(2, { resultsPublished: true, active: false, endTime: "2020-01-01T00:00:00.000Z" }),
+        survey(3, { creator: EMPLOYEE }),
+      ],
+      EMPLOYEE,
+    );
+    expect(screen.queryByRole("navigation", { name: /survey pages/i })).not.toBeInTheDocument();
+
+    await user.selectOptions(screen.getByLabelText(/filter surveys by status/i), "published");
+    expect(titles()).toEqual(["Survey 2"]);
+
+    await user.selectOptions(screen.getByLabelText(/filter surveys by status/i), "open");
+    await user.click(screen.getByLabelText(/created by me/i));
+    expect(titles()).toEqual(["Survey 3"]);
+
+    await user.selectOptions(screen.getByLabelText(/filter surveys by status/i), "ended");
+    expect(screen.getByText(/no surveys match/i)).toBeInTheDocument();
+  });
+
+  it("shows the contract's page as it is and asks for other pages and filters", async () => {
+    const user = userEvent.setup();
+    const onViewChange = renderContractPage([survey(11), survey(12)], { ...FIRST_PAGE, page: 2 }, true);
+
+    expect(titles()).toEqual(["Survey 11", "Survey 12"]);
+    expect(screen.getByText("Page 2")).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: /next/i }));
+    expect(onViewChange).toHaveBeenLastCalledWith({ ...FIRST_PAGE, page: 3 });
+    await user.selectOptions(screen.getByLabelText(/filter surveys by status/i), "open");
+    expect(onViewChange).toHaveBeenLastCalledWith({ ...FIRST_PAGE, status: "open" });
+  });
+
+  it("tells an empty filtered page from a contract without surveys", () => {
+    renderContractPage([], { ...FIRST_PAGE, status: "published" }, false);
+    expect(screen.getByText(/no surveys match/i)).toBeInTheDocument();
+    expect(screen.queryByRole("navigation", { name: /survey pages/i })).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,143 @@
+import { messages } from "../lib/i18n";
+import {
+  type ListStatus,
+  listStatus,
+  PAGE_SIZE,
+  type Participation,
+  participationKey,
+  type Survey,
+  type SurveyListView,
+} from "../lib/surveys";
+import { DEFAULT_LANGUAGE, type OrganizationMembership } from "../sdk";
+import { type SurveyActions, SurveyCard } from "./SurveyCard";
+
+interface SurveyListProps extends SurveyActions {
+  /** Every survey, filtered and paged here, or with `more` set the one page the contract returned */
+  surveys: Survey[];
+  view: SurveyListView;
+  onViewChange(view: SurveyListView): void;
+  /** Whether the contract has more surveys after this page; unset when `surveys` holds all of them */
+  more?: boolean;
+  account: string | null;
+  participation: Record<string, Participation>;
+  memberships: OrganizationMembership[];
+  /** Languages the reader prefers for survey texts, most preferred first */
+  languages?: readonly string[];
+  /** Language of the app's own texts and dates, the one the reader picked */
+  language?: string;
+  onCreateFirst(): void;
+}
+
+export function SurveyList({
+  surveys,
+  view,
+  onViewChange,
+  more,
+  account,
+  participation,
+  memberships,
+  languages,
+  language = DEFAULT_LANGUAGE,
+  onCreateFirst,
+  ...actions
+}: SurveyListProps) {
+  const text = messages(language);
+  const { status, mine } = view;
+  const paged = more !== undefined;
+  const unfiltered = status === "all" && !mine && view.page === 1;
+
+  if (surveys.length === 0 && (!paged || unfiltered)) {
+    return (
+      <div className="empty-state">
+        <h3>{text.list.emptyHeading}</h3>
+        <p>{text.list.emptyHint}</p>
+        <button type="button" className="btn" onClick={onCreateFirst}>
+          {text.list.createFirst}
+        </button>
+      </div>
+    );
+  }
+
+  // The contract filters and pages its surveys itself; surveys kept in this browser are all here
+  const matching = paged
+    ? surveys
+    : surveys.filter(
+        (survey) =>
+          (status === "all" || listStatus(survey) === status) &&
+          (!mine || (account !== null && survey.creator.toLowerCase() === account.toLowerCase())),
+      );
+  const pages = paged ? null : Math.max(1, Math.ceil(matching.length / PAGE_SIZE));
+  const current = pages === null ? view.page : Math.min(view.page, pages);
+  const shown = paged ? matching : matching.slice((current - 1) * PAGE_SIZE, current * PAGE_SIZE);
+  const hasNext = pages === null ? more === true : current < pages;
+  const filters: Record<ListStatus | "all", string> = {
+    all: text.list.filters.all,
+    ...text.status,
+    published: text.list.filters.published,
+  };
+
+  return (
+    <div>
+      <div className="form-group">
+        <select
+          className="form-control"
+          aria-label={text.list.filterLabel}
+          value={status}
+          onChange={(event) => onViewChange({ ...view, status: event.target.value as ListStatus | "all", page: 1 })}
+        >
+          {Object.entries(filters).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        {account && (
+          <label>
+            <input
+              type="checkbox"
+              checked={mine}
+              onChange={(event) => onViewChange({ ...view, mine: event.target.checked, page: 1 })}
+            />{" "}
+            {text.list.mine}
+          </label>
+        )}
+      </div>
+
+      {shown.length === 0 && <p className="hint">{text.list.noMatches}</p>}
+      {shown.map((survey) => (
+        <SurveyCard
+          key={survey.id}
+          survey={survey}
+          account={account}
+          participation={account ? participation[participationKey(account, survey.id)] : undefined}
+          memberships={memberships}
+          languages={languages}
+          language={language}
+          {...actions}
+        />
+      ))}
+
+      {(current > 1 || hasNext) && (
+        <nav aria-label={text.list.pagesLabel}>
+          <button
+            type="button"
+            className="btn btn-secondary"
+            disabled={current === 1}
+            onClick={() => onViewChange({ ...view, page: current - 1 })}
+          >
+            {text.list.previous}
+          </button>
+          <span>{pages === null ? text.list.page(current) : text.list.pageOf(current, pages, matching.length)}</span>
+          <button
+            type="button"
+            className="btn btn-secondary"
+            disabled={!hasNext}
+            onClick={() => onViewChange({ ...view, page: current + 1 })}
+          >
+            {text.list.next}
+          </button>
+        </nav>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { describe, expect, it, vi } from "vitest";
+
+import { WalletPanel } from "./WalletPanel";
+
+const ACCOUNT = "0x1234567890abcdef1234567890abcdef12345678";
+
+describe("WalletPanel", () => {
+  it("offers to connect when no wallet is connected", async () => {
+    const user = userEvent.setup();
+    const onConnect = vi.fn();
+    render(
+      <WalletPanel account={null} balance="0.0000" connecting={false} onConnect={onConnect} onDisconnect={vi.fn()} />,
+    );
+
+    expect(screen.getByText("Wallet Disconnected")).toBeInTheDocument();
+    await user.click(screen.getByRole("button", { name: /connect wallet/i }));
+    expect(onConnect).toHaveBeenCalled();
+  });
+
+  it("shows the connected account and balance", async () => {
+    const user = userEvent.setup();
+    const onDisconnect = vi.fn();
+    render(
+      <WalletPanel
+        account={ACCOUNT}
+        balance="1.2345"
+        connecting={false}
+        onConnect={vi.fn()}
+        onDisconnect={onDisconnect}
+      />,
+    );
+
+    expect(screen.getByText("Address: 0x123456...12345678")).toBeInTheDocument();
+    expect(screen.getByText("Balance: 1.2345 ETH")).toBeInTheDocument();
+    await user.click(screen.getByRole("button", { name: /disconnect/i }));
+    expect(onDisconnect).toHaveBeenCalled();
+  });
+
+  it("disables the button while connecting", () => {
+    render(<WalletPanel account={null} balance="0.0000" connecting onConnect={vi.fn()} onDisconnect={vi.fn()} />);
+
+    expect(screen.getByRole("button")).toBeDisabled();
+  });
+});
@@ -0,0 +1,33 @@
+import { shortAddress } from "../lib/surveys";
+
+interface WalletPanelProps {
+  account: string | null;
+  balance: string;
+  connecting: boolean;
+  onConnect(): void;
+  onDisconnect(): void;
+}
+
+export function WalletPanel({ account, balance, connecting, onConnect, onDisconnect }: WalletPanelProps) {
+  return (
+    <div className="wallet-section">
+      <div className={`status ${account ? "connected" : "disconnected"}`}>
+        {account ? "Wallet Connected" : "Wallet Disconnected"}
+      </div>
+      {account && (
+        <div>
+          <div className="wallet-address">Address: {shortAddress(account)}</div>
+          <div className="wallet-balance">Balance: {balance} ETH</div>
+        </div>
+      )}
+      <button
+        type="button"
+        className={`btn${connecting ? " btn-loading" : ""}`}
+        disabled={connecting}
+        onClick={account ? onDisconnect : onConnect}
+      >
+        {account ? "🔓 Disconnect" : "🔗 Connect Wallet"}
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+/**
+ * @title Survey content store
+ * @notice Node-only storage for the off-chain survey content whose hash the contract keeps (see sdk/content)
+ *
+ * Usage:
+ *   const store = new DirectoryContentStore(".survey-content");
+ *   createContentServer(store).listen(8788);
+ *   // readers: SurveyClient.connect(address, runner, new HttpContentStore("http://localhost:8788"));
+ */
+export { createContentServer } from "./server";
+export type { ContentServerOptions } from "./server";
+export { DirectoryContentStore } from "./store";
@@ -0,0 +1,64 @@
+import type { IncomingMessage, Server } from "http";
+
+import {
+  createHttpServer,
+  HttpError,
+  type HttpReply,
+  type HttpServerOptions,
+  jsonReply,
+  parseJson,
+  readBody,
+} from "../http";
+import { type ContentStore, encodeSurveyContent, parseSurveyContent, type SurveyContent } from "../sdk/content";
+
+export interface ContentServerOptions extends HttpServerOptions {
+  /** Called with the hash of each stored document, e.g. to log it */
+  onStore?: (hash: string) => void;
+}
+
+/**
+ * @title Content server
+ * @notice HTTP front for a content store, standing in for IPFS: documents are addressed by the hash
+ * the contract stores, so nobody has to trust the server. Clients verify what it returns.
+ * @dev Routes:
+ *   GET  /content/<hash>  The document stored under the hash, byte for byte
+ *   POST /content         A survey content document in, {hash} out
+ * Posted documents must be valid survey content in the canonical encoding (see encodeSurveyContent),
+ * so the hash the server reports is the one SurveyClient.createSurvey puts on chain. Documents are
+ * limited to 64 KiB unless maxBodyBytes says otherwise.
+ */
+export function createContentServer(store: ContentStore, options: ContentServerOptions = {}): Server {
+  const { maxBodyBytes = 64 * 1024, allowOrigin, onStore } = options;
+
+  const handle = async (request: IncomingMessage): Promise<HttpReply> => {
+    const get = /^\/content\/(0x[0-9a-fA-F]{64})$/.exec(request.url ?? "");
+    if (request.method === "GET" && get) {
+      try {
+        return { type: "application/json", body: await store.get(get[1]) };
+      } catch {
+        throw new HttpError(404, `No survey content ${get[1]}`);
+      }
+    }
+    if (request.method === "POST" && request.url === "/content") {
+      const document = await readBody(request, maxBodyBytes);
+      if (encodeSurveyContent(parseDocument(document)) !== document) {
+        throw new HttpError(400, "Survey content must be encoded with encodeSurveyContent");
+      }
+      const hash = await store.put(document);
+      onStore?.(hash);
+      return jsonReply({ hash });
+    }
+    throw new HttpError(404, `No route for ${request.method} ${request.url}`);
+  };
+
+  return createHttpServer(handle, { allowOrigin, failure: "Could not store the content" });
+}
+
+function parseDocument(document: string): SurveyContent {
+  const data = parseJson(document);
+  try {
+    return parseSurveyContent(data);
+  } catch (error) {
+    throw new HttpError(400, (error as Error).message);
+  }
+}
@@ -0,0 +1,41 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+
+import { type ContentStore, contentHash } from "../sdk/content";
+
+/**
+ * Keeps each content document in `<directory>/<hash>.json`. The file name is the document's hash, so
+ * the directory can be copied, served or pinned to IPFS as it is. Writes go through a temporary file,
+ * so a document is either complete or missing.
+ */
+export class DirectoryContentStore implements ContentStore {
+  constructor(readonly directory: string) {}
+
+  async put(document: string): Promise<string> {
+    const hash = contentHash(document);
+    const file = this.file(hash);
+    await fs.mkdir(this.directory, { recursive: true });
+    const temporary = `${file}.tmp`;
+    await fs.writeFile(temporary, document);
+    await fs.rename(temporary, file);
+    return hash;
+  }
+
+  async get(hash: string): Promise<string> {
+    try {
+      return await fs.readFile(this.file(hash), "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        throw new Error(`No survey content ${hash} in ${this.directory}`);
+      }
+      throw error;
+    }
+  }
+
+  private file(hash: string): string {
+    if (!/^0x[0-9a-fA-F]{64}$/.test(hash)) {
+      throw new Error(`Invalid content hash "${hash}"`);
+    }
+    return path.join(this.directory, `${hash.toLowerCase()}.json`);
+  }
+}
@@ -0,0 +1,37 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+export type AlertType = "success" | "error" | "warning" | "info";
+
+export interface Alert {
+  id: number;
+  type: AlertType;
+  message: string;
+}
+
+export type ShowAlert = (message: string, type?: AlertType, durationMs?: number) => void;
+
+/**
+ * Toast-style messages that dismiss themselves
+ */
+export function useAlerts(): { alerts: Alert[]; showAlert: ShowAlert } {
+  const [alerts, setAlerts] = useState<Alert[]>([]);
+  const nextId = useRef(0);
+  const timers = useRef(new Set<ReturnType<typeof setTimeout>>());
+
+  useEffect(() => {
+    const pending = timers.current;
+    return () => pending.forEach((timer) => clearTimeout(timer));
+  }, []);
+
+  const showAlert = useCallback<ShowAlert>((message, type = "success", durationMs = 5000) => {
+    const id = nextId.current++;
+    setAlerts((current) => [...current, { id, type, message }]);
+    const timer = setTimeout(() => {
+      timers.current.delete(timer);
+      setAlerts((current) => current.filter((alert) => alert.id !== id));
+    }, durationMs);
+    timers.current.add(timer);
+  }, []);
+
+  return { alerts, showAlert };
+}
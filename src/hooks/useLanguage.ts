@@ -0,0 +1,39 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+
+import { browserLanguages, messages, type Messages, UI_LANGUAGES } from "../lib/i18n";
+import { loadLanguage, saveLanguage } from "../lib/storage";
+import { DEFAULT_LANGUAGE, matchLanguage } from "../sdk";
+
+export interface Language {
+  /** The language the reader picked, else the closest one the app is translated into */
+  language: string;
+  /** Languages to show survey texts in, most preferred first: the picked one, then the browser's */
+  preferred: readonly string[];
+  /** The app's own texts in that language */
+  text: Messages;
+  setLanguage(language: string): void;
+}
+
+/**
+ * The reader's language, remembered in this browser once they pick one. Keeps the page's lang
+ * attribute and title in step with it.
+ */
+export function useLanguage(): Language {
+  const [language, setCurrent] = useState(
+    () => loadLanguage() ?? matchLanguage(UI_LANGUAGES, browserLanguages()) ?? DEFAULT_LANGUAGE,
+  );
+  const text = messages(language);
+
+  useEffect(() => {
+    document.documentElement.lang = matchLanguage(UI_LANGUAGES, [language]) ?? DEFAULT_LANGUAGE;
+    document.title = text.documentTitle;
+  }, [language, text]);
+
+  const setLanguage = useCallback((picked: string) => {
+    setCurrent(picked);
+    saveLanguage(picked);
+  }, []);
+  const preferred = useMemo(() => [language, ...browserLanguages()], [language]);
+
+  return { language, preferred, text, setLanguage };
+}
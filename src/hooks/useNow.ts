@@ -0,0 +1,15 @@
+import { useEffect, useState } from "react";
+
+/**
+ * Current time, refreshed every `intervalMs` so countdowns tick and surveys open or end on screen
+ */
+export function useNow(intervalMs = 60_000): Date {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), intervalMs);
+    return () => clearInterval(timer);
+  }, [intervalMs]);
+
+  return now;
+}
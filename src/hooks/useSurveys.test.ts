@@ -0,0 +1,111 @@
+import { act, renderHook, waitFor } from "@testing-library/react";
+import type { JsonRpcSigner } from "ethers";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { loadSurvey, loadSurveyPage } from "../lib/chain";
+import { getFhevm, type FhevmInstance } from "../lib/fhevm";
+import { createLocalSurvey, participationKey } from "../lib/surveys";
+import { FIVE_STAR_RATING, type SignedResponse, SurveyClient } from "../sdk";
+import { useSurveys } from "./useSurveys";
+
+vi.mock("../lib/chain", () => ({ loadSurveyPage: vi.fn(), loadSurvey: vi.fn() }));
+vi.mock("../lib/fhevm", () => ({ getFhevm: vi.fn() }));
+vi.mock("../sdk", async (importOriginal) => ({
+  ...(await importOriginal<typeof import("../sdk")>()),
+  SurveyClient: { connect: vi.fn() },
+}));
+
+const ACCOUNT = "0x2222222222222222222222222222222222222222";
+const SURVEY = {
+  ...createLocalSurvey(
+    1,
+    "0x1111111111111111111111111111111111111111",
+    "Quarterly pulse",
+    "",
+    [{ text: "How satisfied are you with your role?", ...FIVE_STAR_RATING }],
+    { durationDays: 7 },
+  ),
+  onChain: true,
+};
+const SIGNED = { surveyId: "1", nullifier: "0x01" } as SignedResponse;
+const ENCRYPTOR = {} as FhevmInstance;
+
+let online = true;
+const client = {
+  organizations: async () => ({ getMemberships: async () => [] }),
+  hasResponded: vi.fn(async () => false),
+  prepareResponse: vi.fn(async () => SIGNED),
+  submitSignedResponse: vi.fn(async () => ({ hash: "0xfeed" })),
+  revealResults: vi.fn(async (): Promise<number[]> => []),
+};
+// The app passes a stable showAlert; a new one every render would reload the contract every render
+const showAlert = vi.fn();
+const signer = { provider: { getCode: async () => "0x6080" } } as unknown as JsonRpcSigner;
+
+describe("useSurveys", () => {
+  beforeEach(() => {
+    online = true;
+    vi.spyOn(navigator, "onLine", "get").mockImplementation(() => online);
+    vi.mocked(SurveyClient.connect).mockReturnValue(client as unknown as SurveyClient);
+    vi.mocked(loadSurveyPage).mockResolvedValue({ surveys: [SURVEY], more: false });
+    vi.mocked(loadSurvey).mockResolvedValue(SURVEY);
+    // Loading the relayer SDK fetches its keys, which fails without a network
+    vi.mocked(getFhevm).mockImplementation(() =>
+      online ? Promise.resolve(ENCRYPTOR) : Promise.reject(new TypeError("Failed to fetch")),
+    );
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+    vi.restoreAllMocks();
+  });
+
+  it("holds answers given offline without storing them and sends them once back online", async () => {
+    const { result } = renderHook(() => useSurveys(ACCOUNT, signer, showAlert));
+    await waitFor(() => expect(result.current.surveys).toEqual([SURVEY]));
+
+    online = false;
+    await act(() => result.current.submitResponse(SURVEY, [4]));
+
+    const key = participationKey(ACCOUNT, SURVEY.id);
+    expect(result.current.participation[key]).toMatchObject({ mode: "queued" });
+    expect(client.prepareResponse).not.toHaveBeenCalled();
+    expect(JSON.parse(localStorage.getItem("employeeSurvey_queue") ?? "[]")).toEqual([]);
+    expect(JSON.parse(localStorage.getItem("employeeSurvey_participation") ?? "{}")[key]).not.toHaveProperty("answers");
+
+    online = true;
+    act(() => {
+      window.dispatchEvent(new Event("online"));
+    });
+
+    await waitFor(() => expect(result.current.participation[key]).toMatchObject({ mode: "chain", txHash: "0xfeed" }));
+    expect(client.prepareResponse).toHaveBeenCalledWith(SURVEY.id, [4], ENCRYPTOR, ACCOUNT, undefined, undefined);
+    expect(client.submitSignedResponse).toHaveBeenCalledWith(SIGNED);
+    expect(JSON.parse(localStorage.getItem("employeeSurvey_queue") ?? "[]")).toEqual([]);
+  });
+
+  it("reports the questions whose reveal is still pending instead of claiming the results are revealed", async () => {
+    const { result } = renderHook(() => useSurveys(ACCOUNT, signer, showAlert));
+    await waitFor(() => expect(result.current.surveys).toEqual([SURVEY]));
+
+    client.revealResults.mockResolvedValueOnce([0]);
+    await act(() => result.current.revealResults(SURVEY));
+    expect(showAlert).toHaveBeenLastCalledWith(expect.stringContaining("Decryption of Q1 is still pending"), "warning");
+
+    await act(() => result.current.revealResults(SURVEY));
+    expect(showAlert).toHaveBeenLastCalledWith("📊 Results revealed", "success");
+    expect(client.revealResults).toHaveBeenCalledWith(SURVEY.id);
+  });
+
+  it("drops the receipt of answers held by a tab that was closed before they were sent", () => {
+    const key = participationKey(ACCOUNT, SURVEY.id);
+    localStorage.setItem(
+      "employeeSurvey_participation",
+      JSON.stringify({ [key]: { surveyId: SURVEY.id, timestamp: "2025-01-01T00:00:00.000Z", mode: "queued" } }),
+    );
+
+    const { result } = renderHook(() => useSurveys(null, null, showAlert));
+
+    expect(result.current.participation).toEqual({});
+  });
+});
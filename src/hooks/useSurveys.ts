@@ -0,0 +1,601 @@
+import { getAddress, type JsonRpcSigner } from "ethers";
+import { useCallback, useEffect, useMemo, useRef, useState } from "react";
+
+import { type ChainSurveyPage, loadSurvey, loadSurveyPage } from "../lib/chain";
+import { CONTENT_URL, CONTRACT_ADDRESS, CONTRACT_DEPLOY_BLOCK, RELAYER_URL } from "../lib/config";
+import { loadEligibilityProof, NotOnRosterError } from "../lib/eligibility";
+import { describeTxError } from "../lib/errors";
+import { getFhevm } from "../lib/fhevm";
+import { messages } from "../lib/i18n";
+import {
+  type HeldSubmission,
+  isOffline,
+  isQueuedFor,
+  isRejected,
+  type QueuedSubmission,
+  sendQueued,
+  settleLostSubmissions,
+} from "../lib/queue";
+import { loadParticipation, loadQueue, loadSurveys, saveParticipation, saveQueue, saveSurveys } from "../lib/storage";
+import {
+  createLocalSurvey,
+  participationKey,
+  recordLocalResponse,
+  type Participation,
+  type Survey,
+  type SurveyListView,
+} from "../lib/surveys";
+import {
+  type Answer,
+  DEFAULT_LANGUAGE,
+  HttpContentStore,
+  type NewSurvey,
+  type OrganizationMembership,
+  RelayerClient,
+  SurveyClient,
+} from "../sdk";
+import type { ShowAlert } from "./useAlerts";
+
+/** "missing" means the app runs on surveys kept in this browser */
+export type ContractStatus = "checking" | "active" | "missing";
+
+export interface Surveys {
+  /** The list's page of the contract's surveys, or every survey kept in this browser in local mode */
+  surveys: Survey[];
+  /** Filters and page of the survey list */
+  listView: SurveyListView;
+  showListView(view: SurveyListView): void;
+  /** Whether the contract has more surveys after this page; undefined in local mode, which pages itself */
+  more?: boolean;
+  participation: Record<string, Participation>;
+  /** Organisations the connected account holds a role in; empty in local mode */
+  memberships: OrganizationMembership[];
+  contractStatus: ContractStatus;
+  createSurvey(survey: NewSurvey): Promise<boolean>;
+  submitResponse(survey: Survey, answers: Answer[], segment?: number): Promise<void>;
+  reviseResponse(survey: Survey, answers: Answer[]): Promise<void>;
+  decryptMyAnswers(survey: Survey): Promise<Answer[] | null>;
+  /** When each response to an on-chain survey came in, oldest first; null when they cannot be read */
+  loadResponseTimes(survey: Survey): Promise<Date[] | null>;
+  closeSurvey(survey: Survey): Promise<void>;
+  publishResults(survey: Survey): Promise<void>;
+  revealResults(survey: Survey): Promise<void>;
+}
+
+/**
+ * Survey list and actions. Surveys come from the contract once a wallet is connected and the
+ * contract answers, one page of the list at a time; until then (or if it never does) the app works
+ * on surveys in localStorage.
+ * Responses to on-chain surveys are encrypted and signed first, then queued and sent; ones that
+ * cannot be sent wait in the queue until the wallet and network are back. Answers given while
+ * offline cannot be encrypted yet, so they wait in memory until the browser is back online. Only
+ * receipts and ciphertexts are stored, never the answers, and local surveys' tallies last for the
+ * session only. Alerts are in `language`, the one the reader picked.
+ */
+export function useSurveys(
+  account: string | null,
+  signer: JsonRpcSigner | null,
+  showAlert: ShowAlert,
+  language: string = DEFAULT_LANGUAGE,
+): Surveys {
+  // The same object for as long as the language stays, so the callbacks below keep their identity
+  const text = messages(language);
+  const [surveys, setSurveys] = useState<Survey[]>(loadSurveys);
+  const [listView, setListView] = useState<SurveyListView>({ status: "all", mine: false, page: 1 });
+  const [chainPage, setChainPage] = useState<ChainSurveyPage | null>(null);
+  // Bumped to read the list's page again, e.g. after creating a survey
+  const [pageReloads, setPageReloads] = useState(0);
+  const [participation, setParticipation] = useState<Record<string, Participation>>(() =>
+    settleLostSubmissions(loadParticipation(), loadQueue()),
+  );
+  const [memberships, setMemberships] = useState<OrganizationMembership[]>([]);
+  const [contractStatus, setContractStatus] = useState<ContractStatus>("checking");
+  const [queue, setQueue] = useState<QueuedSubmission[]>(loadQueue);
+  // Bumped whenever the browser comes back online, to look for the contract again
+  const [reconnects, setReconnects] = useState(0);
+  // The queue as of the latest change, for sends that run across renders
+  const queueRef = useRef(queue);
+  const syncing = useRef(false);
+  // Answers given while offline, waiting to be encrypted; never stored
+  const held = useRef<HeldSubmission[]>([]);
+
+  const client = useMemo(
+    () => (signer ? SurveyClient.connect(CONTRACT_ADDRESS, signer, new HttpContentStore(CONTENT_URL)) : null),
+    [signer],
+  );
+  const chainClient = contractStatus === "active" ? client : null;
+
+  useEffect(() => saveSurveys(surveys), [surveys]);
+  useEffect(() => saveParticipation(participation), [participation]);
+  useEffect(() => saveQueue(queue), [queue]);
+
+  useEffect(() => {
+    const retry = () => setReconnects((count) => count + 1);
+    window.addEventListener("online", retry);
+    return () => window.removeEventListener("online", retry);
+  }, []);
+
+  const updateQueue = useCallback((update: (current: QueuedSubmission[]) => QueuedSubmission[]) => {
+    queueRef.current = update(queueRef.current);
+    setQueue(queueRef.current);
+  }, []);
+
+  const recordParticipation = useCallback((record: Participation, respondent: string) => {
+    setParticipation((current) => ({ ...current, [participationKey(respondent, record.surveyId)]: record }));
+  }, []);
+
+  const replaceSurvey = useCallback((survey: Survey) => {
+    const replace = (current: Survey[]) => current.map((existing) => (existing.id === survey.id ? survey : existing));
+    if (!survey.onChain) {
+      setSurveys(replace);
+      return;
+    }
+    setChainPage((current) => current && { ...current, surveys: replace(current.surveys) });
+  }, []);
+
+  /** Takes back the receipt of a submission that will not reach the chain */
+  const rollBack = useCallback((respondent: string, surveyId: number, kind: QueuedSubmission["kind"]) => {
+    const key = participationKey(respondent, surveyId);
+    setParticipation((current) => {
+      if (kind === "revision") {
+        return { ...current, [key]: { ...current[key], mode: "chain" } };
+      }
+      const { [key]: _dropped, ...rest } = current;
+      return rest;
+    });
+  }, []);
+
+  /**
+   * Encrypts and signs answers into a queue item, to be sent by the relayer when there is one
+   */
+  const encrypt = useCallback(async (sender: SurveyClient, submission: HeldSubmission): Promise<QueuedSubmission> => {
+    const { account: respondent, surveyId, answers } = submission;
+    const proof = submission.eligibilityRoot ? await loadEligibilityProof(submission.eligibilityRoot, respondent) : [];
+    if (!proof) {
+      throw new NotOnRosterError();
+    }
+    const encryptor = await getFhevm();
+    const relayer = RELAYER_URL ? new RelayerClient(RELAYER_URL) : null;
+    const submitter = relayer ? await sender.relayerSubmitter(relayer) : getAddress(respondent);
+    const queued = {
+      account: respondent,
+      surveyId,
+      queuedAt: new Date().toISOString(),
+      ...(relayer && { relayer: relayer.url }),
+    };
+    if (submission.kind === "revision") {
+      return {
+        ...queued,
+        kind: "revision",
+        signed: await sender.prepareRevision(surveyId, answers, encryptor, submitter),
+      };
+    }
+    const invitation = relayer ? { proof, issuer: relayer } : undefined;
+    return {
+      ...queued,
+      kind: "response",
+      signed: await sender.prepareResponse(surveyId, answers, encryptor, submitter, invitation, submission.segment),
+    };
+  }, []);
+
+  /**
+   * Encrypts and queues the respondent's held answers. Ones that fail for any reason but the
+   * connection are dropped and their receipt rolled back.
+   */
+  const encryptHeld = useCallback(
+    async (sender: SurveyClient, respondent: string) => {
+      const pending = held.current.filter(
+        (submission) => submission.account.toLowerCase() === respondent.toLowerCase(),
+      );
+      for (const submission of pending) {
+        held.current = held.current.filter((other) => other !== submission);
+        try {
+          const item = await encrypt(sender, submission);
+          updateQueue((current) => [...current, item]);
+        } catch (error) {
+          console.error(`Encrypting a held ${submission.kind} failed:`, error);
+          if (isOffline(error)) {
+            held.current = [...held.current, submission];
+            return;
+          }
+          rollBack(respondent, submission.surveyId, submission.kind);
+          showAlert(`❌ ${describeTxError(error, text.alerts.encryptFailed[submission.kind])}`, "error");
+        }
+      }
+    },
+    [encrypt, rollBack, showAlert, text, updateQueue],
+  );
+
+  useEffect(() => {
+    setMemberships([]);
+    if (!client || !signer || !account) {
+      setContractStatus("missing");
+      return;
+    }
+
+    let cancelled = false;
+    const load = async () => {
+      const code = await signer.provider.getCode(CONTRACT_ADDRESS);
+      if (code === "0x") {
+        if (!cancelled) setContractStatus("missing");
+        return;
+      }
+      const roles = await (await client.organizations()).getMemberships(account);
+      if (cancelled) {
+        return;
+      }
+      setContractStatus("active");
+      setMemberships(roles);
+      // Responses are stored under nullifiers only the respondent can derive, one wallet signature per
+      // survey, so which surveys this wallet answered comes from the participation records alone
+    };
+
+    load().catch((error: unknown) => {
+      console.error("Failed to load surveys from the contract:", error);
+      if (!cancelled) {
+        setContractStatus("missing");
+        showAlert(text.alerts.localMode, "warning");
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [client, signer, account, showAlert, text, reconnects]);
+
+  useEffect(() => {
+    if (!chainClient) {
+      setChainPage(null);
+      return;
+    }
+
+    let cancelled = false;
+    loadSurveyPage(chainClient, listView, account)
+      .then((page) => {
+        if (!cancelled) setChainPage(page);
+      })
+      .catch((error: unknown) => {
+        console.error("Failed to load surveys from the contract:", error);
+        if (!cancelled) showAlert(text.alerts.loadFailed, "warning");
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [chainClient, account, listView, pageReloads, showAlert, text]);
+
+  /**
+   * Encrypts the respondent's held answers, then sends their queued submissions, oldest first.
+   * Refused ones are dropped and their receipt rolled back; the rest stay queued for the next time
+   * the contract can be reached.
+   */
+  const syncQueue = useCallback(
+    async (sender: SurveyClient, respondent: string) => {
+      if (syncing.current) {
+        return;
+      }
+      syncing.current = true;
+      try {
+        await encryptHeld(sender, respondent);
+        const pending = queueRef.current.filter((item) => item.account.toLowerCase() === respondent.toLowerCase());
+        for (const item of pending) {
+          const key = participationKey(respondent, item.surveyId);
+          const others = (current: QueuedSubmission[]) =>
+            current.filter((queued) => !isQueuedFor(queued, respondent, item.surveyId));
+          try {
+            // A response sent just before the connection dropped is already on chain
+            const sent = item.kind === "response" && (await sender.hasResponded(item.surveyId, item.signed.nullifier));
+            const txHash = sent ? undefined : await sendQueued(sender, item);
+            updateQueue(others);
+            setParticipation((current) => ({
+              ...current,
+              [key]: {
+                ...current[key],
+                mode: "chain",
+                ...(txHash && { txHash }),
+                ...(item.kind === "revision" && { revisedAt: new Date().toISOString() }),
+              },
+            }));
+            loadSurvey(sender, item.surveyId)
+              .then(replaceSurvey)
+              .catch((error: unknown) => console.error("Reloading the survey failed:", error));
+            if (txHash) {
+              showAlert(`${text.alerts.sent[item.kind]} TX: ${txHash.substring(0, 12)}...`, "success");
+            }
+          } catch (error) {
+            console.error(`Sending a queued ${item.kind} failed:`, error);
+            if (!isRejected(error)) {
+              updateQueue((current) =>
+                current.map((queued) =>
+                  isQueuedFor(queued, respondent, item.surveyId) ? { ...queued, lastError: String(error) } : queued,
+                ),
+              );
+              showAlert(text.alerts.stillQueued, "warning");
+              return;
+            }
+            updateQueue(others);
+            rollBack(respondent, item.surveyId, item.kind);
+            showAlert(`❌ ${describeTxError(error, text.alerts.refused[item.kind])}`, "error");
+          }
+        }
+      } finally {
+        syncing.current = false;
+      }
+    },
+    [encryptHeld, replaceSurvey, rollBack, showAlert, text, updateQueue],
+  );
+
+  useEffect(() => {
+    if (chainClient && account) {
+      void syncQueue(chainClient, account);
+    }
+  }, [chainClient, account, reconnects, syncQueue]);
+
+  /**
+   * Queues an encrypted submission with its receipt and sends it straight away if the contract can
+   * be reached
+   */
+  const enqueue = useCallback(
+    async (item: QueuedSubmission, receipt: Participation) => {
+      updateQueue((current) => [...current, item]);
+      recordParticipation(receipt, item.account);
+      if (chainClient) {
+        await syncQueue(chainClient, item.account);
+      } else {
+        showAlert(text.alerts.contractUnreachable, "warning");
+      }
+    },
+    [chainClient, recordParticipation, showAlert, syncQueue, text, updateQueue],
+  );
+
+  /**
+   * Encrypts answers and queues them with their receipt. Answers that cannot be encrypted because
+   * the browser is offline are held in memory instead and encrypted once it is back online.
+   */
+  const submit = useCallback(
+    async (sender: SurveyClient, submission: HeldSubmission, receipt: Participation, failure: string) => {
+      let item: QueuedSubmission;
+      try {
+        item = await encrypt(sender, submission);
+      } catch (error) {
+        console.error(`Encrypting a ${submission.kind} failed:`, error);
+        if (isOffline(error)) {
+          held.current = [...held.current, submission];
+          recordParticipation(receipt, submission.account);
+          showAlert(text.alerts.offline, "warning");
+        } else if (error instanceof NotOnRosterError) {
+          showAlert(text.alerts.notOnRoster, "error");
+        } else {
+          showAlert(`❌ ${describeTxError(error, failure)}`, "error");
+        }
+        return;
+      }
+      await enqueue(item, receipt);
+    },
+    [encrypt, enqueue, recordParticipation, showAlert, text],
+  );
+
+  const createSurvey = useCallback(
+    async (survey: NewSurvey) => {
+      if (!account) {
+        showAlert(text.alerts.connectWallet, "error");
+        return false;
+      }
+
+      if (chainClient) {
+        if (survey.eligibilityRoot && !RELAYER_URL) {
+          showAlert(text.alerts.inviteOnlyKey, "error");
+          return false;
+        }
+        try {
+          showAlert(text.alerts.creating, "info");
+          // Each invite-only survey gets a key of its own, so its tickets admit to no other survey
+          const ticketIssuer = survey.eligibilityRoot
+            ? await new RelayerClient(RELAYER_URL).createTicketKey()
+            : undefined;
+          const surveyId = Number(await chainClient.createSurvey({ ...survey, ticketIssuer }));
+          setPageReloads((count) => count + 1);
+          showAlert(text.alerts.created(surveyId), "success");
+          return true;
+        } catch (error) {
+          console.error("Blockchain survey creation failed:", error);
+          showAlert(`❌ ${describeTxError(error, text.alerts.createFailed)}`, "error");
+          return false;
+        }
+      }
+
+      const local = {
+        ...createLocalSurvey(Date.now(), account, survey.title, survey.description, survey.questions, survey),
+        language: survey.language,
+        translations: survey.translations,
+      };
+      setSurveys((current) => [...current, local]);
+      showAlert(text.alerts.savedLocally, "warning");
+      return true;
+    },
+    [account, chainClient, showAlert, text],
+  );
+
+  const submitResponse = useCallback(
+    async (survey: Survey, answers: Answer[], segment?: number) => {
+      if (!account) {
+        showAlert(text.alerts.connectWallet, "error");
+        return;
+      }
+      if (participation[participationKey(account, survey.id)]) {
+        showAlert(text.alerts.alreadyParticipated, "warning");
+        return;
+      }
+
+      if (!survey.onChain) {
+        // The tallies are kept for this session only, see saveSurveys
+        replaceSurvey(recordLocalResponse(survey, answers));
+        recordParticipation({ surveyId: survey.id, timestamp: new Date().toISOString(), mode: "local" }, account);
+        showAlert(text.alerts.savedLocalResponse, "success");
+        return;
+      }
+
+      if (!client) {
+        showAlert(text.alerts.contractUnavailable, "error");
+        return;
+      }
+      if (survey.eligibilityRoot && !RELAYER_URL) {
+        showAlert(text.alerts.inviteOnlyTickets, "error");
+        return;
+      }
+      showAlert(text.alerts.encrypting, "info");
+      const submission: HeldSubmission = {
+        kind: "response",
+        account,
+        surveyId: survey.id,
+        answers,
+        segment,
+        ...(survey.eligibilityRoot && { eligibilityRoot: survey.eligibilityRoot }),
+        heldAt: new Date().toISOString(),
+      };
+      const receipt: Participation = { surveyId: survey.id, timestamp: submission.heldAt, mode: "queued" };
+      await submit(client, submission, receipt, text.alerts.submitFailed);
+    },
+    [account, client, participation, recordParticipation, replaceSurvey, showAlert, submit, text],
+  );
+
+  const reviseResponse = useCallback(
+    async (survey: Survey, answers: Answer[]) => {
+      if (!account) {
+        showAlert(text.alerts.connectWallet, "error");
+        return;
+      }
+      const previous = participation[participationKey(account, survey.id)];
+      if (!previous) {
+        showAlert(text.alerts.submitFirst, "warning");
+        return;
+      }
+      if (!survey.onChain) {
+        showAlert(text.alerts.localNotEditable, "error");
+        return;
+      }
+      if (previous.mode === "queued") {
+        showAlert(text.alerts.stillQueuedEdit, "warning");
+        return;
+      }
+
+      if (!client) {
+        showAlert(text.alerts.contractUnavailable, "error");
+        return;
+      }
+      showAlert(text.alerts.encryptingRevision, "info");
+      const submission: HeldSubmission = {
+        kind: "revision",
+        account,
+        surveyId: survey.id,
+        answers,
+        heldAt: new Date().toISOString(),
+      };
+      await submit(client, submission, { ...previous, mode: "queued" }, text.alerts.reviseFailed);
+    },
+    [account, client, participation, showAlert, submit, text],
+  );
+
+  const decryptMyAnswers = useCallback(
+    async (survey: Survey) => {
+      if (!chainClient || !survey.onChain) {
+        showAlert(text.alerts.notOnChain, "error");
+        return null;
+      }
+      try {
+        showAlert(text.alerts.unlockKey, "info");
+        const answers = await chainClient.decryptMyAnswers(survey.id, await getFhevm());
+        showAlert(text.alerts.decrypted, "success");
+        return answers;
+      } catch (error) {
+        console.error("Decrypting own answers failed:", error);
+        showAlert(`❌ ${describeTxError(error, text.alerts.decryptFailed)}`, "error");
+        return null;
+      }
+    },
+    [chainClient, showAlert, text],
+  );
+
+  const loadResponseTimes = useCallback(
+    async (survey: Survey) => {
+      if (!chainClient || !survey.onChain) {
+        return null;
+      }
+      try {
+        return await chainClient.getResponseTimes(survey.id, CONTRACT_DEPLOY_BLOCK);
+      } catch (error) {
+        console.error("Loading response times failed:", error);
+        showAlert(text.alerts.timesFailed, "warning");
+        return null;
+      }
+    },
+    [chainClient, showAlert, text],
+  );
+
+  /**
+   * Runs a creator (or, for reveals, analyst) action against the contract and reloads the survey afterwards.
+   * An action that only partly succeeded returns the warning to show instead of `done`.
+   */
+  const creatorAction = useCallback(
+    async (survey: Survey, pending: string, done: string, action: (client: SurveyClient) => Promise<string | void>) => {
+      if (!chainClient || !survey.onChain) {
+        showAlert(text.alerts.notOnChain, "error");
+        return;
+      }
+      try {
+        showAlert(pending, "info");
+        const warning = await action(chainClient);
+        replaceSurvey(await loadSurvey(chainClient, survey.id));
+        showAlert(warning || done, warning ? "warning" : "success");
+      } catch (error) {
+        console.error(`${pending} failed:`, error);
+        showAlert(`❌ ${describeTxError(error, text.alerts.txFailed)}`, "error");
+      }
+    },
+    [chainClient, replaceSurvey, showAlert, text],
+  );
+
+  const closeSurvey = useCallback(
+    (survey: Survey) =>
+      creatorAction(survey, text.alerts.closing, text.alerts.closed, async (client) => {
+        await client.closeSurvey(survey.id);
+      }),
+    [creatorAction, text],
+  );
+
+  const publishResults = useCallback(
+    (survey: Survey) =>
+      creatorAction(survey, text.alerts.publishing, text.alerts.published, async (client) => {
+        await client.publishResults(survey.id);
+      }),
+    [creatorAction, text],
+  );
+
+  const revealResults = useCallback(
+    (survey: Survey) =>
+      creatorAction(survey, text.alerts.revealing, text.alerts.revealed, async (client) => {
+        // Every decryption is requested before any is waited for, so they all share one timeout
+        const pending = await client.revealResults(survey.id);
+        if (pending.length > 0) {
+          return text.alerts.notRevealed(pending.map((questionId) => `Q${questionId + 1}`).join(", "));
+        }
+      }),
+    [creatorAction, text],
+  );
+
+  return {
+    surveys: chainClient && chainPage ? chainPage.surveys : surveys,
+    listView,
+    showListView: setListView,
+    more: chainClient ? chainPage?.more ?? false : undefined,
+    participation,
+    memberships,
+    contractStatus,
+    createSurvey,
+    submitResponse,
+    reviseResponse,
+    decryptMyAnswers,
+    loadResponseTimes,
+    closeSurvey,
+    publishResults,
+    revealResults,
+  };
+}
@@ -0,0 +1,134 @@
+import { BrowserProvider, formatEther, type JsonRpcSigner } from "ethers";
+import { useCallback, useEffect, useState } from "react";
+
+import { SEPOLIA_CHAIN_ID, SEPOLIA_NETWORK } from "../lib/config";
+import type { InjectedProvider } from "../lib/fhevm";
+import type { ShowAlert } from "./useAlerts";
+
+export interface Wallet {
+  account: string | null;
+  balance: string;
+  signer: JsonRpcSigner | null;
+  connecting: boolean;
+  connect(): Promise<void>;
+  disconnect(): void;
+}
+
+/**
+ * Switches the wallet to Sepolia, adding the network first if the wallet does not know it
+ */
+async function ensureSepolia(ethereum: InjectedProvider, showAlert: ShowAlert): Promise<void> {
+  const chainId = await ethereum.request({ method: "eth_chainId" });
+  if (chainId === SEPOLIA_CHAIN_ID) {
+    return;
+  }
+  try {
+    await ethereum.request({ method: "wallet_switchEthereumChain", params: [{ chainId: SEPOLIA_CHAIN_ID }] });
+    showAlert("✅ Switched to Sepolia testnet", "success");
+  } catch (error) {
+    if ((error as { code?: number }).code !== 4902) {
+      throw error;
+    }
+    await ethereum.request({ method: "wallet_addEthereumChain", params: [SEPOLIA_NETWORK] });
+    showAlert("✅ Added and switched to Sepolia testnet", "success");
+  }
+}
+
+/**
+ * The injected wallet's account, balance and signer, kept in sync with account and network changes
+ */
+export function useWallet(showAlert: ShowAlert): Wallet {
+  const [account, setAccount] = useState<string | null>(null);
+  const [balance, setBalance] = useState("0.0000");
+  const [signer, setSigner] = useState<JsonRpcSigner | null>(null);
+  const [connecting, setConnecting] = useState(false);
+
+  const selectAccount = useCallback(async (address: string | null) => {
+    const ethereum = window.ethereum;
+    if (!address || !ethereum) {
+      setAccount(null);
+      setSigner(null);
+      setBalance("0.0000");
+      return;
+    }
+    const provider = new BrowserProvider(ethereum);
+    setAccount(address);
+    setSigner(await provider.getSigner(address));
+    setBalance(Number(formatEther(await provider.getBalance(address))).toFixed(4));
+  }, []);
+
+  // Pick up an already-authorised account without prompting
+  useEffect(() => {
+    const ethereum = window.ethereum;
+    if (!ethereum) {
+      return;
+    }
+    ethereum
+      .request({ method: "eth_accounts" })
+      .then((accounts: string[]) => {
+        if (accounts.length > 0) {
+          return selectAccount(accounts[0]).then(() => showAlert("🎉 Wallet connected automatically", "success", 3000));
+        }
+      })
+      .catch((error: unknown) => console.error("Failed to check wallet connection:", error));
+  }, [selectAccount, showAlert]);
+
+  useEffect(() => {
+    const ethereum = window.ethereum;
+    if (!ethereum || !account) {
+      return;
+    }
+    const onAccountsChanged = (accounts: string[]) => {
+      void selectAccount(accounts[0] ?? null);
+      showAlert(accounts.length > 0 ? "🔄 Account switched" : "👋 Wallet disconnected", "info");
+    };
+    const onChainChanged = (chainId: string) => {
+      if (chainId !== SEPOLIA_CHAIN_ID) {
+        showAlert("⚠️ Please switch back to Sepolia testnet", "warning");
+      }
+      void selectAccount(account);
+    };
+    ethereum.on("accountsChanged", onAccountsChanged);
+    ethereum.on("chainChanged", onChainChanged);
+    return () => {
+      ethereum.removeListener("accountsChanged", onAccountsChanged);
+      ethereum.removeListener("chainChanged", onChainChanged);
+    };
+  }, [account, selectAccount, showAlert]);
+
+  const connect = useCallback(async () => {
+    const ethereum = window.ethereum;
+    if (!ethereum) {
+      showAlert("❌ Please install MetaMask wallet extension first", "error");
+      window.open("https://metamask.io/download/", "_blank");
+      return;
+    }
+
+    setConnecting(true);
+    try {
+      const accounts: string[] = await ethereum.request({ method: "eth_requestAccounts" });
+      await ensureSepolia(ethereum, showAlert);
+      await selectAccount(accounts[0] ?? null);
+      showAlert("🎉 Wallet connected to Sepolia testnet!", "success");
+    } catch (error) {
+      console.error("Wallet connection failed:", error);
+      const code = (error as { code?: number }).code;
+      if (code === 4001) {
+        showAlert("⚠️ User rejected wallet connection", "warning");
+      } else if (code === -32002) {
+        showAlert("⏳ Wallet connection request pending, please confirm in wallet", "warning");
+      } else {
+        showAlert("❌ Wallet connection failed", "error");
+      }
+    } finally {
+      setConnecting(false);
+    }
+  }, [selectAccount, showAlert]);
+
+  const disconnect = useCallback(() => {
+    void selectAccount(null);
+    showAlert("👋 Wallet disconnected", "info");
+  }, [selectAccount, showAlert]);
+
+  return { account, balance, signer, connecting, connect, disconnect };
+}
@@ -0,0 +1,6 @@
+/**
+ * @title HTTP plumbing
+ * @notice Node-only helpers the content server and the relayer share: CORS, body limits and JSON errors
+ */
+export { createHttpServer, HttpError, jsonReply, parseJson, readBody, readJson } from "./server";
+export type { HttpReply, HttpServerOptions } from "./server";
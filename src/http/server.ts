@@ -0,0 +1,85 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "http";
+
+/** Options the HTTP services share */
+export interface HttpServerOptions {
+  /** Largest request body accepted in bytes */
+  maxBodyBytes?: number;
+  /** Access-Control-Allow-Origin header, so the web app can call it from another origin (default "*") */
+  allowOrigin?: string;
+}
+
+/** A request the server refuses, answered with its status code and message */
+export class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+/** What a route answers with: the body as sent and its content type */
+export interface HttpReply {
+  type: string;
+  body: string;
+}
+
+export function jsonReply(body: unknown): HttpReply {
+  return { type: "application/json", body: JSON.stringify(body) };
+}
+
+/**
+ * Serves the routes behind `handle` to the web app. Preflight requests are answered here, an
+ * HttpError becomes its status with `{ error }`, and anything else is logged and answered with a
+ * 500 and `failure` as the error, so internals never reach the client.
+ */
+export function createHttpServer(
+  handle: (request: IncomingMessage) => Promise<HttpReply>,
+  { allowOrigin = "*", failure }: { allowOrigin?: string; failure: string },
+): Server {
+  return createServer((request: IncomingMessage, response: ServerResponse) => {
+    response.setHeader("Access-Control-Allow-Origin", allowOrigin);
+    response.setHeader("Access-Control-Allow-Headers", "Content-Type");
+    response.setHeader("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+    if (request.method === "OPTIONS") {
+      response.writeHead(204).end();
+      return;
+    }
+
+    handle(request).then(
+      ({ type, body }) => response.writeHead(200, { "Content-Type": type }).end(body),
+      (error: unknown) => {
+        if (!(error instanceof HttpError)) {
+          console.error(`${failure}:`, error);
+        }
+        const [status, message] = error instanceof HttpError ? [error.status, error.message] : [500, failure];
+        response.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify({ error: message }));
+      },
+    );
+  });
+}
+
+/**
+ * The request body as text, refused with a 413 once it grows past `maxBytes`
+ */
+export async function readBody(request: IncomingMessage, maxBytes: number): Promise<string> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of request) {
+    size += (chunk as Buffer).length;
+    if (size > maxBytes) {
+      throw new HttpError(413, `Request body is larger than ${maxBytes} bytes`);
+    }
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString("utf8");
+}
+
+export function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new HttpError(400, "Request body is not JSON");
+  }
+}
+
+export async function readJson(request: IncomingMessage, maxBytes: number): Promise<unknown> {
+  return parseJson(await readBody(request, maxBytes));
+}
@@ -0,0 +1,23 @@
+/**
+ * @title Survey event indexer
+ * @notice Node-only companion to the SDK: mirrors the contract's events into a local store
+ *
+ * Usage:
+ *   const indexer = new SurveyIndexer(provider, address, new JsonFileStore("index.json"), { startBlock });
+ *   await indexer.sync();
+ *   const open = querySurveys((await store.load())!, { status: "open" });
+ */
+export { buildSurveys, indexedSurveyStatus, querySurveys, SurveyIndexer } from "./indexer";
+export type { IndexerOptions } from "./indexer";
+export { JsonFileStore } from "./store";
+export type {
+  BlockRef,
+  IndexedEvent,
+  IndexedEventName,
+  IndexedSurvey,
+  IndexedSurveyStatus,
+  IndexState,
+  IndexStore,
+  SurveyFilter,
+  SyncResult,
+} from "./types";
@@ -0,0 +1,304 @@
+import { getAddress, Interface, type Log, type Provider } from "ethers";
+
+import { surveyAbi } from "../sdk/contracts";
+import type {
+  BlockRef,
+  IndexedEvent,
+  IndexedEventName,
+  IndexedSurvey,
+  IndexedSurveyStatus,
+  IndexState,
+  IndexStore,
+  SurveyFilter,
+  SyncResult,
+} from "./types";
+
+const INDEXED_EVENTS: IndexedEventName[] = [
+  "SurveyCreated",
+  "ResponseSubmitted",
+  "SurveyClosed",
+  "ResultsPublished",
+  "ResultDecryptionRequested",
+];
+
+const surveyInterface = new Interface(surveyAbi);
+const TOPICS = INDEXED_EVENTS.map((name) => surveyInterface.getEvent(name)!.topicHash);
+
+export interface IndexerOptions {
+  /** First block to read, normally the deployment block (default 0) */
+  startBlock?: number;
+  /** Blocks per eth_getLogs call; public RPCs reject large ranges (default 2000) */
+  batchSize?: number;
+  /** Stay this many blocks behind the head (default 0) */
+  confirmations?: number;
+  /** Processed blocks remembered for reorg detection; deeper reorgs re-index from startBlock (default 64) */
+  reorgDepth?: number;
+  /** Reads of a block range before giving up while the chain keeps changing under it (default 5) */
+  maxAttempts?: number;
+  /** Wait before re-reading a range, doubled after each attempt (default 1000) */
+  retryDelayMs?: number;
+}
+
+/**
+ * @title SurveyIndexer
+ * @notice Copies the contract's lifecycle events into a store so listings need no contract calls
+ * @dev Each sync first checks the remembered block hashes against the chain. When they no longer
+ * match, events from the replaced blocks are dropped and those blocks are read again.
+ */
+export class SurveyIndexer {
+  private readonly address: string;
+  private readonly startBlock: number;
+  private readonly batchSize: number;
+  private readonly confirmations: number;
+  private readonly reorgDepth: number;
+  private readonly maxAttempts: number;
+  private readonly retryDelayMs: number;
+
+  constructor(
+    private readonly provider: Provider,
+    address: string,
+    private readonly store: IndexStore,
+    options: IndexerOptions = {},
+  ) {
+    this.address = getAddress(address);
+    this.startBlock = options.startBlock ?? 0;
+    this.batchSize = options.batchSize ?? 2000;
+    this.confirmations = options.confirmations ?? 0;
+    this.reorgDepth = options.reorgDepth ?? 64;
+    this.maxAttempts = options.maxAttempts ?? 5;
+    this.retryDelayMs = options.retryDelayMs ?? 1000;
+  }
+
+  /**
+   * Reads new logs up to the head (minus confirmations), saving after every batch so an
+   * interrupted run resumes where it stopped
+   */
+  async sync(onBatch?: (toBlock: number, headBlock: number) => void): Promise<SyncResult> {
+    const chainId = Number((await this.provider.getNetwork()).chainId);
+    const loaded = await this.load(chainId);
+    const { state, reorgedFrom } = await this.rewindReorg(loaded);
+    if (reorgedFrom !== null) {
+      await this.store.save(state);
+    }
+
+    const headBlock = (await this.provider.getBlockNumber()) - this.confirmations;
+    const fromBlock = state.lastBlock + 1;
+    let current = state;
+    let newEvents = 0;
+
+    for (let from = fromBlock; from <= headBlock; from += this.batchSize) {
+      const to = Math.min(from + this.batchSize - 1, headBlock);
+      const { events, tip } = await this.readBatch(from, to);
+      current = {
+        ...current,
+        lastBlock: to,
+        events: [...current.events, ...events],
+        checkpoints: this.trimCheckpoints([...current.checkpoints, ...eventBlocks(events), { number: to, hash: tip }]),
+      };
+      await this.store.save(current);
+      newEvents += events.length;
+      onBatch?.(to, headBlock);
+    }
+
+    return { fromBlock, toBlock: Math.max(headBlock, state.lastBlock), newEvents, reorgedFrom };
+  }
+
+  private async load(chainId: number): Promise<IndexState> {
+    const state = await this.store.load();
+    if (!state) {
+      return {
+        version: 1,
+        chainId,
+        contract: this.address,
+        startBlock: this.startBlock,
+        lastBlock: this.startBlock - 1,
+        checkpoints: [],
+        events: [],
+      };
+    }
+    if (state.version !== 1 || state.chainId !== chainId || getAddress(state.contract) !== this.address) {
+      throw new Error(
+        `Index was built for ${state.contract} on chain ${state.chainId}, not ${this.address} on chain ${chainId}`,
+      );
+    }
+    return state;
+  }
+
+  /**
+   * Finds the newest remembered block that is still on the chain and drops everything after it
+   */
+  private async rewindReorg(state: IndexState): Promise<{ state: IndexState; reorgedFrom: number | null }> {
+    const { checkpoints } = state;
+    for (let index = checkpoints.length - 1; index >= 0; index--) {
+      const block = await this.provider.getBlock(checkpoints[index].number);
+      if (block?.hash === checkpoints[index].hash) {
+        if (index === checkpoints.length - 1) {
+          return { state, reorgedFrom: null };
+        }
+        return { state: rewindTo(state, checkpoints[index].number), reorgedFrom: checkpoints[index].number + 1 };
+      }
+    }
+    if (checkpoints.length === 0) {
+      return { state, reorgedFrom: null };
+    }
+    // Reorg deeper than anything remembered: start over
+    return { state: rewindTo(state, state.startBlock - 1), reorgedFrom: state.startBlock };
+  }
+
+  /**
+   * Reads one block range. The range's last block is fetched before and after the logs; if its
+   * hash changed in between, the chain reorganised mid-read and the range is read again after a
+   * growing delay, up to maxAttempts times.
+   */
+  private async readBatch(from: number, to: number): Promise<{ events: IndexedEvent[]; tip: string }> {
+    for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+      if (attempt > 1) {
+        await new Promise((resolve) => setTimeout(resolve, this.retryDelayMs * 2 ** (attempt - 2)));
+      }
+      const before = await this.provider.getBlock(to);
+      const logs = await this.provider.getLogs({
+        address: this.address,
+        topics: [TOPICS],
+        fromBlock: from,
+        toBlock: to,
+      });
+      const after = await this.provider.getBlock(to);
+      if (before?.hash && before.hash === after?.hash) {
+        return { events: logs.map(decodeLog), tip: before.hash };
+      }
+    }
+    throw new Error(
+      `Block ${to} kept changing while reading blocks ${from}-${to}, gave up after ${this.maxAttempts} attempts`,
+    );
+  }
+
+  private trimCheckpoints(checkpoints: BlockRef[]): BlockRef[] {
+    const latest = checkpoints[checkpoints.length - 1].number;
+    const unique = checkpoints.filter(
+      (checkpoint, index) => index === checkpoints.length - 1 || checkpoint.number !== checkpoints[index + 1].number,
+    );
+    return unique.filter((checkpoint) => checkpoint.number > latest - this.reorgDepth);
+  }
+}
+
+function rewindTo(state: IndexState, block: number): IndexState {
+  return {
+    ...state,
+    lastBlock: block,
+    checkpoints: state.checkpoints.filter((checkpoint) => checkpoint.number <= block),
+    events: state.events.filter((event) => event.blockNumber <= block),
+  };
+}
+
+function eventBlocks(events: IndexedEvent[]): BlockRef[] {
+  return events.map((event) => ({ number: event.blockNumber, hash: event.blockHash }));
+}
+
+function decodeLog(log: Log): IndexedEvent {
+  const parsed = surveyInterface.parseLog(log);
+  if (!parsed) {
+    throw new Error(`Unexpected log in transaction ${log.transactionHash}`);
+  }
+  const base = {
+    surveyId: Number(parsed.args.surveyId),
+    blockNumber: log.blockNumber,
+    blockHash: log.blockHash,
+    transactionHash: log.transactionHash,
+    logIndex: log.index,
+  };
+  switch (parsed.name as IndexedEventName) {
+    case "SurveyCreated":
+      return {
+        ...base,
+        name: "SurveyCreated",
+        creator: parsed.args.creator as string,
+        contentHash: parsed.args.contentHash as string,
+        startTime: Number(parsed.args.startTime),
+        endTime: Number(parsed.args.endTime),
+      };
+    case "ResponseSubmitted":
+      return {
+        ...base,
+        name: "ResponseSubmitted",
+        nullifier: parsed.args.nullifier as string,
+        timestamp: Number(parsed.args.timestamp),
+      };
+    case "SurveyClosed":
+      return { ...base, name: "SurveyClosed", timestamp: Number(parsed.args.timestamp) };
+    case "ResultsPublished":
+      return { ...base, name: "ResultsPublished", totalResponses: Number(parsed.args.totalResponses) };
+    case "ResultDecryptionRequested":
+      return {
+        ...base,
+        name: "ResultDecryptionRequested",
+        questionId: Number(parsed.args.questionId),
+        requestId: (parsed.args.requestId as bigint).toString(),
+      };
+    default:
+      throw new Error(`Unexpected ${parsed.name} event in transaction ${log.transactionHash}`);
+  }
+}
+
+/**
+ * Folds indexed events into one view per survey, ordered by id
+ */
+export function buildSurveys(events: IndexedEvent[]): IndexedSurvey[] {
+  const surveys = new Map<number, IndexedSurvey>();
+  for (const event of events) {
+    if (event.name === "SurveyCreated") {
+      surveys.set(event.surveyId, {
+        id: event.surveyId,
+        creator: event.creator,
+        contentHash: event.contentHash,
+        startTime: new Date(event.startTime * 1000),
+        endTime: new Date(event.endTime * 1000),
+        createdBlock: event.blockNumber,
+        createdTransaction: event.transactionHash,
+        responses: 0,
+        responseTimes: [],
+        closedAt: null,
+        resultsPublished: false,
+        decryptionRequests: 0,
+      });
+      continue;
+    }
+    const survey = surveys.get(event.surveyId);
+    if (!survey) {
+      continue;
+    }
+    if (event.name === "ResponseSubmitted") {
+      survey.responses += 1;
+      survey.responseTimes.push(new Date(event.timestamp * 1000));
+    } else if (event.name === "SurveyClosed") {
+      survey.closedAt = new Date(event.timestamp * 1000);
+    } else if (event.name === "ResultsPublished") {
+      survey.resultsPublished = true;
+    } else {
+      survey.decryptionRequests += 1;
+    }
+  }
+  return [...surveys.values()].sort((a, b) => a.id - b.id);
+}
+
+export function indexedSurveyStatus(survey: IndexedSurvey, now: Date = new Date()): IndexedSurveyStatus {
+  if (survey.resultsPublished) {
+    return "published";
+  }
+  if (survey.startTime > now) {
+    return "upcoming";
+  }
+  const closesAt = survey.closedAt && survey.closedAt < survey.endTime ? survey.closedAt : survey.endTime;
+  return closesAt > now ? "open" : "ended";
+}
+
+/**
+ * Surveys from the index matching every given filter
+ */
+export function querySurveys(state: IndexState, filter: SurveyFilter = {}, now: Date = new Date()): IndexedSurvey[] {
+  const creator = filter.creator?.toLowerCase();
+  return buildSurveys(state.events).filter(
+    (survey) =>
+      (creator === undefined || survey.creator.toLowerCase() === creator) &&
+      (filter.status === undefined || indexedSurveyStatus(survey, now) === filter.status),
+  );
+}
@@ -0,0 +1,34 @@
+import { promises as fs } from "fs";
+import * as path from "path";
+
+import type { IndexState, IndexStore } from "./types";
+
+/**
+ * Keeps the index in one JSON file. Writes go to a temporary file that is renamed over the
+ * old one, so an interrupted run never leaves half a file behind.
+ */
+export class JsonFileStore implements IndexStore {
+  constructor(readonly file: string) {}
+
+  async load(): Promise<IndexState | null> {
+    try {
+      return JSON.parse(await fs.readFile(this.file, "utf8")) as IndexState;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async save(state: IndexState): Promise<void> {
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    const temporary = `${this.file}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(state, null, 2));
+    await fs.rename(temporary, this.file);
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.file, { force: true });
+  }
+}
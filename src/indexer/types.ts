@@ -0,0 +1,94 @@
+/**
+ * @title Survey indexer types
+ * @notice What the event indexer keeps on disk and the survey views built from it
+ */
+
+/** A block the indexer has processed, remembered to notice when the chain reorganises under it */
+export interface BlockRef {
+  number: number;
+  hash: string;
+}
+
+interface IndexedEventBase {
+  surveyId: number;
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+}
+
+/** A decoded contract event, JSON-safe (bigints become numbers or strings) */
+export type IndexedEvent =
+  | (IndexedEventBase & {
+      name: "SurveyCreated";
+      creator: string;
+      contentHash: string;
+      startTime: number;
+      endTime: number;
+    })
+  | (IndexedEventBase & { name: "ResponseSubmitted"; nullifier: string; timestamp: number })
+  | (IndexedEventBase & { name: "SurveyClosed"; timestamp: number })
+  | (IndexedEventBase & { name: "ResultsPublished"; totalResponses: number })
+  | (IndexedEventBase & { name: "ResultDecryptionRequested"; questionId: number; requestId: string });
+
+export type IndexedEventName = IndexedEvent["name"];
+
+/** Everything the indexer persists between runs */
+export interface IndexState {
+  version: 1;
+  chainId: number;
+  contract: string;
+  startBlock: number;
+  /** Last block whose logs are in `events`; startBlock - 1 before the first sync */
+  lastBlock: number;
+  /** Recently processed blocks, oldest first */
+  checkpoints: BlockRef[];
+  /** Events in chain order */
+  events: IndexedEvent[];
+}
+
+/** Where the indexer keeps its state between runs */
+export interface IndexStore {
+  load(): Promise<IndexState | null>;
+  save(state: IndexState): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/** What one sync did */
+export interface SyncResult {
+  fromBlock: number;
+  toBlock: number;
+  newEvents: number;
+  /** First block whose events were dropped because of a reorg, null if there was none */
+  reorgedFrom: number | null;
+}
+
+/**
+ * Upcoming before startTime, open until endTime or until its creator closes it, ended afterwards,
+ * published once results are published
+ */
+export type IndexedSurveyStatus = "upcoming" | "open" | "ended" | "published";
+
+/** A survey as reconstructed from its events */
+export interface IndexedSurvey {
+  id: number;
+  creator: string;
+  /** Hash of the survey's off-chain content, which holds its title */
+  contentHash: string;
+  startTime: Date;
+  endTime: Date;
+  createdBlock: number;
+  createdTransaction: string;
+  responses: number;
+  /** Block timestamps of each ResponseSubmitted event, oldest first */
+  responseTimes: Date[];
+  /** When the creator closed the survey early, null if they did not */
+  closedAt: Date | null;
+  resultsPublished: boolean;
+  decryptionRequests: number;
+}
+
+export interface SurveyFilter {
+  creator?: string;
+  status?: IndexedSurveyStatus;
+}
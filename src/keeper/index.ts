@@ -0,0 +1,12 @@
+/**
+ * @title Survey keeper
+ * @notice Node-only job that publishes the results of ended surveys, as a policy file allows
+ *
+ * Usage:
+ *   const policy = parseKeeperPolicy(loadYaml(fs.readFileSync("keeper-policy.yaml", "utf8")));
+ *   const run = await runKeeper(keeperWallet, contractAddress, policy);
+ */
+export { planKeeper, runKeeper } from "./keeper";
+export type { KeeperDecision, KeeperOptions, KeeperRun } from "./keeper";
+export { parseKeeperPolicy } from "./policy";
+export type { KeeperPolicy } from "./policy";
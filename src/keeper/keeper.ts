@@ -0,0 +1,120 @@
+import { getAddress, type Signer } from "ethers";
+
+import { SurveyClient } from "../sdk/client";
+import { type SurveyInfo, SurveyStatus } from "../sdk/types";
+import type { KeeperPolicy } from "./policy";
+
+/** What the keeper does with an ended survey whose results are not published yet */
+export interface KeeperDecision {
+  surveyId: bigint;
+  /** publish now, wait for a later run, or leave it alone for good */
+  action: "publish" | "wait" | "skip";
+  reason: string;
+}
+
+export interface KeeperOptions {
+  /** Decide without sending any transaction */
+  dryRun?: boolean;
+  /** Called for each decision before it is carried out, e.g. to log it */
+  onDecision?: (decision: KeeperDecision) => void;
+}
+
+/** What one keeper run did */
+export interface KeeperRun {
+  /** Surveys read from the contract */
+  checked: number;
+  /** One per ended, unpublished survey, in id order */
+  decisions: KeeperDecision[];
+  published: bigint[];
+  /** Publications that reverted, e.g. because someone else published first */
+  failed: { surveyId: bigint; error: string }[];
+}
+
+/**
+ * Decides what happens to each ended survey that is not published yet. `now` is the chain's time,
+ * so a local node moved forward with evm_increaseTime is judged by its own clock.
+ */
+export function planKeeper(surveys: SurveyInfo[], policy: KeeperPolicy, keeper: string, now: Date): KeeperDecision[] {
+  return surveys
+    .filter((survey) => survey.status === SurveyStatus.Ended && !survey.resultsPublished)
+    .map((survey) => ({
+      surveyId: survey.id,
+      ...decide(survey, policy, getAddress(keeper), now),
+    }));
+}
+
+function decide(
+  survey: SurveyInfo,
+  policy: KeeperPolicy,
+  keeper: string,
+  now: Date,
+): Pick<KeeperDecision, "action" | "reason"> {
+  const id = Number(survey.id);
+  const creator = getAddress(survey.creator);
+  if (policy.exclude.includes(id) || (policy.surveys.length > 0 && !policy.surveys.includes(id))) {
+    return { action: "skip", reason: "not covered by the policy's survey ids" };
+  }
+  if (policy.creators.length > 0 && !policy.creators.includes(creator)) {
+    return { action: "skip", reason: `created by ${creator}, who is not in the policy` };
+  }
+  // Ended surveys take no more responses, so these stay locked for good
+  if (survey.totalResponses === 0) {
+    return { action: "skip", reason: "no responses" };
+  }
+  if (survey.responsesNeeded > 0) {
+    return { action: "skip", reason: `${survey.responsesNeeded} response(s) short of its minimum` };
+  }
+
+  if (now <= survey.endTime) {
+    return creator === keeper
+      ? { action: "publish", reason: "closed early by its creator" }
+      : { action: "wait", reason: `closed early, anyone may publish after ${survey.endTime.toISOString()}` };
+  }
+  const publishFrom = new Date(survey.endTime.getTime() + policy.graceMinutes * 60 * 1000);
+  if (now < publishFrom && creator !== keeper) {
+    return { action: "wait", reason: `left to its creator until ${publishFrom.toISOString()}` };
+  }
+  return { action: "publish", reason: `expired ${survey.endTime.toISOString()}` };
+}
+
+/**
+ * @title Survey keeper
+ * @notice Reads every survey and publishes the results of the ended ones the policy covers.
+ * Published surveys drop out of the next run, so running it again, e.g. from cron, only picks
+ * up what changed. Transactions are sent one at a time from `signer`.
+ */
+export async function runKeeper(
+  signer: Signer,
+  contractAddress: string,
+  policy: KeeperPolicy,
+  options: KeeperOptions = {},
+): Promise<KeeperRun> {
+  const { dryRun = false, onDecision } = options;
+  const client = SurveyClient.connect(contractAddress, signer);
+  const block = await signer.provider?.getBlock("latest");
+  if (!block) {
+    throw new Error("Keeper signer needs a provider");
+  }
+
+  const surveys: SurveyInfo[] = [];
+  const total = await client.getTotalSurveys();
+  for (let id = 1; id <= total; id++) {
+    surveys.push(await client.getSurvey(id));
+  }
+
+  const decisions = planKeeper(surveys, policy, await signer.getAddress(), new Date(block.timestamp * 1000));
+  const run: KeeperRun = { checked: surveys.length, decisions, published: [], failed: [] };
+  for (const decision of decisions) {
+    onDecision?.(decision);
+    if (decision.action !== "publish" || dryRun) {
+      continue;
+    }
+    try {
+      await client.publishResults(decision.surveyId);
+      run.published.push(decision.surveyId);
+    } catch (error) {
+      run.failed.push({ surveyId: decision.surveyId, error: (error as Error).message });
+    }
+  }
+  return run;
+}
@@ -0,0 +1,62 @@
+import { getAddress, isAddress } from "ethers";
+
+/**
+ * Which ended surveys the keeper publishes, as written in a JSON or YAML file. Every field is optional:
+ *
+ *   graceMinutes: 60          # leave expired surveys to their creator for this long first, unless
+ *                             # the keeper's account created them
+ *   creators: ["0x..."]       # only surveys these accounts created
+ *   surveys: [1, 2, 3]        # only these survey ids
+ *   exclude: [2]              # never these survey ids
+ */
+export interface KeeperPolicy {
+  graceMinutes: number;
+  /** Checksummed creator addresses; empty for every creator */
+  creators: string[];
+  /** Empty for every survey */
+  surveys: number[];
+  exclude: number[];
+}
+
+const POLICY_KEYS = ["graceMinutes", "creators", "surveys", "exclude"];
+
+function isIdList(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every((id) => typeof id === "number" && Number.isInteger(id) && id > 0);
+}
+
+/**
+ * Validates a parsed policy file and fills in the defaults. Throws one error listing every problem.
+ */
+export function parseKeeperPolicy(data: unknown): KeeperPolicy {
+  const raw = data ?? {};
+  if (typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error("Invalid keeper policy:\n  - policy: must be an object");
+  }
+  const policy = raw as Record<string, unknown>;
+  const problems = Object.keys(policy)
+    .filter((key) => !POLICY_KEYS.includes(key))
+    .map((key) => `${key}: unknown field`);
+
+  const { graceMinutes = 0, creators = [], surveys = [], exclude = [] } = policy;
+  if (typeof graceMinutes !== "number" || !Number.isInteger(graceMinutes) || graceMinutes < 0) {
+    problems.push("graceMinutes: must be a whole number of minutes, 0 or more");
+  }
+  if (!Array.isArray(creators) || !creators.every((creator) => typeof creator === "string" && isAddress(creator))) {
+    problems.push("creators: must be a list of addresses");
+  }
+  for (const [key, ids] of Object.entries({ surveys, exclude })) {
+    if (!isIdList(ids)) {
+      problems.push(`${key}: must be a list of survey ids`);
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid keeper policy:\n${problems.map((problem) => `  - ${problem}`).join("\n")}`);
+  }
+  return {
+    graceMinutes: graceMinutes as number,
+    creators: (creators as string[]).map((creator) => getAddress(creator)),
+    surveys: surveys as number[],
+    exclude: exclude as number[],
+  };
+}
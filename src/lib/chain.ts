@@ -0,0 +1,104 @@
+import { contentQuestions, type SurveyClient, type SurveyDetails, SurveyListStatus } from "../sdk";
+import { type ListStatus, PAGE_SIZE, type Survey, type SurveyListView } from "./surveys";
+
+const LIST_STATUSES: Record<ListStatus | "all", SurveyListStatus> = {
+  all: SurveyListStatus.Any,
+  upcoming: SurveyListStatus.Upcoming,
+  open: SurveyListStatus.Open,
+  ended: SurveyListStatus.Ended,
+  published: SurveyListStatus.Published,
+};
+
+/** One page of the contract's surveys */
+export interface ChainSurveyPage {
+  surveys: Survey[];
+  /** Whether more surveys match after this page */
+  more: boolean;
+}
+
+/**
+ * Reads the page of surveys the list shows through the contract's SurveyDirectory, then their
+ * results so far in two multicalls and their content from the content server. If the multicalls
+ * fail the page is read survey by survey, so one broken survey does not hide the rest.
+ */
+export async function loadSurveyPage(
+  client: SurveyClient,
+  view: SurveyListView,
+  account: string | null,
+): Promise<ChainSurveyPage> {
+  const listing = await client.listSurveys({
+    creator: view.mine && account ? account : undefined,
+    status: LIST_STATUSES[view.status],
+    page: view.page,
+    pageSize: PAGE_SIZE,
+  });
+  const ids = listing.surveys.map((summary) => Number(summary.id));
+  const surveys: Survey[] = [];
+  try {
+    const batch = await client.getSurveysWithResults(ids);
+    surveys.push(...(await Promise.all(batch.map((details) => withContent(client, details)))));
+  } catch {
+    for (const id of ids) {
+      try {
+        surveys.push(await loadSurvey(client, id));
+      } catch (error) {
+        console.error(`Failed to load survey ${id}:`, error);
+      }
+    }
+  }
+  return { surveys, more: listing.more };
+}
+
+export async function loadSurvey(client: SurveyClient, id: number): Promise<Survey> {
+  const [details] = await client.getSurveysWithResults([id]);
+  return withContent(client, details);
+}
+
+/**
+ * Fetches and verifies a survey's content. Content that is missing or does not match the hash on
+ * chain is never shown: the survey gets a placeholder title and the reason instead.
+ */
+async function withContent(client: SurveyClient, details: SurveyDetails): Promise<Survey> {
+  try {
+    const content = await client.fetchContent(details.info.contentHash);
+    return {
+      ...toSurvey(details),
+      title: content.title,
+      description: content.description,
+      questions: contentQuestions(content, details.configs),
+      ...(content.language !== undefined && { language: content.language }),
+      ...(content.translations && { translations: content.translations }),
+    };
+  } catch (error) {
+    return { ...toSurvey(details), contentError: (error as Error).message };
+  }
+}
+
+/** The survey with placeholder texts until its content is verified */
+function toSurvey({ info, configs, segments, results, histograms }: SurveyDetails): Survey {
+  return {
+    id: Number(info.id),
+    title: `Survey #${info.id}`,
+    description: "",
+    questions: configs.map((config) => ({ text: "", ...config })),
+    creator: info.creator,
+    startTime: info.startTime.toISOString(),
+    endTime: info.endTime.toISOString(),
+    active: info.active,
+    resultsPublished: info.resultsPublished,
+    totalResponses: info.totalResponses,
+    responsesNeeded: info.responsesNeeded,
+    eligibilityRoot: info.eligibilityRoot ?? undefined,
+    ...(segments.length > 0 && { segments }),
+    ...(info.organizationId !== null && { organizationId: Number(info.organizationId) }),
+    ...(info.template !== null && { template: info.template }),
+    contentHash: info.contentHash,
+    results: results.map((result, questionId) => ({
+      counts: histograms[questionId].counts,
+      totalResponses: result.revealed ? result.totalResponses : info.totalResponses,
+      average: result.average,
+      distributionRevealed: histograms[questionId].revealed,
+    })),
+    onChain: true,
+  };
+}
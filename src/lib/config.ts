@@ -0,0 +1,71 @@
+import { ZeroAddress } from "ethers";
+
+import { FIVE_STAR_RATING, type QuestionConfig, QuestionType, YES_NO } from "../sdk";
+
+/**
+ * EmployeePrivacySurvey deployment on Sepolia, the `address` in
+ * deployments/sepolia/EmployeePrivacySurvey.json. Set with VITE_CONTRACT_ADDRESS at build time; when
+ * unset no contract is found there and the app runs on surveys kept in this browser.
+ */
+export const CONTRACT_ADDRESS = import.meta.env.VITE_CONTRACT_ADDRESS || ZeroAddress;
+
+export const SEPOLIA_CHAIN_ID = "0xaa36a7"; // 11155111 in hex
+
+export const SEPOLIA_NETWORK = {
+  chainId: SEPOLIA_CHAIN_ID,
+  chainName: "Sepolia Test Network",
+  nativeCurrency: { name: "Sepolia ETH", symbol: "SEP ETH", decimals: 18 },
+  rpcUrls: ["https://sepolia.infura.io/v3/", "https://rpc.sepolia.org/"],
+  blockExplorerUrls: ["https://sepolia.etherscan.io/"],
+};
+
+export const ETHERSCAN_URL = "https://sepolia.etherscan.io";
+
+/** Where `build-roster-tree --publish public/rosters` puts the per-employee eligibility proofs */
+export const ROSTER_URL = "/rosters";
+
+/**
+ * Relayer that submits signed responses (`npx hardhat relayer`), so the respondent's wallet never
+ * sends the transaction. Set with VITE_RELAYER_URL at build time; empty when unset, and responses are
+ * then submitted from the connected wallet.
+ */
+export const RELAYER_URL = import.meta.env.VITE_RELAYER_URL ?? "";
+
+/**
+ * Content server (`npx hardhat content-server`) holding survey titles, descriptions and questions.
+ * Whatever it returns is checked against the hash on chain, so it needs no trust. Set with
+ * VITE_CONTENT_URL at build time; the local content server's default address when unset.
+ */
+export const CONTENT_URL = import.meta.env.VITE_CONTENT_URL ?? "http://localhost:8788";
+
+/**
+ * Block the contract was deployed in, where reading its events starts (the `blockNumber` of the
+ * deploy receipt in deployments/<network>). Set with VITE_CONTRACT_DEPLOY_BLOCK at build time;
+ * without it events are read from the genesis block, a range at a time.
+ */
+export const CONTRACT_DEPLOY_BLOCK = Number(import.meta.env.VITE_CONTRACT_DEPLOY_BLOCK ?? 0);
+
+/** Must not be below the contract's minResponsesFloor */
+export const DEFAULT_MIN_RESPONSES = 5;
+
+/** Answer formats offered by the create form */
+export const QUESTION_FORMATS = {
+  rating: { label: "⭐ Rating (1-5)", config: FIVE_STAR_RATING },
+  enps: { label: "📈 eNPS (0-10)", config: { questionType: QuestionType.Scale, minValue: 0, maxValue: 10 } },
+  agreement: { label: "🤝 Agreement (1-7)", config: { questionType: QuestionType.Scale, minValue: 1, maxValue: 7 } },
+  yesno: { label: "✅ Yes / No", config: YES_NO },
+} satisfies Record<string, { label: string; config: QuestionConfig }>;
+
+export type QuestionFormat = keyof typeof QUESTION_FORMATS;
+
+/** Create-form format of a question config, undefined for ranges the form does not offer */
+export function questionFormat(config: QuestionConfig): QuestionFormat | undefined {
+  return (Object.keys(QUESTION_FORMATS) as QuestionFormat[]).find((format) => {
+    const candidate: QuestionConfig = QUESTION_FORMATS[format].config;
+    return (
+      candidate.questionType === config.questionType &&
+      candidate.minValue === config.minValue &&
+      candidate.maxValue === config.maxValue
+    );
+  });
+}
@@ -0,0 +1,29 @@
+import { type EligibilityProof, verifyEligibilityProof } from "../sdk";
+import { ROSTER_URL } from "./config";
+
+/** Thrown when the connected account has no eligibility proof for an invite-only survey */
+export class NotOnRosterError extends Error {
+  constructor() {
+    super("This survey is for invited employees and your wallet is not on its roster");
+  }
+}
+
+/**
+ * Loads the connected account's proof for an invite-only survey. Resolves to null when the
+ * account has no proof file (it is not on the roster) or the file does not match the survey.
+ */
+export async function loadEligibilityProof(root: string, account: string): Promise<string[] | null> {
+  const response = await fetch(`${ROSTER_URL}/${root}/${account.toLowerCase()}.json`);
+  if (response.status === 404) {
+    return null;
+  }
+  if (!response.ok) {
+    throw new Error(`Failed to load eligibility proof (HTTP ${response.status})`);
+  }
+  // The SPA rewrite answers unknown paths with index.html, so a missing proof may not be a 404
+  if (!response.headers.get("content-type")?.includes("json")) {
+    return null;
+  }
+  const { proof } = (await response.json()) as EligibilityProof;
+  return verifyEligibilityProof(root, account, proof) ? proof : null;
+}
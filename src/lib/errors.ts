@@ -0,0 +1,17 @@
+/**
+ * Turns a wallet or contract error into a message for the user
+ */
+export function describeTxError(error: unknown, fallback: string): string {
+  const { code, reason, message = "" } = (error ?? {}) as { code?: number | string; reason?: string; message?: string };
+  if (code === 4001 || code === "ACTION_REJECTED") {
+    return "Transaction cancelled by user";
+  }
+  if (code === "INSUFFICIENT_FUNDS" || message.includes("insufficient funds")) {
+    return "Insufficient ETH for gas fees";
+  }
+  if (reason) {
+    // require() message from the contract, e.g. "Already responded"
+    return `${fallback}: ${reason}`;
+  }
+  return fallback;
+}
@@ -0,0 +1,49 @@
+import type { Eip1193Provider } from "ethers";
+
+import type { FhevmDecryptor, FhevmEncryptor } from "../sdk";
+
+/** An instance of the relayer SDK: encrypts answers and decrypts the user's own values */
+export type FhevmInstance = FhevmEncryptor & FhevmDecryptor;
+
+/** The parts of Zama's relayer SDK (loaded from its CDN build in index.html) the app uses */
+interface RelayerSdk {
+  initSDK(): Promise<boolean>;
+  createInstance(config: Record<string, unknown>): Promise<FhevmInstance>;
+  SepoliaConfig: Record<string, unknown>;
+}
+
+/** A wallet-injected provider, which unlike a bare EIP-1193 provider can be subscribed to */
+export interface InjectedProvider extends Eip1193Provider {
+  on(event: string, listener: (...args: never[]) => void): void;
+  removeListener(event: string, listener: (...args: never[]) => void): void;
+}
+
+declare global {
+  interface Window {
+    ethereum?: InjectedProvider;
+    relayerSDK?: RelayerSdk;
+  }
+}
+
+let instance: Promise<FhevmInstance> | null = null;
+
+/**
+ * Creates the relayer SDK instance that encrypts and decrypts in the browser, once per page load
+ */
+export function getFhevm(): Promise<FhevmInstance> {
+  const sdk = window.relayerSDK;
+  if (!sdk || !window.ethereum) {
+    return Promise.reject(new Error("FHEVM relayer SDK not loaded"));
+  }
+  if (!instance) {
+    const ethereum = window.ethereum;
+    instance = sdk
+      .initSDK()
+      .then(() => sdk.createInstance({ ...sdk.SepoliaConfig, network: ethereum }))
+      .catch((error: unknown) => {
+        instance = null;
+        throw error;
+      });
+  }
+  return instance;
+}
@@ -0,0 +1,655 @@
+import type { ContractStatus } from "../hooks/useSurveys";
+import { DEFAULT_LANGUAGE, matchLanguage } from "../sdk";
+import type { QueuedSubmission } from "./queue";
+import type { ListStatus, SurveyStatus } from "./surveys";
+
+type SubmissionKind = QueuedSubmission["kind"];
+
+/** Texts of the app around the surveys. Survey texts come with each survey's translations. */
+export interface Messages {
+  documentTitle: string;
+  heading: string;
+  subtitle: string;
+  contract: string;
+  network: string;
+  contractStatus: Record<ContractStatus, string>;
+  language: string;
+  surveysNav: string;
+  createNav: string;
+  surveysHeading: string;
+  createHeading: string;
+  status: Record<SurveyStatus, string>;
+  list: ListMessages;
+  card: CardMessages;
+  answers: AnswerMessages;
+  results: ResultMessages;
+  alerts: AlertMessages;
+}
+
+interface ListMessages {
+  filters: Record<Exclude<ListStatus, SurveyStatus> | "all", string>;
+  filterLabel: string;
+  mine: string;
+  noMatches: string;
+  emptyHeading: string;
+  emptyHint: string;
+  createFirst: string;
+  pagesLabel: string;
+  previous: string;
+  next: string;
+  page(page: number): string;
+  pageOf(page: number, pages: number, surveys: number): string;
+}
+
+interface CardMessages {
+  contentError(error: string): string;
+  status: string;
+  questions: string;
+  inviteOnly: string;
+  templateTitle: string;
+  languagesTitle: string;
+  organization(id: number): string;
+  opensIn(time: string): string;
+  remaining(time: string): string;
+  ended: string;
+  dashboard: string;
+  creator: string;
+  opens: string;
+  deadline: string;
+  close: string;
+  publish: string;
+  reveal: string;
+  yourSurvey: string;
+  analyst: string;
+  participated: string;
+  edited: string;
+  queued: string;
+  localMode: string;
+  editAnswers: string;
+  cancelEditing: string;
+  saveAnswers: string;
+  connectWallet: string;
+}
+
+interface AnswerMessages {
+  yes: string;
+  no: string;
+  heading: string;
+  hint: string;
+  submit: string;
+  missing(question: number): string;
+  missingTeam: string;
+  team: string;
+  teamHint: string;
+  encryptedHint: string;
+  view: string;
+  mineLabel: string;
+  mineHeading: string;
+  decryptedHint: string;
+  hide: string;
+}
+
+interface ResultMessages {
+  responses: string;
+  needed(responses: number): string;
+  unlockable: string;
+  distributionHidden: string;
+  averageHidden: string;
+  answeredYes(percent: number): string;
+  average: string;
+  dashboardLabel: string;
+  back: string;
+  print: string;
+  published: string;
+  notPublished: string;
+  generated(time: string): string;
+  unrevealed(questions: string): string;
+  allRevealed: string;
+  timeline: string;
+  timesOffChain: string;
+  loadingTimes: string;
+  timesUnreadable: string;
+  noResponses: string;
+  timelineLabel(responses: number, from: string, to: string): string;
+  distributionPending: string;
+  chartLabel(question: number, answers: string): string;
+  yesNo: string;
+  scale(min: number, max: number): string;
+}
+
+/** Alerts of the survey actions; plain ones are the fallback when a wallet error has no reason */
+interface AlertMessages {
+  connectWallet: string;
+  localMode: string;
+  loadFailed: string;
+  encryptFailed: Record<SubmissionKind, string>;
+  sent: Record<SubmissionKind, string>;
+  refused: Record<SubmissionKind, string>;
+  stillQueued: string;
+  contractUnreachable: string;
+  offline: string;
+  notOnRoster: string;
+  inviteOnlyKey: string;
+  creating: string;
+  created(id: number): string;
+  createFailed: string;
+  savedLocally: string;
+  alreadyParticipated: string;
+  savedLocalResponse: string;
+  contractUnavailable: string;
+  inviteOnlyTickets: string;
+  encrypting: string;
+  submitFailed: string;
+  submitFirst: string;
+  localNotEditable: string;
+  stillQueuedEdit: string;
+  encryptingRevision: string;
+  reviseFailed: string;
+  notOnChain: string;
+  unlockKey: string;
+  decrypted: string;
+  decryptFailed: string;
+  timesFailed: string;
+  txFailed: string;
+  closing: string;
+  closed: string;
+  publishing: string;
+  published: string;
+  revealing: string;
+  revealed: string;
+  notRevealed(questions: string): string;
+}
+
+const MESSAGES: Record<string, Messages> = {
+  en: {
+    documentTitle: "Employee Satisfaction Survey - Anonymous Corporate Survey System",
+    heading: "📊 Employee Satisfaction Survey",
+    subtitle: "Anonymous Corporate Survey System - Privacy-Protected Research Platform",
+    contract: "Contract",
+    network: "Sepolia Testnet",
+    contractStatus: {
+      checking: "🔍 Checking contract status...",
+      active: "FHE Contract Active - Encrypted Survey System",
+      missing: "Local Fallback Mode - Contract Not Detected",
+    },
+    language: "Language",
+    surveysNav: "📋 Surveys",
+    createNav: "➕ Create Survey",
+    surveysHeading: "📋 Employee Satisfaction Surveys",
+    createHeading: "✨ Create Employee Satisfaction Survey",
+    status: { upcoming: "🕒 Upcoming", open: "🟢 Open", ended: "🔴 Ended" },
+    list: {
+      filters: { all: "All surveys", published: "📊 Results published" },
+      filterLabel: "Filter surveys by status",
+      mine: "Created by me",
+      noMatches: "No surveys match these filters.",
+      emptyHeading: "🌱 No Surveys Available",
+      emptyHint: "Create your first employee satisfaction survey!",
+      createFirst: "➕ Create First Survey",
+      pagesLabel: "Survey pages",
+      previous: "◀ Previous",
+      next: "Next ▶",
+      page: (page) => `Page ${page}`,
+      pageOf: (page, pages, surveys) => `Page ${page} of ${pages} (${surveys} surveys)`,
+    },
+    card: {
+      contentError: (error) => `⚠️ The questions of this survey cannot be shown: ${error}`,
+      status: "Status",
+      questions: "Questions",
+      inviteOnly: "🎟️ Invited employees only",
+      templateTitle: "Template version it was created from",
+      languagesTitle: "Languages the survey can be read in",
+      organization: (id) => `Organization #${id}`,
+      opensIn: (time) => `Opens in: ${time}`,
+      remaining: (time) => `Remaining: ${time}`,
+      ended: "Ended",
+      dashboard: "📈 Results dashboard",
+      creator: "Creator",
+      opens: "Opens",
+      deadline: "Deadline",
+      close: "🔒 Close Survey",
+      publish: "📢 Publish Results",
+      reveal: "🔓 Reveal Results",
+      yourSurvey: "👑 Your Survey",
+      analyst: "📊 Analyst Access",
+      participated: "✅ Participated",
+      edited: " (edited)",
+      queued: "- ⏳ Encrypted and queued, sent once the connection is back",
+      localMode: "- Local Mode",
+      editAnswers: "✏️ Edit my answers",
+      cancelEditing: "Cancel Editing",
+      saveAnswers: "✏️ Save New Answers",
+      connectWallet: "Please connect wallet to participate in survey",
+    },
+    answers: {
+      yes: "👍 Yes",
+      no: "👎 No",
+      heading: "👆 Answer Each Question",
+      hint: "Pick an answer for each question, then submit your response",
+      submit: "📊 Submit Survey Response",
+      missing: (question) => `Please answer question ${question} before submitting`,
+      missingTeam: "Please pick your team before submitting",
+      team: "Your team",
+      teamHint: "🔐 Encrypted like your answers; results per team stay hidden until every team is large enough",
+      encryptedHint: "🔐 Answers are encrypted in your browser before they are sent",
+      view: "🔍 View my answers",
+      mineLabel: "My answers",
+      mineHeading: "🔍 My Answers",
+      decryptedHint: "🔐 Decrypted in this browser with your respondent key",
+      hide: "Hide",
+    },
+    results: {
+      responses: "Responses",
+      needed: (responses) =>
+        `🔒 ${responses} more response${responses === 1 ? "" : "s"} needed before results can be unlocked`,
+      unlockable: "🔓 Enough responses collected to unlock results",
+      distributionHidden: "🔒 Answer distribution stays encrypted until the creator reveals it",
+      averageHidden: "🔒 Average not revealed yet",
+      answeredYes: (percent) => `Answered Yes: ${percent}%`,
+      average: "Average",
+      dashboardLabel: "Results dashboard",
+      back: "◀ Back to surveys",
+      print: "🖨️ Print report",
+      published: "📢 Results published",
+      notPublished: "Results not published yet",
+      generated: (time) => `Report generated ${time}`,
+      unrevealed: (questions) =>
+        `⚠️ Not revealed yet: ${questions}. Their averages or distributions are left out of the charts and exports until the creator or an analyst reveals them.`,
+      allRevealed: "✅ Every question has been revealed",
+      timeline: "📈 Responses over time",
+      timesOffChain: "Response times are only recorded for on-chain surveys.",
+      loadingTimes: "Loading response times...",
+      timesUnreadable: "Response times could not be read from the contract.",
+      noResponses: "No responses yet.",
+      timelineLabel: (responses, from, to) => `${responses} responses between ${from} and ${to}`,
+      distributionPending: "🔒 Distribution not revealed yet",
+      chartLabel: (question, answers) => `Q${question} answers: ${answers}`,
+      yesNo: "Yes / No",
+      scale: (min, max) => `Scale ${min}-${max}`,
+    },
+    alerts: {
+      connectWallet: "❌ Please connect wallet first",
+      localMode: "⚠️ Using preset surveys in local mode",
+      loadFailed: "⚠️ Could not load surveys from the contract",
+      encryptFailed: {
+        response: "Your response could not be encrypted",
+        revision: "Your revision could not be encrypted",
+      },
+      sent: { response: "🎉 Encrypted response sent!", revision: "🎉 Encrypted revision sent!" },
+      refused: { response: "Your queued response was refused", revision: "Your queued revision was refused" },
+      stillQueued: "📦 Your encrypted answers stay queued and are sent once the connection is back",
+      contractUnreachable: "📦 Contract unreachable, your encrypted answers are queued and sent once it is back",
+      offline:
+        "📴 You are offline: your answers wait in this tab, unencrypted and never stored, and are sent once you are back online",
+      notOnRoster: "🚫 This survey is for invited employees and your wallet is not on its roster",
+      inviteOnlyKey: "🚫 Invite-only surveys need the relayer, which makes their ticket key",
+      creating: "🔄 Creating survey on FHE blockchain...",
+      created: (id) => `🎉 Survey #${id} created on blockchain!`,
+      createFailed: "Failed to create survey on blockchain",
+      savedLocally: "📦 Contract unavailable, survey saved locally",
+      alreadyParticipated: "⚠️ You have already participated in this survey",
+      savedLocalResponse: "🎉 Survey response saved successfully! (Local Mode)",
+      contractUnavailable: "❌ Contract unavailable, please try again later",
+      inviteOnlyTickets: "🚫 Invite-only surveys need the relayer, which issues their anonymous tickets",
+      encrypting: "🔐 Encrypting and signing survey responses...",
+      submitFailed: "Survey submission failed",
+      submitFirst: "⚠️ Submit a response before editing it",
+      localNotEditable: "❌ Answers to local surveys are not stored, so they cannot be edited",
+      stillQueuedEdit: "⏳ Your answers are still queued, edit them once they are sent",
+      encryptingRevision: "🔐 Encrypting and signing your new answers...",
+      reviseFailed: "Updating your answers failed",
+      notOnChain: "❌ This survey is not on chain",
+      unlockKey: "🔑 Sign in your wallet to unlock your respondent key...",
+      decrypted: "🔓 Your answers were decrypted in this browser",
+      decryptFailed: "Could not decrypt your answers",
+      timesFailed: "⚠️ Could not load when responses came in",
+      txFailed: "Transaction failed",
+      closing: "⏳ Closing survey...",
+      closed: "🔒 Survey closed",
+      publishing: "⏳ Publishing results...",
+      published: "📢 Results published",
+      revealing: "🔓 Requesting decryption of the results...",
+      revealed: "📊 Results revealed",
+      notRevealed: (questions) =>
+        `⏳ Decryption of ${questions} is still pending; reload the survey later or reveal again`,
+    },
+  },
+  es: {
+    documentTitle: "Encuesta de satisfacción laboral - Sistema de encuestas anónimas",
+    heading: "📊 Encuesta de satisfacción laboral",
+    subtitle: "Sistema de encuestas corporativas anónimas - Plataforma de investigación con privacidad",
+    contract: "Contrato",
+    network: "Red de pruebas Sepolia",
+    contractStatus: {
+      checking: "🔍 Comprobando el estado del contrato...",
+      active: "Contrato FHE activo - Sistema de encuestas cifradas",
+      missing: "Modo local - No se detectó el contrato",
+    },
+    language: "Idioma",
+    surveysNav: "📋 Encuestas",
+    createNav: "➕ Crear encuesta",
+    surveysHeading: "📋 Encuestas de satisfacción laboral",
+    createHeading: "✨ Crear una encuesta de satisfacción laboral",
+    status: { upcoming: "🕒 Próxima", open: "🟢 Abierta", ended: "🔴 Finalizada" },
+    list: {
+      filters: { all: "Todas las encuestas", published: "📊 Resultados publicados" },
+      filterLabel: "Filtrar encuestas por estado",
+      mine: "Creadas por mí",
+      noMatches: "Ninguna encuesta coincide con estos filtros.",
+      emptyHeading: "🌱 No hay encuestas disponibles",
+      emptyHint: "¡Crea tu primera encuesta de satisfacción laboral!",
+      createFirst: "➕ Crear la primera encuesta",
+      pagesLabel: "Páginas de encuestas",
+      previous: "◀ Anterior",
+      next: "Siguiente ▶",
+      page: (page) => `Página ${page}`,
+      pageOf: (page, pages, surveys) => `Página ${page} de ${pages} (${surveys} encuestas)`,
+    },
+    card: {
+      contentError: (error) => `⚠️ No se pueden mostrar las preguntas de esta encuesta: ${error}`,
+      status: "Estado",
+      questions: "Preguntas",
+      inviteOnly: "🎟️ Solo empleados invitados",
+      templateTitle: "Versión de la plantilla con la que se creó",
+      languagesTitle: "Idiomas en los que se puede leer la encuesta",
+      organization: (id) => `Organización n.º ${id}`,
+      opensIn: (time) => `Abre en: ${time}`,
+      remaining: (time) => `Tiempo restante: ${time}`,
+      ended: "Finalizada",
+      dashboard: "📈 Panel de resultados",
+      creator: "Creador",
+      opens: "Apertura",
+      deadline: "Fecha límite",
+      close: "🔒 Cerrar encuesta",
+      publish: "📢 Publicar resultados",
+      reveal: "🔓 Revelar resultados",
+      yourSurvey: "👑 Tu encuesta",
+      analyst: "📊 Acceso de analista",
+      participated: "✅ Has participado",
+      edited: " (editado)",
+      queued: "- ⏳ Cifrado y en cola, se envía cuando vuelva la conexión",
+      localMode: "- Modo local",
+      editAnswers: "✏️ Editar mis respuestas",
+      cancelEditing: "Cancelar edición",
+      saveAnswers: "✏️ Guardar las nuevas respuestas",
+      connectWallet: "Conecta tu cartera para participar en la encuesta",
+    },
+    answers: {
+      yes: "👍 Sí",
+      no: "👎 No",
+      heading: "👆 Responde cada pregunta",
+      hint: "Elige una respuesta para cada pregunta y envía tu respuesta",
+      submit: "📊 Enviar respuesta",
+      missing: (question) => `Responde la pregunta ${question} antes de enviar`,
+      missingTeam: "Elige tu equipo antes de enviar",
+      team: "Tu equipo",
+      teamHint:
+        "🔐 Cifrado como tus respuestas; los resultados por equipo siguen ocultos hasta que todos los equipos sean lo bastante grandes",
+      encryptedHint: "🔐 Las respuestas se cifran en tu navegador antes de enviarse",
+      view: "🔍 Ver mis respuestas",
+      mineLabel: "Mis respuestas",
+      mineHeading: "🔍 Mis respuestas",
+      decryptedHint: "🔐 Descifradas en este navegador con tu clave de encuestado",
+      hide: "Ocultar",
+    },
+    results: {
+      responses: "Respuestas",
+      needed: (responses) =>
+        `🔒 Faltan ${responses} respuesta${responses === 1 ? "" : "s"} para poder desbloquear los resultados`,
+      unlockable: "🔓 Hay suficientes respuestas para desbloquear los resultados",
+      distributionHidden: "🔒 La distribución de respuestas sigue cifrada hasta que el creador la revele",
+      averageHidden: "🔒 Media aún no revelada",
+      answeredYes: (percent) => `Respondieron Sí: ${percent}%`,
+      average: "Media",
+      dashboardLabel: "Panel de resultados",
+      back: "◀ Volver a las encuestas",
+      print: "🖨️ Imprimir informe",
+      published: "📢 Resultados publicados",
+      notPublished: "Resultados aún no publicados",
+      generated: (time) => `Informe generado el ${time}`,
+      unrevealed: (questions) =>
+        `⚠️ Aún sin revelar: ${questions}. Sus medias o distribuciones quedan fuera de los gráficos y exportaciones hasta que el creador o un analista las revele.`,
+      allRevealed: "✅ Todas las preguntas se han revelado",
+      timeline: "📈 Respuestas a lo largo del tiempo",
+      timesOffChain: "Las horas de respuesta solo se registran en las encuestas en cadena.",
+      loadingTimes: "Cargando las horas de respuesta...",
+      timesUnreadable: "No se pudieron leer las horas de respuesta del contrato.",
+      noResponses: "Aún no hay respuestas.",
+      timelineLabel: (responses, from, to) => `${responses} respuestas entre ${from} y ${to}`,
+      distributionPending: "🔒 Distribución aún no revelada",
+      chartLabel: (question, answers) => `Respuestas a Q${question}: ${answers}`,
+      yesNo: "Sí / No",
+      scale: (min, max) => `Escala ${min}-${max}`,
+    },
+    alerts: {
+      connectWallet: "❌ Conecta primero tu cartera",
+      localMode: "⚠️ Usando encuestas predefinidas en modo local",
+      loadFailed: "⚠️ No se pudieron cargar las encuestas del contrato",
+      encryptFailed: {
+        response: "No se pudo cifrar tu respuesta",
+        revision: "No se pudo cifrar tu modificación",
+      },
+      sent: { response: "🎉 ¡Respuesta cifrada enviada!", revision: "🎉 ¡Modificación cifrada enviada!" },
+      refused: { response: "Se rechazó tu respuesta en cola", revision: "Se rechazó tu modificación en cola" },
+      stillQueued: "📦 Tus respuestas cifradas siguen en cola y se envían cuando vuelva la conexión",
+      contractUnreachable: "📦 Contrato inaccesible, tus respuestas cifradas quedan en cola y se envían cuando vuelva",
+      offline:
+        "📴 Estás sin conexión: tus respuestas esperan en esta pestaña, sin cifrar y sin guardarse, y se envían cuando vuelvas a estar en línea",
+      notOnRoster: "🚫 Esta encuesta es para empleados invitados y tu cartera no está en su lista",
+      inviteOnlyKey: "🚫 Las encuestas solo por invitación necesitan el relé, que crea su clave de tickets",
+      creating: "🔄 Creando la encuesta en la cadena de bloques FHE...",
+      created: (id) => `🎉 ¡Encuesta n.º ${id} creada en la cadena de bloques!`,
+      createFailed: "No se pudo crear la encuesta en la cadena de bloques",
+      savedLocally: "📦 Contrato no disponible, encuesta guardada localmente",
+      alreadyParticipated: "⚠️ Ya has participado en esta encuesta",
+      savedLocalResponse: "🎉 ¡Respuesta guardada! (Modo local)",
+      contractUnavailable: "❌ Contrato no disponible, inténtalo más tarde",
+      inviteOnlyTickets: "🚫 Las encuestas solo por invitación necesitan el relé, que emite sus tickets anónimos",
+      encrypting: "🔐 Cifrando y firmando las respuestas...",
+      submitFailed: "No se pudo enviar la respuesta",
+      submitFirst: "⚠️ Envía una respuesta antes de editarla",
+      localNotEditable: "❌ Las respuestas a encuestas locales no se guardan, así que no se pueden editar",
+      stillQueuedEdit: "⏳ Tus respuestas siguen en cola, edítalas cuando se hayan enviado",
+      encryptingRevision: "🔐 Cifrando y firmando tus nuevas respuestas...",
+      reviseFailed: "No se pudieron actualizar tus respuestas",
+      notOnChain: "❌ Esta encuesta no está en la cadena",
+      unlockKey: "🔑 Firma en tu cartera para desbloquear tu clave de encuestado...",
+      decrypted: "🔓 Tus respuestas se descifraron en este navegador",
+      decryptFailed: "No se pudieron descifrar tus respuestas",
+      timesFailed: "⚠️ No se pudo cargar cuándo llegaron las respuestas",
+      txFailed: "La transacción falló",
+      closing: "⏳ Cerrando la encuesta...",
+      closed: "🔒 Encuesta cerrada",
+      publishing: "⏳ Publicando los resultados...",
+      published: "📢 Resultados publicados",
+      revealing: "🔓 Solicitando el descifrado de los resultados...",
+      revealed: "📊 Resultados revelados",
+      notRevealed: (questions) =>
+        `⏳ El descifrado de ${questions} sigue pendiente; recarga la encuesta más tarde o vuelve a revelar`,
+    },
+  },
+  fr: {
+    documentTitle: "Enquête de satisfaction des employés - Système d'enquêtes anonymes",
+    heading: "📊 Enquête de satisfaction des employés",
+    subtitle: "Système d'enquêtes anonymes en entreprise - Plateforme de recherche confidentielle",
+    contract: "Contrat",
+    network: "Réseau de test Sepolia",
+    contractStatus: {
+      checking: "🔍 Vérification du contrat...",
+      active: "Contrat FHE actif - Système d'enquêtes chiffrées",
+      missing: "Mode local - Contrat non détecté",
+    },
+    language: "Langue",
+    surveysNav: "📋 Enquêtes",
+    createNav: "➕ Créer une enquête",
+    surveysHeading: "📋 Enquêtes de satisfaction des employés",
+    createHeading: "✨ Créer une enquête de satisfaction",
+    status: { upcoming: "🕒 À venir", open: "🟢 Ouverte", ended: "🔴 Terminée" },
+    list: {
+      filters: { all: "Toutes les enquêtes", published: "📊 Résultats publiés" },
+      filterLabel: "Filtrer les enquêtes par état",
+      mine: "Créées par moi",
+      noMatches: "Aucune enquête ne correspond à ces filtres.",
+      emptyHeading: "🌱 Aucune enquête disponible",
+      emptyHint: "Créez votre première enquête de satisfaction !",
+      createFirst: "➕ Créer la première enquête",
+      pagesLabel: "Pages d'enquêtes",
+      previous: "◀ Précédente",
+      next: "Suivante ▶",
+      page: (page) => `Page ${page}`,
+      pageOf: (page, pages, surveys) => `Page ${page} sur ${pages} (${surveys} enquêtes)`,
+    },
+    card: {
+      contentError: (error) => `⚠️ Les questions de cette enquête ne peuvent pas être affichées : ${error}`,
+      status: "État",
+      questions: "Questions",
+      inviteOnly: "🎟️ Employés invités uniquement",
+      templateTitle: "Version du modèle à partir duquel elle a été créée",
+      languagesTitle: "Langues dans lesquelles l'enquête peut être lue",
+      organization: (id) => `Organisation n° ${id}`,
+      opensIn: (time) => `Ouvre dans : ${time}`,
+      remaining: (time) => `Temps restant : ${time}`,
+      ended: "Terminée",
+      dashboard: "📈 Tableau de bord des résultats",
+      creator: "Créateur",
+      opens: "Ouverture",
+      deadline: "Date limite",
+      close: "🔒 Clôturer l'enquête",
+      publish: "📢 Publier les résultats",
+      reveal: "🔓 Révéler les résultats",
+      yourSurvey: "👑 Votre enquête",
+      analyst: "📊 Accès analyste",
+      participated: "✅ Participation enregistrée",
+      edited: " (modifiée)",
+      queued: "- ⏳ Chiffrée et en file d'attente, envoyée au retour de la connexion",
+      localMode: "- Mode local",
+      editAnswers: "✏️ Modifier mes réponses",
+      cancelEditing: "Annuler la modification",
+      saveAnswers: "✏️ Enregistrer les nouvelles réponses",
+      connectWallet: "Connectez votre portefeuille pour participer à l'enquête",
+    },
+    answers: {
+      yes: "👍 Oui",
+      no: "👎 Non",
+      heading: "👆 Répondez à chaque question",
+      hint: "Choisissez une réponse pour chaque question, puis envoyez votre réponse",
+      submit: "📊 Envoyer ma réponse",
+      missing: (question) => `Répondez à la question ${question} avant d'envoyer`,
+      missingTeam: "Choisissez votre équipe avant d'envoyer",
+      team: "Votre équipe",
+      teamHint:
+        "🔐 Chiffrée comme vos réponses ; les résultats par équipe restent cachés tant que chaque équipe n'est pas assez grande",
+      encryptedHint: "🔐 Les réponses sont chiffrées dans votre navigateur avant d'être envoyées",
+      view: "🔍 Voir mes réponses",
+      mineLabel: "Mes réponses",
+      mineHeading: "🔍 Mes réponses",
+      decryptedHint: "🔐 Déchiffrées dans ce navigateur avec votre clé de répondant",
+      hide: "Masquer",
+    },
+    results: {
+      responses: "Réponses",
+      needed: (responses) =>
+        `🔒 Encore ${responses} réponse${responses === 1 ? "" : "s"} avant de pouvoir débloquer les résultats`,
+      unlockable: "🔓 Assez de réponses pour débloquer les résultats",
+      distributionHidden: "🔒 La répartition des réponses reste chiffrée jusqu'à ce que le créateur la révèle",
+      averageHidden: "🔒 Moyenne pas encore révélée",
+      answeredYes: (percent) => `Ont répondu Oui : ${percent} %`,
+      average: "Moyenne",
+      dashboardLabel: "Tableau de bord des résultats",
+      back: "◀ Retour aux enquêtes",
+      print: "🖨️ Imprimer le rapport",
+      published: "📢 Résultats publiés",
+      notPublished: "Résultats pas encore publiés",
+      generated: (time) => `Rapport généré le ${time}`,
+      unrevealed: (questions) =>
+        `⚠️ Pas encore révélées : ${questions}. Leurs moyennes ou répartitions sont exclues des graphiques et des exports jusqu'à ce que le créateur ou un analyste les révèle.`,
+      allRevealed: "✅ Toutes les questions ont été révélées",
+      timeline: "📈 Réponses au fil du temps",
+      timesOffChain: "Les heures de réponse ne sont enregistrées que pour les enquêtes sur la chaîne.",
+      loadingTimes: "Chargement des heures de réponse...",
+      timesUnreadable: "Les heures de réponse n'ont pas pu être lues depuis le contrat.",
+      noResponses: "Pas encore de réponses.",
+      timelineLabel: (responses, from, to) => `${responses} réponses entre le ${from} et le ${to}`,
+      distributionPending: "🔒 Répartition pas encore révélée",
+      chartLabel: (question, answers) => `Réponses à Q${question} : ${answers}`,
+      yesNo: "Oui / Non",
+      scale: (min, max) => `Échelle ${min}-${max}`,
+    },
+    alerts: {
+      connectWallet: "❌ Connectez d'abord votre portefeuille",
+      localMode: "⚠️ Enquêtes prédéfinies en mode local",
+      loadFailed: "⚠️ Impossible de charger les enquêtes depuis le contrat",
+      encryptFailed: {
+        response: "Votre réponse n'a pas pu être chiffrée",
+        revision: "Votre modification n'a pas pu être chiffrée",
+      },
+      sent: { response: "🎉 Réponse chiffrée envoyée !", revision: "🎉 Modification chiffrée envoyée !" },
+      refused: {
+        response: "Votre réponse en file d'attente a été refusée",
+        revision: "Votre modification en file d'attente a été refusée",
+      },
+      stillQueued: "📦 Vos réponses chiffrées restent en file d'attente et seront envoyées au retour de la connexion",
+      contractUnreachable:
+        "📦 Contrat injoignable, vos réponses chiffrées sont mises en file d'attente et envoyées à son retour",
+      offline:
+        "📴 Vous êtes hors ligne : vos réponses attendent dans cet onglet, non chiffrées et jamais enregistrées, et seront envoyées à votre retour en ligne",
+      notOnRoster: "🚫 Cette enquête est réservée aux employés invités et votre portefeuille n'est pas sur sa liste",
+      inviteOnlyKey: "🚫 Les enquêtes sur invitation ont besoin du relais, qui crée leur clé de tickets",
+      creating: "🔄 Création de l'enquête sur la blockchain FHE...",
+      created: (id) => `🎉 Enquête n° ${id} créée sur la blockchain !`,
+      createFailed: "Impossible de créer l'enquête sur la blockchain",
+      savedLocally: "📦 Contrat indisponible, enquête enregistrée localement",
+      alreadyParticipated: "⚠️ Vous avez déjà participé à cette enquête",
+      savedLocalResponse: "🎉 Réponse enregistrée ! (Mode local)",
+      contractUnavailable: "❌ Contrat indisponible, veuillez réessayer plus tard",
+      inviteOnlyTickets: "🚫 Les enquêtes sur invitation ont besoin du relais, qui émet leurs tickets anonymes",
+      encrypting: "🔐 Chiffrement et signature des réponses...",
+      submitFailed: "L'envoi de la réponse a échoué",
+      submitFirst: "⚠️ Envoyez une réponse avant de la modifier",
+      localNotEditable:
+        "❌ Les réponses aux enquêtes locales ne sont pas conservées et ne peuvent donc pas être modifiées",
+      stillQueuedEdit: "⏳ Vos réponses sont encore en file d'attente, modifiez-les une fois envoyées",
+      encryptingRevision: "🔐 Chiffrement et signature de vos nouvelles réponses...",
+      reviseFailed: "La mise à jour de vos réponses a échoué",
+      notOnChain: "❌ Cette enquête n'est pas sur la chaîne",
+      unlockKey: "🔑 Signez dans votre portefeuille pour déverrouiller votre clé de répondant...",
+      decrypted: "🔓 Vos réponses ont été déchiffrées dans ce navigateur",
+      decryptFailed: "Impossible de déchiffrer vos réponses",
+      timesFailed: "⚠️ Impossible de charger les heures d'arrivée des réponses",
+      txFailed: "La transaction a échoué",
+      closing: "⏳ Clôture de l'enquête...",
+      closed: "🔒 Enquête clôturée",
+      publishing: "⏳ Publication des résultats...",
+      published: "📢 Résultats publiés",
+      revealing: "🔓 Demande de déchiffrement des résultats...",
+      revealed: "📊 Résultats révélés",
+      notRevealed: (questions) =>
+        `⏳ Le déchiffrement de ${questions} est toujours en attente ; rechargez l'enquête plus tard ou révélez à nouveau`,
+    },
+  },
+};
+
+/** Languages the app itself is translated into */
+export const UI_LANGUAGES = Object.keys(MESSAGES);
+
+/** The app's texts in the UI language closest to `language`, English when there is none */
+export function messages(language: string): Messages {
+  return MESSAGES[matchLanguage(UI_LANGUAGES, [language]) ?? DEFAULT_LANGUAGE];
+}
+
+/** Languages the browser asks for, most preferred first */
+export function browserLanguages(): readonly string[] {
+  if (typeof navigator === "undefined") {
+    return [];
+  }
+  return navigator.languages?.length ? navigator.languages : [navigator.language];
+}
+
+/** A language's name in its own language, e.g. "español" for "es"; the tag itself if unknown */
+export function languageName(tag: string): string {
+  try {
+    return new Intl.DisplayNames([tag], { type: "language" }).of(tag) ?? tag;
+  } catch {
+    return tag;
+  }
+}
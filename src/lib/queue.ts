@@ -0,0 +1,105 @@
+import { type Answer, RelayerClient, type SignedResponse, type SignedRevision, type SurveyClient } from "../sdk";
+import { type Participation, participationKey } from "./surveys";
+
+/**
+ * A response encrypted and signed in this browser that is not on chain yet. It holds ciphertext
+ * handles, an input proof and a signature, never the answers, so it can wait in localStorage
+ * until the wallet and network are back.
+ */
+export type QueuedSubmission = {
+  /** Respondent who signed it; only their wallet sends it */
+  account: string;
+  surveyId: number;
+  queuedAt: string;
+  /**
+   * Relayer the answers were encrypted for, which must be the one to submit them; unset when they
+   * were encrypted for the respondent's own wallet
+   */
+  relayer?: string;
+  /** Why the last attempt to send it failed */
+  lastError?: string;
+} & ({ kind: "response"; signed: SignedResponse } | { kind: "revision"; signed: SignedRevision });
+
+/**
+ * Answers that could not be encrypted because the browser was offline. Unlike queued submissions
+ * they are held in the tab's memory only, never in localStorage, and are encrypted and queued once
+ * the app is back online; closing the tab discards them.
+ */
+export interface HeldSubmission {
+  kind: "response" | "revision";
+  account: string;
+  surveyId: number;
+  answers: Answer[];
+  /** Respondent segment of a response */
+  segment?: number;
+  /** Roster root of an invite-only survey, whose eligibility proof is loaded when encrypting */
+  eligibilityRoot?: string;
+  heldAt: string;
+}
+
+/** Whether a queued submission belongs to the respondent's response to a survey */
+export function isQueuedFor(item: QueuedSubmission, account: string, surveyId: number): boolean {
+  return item.surveyId === surveyId && item.account.toLowerCase() === account.toLowerCase();
+}
+
+/**
+ * Sends a queued submission the way it was encrypted: through its relayer, or from the
+ * respondent's wallet. Resolves to the transaction hash.
+ */
+export async function sendQueued(client: SurveyClient, item: QueuedSubmission): Promise<string> {
+  if (item.relayer) {
+    const relayer = new RelayerClient(item.relayer);
+    const receipt =
+      item.kind === "response" ? await relayer.submit(item.signed) : await relayer.submitRevision(item.signed);
+    return receipt.transactionHash;
+  }
+  const receipt =
+    item.kind === "response"
+      ? await client.submitSignedResponse(item.signed)
+      : await client.submitSignedRevision(item.signed);
+  return receipt.hash;
+}
+
+/**
+ * Whether sending failed for good: the contract or the relayer refused the submission, so trying
+ * again cannot help. Network and wallet trouble leaves it queued.
+ */
+export function isRejected(error: unknown): boolean {
+  const { code, reason, message = "" } = (error ?? {}) as { code?: string; reason?: string; message?: string };
+  // A relayer that is down answers with a bare 5xx status instead of its own error
+  return code === "CALL_EXCEPTION" || !!reason || /^Relayer rejected the request: (?!HTTP 5)/.test(message);
+}
+
+/**
+ * Whether encrypting or sending failed because the browser is offline or a service it needs could
+ * not be reached, so the same attempt may succeed once the connection is back
+ */
+export function isOffline(error: unknown): boolean {
+  if (!navigator.onLine) {
+    return true;
+  }
+  const { code } = (error ?? {}) as { code?: string };
+  // fetch rejects with a TypeError when the request never gets an answer
+  const unanswered = error instanceof TypeError && /fetch|network|load failed/i.test(error.message);
+  return code === "NETWORK_ERROR" || code === "TIMEOUT" || unanswered;
+}
+
+/**
+ * Settles receipts of submissions held by a tab that has since closed. Nothing of them reached the
+ * queue, so a response was never sent and loses its receipt, and a revision leaves the answers
+ * already on chain in place.
+ */
+export function settleLostSubmissions(
+  participation: Record<string, Participation>,
+  queue: QueuedSubmission[],
+): Record<string, Participation> {
+  const settled: Record<string, Participation> = {};
+  for (const [key, record] of Object.entries(participation)) {
+    if (record.mode !== "queued" || queue.some((item) => participationKey(item.account, item.surveyId) === key)) {
+      settled[key] = record;
+    } else if (record.txHash) {
+      settled[key] = { ...record, mode: "chain" };
+    }
+  }
+  return settled;
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+
+import { FIVE_STAR_RATING, YES_NO } from "../sdk";
+import { buildReport, reportToCsv, reportToJson, responseCurve, unrevealedQuestions } from "./report";
+import { createLocalSurvey, type Survey } from "./surveys";
+
+const NOW = new Date("2025-01-10T00:00:00.000Z");
+
+function survey(): Survey {
+  return {
+    ...createLocalSurvey(
+      3,
+      "0x1111111111111111111111111111111111111111",
+      'Team, "pulse"',
+      "",
+      [
+        { text: "Rate your week", ...FIVE_STAR_RATING },
+        { text: "Do you feel valued?", ...YES_NO },
+      ],
+      { durationDays: 30 },
+      new Date("2025-01-01T00:00:00.000Z"),
+    ),
+    onChain: true,
+    totalResponses: 2,
+    results: [
+      { counts: [0, 0, 0, 1, 1], totalResponses: 2, average: 4.5, distributionRevealed: true },
+      { counts: [0, 0], totalResponses: 2, average: 0.5, distributionRevealed: false },
+    ],
+  };
+}
+
+describe("report", () => {
+  it("writes one CSV row per answer and one for each unrevealed question", () => {
+    const report = buildReport(survey(), [], NOW);
+
+    expect(unrevealedQuestions(report).map((question) => question.number)).toEqual([2]);
+    expect(reportToCsv(report).split("\r\n")).toEqual([
+      "survey,question,text,type,responses,average,revealed,answer,count,share",
+      "3,1,Rate your week,scale,2,4.5,true,1,0,0",
+      "3,1,Rate your week,scale,2,4.5,true,2,0,0",
+      "3,1,Rate your week,scale,2,4.5,true,3,0,0",
+      "3,1,Rate your week,scale,2,4.5,true,4,1,50",
+      "3,1,Rate your week,scale,2,4.5,true,5,1,50",
+      "3,2,Do you feel valued?,yesno,2,0.5,false,,,",
+      "",
+    ]);
+  });
+
+  it("writes texts spreadsheets would run as formulas as plain text", () => {
+    const base = survey();
+    const report = buildReport(
+      {
+        ...base,
+        questions: [
+          { ...base.questions[0], text: '=HYPERLINK("https://example.com","Rate")' },
+          { ...base.questions[1], text: "@SUM(A1)" },
+        ],
+      },
+      [],
+      NOW,
+    );
+    const texts = reportToCsv(report)
+      .split("\r\n")
+      .filter((row) => row.includes(",false,") || row.endsWith(",5,1,50"));
+
+    expect(texts).toEqual([
+      `3,1,"'=HYPERLINK(""https://example.com"",""Rate"")",scale,2,4.5,true,5,1,50`,
+      "3,2,'@SUM(A1),yesno,2,0.5,false,,,",
+    ]);
+  });
+
+  it("keeps response times in the JSON export and counts them up", () => {
+    const times = [new Date("2025-01-02T08:00:00.000Z"), new Date("2025-01-04T08:00:00.000Z")];
+    const report = buildReport(survey(), times, NOW);
+
+    expect(JSON.parse(reportToJson(report))).toMatchObject({
+      surveyId: 3,
+      title: 'Team, "pulse"',
+      status: "open",
+      generatedAt: NOW.toISOString(),
+      responseTimes: times.map((time) => time.toISOString()),
+    });
+    expect(responseCurve(report)).toEqual([
+      { time: times[0], count: 1 },
+      { time: times[1], count: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,127 @@
+import { QuestionType } from "../sdk";
+import { answerLabel, type Survey, surveyStatus } from "./surveys";
+
+/** One answer's share of a question's responses */
+export interface AnswerCount {
+  value: number;
+  label: string;
+  count: number;
+  /** Percentage of the question's responses, 0 to 100 */
+  share: number;
+}
+
+export interface QuestionReport {
+  number: number;
+  text: string;
+  type: "scale" | "yesno";
+  minValue: number;
+  maxValue: number;
+  responses: number;
+  /** Yes/no: share of yes answers from 0 to 1; scales: on the question's range. Null until revealed. */
+  average: number | null;
+  /** Null while the distribution is encrypted */
+  distribution: AnswerCount[] | null;
+  /** Whether both the average and the distribution have been revealed */
+  revealed: boolean;
+}
+
+/** A survey's results as the dashboard shows them and the exports write them out */
+export interface ResultsReport {
+  surveyId: number;
+  title: string;
+  description: string;
+  status: string;
+  resultsPublished: boolean;
+  totalResponses: number;
+  generatedAt: string;
+  /** When each response came in, oldest first; empty for local surveys */
+  responseTimes: string[];
+  questions: QuestionReport[];
+}
+
+export function buildReport(survey: Survey, responseTimes: readonly Date[] = [], now = new Date()): ResultsReport {
+  return {
+    surveyId: survey.id,
+    title: survey.title,
+    description: survey.description,
+    status: surveyStatus(survey, now),
+    resultsPublished: survey.resultsPublished,
+    totalResponses: survey.totalResponses,
+    generatedAt: now.toISOString(),
+    responseTimes: responseTimes.map((time) => time.toISOString()),
+    questions: survey.questions.map((question, index) => {
+      const result = survey.results[index];
+      const total = result.counts.reduce((sum, count) => sum + count, 0);
+      return {
+        number: index + 1,
+        text: question.text,
+        type: question.questionType === QuestionType.YesNo ? "yesno" : "scale",
+        minValue: question.minValue,
+        maxValue: question.maxValue,
+        responses: result.totalResponses,
+        average: result.average,
+        distribution: result.distributionRevealed
+          ? result.counts.map((count, bucket) => ({
+              value: question.minValue + bucket,
+              label: answerLabel(question, question.minValue + bucket),
+              count,
+              share: total > 0 ? Math.round((count / total) * 1000) / 10 : 0,
+            }))
+          : null,
+        revealed: result.average !== null && result.distributionRevealed,
+      };
+    }),
+  };
+}
+
+/** Questions whose average or distribution is still encrypted */
+export function unrevealedQuestions(report: ResultsReport): QuestionReport[] {
+  return report.questions.filter((question) => !question.revealed);
+}
+
+/**
+ * Running response count over time, one step up at each response
+ */
+export function responseCurve(report: ResultsReport): { time: Date; count: number }[] {
+  return report.responseTimes.map((time, index) => ({ time: new Date(time), count: index + 1 }));
+}
+
+function csvField(value: string | number | boolean | null): string {
+  const plain = value === null ? "" : String(value);
+  // Spreadsheets run text starting with these as a formula, so survey and question texts could
+  // carry one into the analyst's sheet; a leading quote keeps them text
+  const text = typeof value === "string" && /^[=+\-@\t\r]/.test(plain) ? `'${plain}` : plain;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One row per answer of each question, so the file opens as a pivotable table. Questions that are
+ * not revealed yet get a single row with empty answer columns.
+ */
+export function reportToCsv(report: ResultsReport): string {
+  const header = ["survey", "question", "text", "type", "responses", "average", "revealed", "answer", "count", "share"];
+  const rows = report.questions.flatMap((question) => {
+    const common = [
+      report.surveyId,
+      question.number,
+      question.text,
+      question.type,
+      question.responses,
+      question.average === null ? null : Number(question.average.toFixed(3)),
+      question.revealed,
+    ];
+    return question.distribution
+      ? question.distribution.map((answer) => [...common, answer.value, answer.count, answer.share])
+      : [[...common, null, null, null]];
+  });
+  return [header, ...rows].map((row) => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+export function reportToJson(report: ResultsReport): string {
+  return `${JSON.stringify(report, null, 2)}\n`;
+}
+
+/** File name for an export, e.g. "survey-3-results.csv" */
+export function reportFileName(report: ResultsReport, extension: "csv" | "json"): string {
+  return `survey-${report.surveyId}-results.${extension}`;
+}
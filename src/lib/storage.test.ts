@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+
+import { FIVE_STAR_RATING } from "../sdk";
+import { loadParticipation, loadSurveys, saveSurveys } from "./storage";
+import { createLocalSurvey, recordLocalResponse } from "./surveys";
+
+const ACCOUNT = "0xAbCdEf0123456789AbCdEf0123456789AbCdEf01";
+
+describe("storage", () => {
+  it("scrubs plaintext answers left by earlier versions and keeps receipts", () => {
+    localStorage.setItem(
+      "employeeSurvey_responses",
+      JSON.stringify({
+        [`${ACCOUNT}_1`]: { surveyId: 1, timestamp: "2025-01-01T00:00:00.000Z", txHash: "0xabc", answers: [5, 4] },
+        [`${ACCOUNT}_2`]: { surveyId: 2, timestamp: "2025-01-02T00:00:00.000Z", answers: [3], method: "local" },
+      }),
+    );
+    localStorage.setItem(
+      "employeeSurvey_participation",
+      JSON.stringify({
+        [`${ACCOUNT.toLowerCase()}_3`]: {
+          surveyId: 3,
+          timestamp: "2025-01-03T00:00:00.000Z",
+          mode: "local",
+          answers: [2, true],
+          revisedAt: "2025-01-04T00:00:00.000Z",
+        },
+      }),
+    );
+
+    const participation = loadParticipation();
+
+    expect(participation).toEqual({
+      [`${ACCOUNT.toLowerCase()}_1`]: {
+        surveyId: 1,
+        timestamp: "2025-01-01T00:00:00.000Z",
+        mode: "chain",
+        txHash: "0xabc",
+      },
+      [`${ACCOUNT.toLowerCase()}_2`]: { surveyId: 2, timestamp: "2025-01-02T00:00:00.000Z", mode: "local" },
+      [`${ACCOUNT.toLowerCase()}_3`]: {
+        surveyId: 3,
+        timestamp: "2025-01-03T00:00:00.000Z",
+        mode: "local",
+        revisedAt: "2025-01-04T00:00:00.000Z",
+      },
+    });
+    expect(localStorage.getItem("employeeSurvey_responses")).toBeNull();
+    expect(localStorage.getItem("employeeSurvey_participation")).not.toContain("answers");
+    expect(loadParticipation()).toEqual(participation);
+  });
+
+  it("keeps local surveys' tallies out of storage and scrubs ones saved earlier", () => {
+    const survey = createLocalSurvey(
+      1,
+      ACCOUNT,
+      "Quarterly pulse",
+      "",
+      [{ text: "How satisfied are you with your role?", ...FIVE_STAR_RATING }],
+      { durationDays: 7 },
+    );
+    const answered = recordLocalResponse(survey, [4]);
+    localStorage.setItem("employeeSurvey_surveys", JSON.stringify([answered]));
+
+    expect(loadSurveys()).toEqual([survey]);
+    expect(JSON.parse(localStorage.getItem("employeeSurvey_surveys") ?? "[]")).toEqual([survey]);
+
+    saveSurveys([answered, { ...answered, id: 2, onChain: true }]);
+
+    expect(loadSurveys()).toEqual([survey, { ...answered, id: 2, onChain: true }]);
+  });
+});
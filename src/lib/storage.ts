@@ -0,0 +1,163 @@
+import { type NewSurvey, renderTemplate } from "../sdk";
+import type { QueuedSubmission } from "./queue";
+import { emptySummary, type Participation, participationKey, type Survey } from "./surveys";
+import { findTemplate } from "./templates";
+
+const SURVEYS_KEY = "employeeSurvey_surveys";
+const PARTICIPATION_KEY = "employeeSurvey_participation";
+const LANGUAGE_KEY = "employeeSurvey_language";
+const QUEUE_KEY = "employeeSurvey_queue";
+/** Where the original single-page app kept responses, answers included */
+const LEGACY_RESPONSES_KEY = "employeeSurvey_responses";
+
+const HR_ADMIN = "0x1234567890123456789012345678901234567890";
+
+/**
+ * Demo surveys shown until the contract can be reached, rendered from the template library. They
+ * start without responses: the results dashboard exports whatever they hold, so they must not carry
+ * invented figures.
+ */
+function presetSurvey(id: number, survey: NewSurvey, startTime: string): Survey {
+  return {
+    id,
+    title: survey.title,
+    description: survey.description,
+    questions: survey.questions,
+    creator: HR_ADMIN,
+    startTime,
+    endTime: "2026-12-31T00:00:00.000Z",
+    active: true,
+    resultsPublished: false,
+    totalResponses: 0,
+    results: survey.questions.map(emptySummary),
+    onChain: false,
+    template: survey.template,
+    language: survey.language,
+    translations: survey.translations,
+  };
+}
+
+export const PRESET_SURVEYS: Survey[] = [
+  presetSurvey(
+    1,
+    renderTemplate(findTemplate("employee-satisfaction"), { quarter: "Q1 2025" }),
+    "2025-01-15T00:00:00.000Z",
+  ),
+  presetSurvey(2, renderTemplate(findTemplate("remote-work")), "2025-02-01T00:00:00.000Z"),
+  presetSurvey(3, renderTemplate(findTemplate("diversity-inclusion")), "2025-03-01T00:00:00.000Z"),
+];
+
+function read<T>(key: string, fallback: T): T {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? (JSON.parse(stored) as T) : fallback;
+  } catch (error) {
+    console.error(`Failed to read ${key}:`, error);
+    return fallback;
+  }
+}
+
+function write(key: string, value: unknown): void {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Failed to save ${key}:`, error);
+  }
+}
+
+export function loadSurveys(): Survey[] {
+  // Surveys saved before they could be scheduled opened when they were created
+  const stored = read<(Survey & { createdAt?: string })[]>(SURVEYS_KEY, []).map(({ createdAt, ...survey }) => ({
+    ...survey,
+    startTime: survey.startTime ?? createdAt,
+  }));
+  // Earlier versions saved local surveys with their tallies, which give away each respondent's answers
+  const surveys = stored.map(withoutTallies);
+  const tallied = (survey: Survey) =>
+    survey.totalResponses > 0 || survey.results.some((summary) => summary.totalResponses > 0);
+  if (stored.some((survey) => !survey.onChain && tallied(survey))) {
+    write(SURVEYS_KEY, surveys);
+  }
+  return surveys.length > 0 ? surveys : PRESET_SURVEYS;
+}
+
+/** Saves surveys kept in this browser, without local surveys' tallies */
+export function saveSurveys(surveys: Survey[]): void {
+  write(SURVEYS_KEY, surveys.map(withoutTallies));
+}
+
+/**
+ * A local survey's tallies are its respondents' answers in plain text: the first respondent's can be
+ * read off directly and every later one's by comparing before and after. They last for the session
+ * only, and a stored local survey starts again without responses.
+ */
+function withoutTallies(survey: Survey): Survey {
+  return survey.onChain ? survey : { ...survey, totalResponses: 0, results: survey.questions.map(emptySummary) };
+}
+
+/** Participation records keyed by `participationKey(account, surveyId)` */
+export function loadParticipation(): Record<string, Participation> {
+  return scrubPlaintextAnswers(read<Record<string, Participation>>(PARTICIPATION_KEY, {}));
+}
+
+export function saveParticipation(participation: Record<string, Participation>): void {
+  write(PARTICIPATION_KEY, participation);
+}
+
+/**
+ * Earlier versions kept respondents' answers in plain text: the original app under
+ * employeeSurvey_responses, later ones on local participation records. Turns both into receipts
+ * without the answers and deletes what held them.
+ */
+function scrubPlaintextAnswers(participation: Record<string, Participation>): Record<string, Participation> {
+  const legacy = read<Record<string, { surveyId: number; timestamp?: string; txHash?: string }>>(
+    LEGACY_RESPONSES_KEY,
+    {},
+  );
+  const stored = participation as Record<string, Participation & { answers?: unknown }>;
+  if (Object.keys(legacy).length === 0 && !Object.values(stored).some((record) => "answers" in record)) {
+    return participation;
+  }
+
+  const scrubbed: Record<string, Participation> = {};
+  for (const [key, { surveyId, timestamp = new Date().toISOString(), txHash }] of Object.entries(legacy)) {
+    // The original app keyed responses by "<account>_<surveyId>" as written by the wallet
+    const account = key.slice(0, key.lastIndexOf("_"));
+    scrubbed[participationKey(account, surveyId)] = {
+      surveyId,
+      timestamp,
+      mode: txHash ? "chain" : "local",
+      ...(txHash && { txHash }),
+    };
+  }
+  for (const [key, record] of Object.entries(stored)) {
+    scrubbed[key] = {
+      surveyId: record.surveyId,
+      timestamp: record.timestamp,
+      mode: record.mode,
+      ...(record.txHash && { txHash: record.txHash }),
+      ...(record.revisedAt && { revisedAt: record.revisedAt }),
+    };
+  }
+  write(PARTICIPATION_KEY, scrubbed);
+  localStorage.removeItem(LEGACY_RESPONSES_KEY);
+  return scrubbed;
+}
+
+/** Encrypted responses waiting to be sent, oldest first */
+export function loadQueue(): QueuedSubmission[] {
+  return read<QueuedSubmission[]>(QUEUE_KEY, []);
+}
+
+export function saveQueue(queue: QueuedSubmission[]): void {
+  write(QUEUE_KEY, queue);
+}
+
+/** The language the reader picked, null until they pick one */
+export function loadLanguage(): string | null {
+  return read<string | null>(LANGUAGE_KEY, null);
+}
+
+export function saveLanguage(language: string): void {
+  write(LANGUAGE_KEY, language);
+}
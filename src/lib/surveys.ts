@@ -0,0 +1,283 @@
+import {
+  answerValues,
+  type Answer,
+  DEFAULT_LANGUAGE,
+  localizeContent,
+  type NewSurvey,
+  type OrganizationMembership,
+  OrganizationRole,
+  type QuestionConfig,
+  QuestionType,
+  type SurveyQuestion,
+  type SurveyTranslation,
+} from "../sdk";
+import { messages, type Messages } from "./i18n";
+
+/**
+ * @title Survey view model
+ * @notice What the UI renders for a survey, whether it lives on chain or only in this browser
+ */
+
+/** Results of one question as far as they are known to the UI */
+export interface QuestionSummary {
+  /** One tally per answer value, counts[0] being the question's minimum */
+  counts: number[];
+  totalResponses: number;
+  /** null until the average is revealed (on chain) or the first local answer arrives */
+  average: number | null;
+  distributionRevealed: boolean;
+}
+
+export interface Survey {
+  id: number;
+  title: string;
+  description: string;
+  questions: SurveyQuestion[];
+  creator: string;
+  /** When responses open; surveys open as soon as they are created unless scheduled later */
+  startTime: string;
+  endTime: string;
+  active: boolean;
+  resultsPublished: boolean;
+  totalResponses: number;
+  /** Responses still missing before results can be revealed; only known for on-chain surveys */
+  responsesNeeded?: number;
+  /** Roster root of an invite-only survey; respondents need a proof from ROSTER_URL */
+  eligibilityRoot?: string;
+  /** Segment labels respondents pick one of; only on-chain surveys have them */
+  segments?: string[];
+  /** Organisation the survey was created for, whose analysts may reveal its results */
+  organizationId?: number;
+  /** Template version the survey was created from, e.g. "employee-satisfaction@2" */
+  template?: string;
+  /** Language tag of the title, description and question texts; "en" when omitted */
+  language?: string;
+  /** The same texts in other languages, keyed by language tag */
+  translations?: Record<string, SurveyTranslation>;
+  /** Hash of the off-chain content on chain; only on-chain surveys have one */
+  contentHash?: string;
+  /**
+   * Why the survey's content could not be shown: missing from the content server, or not matching
+   * contentHash. Title, description and question texts are placeholders then and must not be shown.
+   */
+  contentError?: string;
+  results: QuestionSummary[];
+  /** false for surveys kept in this browser because the contract was unreachable */
+  onChain: boolean;
+  txHash?: string;
+}
+
+/**
+ * Receipt of the connected account's response to a survey: when and how it was sent, never the
+ * answers. "queued" responses are encrypted and waiting to be sent (see QueuedSubmission).
+ */
+export interface Participation {
+  surveyId: number;
+  timestamp: string;
+  mode: "chain" | "local" | "queued";
+  txHash?: string;
+  /** Set once the answers have been revised */
+  revisedAt?: string;
+}
+
+/** Same states as the contract's SurveyStatus; a survey closed early counts as ended */
+export type SurveyStatus = "upcoming" | "open" | "ended";
+
+/** Where a survey is for the list's status filter; published surveys no longer count as ended */
+export type ListStatus = "upcoming" | "open" | "ended" | "published";
+
+/** Which surveys the list shows, and which page of them (1-based) */
+export interface SurveyListView {
+  status: ListStatus | "all";
+  /** Only surveys the connected account created */
+  mine: boolean;
+  page: number;
+}
+
+/** Surveys shown per page of the list */
+export const PAGE_SIZE = 10;
+
+/** Start and end of a new survey, as the create form and the SDK describe them */
+export type SurveySchedule = Pick<NewSurvey, "startTime" | "endTime" | "durationDays">;
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+export function participationKey(account: string, surveyId: number): string {
+  return `${account.toLowerCase()}_${surveyId}`;
+}
+
+export function surveyStatus(survey: Survey, now: Date = new Date()): SurveyStatus {
+  if (!survey.active || new Date(survey.endTime) <= now) {
+    return "ended";
+  }
+  return new Date(survey.startTime) > now ? "upcoming" : "open";
+}
+
+export function listStatus(survey: Survey, now: Date = new Date()): ListStatus {
+  return survey.resultsPublished ? "published" : surveyStatus(survey, now);
+}
+
+/**
+ * Time until an upcoming survey opens or an open one ends, e.g. "2d 4h" or "35m"; null once it ended
+ */
+export function countdown(survey: Survey, now: Date = new Date()): string | null {
+  const status = surveyStatus(survey, now);
+  if (status === "ended") {
+    return null;
+  }
+  const target = new Date(status === "upcoming" ? survey.startTime : survey.endTime);
+  return formatDuration(target.getTime() - now.getTime());
+}
+
+export function formatDuration(ms: number): string {
+  const days = Math.floor(ms / DAY_MS);
+  const hours = Math.floor((ms % DAY_MS) / HOUR_MS);
+  const minutes = Math.floor((ms % HOUR_MS) / MINUTE_MS);
+  if (days > 0) {
+    return `${days}d ${hours}h`;
+  }
+  if (hours > 0) {
+    return `${hours}h ${minutes}m`;
+  }
+  return minutes > 0 ? `${minutes}m` : "<1m";
+}
+
+/** Organisations the account holds a role in that grant it the given role */
+export function organizationsWithRole(memberships: OrganizationMembership[], role: OrganizationRole) {
+  return memberships.filter((membership) => membership.roles.includes(role));
+}
+
+/**
+ * Whether the account may reveal a survey's results without having created it, i.e. it is an analyst
+ * of the survey's organisation
+ */
+export function isSurveyAnalyst(survey: Survey, memberships: OrganizationMembership[]): boolean {
+  return organizationsWithRole(memberships, OrganizationRole.Analyst).some(
+    (membership) => Number(membership.id) === survey.organizationId,
+  );
+}
+
+/**
+ * The survey as a reader who prefers the given languages sees it: title, description and question
+ * texts from the best translation, `language` naming the one shown. Answer formats and results are
+ * the same in every language. Only for display; actions take the survey as loaded.
+ */
+export function localizeSurvey(survey: Survey, preferred: readonly string[]): Survey {
+  if (!survey.translations) {
+    return survey;
+  }
+  const texts = localizeContent(
+    {
+      title: survey.title,
+      description: survey.description,
+      questions: survey.questions.map((question) => question.text),
+      language: survey.language,
+      translations: survey.translations,
+    },
+    preferred,
+  );
+  return {
+    ...survey,
+    title: texts.title,
+    description: texts.description,
+    questions: survey.questions.map((question, index) => ({ ...question, text: texts.questions[index] })),
+    language: texts.language,
+  };
+}
+
+/** Languages a survey can be read in, its own language first */
+export function surveyLanguages(survey: Survey): string[] {
+  return [survey.language ?? DEFAULT_LANGUAGE, ...Object.keys(survey.translations ?? {})];
+}
+
+export function shortAddress(address: string): string {
+  return `${address.substring(0, 8)}...${address.substring(34)}`;
+}
+
+export function emptySummary(config: QuestionConfig): QuestionSummary {
+  return {
+    counts: answerValues(config).map(() => 0),
+    totalResponses: 0,
+    average: null,
+    distributionRevealed: false,
+  };
+}
+
+/**
+ * Builds a survey that exists only in this browser. Like the contract, it opens straight away
+ * unless its start is still ahead.
+ */
+export function createLocalSurvey(
+  id: number,
+  creator: string,
+  title: string,
+  description: string,
+  questions: SurveyQuestion[],
+  schedule: SurveySchedule,
+  now: Date = new Date(),
+): Survey {
+  const startTime = schedule.startTime && schedule.startTime > now ? schedule.startTime : now;
+  const endTime = schedule.endTime ?? new Date(startTime.getTime() + (schedule.durationDays ?? 0) * DAY_MS);
+  return {
+    id,
+    title,
+    description,
+    questions,
+    creator,
+    startTime: startTime.toISOString(),
+    endTime: endTime.toISOString(),
+    active: true,
+    resultsPublished: false,
+    totalResponses: 0,
+    results: questions.map(emptySummary),
+    onChain: false,
+  };
+}
+
+/**
+ * Folds one response into a local survey's tallies. Local surveys have no encryption, so their
+ * distribution is visible straight away; the answers themselves are not kept, so they cannot be
+ * taken back out.
+ */
+export function recordLocalResponse(survey: Survey, answers: Answer[]): Survey {
+  const results = survey.results.map((summary, index) => {
+    const config = survey.questions[index];
+    const value = Number(answers[index]);
+    const counts = summary.counts.map((count, bucket) => (bucket === value - config.minValue ? count + 1 : count));
+    const totalResponses = summary.totalResponses + 1;
+    const totalScore = counts.reduce((sum, count, bucket) => sum + count * (config.minValue + bucket), 0);
+    return { counts, totalResponses, average: totalScore / totalResponses, distributionRevealed: true };
+  });
+  return { ...survey, results, totalResponses: survey.totalResponses + 1 };
+}
+
+export function answerLabel(
+  config: QuestionConfig,
+  value: number,
+  text: Messages = messages(DEFAULT_LANGUAGE),
+): string {
+  if (config.questionType === QuestionType.YesNo) {
+    return value === 1 ? text.answers.yes : text.answers.no;
+  }
+  return config.minValue === 1 && config.maxValue === 5 ? `${value}⭐` : `${value}`;
+}
+
+/**
+ * Yes/no averages are the share of yes answers, scale averages are on the question's range
+ */
+export function formatAverage(
+  config: QuestionConfig,
+  average: number | null,
+  text: Messages = messages(DEFAULT_LANGUAGE),
+): string {
+  if (average === null) {
+    return text.results.averageHidden;
+  }
+  if (config.questionType === QuestionType.YesNo) {
+    return text.results.answeredYes(Math.round(average * 100));
+  }
+  const star = config.minValue === 1 && config.maxValue === 5 ? "⭐ " : "";
+  return `${text.results.average}: ${star}${average.toFixed(1)}/${config.maxValue}`;
+}
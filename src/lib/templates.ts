@@ -0,0 +1,24 @@
+import diversityInclusion from "../../templates/diversity-inclusion.json";
+import employeePulse from "../../templates/employee-pulse.json";
+import employeeSatisfaction from "../../templates/employee-satisfaction.json";
+import remoteWork from "../../templates/remote-work.json";
+import { parseSurveyTemplate, type SurveyTemplate } from "../sdk";
+
+/**
+ * Templates offered by the create form, from templates/ in the repository root. Add new template
+ * files here as well so the bundle includes them.
+ */
+export const SURVEY_TEMPLATES: SurveyTemplate[] = [
+  employeeSatisfaction,
+  employeePulse,
+  remoteWork,
+  diversityInclusion,
+].map((data) => parseSurveyTemplate(data));
+
+export function findTemplate(id: string): SurveyTemplate {
+  const template = SURVEY_TEMPLATES.find((candidate) => candidate.id === id);
+  if (!template) {
+    throw new Error(`Unknown survey template "${id}"`);
+  }
+  return template;
+}
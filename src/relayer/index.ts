@@ -0,0 +1,23 @@
+/**
+ * @title Response relayer
+ * @notice Node-only HTTP service that submits responses respondents signed (see sdk/signing)
+ *
+ * Usage:
+ *   const server = await createRelayer(relayerWallet, contractAddress);
+ *   server.listen(8787);
+ *   // respondents: await client.relayResponse(surveyId, answers, fhevm, new RelayerClient("http://localhost:8787"));
+ */
+export { createRelayer } from "./server";
+export type { RelayerOptions } from "./server";
+export {
+  DirectoryTicketKeyStore,
+  generateTicketKey,
+  JsonFileTicketLedger,
+  loadTicketKey,
+  MemoryTicketKeyStore,
+  MemoryTicketLedger,
+  saveTicketKey,
+  TicketIssuer,
+  ticketModulus,
+} from "./tickets";
+export type { TicketKeyStore, TicketLedger } from "./tickets";
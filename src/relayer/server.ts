@@ -0,0 +1,258 @@
+import {
+  AbiCoder,
+  type ContractTransactionReceipt,
+  isAddress,
+  isHexString,
+  type Signer,
+  toBigInt,
+  verifyMessage,
+} from "ethers";
+import type { IncomingMessage, Server } from "http";
+
+import { createHttpServer, HttpError, type HttpReply, type HttpServerOptions, jsonReply, readJson } from "../http";
+import { SurveyClient } from "../sdk/client";
+import type { RelayerInfo, RelayReceipt } from "../sdk/relayer";
+import { recoverResponseSigner, recoverRevisionSigner, type SignedResponse, type SignedRevision } from "../sdk/signing";
+import {
+  type IssuedTicket,
+  TICKET_BYTES,
+  type TicketKey,
+  type TicketRequest,
+  ticketRequestMessage,
+} from "../sdk/tickets";
+import type { TicketIssuer } from "./tickets";
+
+export interface RelayerOptions extends HttpServerOptions {
+  /** Called after each relayed response, e.g. to log it */
+  onRelay?: (receipt: RelayReceipt) => void;
+  /** Issuer of invite-only surveys' keys and tickets; without it this relayer makes neither */
+  tickets?: TicketIssuer;
+}
+
+/**
+ * @title Response relayer
+ * @notice HTTP service that submits signed responses from its own account, so a respondent's
+ * address never appears in the transaction. Besides a send queue it only keeps the ticket ledger.
+ * @dev Routes:
+ *   GET  /info         RelayerInfo: the account respondents must encrypt their answers for
+ *   POST /responses    SignedResponse in, RelayReceipt out once the transaction is mined
+ *   POST /revisions    SignedRevision in, RelayReceipt out once the transaction is mined
+ *   POST /ticket-keys  TicketKey out, the key of a new invite-only survey, when the relayer has a ticket issuer
+ *   POST /tickets      TicketRequest in, IssuedTicket out, signed with the survey's key
+ * Signatures are checked before anything is sent, and the contract call is estimated first, so
+ * responses the contract would reject (already responded, no valid ticket) cost no gas.
+ * A ticket request is signed by the roster account, so the issuer learns who asked for a ticket;
+ * the ticket itself is blinded, so it cannot tell which response used it. Bodies are limited to
+ * 256 KiB unless maxBodyBytes says otherwise, as input proofs grow with the number of answers.
+ */
+export async function createRelayer(
+  signer: Signer,
+  contractAddress: string,
+  options: RelayerOptions = {},
+): Promise<Server> {
+  const { maxBodyBytes = 256 * 1024, allowOrigin, onRelay, tickets } = options;
+  const client = SurveyClient.connect(contractAddress, signer);
+  const network = await signer.provider?.getNetwork();
+  if (!network) {
+    throw new Error("Relayer signer needs a provider");
+  }
+  const info: RelayerInfo = {
+    contract: client.address,
+    chainId: network.chainId.toString(),
+    submitter: await signer.getAddress(),
+  };
+
+  // One transaction at a time, so concurrent requests never race for the same nonce
+  let queue: Promise<unknown> = Promise.resolve();
+  const relay = async (
+    check: () => Promise<void>,
+    send: () => Promise<ContractTransactionReceipt>,
+  ): Promise<RelayReceipt> => {
+    const sent = queue.then(async () => {
+      try {
+        await check();
+      } catch (error) {
+        const reason = revertReason(error);
+        throw reason ? new HttpError(422, reason) : error;
+      }
+      const receipt = await send();
+      return { transactionHash: receipt.hash, blockNumber: receipt.blockNumber };
+    });
+    queue = sent.catch(() => undefined);
+    const receipt = await sent;
+    onRelay?.(receipt);
+    return receipt;
+  };
+
+  const route = async (request: IncomingMessage): Promise<unknown> => {
+    if (request.method === "GET" && request.url === "/info") {
+      return info;
+    }
+    if (request.method === "POST" && request.url === "/responses") {
+      const response = parseSignedResponse(await readJson(request, maxBodyBytes));
+      if (recoverResponseSigner(network.chainId, info.contract, response) === null) {
+        throw new HttpError(400, "Signature does not match the response and its nullifier");
+      }
+      return relay(
+        () => client.checkSignedResponse(response),
+        () => client.submitSignedResponse(response),
+      );
+    }
+    if (request.method === "POST" && request.url === "/revisions") {
+      const revision = parseSignedRevision(await readJson(request, maxBodyBytes));
+      if (recoverRevisionSigner(network.chainId, info.contract, revision) === null) {
+        throw new HttpError(400, "Signature does not match the revision and its nullifier");
+      }
+      return relay(
+        () => client.checkSignedRevision(revision),
+        () => client.submitSignedRevision(revision),
+      );
+    }
+    if (request.method === "POST" && request.url === "/ticket-keys" && tickets) {
+      const key: TicketKey = { modulus: await tickets.createKey() };
+      return key;
+    }
+    if (request.method === "POST" && request.url === "/tickets" && tickets) {
+      return issueTicket(parseTicketRequest(await readJson(request, maxBodyBytes)), tickets);
+    }
+    throw new HttpError(404, `No route for ${request.method} ${request.url}`);
+  };
+
+  const issueTicket = async (ticketRequest: TicketRequest, issuer: TicketIssuer): Promise<IssuedTicket> => {
+    const { surveyId, account, eligibilityProof, blinded } = ticketRequest;
+    const message = ticketRequestMessage(network.chainId, info.contract, surveyId, blinded);
+    if (recoverMessageSigner(message, ticketRequest.signature)?.toLowerCase() !== account.toLowerCase()) {
+      throw new HttpError(400, "Signature does not match the ticket request and its account");
+    }
+    // The survey's own key, so the ticket admits to no other survey whatever nullifier was blinded
+    const modulus = await client.getTicketIssuer(BigInt(surveyId));
+    if (modulus === null) {
+      throw new HttpError(400, "Survey is not invite-only, responses need no ticket");
+    }
+    if (!(await issuer.holds(modulus))) {
+      throw new HttpError(400, "Survey's tickets are issued by another key than this relayer's");
+    }
+    if (toBigInt(blinded) >= toBigInt(modulus)) {
+      throw new HttpError(400, "Blinded ticket must be below the survey's issuer modulus");
+    }
+    if (!(await client.isEligible(BigInt(surveyId), account, eligibilityProof))) {
+      throw new HttpError(403, "Not eligible for this survey");
+    }
+    const blindSignature = await issuer.issue(surveyId, modulus, account, blinded);
+    if (blindSignature === null) {
+      throw new HttpError(409, "This account already has a ticket for the survey");
+    }
+    return { blindSignature };
+  };
+
+  const handle = async (request: IncomingMessage): Promise<HttpReply> => jsonReply(await route(request));
+  return createHttpServer(handle, { allowOrigin, failure: "Could not submit the response" });
+}
+
+/**
+ * Revert string of a failed call. Ethers sets `reason` on live networks; the Hardhat network
+ * only attaches the raw revert data, nested one level deeper over JSON-RPC.
+ */
+function revertReason(error: unknown): string | null {
+  const { reason, data: raw } = error as { reason?: string; data?: unknown };
+  if (reason) {
+    return reason;
+  }
+  const data = typeof raw === "object" && raw !== null ? (raw as { data?: unknown }).data : raw;
+  if (typeof data === "string" && isHexString(data) && data.length > 10) {
+    return AbiCoder.getBuiltinCallException("call", {}, data).reason;
+  }
+  return null;
+}
+
+function recoverMessageSigner(message: string, signature: string): string | null {
+  try {
+    return verifyMessage(message, signature);
+  } catch {
+    return null;
+  }
+}
+
+const isBytes32List = (list: unknown) =>
+  Array.isArray(list) && list.every((item) => typeof item === "string" && isHexString(item, 32));
+
+const isDecimal = (value: unknown) => typeof value === "string" && /^\d+$/.test(value);
+
+/**
+ * Checks the shape of a submitted response; the signature check happens afterwards
+ */
+function parseSignedResponse(body: unknown): SignedResponse {
+  const value = (body ?? {}) as Record<string, unknown>;
+  const problems = answerProblems(value);
+  if (typeof value.segment !== "string" || !isHexString(value.segment, 32)) {
+    problems.push("segment must be a 32-byte hex string");
+  }
+  if (typeof value.ticket !== "string" || !isHexString(value.ticket)) {
+    problems.push("ticket must be a hex string");
+  }
+  if (problems.length > 0) {
+    throw new HttpError(400, `Invalid response: ${problems.join("; ")}`);
+  }
+  return value as unknown as SignedResponse;
+}
+
+function parseSignedRevision(body: unknown): SignedRevision {
+  const value = (body ?? {}) as Record<string, unknown>;
+  const problems = answerProblems(value);
+  if (!isDecimal(value.revision)) {
+    problems.push("revision must be a decimal string");
+  }
+  if (problems.length > 0) {
+    throw new HttpError(400, `Invalid revision: ${problems.join("; ")}`);
+  }
+  return value as unknown as SignedRevision;
+}
+
+function parseTicketRequest(body: unknown): TicketRequest {
+  const value = (body ?? {}) as Record<string, unknown>;
+  const problems: string[] = [];
+  if (!isDecimal(value.surveyId)) {
+    problems.push("surveyId must be a decimal string");
+  }
+  if (typeof value.account !== "string" || !isAddress(value.account)) {
+    problems.push("account must be an address");
+  }
+  if (!isBytes32List(value.eligibilityProof)) {
+    problems.push("eligibilityProof must be a list of 32-byte hex strings");
+  }
+  if (typeof value.blinded !== "string" || !isHexString(value.blinded, TICKET_BYTES)) {
+    problems.push(`blinded must be a ${TICKET_BYTES}-byte hex string`);
+  }
+  if (typeof value.signature !== "string" || !isHexString(value.signature, 65)) {
+    problems.push("signature must be a 65-byte hex string");
+  }
+  if (problems.length > 0) {
+    throw new HttpError(400, `Invalid ticket request: ${problems.join("; ")}`);
+  }
+  return value as unknown as TicketRequest;
+}
+
+/**
+ * Problems with the fields responses and revisions share
+ */
+function answerProblems(value: Record<string, unknown>): string[] {
+  const problems: string[] = [];
+  if (!isDecimal(value.surveyId)) {
+    problems.push("surveyId must be a decimal string");
+  }
+  for (const field of ["ratings", "yesNo"]) {
+    if (!isBytes32List(value[field])) {
+      problems.push(`${field} must be a list of 32-byte hex strings`);
+    }
+  }
+  if (typeof value.inputProof !== "string" || !isHexString(value.inputProof)) {
+    problems.push("inputProof must be a hex string");
+  }
+  if (typeof value.nullifier !== "string" || !isHexString(value.nullifier, 32)) {
+    problems.push("nullifier must be a 32-byte hex string");
+  }
+  if (typeof value.signature !== "string" || !isHexString(value.signature, 65)) {
+    problems.push("signature must be a 65-byte hex string");
+  }
+  return problems;
+}
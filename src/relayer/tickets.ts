@@ -0,0 +1,204 @@
+import { constants, createPrivateKey, generateKeyPair, type KeyObject, privateDecrypt } from "crypto";
+import { getBytes, hexlify, keccak256, toBeHex } from "ethers";
+import { promises as fs } from "fs";
+import * as path from "path";
+import { promisify } from "util";
+
+import { TICKET_BYTES, TICKET_EXPONENT } from "../sdk/tickets";
+
+/** Which blinded message each roster account got signed, per survey */
+export interface TicketLedger {
+  /** Blinded message signed for the account, or null if it has none yet */
+  get(surveyId: string, account: string): Promise<string | null>;
+  set(surveyId: string, account: string, blinded: string): Promise<void>;
+}
+
+/** Forgets everything on restart, so each account could get one more ticket per survey afterwards */
+export class MemoryTicketLedger implements TicketLedger {
+  private readonly issued = new Map<string, string>();
+
+  async get(surveyId: string, account: string): Promise<string | null> {
+    return this.issued.get(ledgerKey(surveyId, account)) ?? null;
+  }
+
+  async set(surveyId: string, account: string, blinded: string): Promise<void> {
+    this.issued.set(ledgerKey(surveyId, account), blinded);
+  }
+}
+
+/**
+ * Keeps the ledger in one JSON file, rewritten through a temporary file like the indexer's store
+ */
+export class JsonFileTicketLedger implements TicketLedger {
+  private issued: Promise<Record<string, string>> | undefined;
+
+  constructor(readonly file: string) {}
+
+  async get(surveyId: string, account: string): Promise<string | null> {
+    return (await this.load())[ledgerKey(surveyId, account)] ?? null;
+  }
+
+  async set(surveyId: string, account: string, blinded: string): Promise<void> {
+    const issued = await this.load();
+    issued[ledgerKey(surveyId, account)] = blinded;
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    const temporary = `${this.file}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(issued, null, 2));
+    await fs.rename(temporary, this.file);
+  }
+
+  private load(): Promise<Record<string, string>> {
+    this.issued ??= fs.readFile(this.file, "utf8").then(
+      (text) => JSON.parse(text) as Record<string, string>,
+      (error: NodeJS.ErrnoException) => {
+        if (error.code === "ENOENT") {
+          return {};
+        }
+        throw error;
+      },
+    );
+    return this.issued;
+  }
+}
+
+function ledgerKey(surveyId: string, account: string): string {
+  return `${surveyId}:${account.toLowerCase()}`;
+}
+
+/** The issuer's private keys, one per invite-only survey, found by their modulus */
+export interface TicketKeyStore {
+  /** Key with the modulus, or null if the issuer never made it */
+  get(modulus: string): Promise<KeyObject | null>;
+  add(key: KeyObject): Promise<void>;
+}
+
+/** Forgets the keys on restart, after which their surveys' respondents can get no more tickets */
+export class MemoryTicketKeyStore implements TicketKeyStore {
+  private readonly keys = new Map<string, KeyObject>();
+
+  async get(modulus: string): Promise<KeyObject | null> {
+    return this.keys.get(modulus.toLowerCase()) ?? null;
+  }
+
+  async add(key: KeyObject): Promise<void> {
+    this.keys.set(ticketModulus(key), key);
+  }
+}
+
+/**
+ * Keeps each key in a PEM file of its own in a directory, named after the hash of its modulus
+ */
+export class DirectoryTicketKeyStore implements TicketKeyStore {
+  constructor(readonly dir: string) {}
+
+  async get(modulus: string): Promise<KeyObject | null> {
+    try {
+      return await loadTicketKey(this.file(modulus));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async add(key: KeyObject): Promise<void> {
+    await saveTicketKey(this.file(ticketModulus(key)), key);
+  }
+
+  private file(modulus: string): string {
+    return path.join(this.dir, `${keccak256(modulus)}.pem`);
+  }
+}
+
+/**
+ * @title TicketIssuer
+ * @notice Makes a key for each invite-only survey and blind-signs the survey's tickets (see sdk/tickets)
+ * with it. Tickets name no survey, so the contract only tells them apart by key: no two surveys may
+ * share one, or the roster of one could answer the other.
+ * @dev One ticket per roster account and survey: an account asking again with the same blinded message
+ * gets the same signature back, so a lost answer can be retried, and any other message is refused.
+ * The caller checks the account's roster proof and that the key is the survey's first.
+ */
+export class TicketIssuer {
+  // Issue one ticket at a time, so two requests from one account cannot both pass the ledger check
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly keys: TicketKeyStore = new MemoryTicketKeyStore(),
+    private readonly ledger: TicketLedger = new MemoryTicketLedger(),
+  ) {}
+
+  /**
+   * Makes the key of a new invite-only survey and returns its modulus, to create the survey with
+   */
+  async createKey(): Promise<string> {
+    const key = await generateTicketKey();
+    await this.keys.add(key);
+    return ticketModulus(key);
+  }
+
+  /** Whether the issuer holds the key with the modulus, so it can sign tickets for its survey */
+  async holds(modulus: string): Promise<boolean> {
+    return (await this.keys.get(modulus)) !== null;
+  }
+
+  /**
+   * Signs the blinded message for the account with the survey's key, or returns null when the
+   * account already got a different message signed for the survey
+   */
+  async issue(surveyId: string, modulus: string, account: string, blinded: string): Promise<string | null> {
+    const key = await this.keys.get(modulus);
+    if (!key) {
+      throw new Error(`No ticket key with modulus ${modulus}`);
+    }
+    const issued = this.queue.then(async () => {
+      const previous = await this.ledger.get(surveyId, account);
+      if (previous !== null && previous !== blinded.toLowerCase()) {
+        return null;
+      }
+      if (previous === null) {
+        await this.ledger.set(surveyId, account, blinded.toLowerCase());
+      }
+      // Raw RSA: the private-key operation on the blinded message, no padding
+      const signature = privateDecrypt(
+        { key, padding: constants.RSA_NO_PADDING },
+        getBytes(toBeHex(blinded, TICKET_BYTES)),
+      );
+      return hexlify(signature);
+    });
+    this.queue = issued.catch(() => undefined);
+    return issued;
+  }
+}
+
+/** A new key for one invite-only survey, generated off the event loop */
+export async function generateTicketKey(): Promise<KeyObject> {
+  const { privateKey } = await promisify(generateKeyPair)("rsa", {
+    modulusLength: TICKET_BYTES * 8,
+    publicExponent: TICKET_EXPONENT,
+  });
+  return privateKey;
+}
+
+/**
+ * Big-endian modulus of a ticket key as hex, the survey's ticket issuer in createSurvey
+ */
+export function ticketModulus(key: KeyObject): string {
+  const { n, e } = key.export({ format: "jwk" });
+  const modulus = Buffer.from(n ?? "", "base64url");
+  if (modulus.length !== TICKET_BYTES || Buffer.from(e ?? "", "base64url").readUIntBE(0, 3) !== TICKET_EXPONENT) {
+    throw new Error(`Ticket issuer key must be a ${TICKET_BYTES * 8}-bit RSA key with exponent ${TICKET_EXPONENT}`);
+  }
+  return hexlify(modulus);
+}
+
+export async function loadTicketKey(file: string): Promise<KeyObject> {
+  return createPrivateKey(await fs.readFile(file, "utf8"));
+}
+
+/** Writes the key as PKCS#8 PEM, readable by the owner only */
+export async function saveTicketKey(file: string, key: KeyObject): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  await fs.writeFile(file, key.export({ format: "pem", type: "pkcs8" }), { mode: 0o600 });
+}
@@ -0,0 +1,926 @@
+import {
+  type ContractRunner,
+  type ContractTransactionReceipt,
+  type ContractTransactionResponse,
+  type EventLog,
+  type Interface,
+  type Signer,
+  type Wallet,
+  ZeroAddress,
+  ZeroHash,
+} from "ethers";
+
+import {
+  type ContentStore,
+  contentHash,
+  contentQuestions,
+  fetchSurveyContent,
+  newSurveyContent,
+  type SurveyContent,
+} from "./content";
+import {
+  connectDirectory,
+  connectSurvey,
+  type CurrentSurveyInfoOutput,
+  type DirectoryContract,
+  type QuestionConfigOutput,
+  type QuestionConfigStruct,
+  type QuestionHistogramOutput,
+  type QuestionResultOutput,
+  type SurveyContract,
+  type SurveyOutput,
+} from "./contracts";
+import { type FhevmDecryptor, userDecrypt } from "./decryption";
+import { encryptAnswers, type FhevmEncryptor } from "./encryption";
+import { OrganizationClient } from "./organizations";
+import type { RelayerClient, RelayReceipt } from "./relayer";
+import { decodeTemplateRef, encodeTemplateRef } from "./templates";
+import {
+  deriveRespondentKey,
+  responseNullifier,
+  type SignedResponse,
+  type SignedRevision,
+  signResponse,
+  signRevision,
+} from "./signing";
+import { blindTicket, ticketRequestMessage, unblindTicket, verifyTicket } from "./tickets";
+import {
+  type Answer,
+  type NewSurvey,
+  type QuestionConfig,
+  type QuestionHistogram,
+  type QuestionResult,
+  QuestionType,
+  type SegmentResult,
+  type SurveyDetails,
+  type SurveyInfo,
+  type SurveyListFilter,
+  SurveyListStatus,
+  type SurveyPage,
+  type SurveyQuestion,
+  type SurveyStatus,
+  type SurveySummary,
+} from "./types";
+
+const DAY_SECONDS = 24 * 60 * 60;
+const DEFAULT_PAGE_SIZE = 20;
+
+/** A view of the survey contract for multicall: its function name and arguments */
+export type ViewCall = readonly [method: string, args: readonly unknown[]];
+
+/** What a respondent needs to answer an invite-only survey */
+export interface Invitation {
+  /** Merkle proof for the respondent's roster entry */
+  proof: string[];
+  /** Service that checks the proof and blind-signs the respondent's ticket, normally the relayer */
+  issuer: RelayerClient;
+}
+
+/** How long reveal helpers wait for the decryption oracle */
+export interface RevealOptions {
+  /** Give up after this many milliseconds (default 5 minutes) */
+  timeoutMs?: number;
+  /** Delay between polls (default 5 seconds) */
+  intervalMs?: number;
+  /**
+   * Called before every poll. With the Hardhat mock pass `() => hre.fhevm.awaitDecryptionOracle()`,
+   * on live networks the relayer answers on its own.
+   */
+  beforePoll?: () => Promise<void>;
+}
+
+/**
+ * @title SurveyClient
+ * @notice Typed wrapper around a deployed EmployeePrivacySurvey contract. Survey titles,
+ * descriptions and question texts live in a content store, with only their hash on chain.
+ * @dev Methods that send transactions wait for them to be mined and throw if they revert
+ */
+export class SurveyClient {
+  readonly contract: SurveyContract;
+  /** Where survey content is published and fetched from; null when the client only reads on-chain state */
+  readonly content: ContentStore | null;
+  private directoryContract?: Promise<DirectoryContract>;
+
+  private constructor(contract: SurveyContract, content: ContentStore | null) {
+    this.contract = contract;
+    this.content = content;
+  }
+
+  /**
+   * Connects to a deployed contract. Pass a signer to send transactions, a provider for read-only use,
+   * and a content store to create surveys or read their texts.
+   */
+  static connect(address: string, runner: ContractRunner, content?: ContentStore): SurveyClient {
+    return new SurveyClient(connectSurvey(address, runner), content ?? null);
+  }
+
+  get address(): string {
+    return this.contract.target as string;
+  }
+
+  /**
+   * Publishes the survey's content to the content store, creates the survey with the content's hash
+   * and returns the id emitted in its SurveyCreated event. A survey rendered from a template then
+   * records the template version in a second transaction.
+   */
+  async createSurvey(survey: NewSurvey): Promise<bigint> {
+    const hash = await this.contentStore().put(newSurveyContent(survey));
+    const receipt = await this.send(
+      this.contract.createSurvey(...createSurveyArgs(survey, hash, await this.schedule(survey))),
+    );
+
+    for (const log of receipt.logs) {
+      const parsed = this.contract.interface.parseLog(log);
+      if (parsed?.name === "SurveyCreated") {
+        const surveyId = parsed.args.surveyId as bigint;
+        if (survey.template) {
+          await this.send(this.contract.recordTemplate(surveyId, encodeTemplateRef(survey.template)));
+        }
+        return surveyId;
+      }
+    }
+    throw new Error(`No SurveyCreated event in transaction ${receipt.hash}`);
+  }
+
+  /**
+   * Gas the createSurvey transaction would use, without sending it. Reverts the same way createSurvey would.
+   */
+  async estimateCreateSurveyGas(survey: NewSurvey): Promise<bigint> {
+    const hash = contentHash(newSurveyContent(survey));
+    return this.contract.createSurvey.estimateGas(...createSurveyArgs(survey, hash, await this.schedule(survey)));
+  }
+
+  /**
+   * Encrypts one answer per question with the given FHEVM instance, signs them and submits them
+   * from this client's signer. The respondent then pays for and sends the transaction themselves;
+   * use relayResponse to keep their address out of it.
+   * Surveys with a roster also need the respondent's invitation, segmented surveys the index of
+   * the respondent's segment.
+   */
+  async submitResponse(
+    surveyId: bigint | number,
+    answers: Answer[],
+    fhevm: FhevmEncryptor,
+    invitation?: Invitation,
+    segment?: number,
+  ): Promise<ContractTransactionReceipt> {
+    const respondent = await this.signer().getAddress();
+    const response = await this.prepareResponse(surveyId, answers, fhevm, respondent, invitation, segment);
+    return this.submitSignedResponse(response);
+  }
+
+  /**
+   * Encrypts the answers for the account that will send the transaction and signs them with the
+   * signer's respondent key for the survey, without sending anything. For a survey with a roster
+   * the invitation's issuer is asked for a ticket first.
+   */
+  async prepareResponse(
+    surveyId: bigint | number,
+    answers: Answer[],
+    fhevm: FhevmEncryptor,
+    submitter: string,
+    invitation?: Invitation,
+    segment?: number,
+  ): Promise<SignedResponse> {
+    const [configs, segments, eligibilityRoot] = await Promise.all([
+      this.getQuestionConfigs(surveyId),
+      this.getSegments(surveyId),
+      this.getEligibilityRoot(surveyId),
+    ]);
+    assertValidSegment(segments, segment);
+    if (eligibilityRoot !== null && !invitation) {
+      throw new Error("Survey is invite-only: pass the respondent's roster proof and a ticket issuer");
+    }
+    const key = await this.respondentKey(surveyId);
+    const ticket =
+      eligibilityRoot !== null && invitation
+        ? await this.requestTicket(surveyId, key, invitation.proof, invitation.issuer)
+        : "0x";
+    const encrypted = await encryptAnswers(fhevm, this.address, submitter, configs, answers, segment);
+    return signResponse(key, this.address, surveyId, encrypted, ticket);
+  }
+
+  /**
+   * Key that signs and decrypts this signer's response to the survey. The signer signs a message for
+   * it each time; nothing is sent on chain.
+   */
+  async respondentKey(surveyId: bigint | number): Promise<Wallet> {
+    return deriveRespondentKey(this.signer(), this.address, surveyId);
+  }
+
+  /**
+   * Nullifier this signer's response to the survey is stored under, for hasResponded and friends
+   */
+  async myNullifier(surveyId: bigint | number): Promise<string> {
+    const key = await this.respondentKey(surveyId);
+    return responseNullifier(this.address, surveyId, key.address);
+  }
+
+  /**
+   * Gets the issuer to blind-sign the respondent key's ticket for an invite-only survey. The signer
+   * signs the request as the roster account, and the issuer never sees the nullifier it signs.
+   */
+  async requestTicket(
+    surveyId: bigint | number,
+    respondentKey: Wallet,
+    eligibilityProof: string[],
+    issuer: RelayerClient,
+  ): Promise<string> {
+    const modulus = await this.getTicketIssuer(surveyId);
+    if (modulus === null) {
+      throw new Error("Survey is not invite-only, responses need no ticket");
+    }
+    const signer = this.signer();
+    const network = await signer.provider?.getNetwork();
+    if (!network) {
+      throw new Error("Signer needs a provider to read the chain id");
+    }
+    const nullifier = responseNullifier(this.address, surveyId, respondentKey.address);
+    const { blinded, factor } = blindTicket(modulus, nullifier, respondentKey);
+    const { blindSignature } = await issuer.requestTicket({
+      surveyId: surveyId.toString(),
+      account: await signer.getAddress(),
+      eligibilityProof,
+      blinded,
+      signature: await signer.signMessage(ticketRequestMessage(network.chainId, this.address, surveyId, blinded)),
+    });
+    const ticket = unblindTicket(modulus, blindSignature, factor);
+    if (!verifyTicket(modulus, nullifier, ticket)) {
+      throw new Error("Ticket issuer returned a signature that does not match the survey's issuer key");
+    }
+    return ticket;
+  }
+
+  /**
+   * Sends a response someone signed, which is what a relayer does
+   */
+  async submitSignedResponse(response: SignedResponse): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.submitResponse(...submitResponseArgs(response)));
+  }
+
+  /**
+   * Runs a signed response through the contract without sending it, throwing the revert the
+   * transaction would hit
+   */
+  async checkSignedResponse(response: SignedResponse): Promise<void> {
+    await this.contract.submitResponse.staticCall(...submitResponseArgs(response));
+  }
+
+  /**
+   * Signs the answers and lets the relayer submit them, so the chain never sees the respondent's address
+   */
+  async relayResponse(
+    surveyId: bigint | number,
+    answers: Answer[],
+    fhevm: FhevmEncryptor,
+    relayer: RelayerClient,
+    eligibilityProof: string[] = [],
+    segment?: number,
+  ): Promise<RelayReceipt> {
+    const submitter = await this.relayerSubmitter(relayer);
+    const invitation = { proof: eligibilityProof, issuer: relayer };
+    return relayer.submit(await this.prepareResponse(surveyId, answers, fhevm, submitter, invitation, segment));
+  }
+
+  /**
+   * Replaces this signer's earlier answers while the survey is open, sending the transaction from
+   * the signer; use relayRevision to keep their address out of it
+   */
+  async reviseResponse(
+    surveyId: bigint | number,
+    answers: Answer[],
+    fhevm: FhevmEncryptor,
+  ): Promise<ContractTransactionReceipt> {
+    const respondent = await this.signer().getAddress();
+    return this.submitSignedRevision(await this.prepareRevision(surveyId, answers, fhevm, respondent));
+  }
+
+  /**
+   * Encrypts replacement answers for the submitting account and signs them with the respondent key
+   * as its next revision
+   */
+  async prepareRevision(
+    surveyId: bigint | number,
+    answers: Answer[],
+    fhevm: FhevmEncryptor,
+    submitter: string,
+  ): Promise<SignedRevision> {
+    const key = await this.respondentKey(surveyId);
+    const [configs, revisions] = await Promise.all([
+      this.getQuestionConfigs(surveyId),
+      this.getRevisionCount(surveyId, responseNullifier(this.address, surveyId, key.address)),
+    ]);
+    const encrypted = await encryptAnswers(fhevm, this.address, submitter, configs, answers);
+    return signRevision(key, this.address, surveyId, encrypted, revisions + 1);
+  }
+
+  async submitSignedRevision(revision: SignedRevision): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.reviseResponse(...reviseResponseArgs(revision)));
+  }
+
+  /**
+   * Runs a signed revision through the contract without sending it, throwing the revert it would hit
+   */
+  async checkSignedRevision(revision: SignedRevision): Promise<void> {
+    await this.contract.reviseResponse.staticCall(...reviseResponseArgs(revision));
+  }
+
+  /**
+   * Signs replacement answers and lets the relayer submit them
+   */
+  async relayRevision(
+    surveyId: bigint | number,
+    answers: Answer[],
+    fhevm: FhevmEncryptor,
+    relayer: RelayerClient,
+  ): Promise<RelayReceipt> {
+    const submitter = await this.relayerSubmitter(relayer);
+    return relayer.submitRevision(await this.prepareRevision(surveyId, answers, fhevm, submitter));
+  }
+
+  /**
+   * Account the relayer sends from, after checking it relays to this contract. Encrypt answers
+   * for it when preparing a response the relayer will submit.
+   */
+  async relayerSubmitter(relayer: RelayerClient): Promise<string> {
+    const info = await relayer.info();
+    if (info.contract.toLowerCase() !== this.address.toLowerCase()) {
+      throw new Error(`Relayer submits to ${info.contract}, not to ${this.address}`);
+    }
+    return info.submitter;
+  }
+
+  /**
+   * Handles of this signer's own stored answers, one per question. Reverts with "No response" if
+   * they have not responded.
+   */
+  async getMyAnswerHandles(surveyId: bigint | number): Promise<string[]> {
+    return [...(await this.contract.getAnswers(surveyId, await this.myNullifier(surveyId)))];
+  }
+
+  /**
+   * Decrypts this signer's own answers as the contract stores them (scale answers after clamping,
+   * latest revision). The signer signs for their respondent key again and that key signs the
+   * decryption request; nothing is sent on chain.
+   */
+  async decryptMyAnswers(surveyId: bigint | number, fhevm: FhevmDecryptor): Promise<Answer[]> {
+    const key = await this.respondentKey(surveyId);
+    const [handles, configs] = await Promise.all([
+      this.contract.getAnswers(surveyId, responseNullifier(this.address, surveyId, key.address)),
+      this.getQuestionConfigs(surveyId),
+    ]);
+    const values = await userDecrypt(fhevm, key, this.address, [...handles]);
+    return values.map((value, index) =>
+      configs[index].questionType === QuestionType.YesNo ? Boolean(value) : Number(value),
+    );
+  }
+
+  async closeSurvey(surveyId: bigint | number): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.closeSurvey(surveyId));
+  }
+
+  async publishResults(surveyId: bigint | number): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.publishResults(surveyId));
+  }
+
+  /**
+   * Asks the decryption oracle for a question's running total and returns the request id
+   */
+  async requestAverage(surveyId: bigint | number, questionId: number): Promise<bigint> {
+    return this.requestIdFrom(await this.send(this.contract.requestQuestionAverage(surveyId, questionId)));
+  }
+
+  /**
+   * Asks the decryption oracle for a question's answer counts and returns the request id
+   */
+  async requestHistogram(surveyId: bigint | number, questionId: number): Promise<bigint> {
+    return this.requestIdFrom(await this.send(this.contract.requestQuestionHistogram(surveyId, questionId)));
+  }
+
+  /**
+   * Asks the decryption oracle for a segment's respondent count and totals and returns the request id
+   */
+  async requestSegmentResults(surveyId: bigint | number, segment: number): Promise<bigint> {
+    return this.requestIdFrom(await this.send(this.contract.requestSegmentResults(surveyId, segment)));
+  }
+
+  /**
+   * Requests a question's aggregate unless it is already revealed, then waits for the oracle.
+   * Returns the result as it stands when the wait ends; check `revealed` before using it.
+   */
+  async revealAverage(
+    surveyId: bigint | number,
+    questionId: number,
+    options: RevealOptions = {},
+  ): Promise<QuestionResult> {
+    const current = await this.getQuestionResult(surveyId, questionId);
+    if (current.revealed) {
+      return current;
+    }
+    await this.requestAverage(surveyId, questionId);
+    return waitForReveal(() => this.getQuestionResult(surveyId, questionId), options);
+  }
+
+  /**
+   * Requests a question's answer distribution unless it is already revealed, then waits for the oracle
+   */
+  async revealHistogram(
+    surveyId: bigint | number,
+    questionId: number,
+    options: RevealOptions = {},
+  ): Promise<QuestionHistogram> {
+    const current = await this.getQuestionHistogram(surveyId, questionId);
+    if (current.revealed) {
+      return current;
+    }
+    await this.requestHistogram(surveyId, questionId);
+    return waitForReveal(() => this.getQuestionHistogram(surveyId, questionId), options);
+  }
+
+  /**
+   * Requests every average and answer distribution of a survey that is not revealed yet, then waits
+   * for all of them at once. Returns the ids of the questions still not fully revealed when the wait
+   * ends, empty once every one is.
+   */
+  async revealResults(surveyId: bigint | number, options: RevealOptions = {}): Promise<number[]> {
+    const questionIds = (await this.getQuestionConfigs(surveyId)).map((_, questionId) => questionId);
+    const readAll = () =>
+      Promise.all(
+        questionIds.map(async (questionId) => ({
+          questionId,
+          result: await this.getQuestionResult(surveyId, questionId),
+          histogram: await this.getQuestionHistogram(surveyId, questionId),
+        })),
+      );
+    for (const { questionId, result, histogram } of await readAll()) {
+      if (!result.revealed) {
+        await this.requestAverage(surveyId, questionId);
+      }
+      if (!histogram.revealed) {
+        await this.requestHistogram(surveyId, questionId);
+      }
+    }
+    const reveal = await waitForReveal(async () => {
+      const pending = (await readAll())
+        .filter(({ result, histogram }) => !result.revealed || !histogram.revealed)
+        .map(({ questionId }) => questionId);
+      return { revealed: pending.length === 0, pending };
+    }, options);
+    return reveal.pending;
+  }
+
+  /**
+   * Requests a segment's results unless they are already revealed, then waits for the oracle.
+   * A revealed segment may still be `withheld` when some segment had too few responses.
+   */
+  async revealSegment(surveyId: bigint | number, segment: number, options: RevealOptions = {}): Promise<SegmentResult> {
+    const current = await this.getSegmentResult(surveyId, segment);
+    if (current.revealed) {
+      return current;
+    }
+    await this.requestSegmentResults(surveyId, segment);
+    return waitForReveal(() => this.getSegmentResult(surveyId, segment), options);
+  }
+
+  /** Client for the organisation registry this contract checks survey authors and analysts against */
+  async organizations(): Promise<OrganizationClient> {
+    const runner = this.contract.runner;
+    if (!runner) {
+      throw new Error("SurveyClient needs a provider or signer");
+    }
+    return OrganizationClient.connect(await this.contract.organizations(), runner);
+  }
+
+  /**
+   * One page of surveys in id order, filtered by creator and status, read from the contract's
+   * SurveyDirectory in a single call. The directory stops reading after the page, so there is no
+   * total, only whether another page follows.
+   */
+  async listSurveys(filter: SurveyListFilter = {}): Promise<SurveyPage> {
+    const { page = 1, pageSize = DEFAULT_PAGE_SIZE } = filter;
+    if (!Number.isInteger(page) || page < 1 || !Number.isInteger(pageSize) || pageSize < 1) {
+      throw new Error("page and pageSize must be positive whole numbers");
+    }
+    const [summaries, more] = await (
+      await this.directory()
+    ).listSurveys(
+      filter.creator ?? ZeroAddress,
+      filter.status ?? SurveyListStatus.Any,
+      (page - 1) * pageSize,
+      pageSize,
+    );
+    return {
+      surveys: summaries.map(
+        (summary): SurveySummary => ({
+          id: summary.id,
+          creator: summary.creator,
+          contentHash: summary.contentHash,
+          startTime: new Date(Number(summary.startTime) * 1000),
+          endTime: new Date(Number(summary.endTime) * 1000),
+          status: Number(summary.status) as SurveyStatus,
+          resultsPublished: summary.resultsPublished,
+          totalResponses: Number(summary.totalResponses),
+          responsesNeeded: Number(summary.responsesNeeded),
+          questionsCount: Number(summary.questionsCount),
+          organizationId: summary.organizationId === BigInt(0) ? null : summary.organizationId,
+        }),
+      ),
+      page,
+      pageSize,
+      more,
+    };
+  }
+
+  /**
+   * Calls several of the survey contract's views in one request through its SurveyDirectory.
+   * Results come back as the typed contract returns them: the value itself for single-output views.
+   * Throws the first failing call's revert.
+   */
+  async multicall(calls: readonly ViewCall[]): Promise<unknown[]> {
+    if (calls.length === 0) {
+      return [];
+    }
+    const contractInterface: Interface = this.contract.interface;
+    const data = await (
+      await this.directory()
+    ).multicall(calls.map(([method, args]) => contractInterface.encodeFunctionData(method, args)));
+    return data.map((result, index) => {
+      const decoded = contractInterface.decodeFunctionResult(calls[index][0], result);
+      return decoded.length === 1 ? decoded[0] : decoded;
+    });
+  }
+
+  /**
+   * Metadata, question configs, segments and revealed results of several surveys in two
+   * multicalls, however many surveys and questions there are. Their content is fetched separately
+   * with fetchContent.
+   */
+  async getSurveysWithResults(surveyIds: readonly (bigint | number)[]): Promise<SurveyDetails[]> {
+    const views = [
+      "getSurvey",
+      "getResponsesNeeded",
+      "getEligibilityRoot",
+      "getCurrentSurveyInfo",
+      "getSurveyOrganization",
+      "surveyTemplates",
+      "getQuestionConfigs",
+      "getSegments",
+    ];
+    const metadata = await this.multicall(surveyIds.flatMap((id) => views.map((view): ViewCall => [view, [id]])));
+    const surveys = surveyIds.map((id, index) => {
+      const [survey, responsesNeeded, eligibilityRoot, current, organizationId, template, configs, segments] =
+        metadata.slice(index * views.length, (index + 1) * views.length);
+      return {
+        info: toSurveyInfo(
+          id,
+          survey as SurveyOutput,
+          responsesNeeded as bigint,
+          eligibilityRoot as string,
+          current as CurrentSurveyInfoOutput,
+          organizationId as bigint,
+          template as string,
+        ),
+        configs: toConfigs(configs as QuestionConfigOutput[]),
+        segments: [...(segments as string[])],
+      };
+    });
+
+    const resultCalls = surveys.flatMap(({ info, configs }) =>
+      configs.flatMap((_, questionId): ViewCall[] => [
+        ["getQuestionResult", [info.id, questionId]],
+        ["getQuestionHistogram", [info.id, questionId]],
+      ]),
+    );
+    const results = await this.multicall(resultCalls);
+    let next = 0;
+    return surveys.map((survey) => {
+      const details: SurveyDetails = { ...survey, results: [], histograms: [] };
+      for (const config of survey.configs) {
+        details.results.push(toQuestionResult(results[next++] as QuestionResultOutput));
+        details.histograms.push(toHistogram(results[next++] as QuestionHistogramOutput, config.minValue));
+      }
+      return details;
+    });
+  }
+
+  async getTotalSurveys(): Promise<number> {
+    return Number(await this.contract.getTotalSurveys());
+  }
+
+  /** Smallest minResponses the contract currently accepts for new surveys */
+  async getMinResponsesFloor(): Promise<number> {
+    return Number(await this.contract.minResponsesFloor());
+  }
+
+  async getSurvey(surveyId: bigint | number): Promise<SurveyInfo> {
+    const [survey, responsesNeeded, eligibilityRoot, current, organizationId, template] = await Promise.all([
+      this.contract.getSurvey(surveyId),
+      this.contract.getResponsesNeeded(surveyId),
+      this.contract.getEligibilityRoot(surveyId),
+      this.contract.getCurrentSurveyInfo(surveyId),
+      this.contract.getSurveyOrganization(surveyId),
+      this.contract.surveyTemplates(surveyId),
+    ]);
+    return toSurveyInfo(surveyId, survey, responsesNeeded, eligibilityRoot, current, organizationId, template);
+  }
+
+  /**
+   * Title, description and question texts of a survey from the content store, refused unless they
+   * match the hash the contract stores
+   */
+  async getContent(surveyId: bigint | number): Promise<SurveyContent> {
+    return this.fetchContent((await this.contract.getSurvey(surveyId)).contentHash);
+  }
+
+  /** Content with the given hash from the content store, refused unless it matches the hash */
+  async fetchContent(hash: string): Promise<SurveyContent> {
+    return fetchSurveyContent(this.contentStore(), hash);
+  }
+
+  /**
+   * The survey's questions: texts from its verified content, in the best available translation for
+   * the preferred languages, and answer types and ranges from the contract
+   */
+  async getQuestions(surveyId: bigint | number, preferred: string | readonly string[] = []): Promise<SurveyQuestion[]> {
+    const [content, configs] = await Promise.all([this.getContent(surveyId), this.getQuestionConfigs(surveyId)]);
+    return contentQuestions(content, configs, preferred);
+  }
+
+  /** Answer type and range of each question, which is all answering needs */
+  async getQuestionConfigs(surveyId: bigint | number): Promise<QuestionConfig[]> {
+    return toConfigs(await this.contract.getQuestionConfigs(surveyId));
+  }
+
+  /** Segment labels respondents pick from, empty when the survey has none */
+  async getSegments(surveyId: bigint | number): Promise<string[]> {
+    return [...(await this.contract.getSegments(surveyId))];
+  }
+
+  /** Root of the survey's roster, null for a survey anyone may answer */
+  async getEligibilityRoot(surveyId: bigint | number): Promise<string | null> {
+    const root = await this.contract.getEligibilityRoot(surveyId);
+    return root === ZeroHash ? null : root;
+  }
+
+  /** Modulus of the key that signs the survey's tickets, null for an open survey */
+  async getTicketIssuer(surveyId: bigint | number): Promise<string | null> {
+    const modulus = await this.contract.ticketIssuers(surveyId);
+    return modulus === "0x" ? null : modulus;
+  }
+
+  /** Whether the roster proof is valid for the account (always true for open surveys) */
+  async isEligible(surveyId: bigint | number, account: string, eligibilityProof: string[]): Promise<boolean> {
+    return this.contract.isEligible(surveyId, account, eligibilityProof);
+  }
+
+  /** Whether a response was stored under the nullifier (see myNullifier) */
+  async hasResponded(surveyId: bigint | number, nullifier: string): Promise<boolean> {
+    return this.contract.hasResponded(surveyId, nullifier);
+  }
+
+  /** How many times the response stored under the nullifier was revised */
+  async getRevisionCount(surveyId: bigint | number, nullifier: string): Promise<number> {
+    return Number(await this.contract.getRevisionCount(surveyId, nullifier));
+  }
+
+  /**
+   * When each response to a survey was submitted, oldest first, from its ResponseSubmitted events.
+   * Revisions are not counted. Logs are read from `fromBlock`, best the contract's deployment block,
+   * up to the latest block, `batchSize` blocks per query, since public nodes refuse larger ranges.
+   */
+  async getResponseTimes(surveyId: bigint | number, fromBlock = 0, batchSize = 2000): Promise<Date[]> {
+    const provider = this.contract.runner?.provider;
+    if (!provider) {
+      throw new Error("SurveyClient needs a provider to read the chain's logs");
+    }
+    const filter = this.contract.filters.ResponseSubmitted(surveyId);
+    const latest = await provider.getBlockNumber();
+    const events = [];
+    for (let from = fromBlock; from <= latest; from += batchSize) {
+      events.push(...(await this.contract.queryFilter(filter, from, Math.min(from + batchSize - 1, latest))));
+    }
+    return events
+      .filter((event): event is EventLog => "args" in event)
+      .map((event) => new Date(Number(event.args.timestamp) * 1000));
+  }
+
+  async getQuestionResult(surveyId: bigint | number, questionId: number): Promise<QuestionResult> {
+    return toQuestionResult(await this.contract.getQuestionResult(surveyId, questionId));
+  }
+
+  async getQuestionHistogram(surveyId: bigint | number, questionId: number): Promise<QuestionHistogram> {
+    const [histogram, configs] = await Promise.all([
+      this.contract.getQuestionHistogram(surveyId, questionId),
+      this.contract.getQuestionConfigs(surveyId),
+    ]);
+    return toHistogram(histogram, Number(configs[questionId].minValue));
+  }
+
+  async getSegmentResult(surveyId: bigint | number, segment: number): Promise<SegmentResult> {
+    const result = await this.contract.getSegmentResults(surveyId, segment);
+    const respondents = Number(result.respondents);
+    const totals = result.totals.map((total) => Number(total));
+    return {
+      revealed: result.revealed,
+      withheld: result.revealed && respondents === 0,
+      respondents,
+      totals,
+      averages: totals.map((total) => (respondents > 0 ? total / respondents : null)),
+    };
+  }
+
+  /**
+   * Start and end timestamps for createSurvey. A start of 0 opens the survey once it is mined, and
+   * durationDays then counts from the latest block rather than this machine's clock.
+   */
+  private async schedule(survey: NewSurvey): Promise<[bigint, bigint]> {
+    const start = survey.startTime ? toTimestamp(survey.startTime) : BigInt(0);
+    if (survey.endTime) {
+      return [start, toTimestamp(survey.endTime)];
+    }
+    if (survey.durationDays === undefined) {
+      throw new Error("A survey needs an endTime or a durationDays");
+    }
+    const duration = BigInt(Math.round(survey.durationDays * DAY_SECONDS));
+    if (start !== BigInt(0)) {
+      return [start, start + duration];
+    }
+    const block = await this.contract.runner?.provider?.getBlock("latest");
+    if (!block) {
+      throw new Error("SurveyClient needs a provider to read the chain time");
+    }
+    return [BigInt(0), BigInt(block.timestamp) + duration];
+  }
+
+  private contentStore(): ContentStore {
+    if (!this.content) {
+      throw new Error("SurveyClient needs a content store for survey texts");
+    }
+    return this.content;
+  }
+
+  /** The SurveyDirectory this contract deployed, looked up once */
+  private directory(): Promise<DirectoryContract> {
+    const runner = this.contract.runner;
+    if (!runner) {
+      throw new Error("SurveyClient needs a provider or signer");
+    }
+    this.directoryContract ??= this.contract.directory().then((address) => connectDirectory(address, runner));
+    return this.directoryContract;
+  }
+
+  private signer(): Signer {
+    const runner = this.contract.runner;
+    if (!runner || !("getAddress" in runner) || typeof runner.getAddress !== "function") {
+      throw new Error("SurveyClient needs a signer to send transactions");
+    }
+    return runner as Signer;
+  }
+
+  private async send(pending: Promise<ContractTransactionResponse>): Promise<ContractTransactionReceipt> {
+    const tx = await pending;
+    const receipt = await tx.wait();
+    if (!receipt) {
+      throw new Error(`Transaction ${tx.hash} was not mined`);
+    }
+    return receipt;
+  }
+
+  private requestIdFrom(receipt: ContractTransactionReceipt): bigint {
+    for (const log of receipt.logs) {
+      const parsed = this.contract.interface.parseLog(log);
+      if (parsed?.name === "ResultDecryptionRequested") {
+        return parsed.args.requestId as bigint;
+      }
+    }
+    throw new Error(`No ResultDecryptionRequested event in transaction ${receipt.hash}`);
+  }
+}
+
+function toConfigStruct(config: QuestionConfig): QuestionConfigStruct {
+  return { questionType: config.questionType, minValue: config.minValue, maxValue: config.maxValue };
+}
+
+function toSurveyInfo(
+  surveyId: bigint | number,
+  survey: SurveyOutput,
+  responsesNeeded: bigint,
+  eligibilityRoot: string,
+  current: CurrentSurveyInfoOutput,
+  organizationId: bigint,
+  template: string,
+): SurveyInfo {
+  return {
+    id: BigInt(surveyId),
+    creator: survey.creator,
+    contentHash: survey.contentHash,
+    startTime: new Date(Number(survey.startTime) * 1000),
+    endTime: new Date(Number(survey.endTime) * 1000),
+    active: survey.active,
+    status: Number(current.status) as SurveyStatus,
+    resultsPublished: survey.resultsPublished,
+    totalResponses: Number(survey.totalResponses),
+    responsesNeeded: Number(responsesNeeded),
+    eligibilityRoot: eligibilityRoot === ZeroHash ? null : eligibilityRoot,
+    organizationId: organizationId === BigInt(0) ? null : organizationId,
+    template: decodeTemplateRef(template),
+  };
+}
+
+function toConfigs(configs: QuestionConfigOutput[]): QuestionConfig[] {
+  return configs.map((config) => ({
+    questionType: Number(config.questionType) as QuestionType,
+    minValue: Number(config.minValue),
+    maxValue: Number(config.maxValue),
+  }));
+}
+
+function toQuestionResult(result: QuestionResultOutput): QuestionResult {
+  const totalResponses = Number(result.totalResponses);
+  const totalScore = Number(result.totalScore);
+  return {
+    revealed: result.revealed,
+    totalResponses,
+    totalScore,
+    average: result.revealed && totalResponses > 0 ? totalScore / totalResponses : null,
+  };
+}
+
+function toHistogram(histogram: QuestionHistogramOutput, minValue: number): QuestionHistogram {
+  const counts = histogram.counts.map((count) => Number(count));
+  return {
+    revealed: histogram.revealed,
+    values: counts.map((_, bucket) => minValue + bucket),
+    counts,
+  };
+}
+
+function toTimestamp(date: Date): bigint {
+  return BigInt(Math.floor(date.getTime() / 1000));
+}
+
+function createSurveyArgs(survey: NewSurvey, hash: string, [startTime, endTime]: [bigint, bigint]) {
+  return [
+    hash,
+    survey.questions.map(toConfigStruct),
+    startTime,
+    endTime,
+    survey.minResponses,
+    survey.eligibilityRoot ?? ZeroHash,
+    survey.ticketIssuer ?? "0x",
+    survey.segments ?? [],
+    survey.organizationId ?? 0,
+  ] as const;
+}
+
+function submitResponseArgs(response: SignedResponse) {
+  return [
+    response.surveyId,
+    response.ratings,
+    response.yesNo,
+    response.segment,
+    response.inputProof,
+    { nullifier: response.nullifier, ticket: response.ticket, signature: response.signature },
+  ] as const;
+}
+
+function reviseResponseArgs(revision: SignedRevision) {
+  return [
+    revision.surveyId,
+    revision.ratings,
+    revision.yesNo,
+    revision.inputProof,
+    { nullifier: revision.nullifier, revision: revision.revision, signature: revision.signature },
+  ] as const;
+}
+
+/**
+ * Segmented surveys need a segment index in range, the others none
+ */
+function assertValidSegment(segments: string[], segment: number | undefined) {
+  if (segments.length === 0) {
+    if (segment !== undefined) {
+      throw new Error("Survey has no segments");
+    }
+  } else if (segment === undefined || !Number.isInteger(segment) || segment < 0 || segment >= segments.length) {
+    throw new Error(`Pick a segment between 0 and ${segments.length - 1} (${segments.join(", ")})`);
+  }
+}
+
+/**
+ * Polls a reveal until it reports `revealed` or the timeout passes
+ */
+async function waitForReveal<T extends { revealed: boolean }>(
+  read: () => Promise<T>,
+  { timeoutMs = 300_000, intervalMs = 5_000, beforePoll }: RevealOptions,
+): Promise<T> {
+  const deadline = Date.now() + timeoutMs;
+  for (;;) {
+    await beforePoll?.();
+    const value = await read();
+    if (value.revealed || Date.now() >= deadline) {
+      return value;
+    }
+    await new Promise((resolve) => setTimeout(resolve, intervalMs));
+  }
+}
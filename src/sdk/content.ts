@@ -0,0 +1,267 @@
+import { isHexString, keccak256, toUtf8Bytes } from "ethers";
+
+import { DEFAULT_LANGUAGE, languageTagProblem, matchLanguage, parseTranslations } from "./translations";
+import type { NewSurvey, QuestionConfig, SurveyQuestion, SurveyTranslation } from "./types";
+
+/**
+ * What a survey says, kept off chain as a JSON document. The contract stores only the document's
+ * keccak256 hash together with each question's answer type and range:
+ *
+ *   {"title":"Quarterly Pulse","description":"...","questions":["How satisfied are you?", ...],
+ *    "language":"en","translations":{"es":{"title":"Pulso trimestral","description":"...","questions":[...]}}}
+ *
+ * `language` and `translations` are optional; a survey without them is in English.
+ * The hash covers the exact bytes of the document, so a store may hand back anything and readers
+ * check it against the chain before showing it.
+ */
+export interface SurveyContent {
+  title: string;
+  description: string;
+  /** Question texts, in the order of the survey's question configs */
+  questions: string[];
+  /** Language tag of the texts above, DEFAULT_LANGUAGE when omitted */
+  language?: string;
+  /** The same texts in other languages, keyed by language tag */
+  translations?: Record<string, SurveyTranslation>;
+}
+
+/** A survey's texts in the one language a reader sees */
+export interface LocalizedContent extends SurveyTranslation {
+  language: string;
+}
+
+/**
+ * Where content documents are kept, keyed by their hash: a directory, an HTTP service or an IPFS
+ * stand-in. Stores are not trusted; fetchSurveyContent verifies what they return.
+ */
+export interface ContentStore {
+  /** Stores a document and returns its hash; storing the same document again does nothing */
+  put(document: string): Promise<string>;
+  /** The document stored under a hash; throws if there is none */
+  get(hash: string): Promise<string>;
+}
+
+const CONTENT_KEYS = ["title", "description", "questions", "language", "translations"];
+
+/**
+ * Validates a parsed content document. Throws one error listing every problem.
+ */
+export function parseSurveyContent(data: unknown): SurveyContent {
+  if (typeof data !== "object" || data === null || Array.isArray(data)) {
+    throw new Error("Invalid survey content:\n  - content: must be an object");
+  }
+  const content = data as Record<string, unknown>;
+  const problems = Object.keys(content)
+    .filter((key) => !CONTENT_KEYS.includes(key))
+    .map((key) => `${key}: unknown field`);
+
+  const { title, description = "", questions, language = DEFAULT_LANGUAGE } = content;
+  if (typeof title !== "string" || !title.trim()) {
+    problems.push("title: must be a non-empty string");
+  }
+  if (typeof description !== "string") {
+    problems.push("description: must be a string");
+  }
+  if (!Array.isArray(questions) || questions.length === 0) {
+    problems.push("questions: must be a non-empty list");
+  } else {
+    questions.forEach((question, index) => {
+      if (typeof question !== "string" || !question.trim()) {
+        problems.push(`questions[${index}]: must be a non-empty string`);
+      }
+    });
+  }
+
+  const languageProblem = languageTagProblem(language, "language");
+  if (languageProblem) {
+    problems.push(languageProblem);
+  }
+  const translations =
+    content.translations === undefined
+      ? undefined
+      : parseTranslations(
+          content.translations,
+          String(language),
+          Array.isArray(questions) ? questions.length : 0,
+          "translations",
+          problems,
+        );
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid survey content:\n${problems.map((problem) => `  - ${problem}`).join("\n")}`);
+  }
+  return {
+    title: title as string,
+    description: description as string,
+    questions: questions as string[],
+    ...(content.language !== undefined && { language: language as string }),
+    ...(translations && Object.keys(translations).length > 0 && { translations }),
+  };
+}
+
+/**
+ * The content document of a survey, always with the same key order, and translations sorted by
+ * language, so the same content gets the same hash
+ */
+export function encodeSurveyContent(content: SurveyContent): string {
+  const { title, description, questions, language, translations } = parseSurveyContent(content);
+  return JSON.stringify({
+    title,
+    description,
+    questions,
+    ...(language !== undefined && { language }),
+    ...(translations && {
+      translations: Object.fromEntries(
+        Object.keys(translations)
+          .sort()
+          .map((tag) => {
+            const translation = translations[tag];
+            return [
+              tag,
+              { title: translation.title, description: translation.description, questions: translation.questions },
+            ];
+          }),
+      ),
+    }),
+  });
+}
+
+/** The content document of a survey about to be created */
+export function newSurveyContent({ title, description, questions, language, translations }: NewSurvey): string {
+  return encodeSurveyContent({
+    title,
+    description,
+    questions: questions.map((question) => question.text),
+    ...(language !== undefined && { language }),
+    ...(translations && { translations }),
+  });
+}
+
+/** Languages a survey's content is available in, its own language first */
+export function contentLanguages(content: SurveyContent): string[] {
+  return [content.language ?? DEFAULT_LANGUAGE, ...Object.keys(content.translations ?? {})];
+}
+
+/**
+ * The survey's texts in the language that best fits the reader's preferences (see matchLanguage),
+ * falling back to the survey's own language
+ */
+export function localizeContent(content: SurveyContent, preferred: string | readonly string[] = []): LocalizedContent {
+  const own = content.language ?? DEFAULT_LANGUAGE;
+  const language =
+    matchLanguage(contentLanguages(content), typeof preferred === "string" ? [preferred] : preferred) ?? own;
+  const texts = language === own ? content : content.translations![language];
+  return { language, title: texts.title, description: texts.description, questions: texts.questions };
+}
+
+/** The hash the contract stores for a document */
+export function contentHash(document: string): string {
+  return keccak256(toUtf8Bytes(document));
+}
+
+/**
+ * Parses a document fetched from a store, refusing it unless it hashes to the on-chain value
+ */
+export function verifySurveyContent(document: string, expectedHash: string): SurveyContent {
+  const actual = contentHash(document);
+  if (actual !== expectedHash.toLowerCase()) {
+    throw new Error(`Survey content does not match its on-chain hash: expected ${expectedHash}, got ${actual}`);
+  }
+  let data: unknown;
+  try {
+    data = JSON.parse(document);
+  } catch {
+    throw new Error(`Survey content ${expectedHash} is not JSON`);
+  }
+  return parseSurveyContent(data);
+}
+
+/** Fetches a survey's content from a store and verifies it against the on-chain hash */
+export async function fetchSurveyContent(store: ContentStore, hash: string): Promise<SurveyContent> {
+  if (!isHexString(hash, 32)) {
+    throw new Error(`Invalid content hash "${hash}"`);
+  }
+  return verifySurveyContent(await store.get(hash), hash);
+}
+
+/**
+ * Pairs the question texts of a survey's content, in the preferred language, with its on-chain
+ * question configs
+ */
+export function contentQuestions(
+  content: SurveyContent,
+  configs: QuestionConfig[],
+  preferred: string | readonly string[] = [],
+): SurveyQuestion[] {
+  if (content.questions.length !== configs.length) {
+    throw new Error(`Survey content has ${content.questions.length} questions, the contract ${configs.length}`);
+  }
+  const { questions } = localizeContent(content, preferred);
+  return configs.map((config, index) => ({ text: questions[index], ...config }));
+}
+
+/**
+ * @title MemoryContentStore
+ * @notice Keeps documents in memory, for tests and scripts that create and read surveys in one process
+ */
+export class MemoryContentStore implements ContentStore {
+  private readonly documents = new Map<string, string>();
+
+  async put(document: string): Promise<string> {
+    const hash = contentHash(document);
+    this.documents.set(hash, document);
+    return hash;
+  }
+
+  async get(hash: string): Promise<string> {
+    const document = this.documents.get(hash.toLowerCase());
+    if (document === undefined) {
+      throw new Error(`No survey content ${hash}`);
+    }
+    return document;
+  }
+}
+
+/**
+ * @title HttpContentStore
+ * @notice HTTP client for a content server (`npx hardhat content-server`). Uses fetch only, so it
+ * works in the browser as well as in Node.
+ */
+export class HttpContentStore implements ContentStore {
+  readonly url: string;
+
+  constructor(url: string) {
+    this.url = url.replace(/\/+$/, "");
+  }
+
+  async put(document: string): Promise<string> {
+    const response = await this.request("/content", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: document,
+    });
+    const { hash } = (await response.json()) as { hash: string };
+    if (hash !== contentHash(document)) {
+      throw new Error(`Content server at ${this.url} stored the document under ${hash}`);
+    }
+    return hash;
+  }
+
+  async get(hash: string): Promise<string> {
+    return (await this.request(`/content/${hash}`)).text();
+  }
+
+  private async request(path: string, init?: RequestInit): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.url}${path}`, init);
+    } catch (error) {
+      throw new Error(`Content server at ${this.url} is unreachable: ${(error as Error).message}`);
+    }
+    if (!response.ok) {
+      const body = (await response.json().catch(() => null)) as { error?: string } | null;
+      throw new Error(`Content server rejected the request: ${body?.error ?? `HTTP ${response.status}`}`);
+    }
+    return response;
+  }
+}
@@ -0,0 +1,246 @@
+import {
+  type BaseContract,
+  type BaseContractMethod,
+  type BigNumberish,
+  Contract,
+  type ContractRunner,
+  type ContractTransactionResponse,
+} from "ethers";
+
+/**
+ * @title Contract bindings
+ * @notice ABI fragments and typings of the contract functions and events the SDK uses, written out by
+ * hand so the SDK and the web app build without Hardhat's generated bindings. test/SurveyClient.ts
+ * checks every fragment against the compiled contracts.
+ */
+
+/** A view: calling it returns the decoded result */
+type View<A extends unknown[], R> = BaseContractMethod<A, R, R>;
+
+/** A transaction: calling it sends it, staticCall returns what it would return */
+type Send<A extends unknown[], R = void> = BaseContractMethod<A, R, ContractTransactionResponse>;
+
+/** ABI of the EmployeePrivacySurvey contract, in ethers' human-readable form */
+export const surveyAbi = [
+  "event SurveyCreated(uint256 indexed surveyId, address indexed creator, bytes32 contentHash, uint256 startTime, uint256 endTime)",
+  "event ResponseSubmitted(uint256 indexed surveyId, bytes32 indexed nullifier, uint256 timestamp)",
+  "event SurveyClosed(uint256 indexed surveyId, uint256 timestamp)",
+  "event ResultsPublished(uint256 indexed surveyId, uint256 totalResponses)",
+  "event ResultDecryptionRequested(uint256 indexed surveyId, uint256 indexed questionId, uint256 requestId)",
+  "function createSurvey(bytes32 _contentHash, (uint8 questionType, uint8 minValue, uint8 maxValue)[] _questionConfigs, uint256 _startTime, uint256 _endTime, uint256 _minResponses, bytes32 _eligibilityRoot, bytes _ticketIssuer, string[] _segments, uint256 _organizationId) returns (uint256 surveyId)",
+  "function recordTemplate(uint256 _surveyId, bytes32 _template)",
+  "function submitResponse(uint256 _surveyId, bytes32[] _encryptedRatings, bytes32[] _encryptedYesNo, bytes32 _encryptedSegment, bytes _inputProof, (bytes32 nullifier, bytes ticket, bytes signature) _authorization)",
+  "function reviseResponse(uint256 _surveyId, bytes32[] _encryptedRatings, bytes32[] _encryptedYesNo, bytes _inputProof, (bytes32 nullifier, uint256 revision, bytes signature) _authorization)",
+  "function closeSurvey(uint256 _surveyId)",
+  "function publishResults(uint256 _surveyId)",
+  "function requestQuestionAverage(uint256 _surveyId, uint256 _questionId)",
+  "function requestQuestionHistogram(uint256 _surveyId, uint256 _questionId)",
+  "function requestSegmentResults(uint256 _surveyId, uint256 _segment)",
+  "function organizations() view returns (address)",
+  "function directory() view returns (address)",
+  "function minResponsesFloor() view returns (uint256)",
+  "function ticketIssuers(uint256) view returns (bytes)",
+  "function getTotalSurveys() view returns (uint256)",
+  "function getSurvey(uint256 _surveyId) view returns (address creator, bytes32 contentHash, uint256 startTime, uint256 endTime, bool active, bool resultsPublished, uint256 totalResponses)",
+  "function getCurrentSurveyInfo(uint256 _surveyId) view returns (bool active, bool resultsPublished, uint256 totalResponses, uint256 questionsCount, uint256 timeRemaining, uint8 status)",
+  "function getResponsesNeeded(uint256 _surveyId) view returns (uint256)",
+  "function getEligibilityRoot(uint256 _surveyId) view returns (bytes32)",
+  "function getSurveyOrganization(uint256 _surveyId) view returns (uint256)",
+  "function surveyTemplates(uint256) view returns (bytes32)",
+  "function getQuestionConfigs(uint256 _surveyId) view returns ((uint8 questionType, uint8 minValue, uint8 maxValue)[])",
+  "function getSegments(uint256 _surveyId) view returns (string[])",
+  "function isEligible(uint256 _surveyId, address _account, bytes32[] _proof) view returns (bool)",
+  "function responseNullifier(uint256 _surveyId, address _respondentKey) view returns (bytes32)",
+  "function hasResponded(uint256 _surveyId, bytes32 _nullifier) view returns (bool)",
+  "function getRevisionCount(uint256 _surveyId, bytes32 _nullifier) view returns (uint256)",
+  "function getAnswers(uint256 _surveyId, bytes32 _nullifier) view returns (bytes32[])",
+  "function getQuestionResult(uint256 _surveyId, uint256 _questionId) view returns (uint8 averageRating, uint256 totalResponses, uint32 totalScore, bool revealed)",
+  "function getQuestionHistogram(uint256 _surveyId, uint256 _questionId) view returns (uint32[] counts, bool revealed)",
+  "function getSegmentResults(uint256 _surveyId, uint256 _segment) view returns (uint32 respondents, uint32[] totals, bool revealed)",
+] as const;
+
+/** ABI of the SurveyDirectory every survey contract deploys */
+export const directoryAbi = [
+  "function listSurveys(address _creator, uint8 _status, uint256 _offset, uint256 _limit) view returns ((uint256 id, address creator, bytes32 contentHash, uint256 startTime, uint256 endTime, uint8 status, bool resultsPublished, uint256 totalResponses, uint256 responsesNeeded, uint256 questionsCount, uint256 organizationId)[] page, bool more)",
+  "function multicall(bytes[] _calls) view returns (bytes[] results)",
+] as const;
+
+/** ABI of the OrganizationRegistry every survey contract deploys */
+export const organizationAbi = [
+  "event OrganizationCreated(uint256 indexed organizationId, address indexed admin, string name)",
+  "function createOrganization(string _name) returns (uint256)",
+  "function grantRole(uint256 _organizationId, uint8 _role, address _account)",
+  "function revokeRole(uint256 _organizationId, uint8 _role, address _account)",
+  "function organizationCounter() view returns (uint256)",
+  "function getOrganization(uint256 _organizationId) view returns (string name, uint256 memberCount)",
+  "function getRoles(uint256 _organizationId, address _account) view returns (uint8)",
+  "function getMembers(uint256 _organizationId) view returns (address[] members, uint8[] roles)",
+] as const;
+
+export interface QuestionConfigStruct {
+  questionType: BigNumberish;
+  minValue: BigNumberish;
+  maxValue: BigNumberish;
+}
+
+export interface ResponseAuthorizationStruct {
+  nullifier: string;
+  ticket: string;
+  signature: string;
+}
+
+export interface RevisionAuthorizationStruct {
+  nullifier: string;
+  revision: BigNumberish;
+  signature: string;
+}
+
+export interface QuestionConfigOutput {
+  questionType: bigint;
+  minValue: bigint;
+  maxValue: bigint;
+}
+
+export interface SurveyOutput {
+  creator: string;
+  contentHash: string;
+  startTime: bigint;
+  endTime: bigint;
+  active: boolean;
+  resultsPublished: boolean;
+  totalResponses: bigint;
+}
+
+export interface CurrentSurveyInfoOutput {
+  active: boolean;
+  resultsPublished: boolean;
+  totalResponses: bigint;
+  questionsCount: bigint;
+  timeRemaining: bigint;
+  status: bigint;
+}
+
+export interface QuestionResultOutput {
+  averageRating: bigint;
+  totalResponses: bigint;
+  totalScore: bigint;
+  revealed: boolean;
+}
+
+export interface QuestionHistogramOutput {
+  counts: bigint[];
+  revealed: boolean;
+}
+
+export interface SegmentResultsOutput {
+  respondents: bigint;
+  totals: bigint[];
+  revealed: boolean;
+}
+
+export interface SurveySummaryOutput {
+  id: bigint;
+  creator: string;
+  contentHash: string;
+  startTime: bigint;
+  endTime: bigint;
+  status: bigint;
+  resultsPublished: boolean;
+  totalResponses: bigint;
+  responsesNeeded: bigint;
+  questionsCount: bigint;
+  organizationId: bigint;
+}
+
+export type SurveyContract = BaseContract & {
+  createSurvey: Send<
+    [
+      contentHash: string,
+      questionConfigs: QuestionConfigStruct[],
+      startTime: BigNumberish,
+      endTime: BigNumberish,
+      minResponses: BigNumberish,
+      eligibilityRoot: string,
+      ticketIssuer: string,
+      segments: string[],
+      organizationId: BigNumberish,
+    ],
+    bigint
+  >;
+  recordTemplate: Send<[surveyId: BigNumberish, template: string]>;
+  submitResponse: Send<
+    [
+      surveyId: BigNumberish,
+      encryptedRatings: string[],
+      encryptedYesNo: string[],
+      encryptedSegment: string,
+      inputProof: string,
+      authorization: ResponseAuthorizationStruct,
+    ]
+  >;
+  reviseResponse: Send<
+    [
+      surveyId: BigNumberish,
+      encryptedRatings: string[],
+      encryptedYesNo: string[],
+      inputProof: string,
+      authorization: RevisionAuthorizationStruct,
+    ]
+  >;
+  closeSurvey: Send<[surveyId: BigNumberish]>;
+  publishResults: Send<[surveyId: BigNumberish]>;
+  requestQuestionAverage: Send<[surveyId: BigNumberish, questionId: BigNumberish]>;
+  requestQuestionHistogram: Send<[surveyId: BigNumberish, questionId: BigNumberish]>;
+  requestSegmentResults: Send<[surveyId: BigNumberish, segment: BigNumberish]>;
+  organizations: View<[], string>;
+  directory: View<[], string>;
+  minResponsesFloor: View<[], bigint>;
+  ticketIssuers: View<[surveyId: BigNumberish], string>;
+  getTotalSurveys: View<[], bigint>;
+  getSurvey: View<[surveyId: BigNumberish], SurveyOutput>;
+  getCurrentSurveyInfo: View<[surveyId: BigNumberish], CurrentSurveyInfoOutput>;
+  getResponsesNeeded: View<[surveyId: BigNumberish], bigint>;
+  getEligibilityRoot: View<[surveyId: BigNumberish], string>;
+  getSurveyOrganization: View<[surveyId: BigNumberish], bigint>;
+  surveyTemplates: View<[surveyId: BigNumberish], string>;
+  getQuestionConfigs: View<[surveyId: BigNumberish], QuestionConfigOutput[]>;
+  getSegments: View<[surveyId: BigNumberish], string[]>;
+  isEligible: View<[surveyId: BigNumberish, account: string, proof: string[]], boolean>;
+  responseNullifier: View<[surveyId: BigNumberish, respondentKey: string], string>;
+  hasResponded: View<[surveyId: BigNumberish, nullifier: string], boolean>;
+  getRevisionCount: View<[surveyId: BigNumberish, nullifier: string], bigint>;
+  getAnswers: View<[surveyId: BigNumberish, nullifier: string], string[]>;
+  getQuestionResult: View<[surveyId: BigNumberish, questionId: BigNumberish], QuestionResultOutput>;
+  getQuestionHistogram: View<[surveyId: BigNumberish, questionId: BigNumberish], QuestionHistogramOutput>;
+  getSegmentResults: View<[surveyId: BigNumberish, segment: BigNumberish], SegmentResultsOutput>;
+};
+
+export type DirectoryContract = BaseContract & {
+  listSurveys: View<
+    [creator: string, status: BigNumberish, offset: BigNumberish, limit: BigNumberish],
+    [page: SurveySummaryOutput[], more: boolean]
+  >;
+  multicall: View<[calls: string[]], string[]>;
+};
+
+export type OrganizationContract = BaseContract & {
+  createOrganization: Send<[name: string], bigint>;
+  grantRole: Send<[organizationId: BigNumberish, role: BigNumberish, account: string]>;
+  revokeRole: Send<[organizationId: BigNumberish, role: BigNumberish, account: string]>;
+  organizationCounter: View<[], bigint>;
+  getOrganization: View<[organizationId: BigNumberish], [name: string, memberCount: bigint]>;
+  getRoles: View<[organizationId: BigNumberish, account: string], bigint>;
+  getMembers: View<[organizationId: BigNumberish], [members: string[], roles: bigint[]]>;
+};
+
+export function connectSurvey(address: string, runner: ContractRunner): SurveyContract {
+  return new Contract(address, surveyAbi, runner) as unknown as SurveyContract;
+}
+
+export function connectDirectory(address: string, runner: ContractRunner): DirectoryContract {
+  return new Contract(address, directoryAbi, runner) as unknown as DirectoryContract;
+}
+
+export function connectOrganizations(address: string, runner: ContractRunner): OrganizationContract {
+  return new Contract(address, organizationAbi, runner) as unknown as OrganizationContract;
+}
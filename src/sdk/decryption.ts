@@ -0,0 +1,65 @@
+import type { Signer, TypedDataDomain, TypedDataField } from "ethers";
+
+/** EIP-712 request a user signs to have values re-encrypted for their keypair */
+export interface UserDecryptRequest {
+  domain: TypedDataDomain;
+  types: Record<string, TypedDataField[]>;
+  message: Record<string, unknown>;
+}
+
+/**
+ * The parts of an FHEVM instance used for user decryption. Both the Hardhat plugin's `fhevm` and
+ * the browser relayer SDK provide them.
+ */
+export interface FhevmDecryptor {
+  generateKeypair(): { publicKey: string; privateKey: string };
+  createEIP712(
+    publicKey: string,
+    contractAddresses: string[],
+    startTimestamp: string | number,
+    durationDays: string | number,
+  ): UserDecryptRequest;
+  userDecrypt(
+    handles: { handle: string; contractAddress: string }[],
+    privateKey: string,
+    publicKey: string,
+    signature: string,
+    contractAddresses: string[],
+    userAddress: string,
+    startTimestamp: string | number,
+    durationDays: string | number,
+  ): Promise<Record<string, bigint | boolean | string>>;
+}
+
+/**
+ * Decrypts handles the ACL allows `user` to read: generates a throwaway keypair, has `user` sign the
+ * request for it and returns the cleartexts in handle order. Nothing is sent on chain.
+ */
+export async function userDecrypt(
+  fhevm: FhevmDecryptor,
+  user: Signer,
+  contractAddress: string,
+  handles: string[],
+): Promise<(bigint | boolean | string)[]> {
+  const { publicKey, privateKey } = fhevm.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000);
+  const durationDays = 1;
+  const request = fhevm.createEIP712(publicKey, [contractAddress], startTimestamp, durationDays);
+  const signature = await user.signTypedData(
+    request.domain,
+    { UserDecryptRequestVerification: request.types.UserDecryptRequestVerification },
+    request.message,
+  );
+
+  const values = await fhevm.userDecrypt(
+    handles.map((handle) => ({ handle, contractAddress })),
+    privateKey,
+    publicKey,
+    signature.replace("0x", ""),
+    [contractAddress],
+    await user.getAddress(),
+    startTimestamp,
+    durationDays,
+  );
+  return handles.map((handle) => values[handle]);
+}
@@ -0,0 +1,323 @@
+import { isHexString, ZeroHash } from "ethers";
+
+import { describeQuestion } from "./questions";
+import { DEFAULT_LANGUAGE, languageTagProblem, parseTranslations } from "./translations";
+import {
+  type NewSurvey,
+  type QuestionConfig,
+  QuestionType,
+  type SurveyQuestion,
+  type SurveyTranslation,
+} from "./types";
+
+/** The contract keeps one encrypted counter per answer value, at most this many per question */
+export const MAX_ANSWER_BUCKETS = 11;
+
+/** Most segments a survey may declare; each response updates every segment's encrypted totals */
+export const MAX_SEGMENTS = 8;
+
+/**
+ * Most FHE work one response may need, in answer buckets (see responseCost). The contract refuses larger
+ * surveys, whose revisions would go over the FHE work one transaction may do, e.g. 7 five-star questions
+ */
+export const MAX_RESPONSE_COST = 42;
+
+/** Largest value an encrypted euint8 answer can hold */
+const MAX_ANSWER_VALUE = 255;
+
+/**
+ * Survey definition as written in a JSON or YAML file. A question is either its text
+ * (a 1-5 rating) or an object with `type: scale` and a `min`/`max` range, or `type: yesno`.
+ *
+ *   title: Quarterly Pulse
+ *   description: Short pulse survey
+ *   durationDays: 14
+ *   startTime: 2026-11-02T09:00:00Z   # optional, opens straight away otherwise
+ *   endTime: 2026-11-02T17:00:00Z     # optional, instead of durationDays
+ *   minResponses: 5
+ *   eligibilityRoot: "0x..."   # optional, from build-roster-tree
+ *   segments: [Engineering, Sales, Support]   # optional, respondents pick one
+ *   organizationId: 1          # optional, an organisation you are an author of
+ *   questions:
+ *     - How satisfied are you with your role?
+ *     - { text: How likely are you to recommend us?, type: scale, min: 0, max: 10 }
+ *     - { text: Do you feel valued?, type: yesno }
+ *   language: en               # optional, the language of the texts above
+ *   translations:              # optional, the same texts in other languages
+ *     es:
+ *       title: Pulso trimestral
+ *       description: Encuesta breve
+ *       questions: [¿Qué tan satisfecho estás con tu puesto?, ¿Qué tan probable es que nos recomiendes?, ¿Te sientes valorado?]
+ *
+ * A file holds one such survey, a list of them, or `{ surveys: [...] }`.
+ */
+export interface SurveyDefinition {
+  title: string;
+  description: string;
+  durationDays?: number;
+  /** ISO 8601 date-time; YAML timestamps arrive as dates */
+  startTime?: string | Date;
+  endTime?: string | Date;
+  minResponses: number;
+  eligibilityRoot?: string;
+  segments?: string[];
+  organizationId?: number;
+  questions: (string | QuestionDefinition)[];
+  language?: string;
+  translations?: Record<string, SurveyTranslation>;
+}
+
+export interface QuestionDefinition {
+  text: string;
+  type?: "scale" | "yesno";
+  min?: number;
+  max?: number;
+}
+
+const SURVEY_KEYS = [
+  "title",
+  "description",
+  "durationDays",
+  "startTime",
+  "endTime",
+  "minResponses",
+  "eligibilityRoot",
+  "segments",
+  "organizationId",
+  "questions",
+  "language",
+  "translations",
+];
+const QUESTION_KEYS = ["text", "type", "min", "max"];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isPositiveInteger(value: unknown): value is number {
+  return typeof value === "number" && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Date of a startTime/endTime field, undefined when it is missing or invalid
+ */
+function parseDate(raw: Record<string, unknown>, key: string, path: string, problems: string[]): Date | undefined {
+  const value = raw[key];
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = value instanceof Date ? value : typeof value === "string" ? new Date(value) : null;
+  if (!date || Number.isNaN(date.getTime())) {
+    problems.push(`${path}.${key}: must be an ISO 8601 date-time`);
+    return undefined;
+  }
+  return date;
+}
+
+function unknownKeys(value: Record<string, unknown>, allowed: string[], path: string, problems: string[]) {
+  for (const key of Object.keys(value)) {
+    if (!allowed.includes(key)) {
+      problems.push(`${path}.${key}: unknown field`);
+    }
+  }
+}
+
+function parseQuestion(raw: unknown, path: string, problems: string[]): SurveyQuestion | null {
+  if (typeof raw === "string") {
+    return parseQuestion({ text: raw }, path, problems);
+  }
+  if (!isRecord(raw)) {
+    problems.push(`${path}: must be the question text or an object with a text field`);
+    return null;
+  }
+  unknownKeys(raw, QUESTION_KEYS, path, problems);
+
+  const text = typeof raw.text === "string" ? raw.text.trim() : "";
+  if (!text) {
+    problems.push(`${path}.text: must be a non-empty string`);
+  }
+
+  const type = raw.type ?? "scale";
+  if (type === "yesno") {
+    if (raw.min !== undefined || raw.max !== undefined) {
+      problems.push(`${path}: yes/no questions take no min or max`);
+    }
+    return { text, questionType: QuestionType.YesNo, minValue: 0, maxValue: 1 };
+  }
+  if (type !== "scale") {
+    problems.push(`${path}.type: must be "scale" or "yesno"`);
+    return null;
+  }
+
+  const min = raw.min ?? 1;
+  const max = raw.max ?? 5;
+  const valid = (value: unknown): value is number =>
+    typeof value === "number" && Number.isInteger(value) && value >= 0 && value <= MAX_ANSWER_VALUE;
+  if (!valid(min) || !valid(max)) {
+    problems.push(`${path}: min and max must be whole numbers between 0 and ${MAX_ANSWER_VALUE}`);
+    return null;
+  }
+  if (min >= max || max - min >= MAX_ANSWER_BUCKETS) {
+    problems.push(`${path}: scale ${min}-${max} must go up and have at most ${MAX_ANSWER_BUCKETS} values`);
+    return null;
+  }
+  return { text, questionType: QuestionType.Scale, minValue: min, maxValue: max };
+}
+
+function parseSurvey(raw: unknown, path: string, problems: string[]): NewSurvey | null {
+  if (!isRecord(raw)) {
+    problems.push(`${path}: must be an object`);
+    return null;
+  }
+  unknownKeys(raw, SURVEY_KEYS, path, problems);
+
+  const title = typeof raw.title === "string" ? raw.title.trim() : "";
+  if (!title) {
+    problems.push(`${path}.title: must be a non-empty string`);
+  }
+  const description = raw.description ?? "";
+  if (typeof description !== "string") {
+    problems.push(`${path}.description: must be a string`);
+  }
+  const startTime = parseDate(raw, "startTime", path, problems);
+  const endTime = parseDate(raw, "endTime", path, problems);
+  if (raw.endTime !== undefined && raw.durationDays !== undefined) {
+    problems.push(`${path}: give endTime or durationDays, not both`);
+  } else if (raw.endTime === undefined && !isPositiveInteger(raw.durationDays)) {
+    problems.push(`${path}.durationDays: must be a positive whole number`);
+  }
+  if (startTime && endTime && endTime <= startTime) {
+    problems.push(`${path}.endTime: must be after startTime`);
+  }
+  if (!isPositiveInteger(raw.minResponses)) {
+    problems.push(`${path}.minResponses: must be a positive whole number`);
+  }
+
+  const { eligibilityRoot } = raw;
+  if (eligibilityRoot !== undefined && (!isHexString(eligibilityRoot, 32) || eligibilityRoot === ZeroHash)) {
+    problems.push(`${path}.eligibilityRoot: must be a non-zero 32-byte hex root`);
+  }
+
+  const { segments } = raw;
+  if (segments !== undefined) {
+    const labels = Array.isArray(segments) ? segments : [];
+    if (labels.length < 2 || labels.length > MAX_SEGMENTS) {
+      problems.push(`${path}.segments: must list between 2 and ${MAX_SEGMENTS} labels`);
+    } else if (!labels.every((label) => typeof label === "string" && label.trim())) {
+      problems.push(`${path}.segments: labels must be non-empty strings`);
+    } else if (new Set(labels.map((label: string) => label.trim())).size !== labels.length) {
+      problems.push(`${path}.segments: labels must be unique`);
+    }
+  }
+
+  const { organizationId } = raw;
+  if (
+    organizationId !== undefined &&
+    !(typeof organizationId === "number" && Number.isInteger(organizationId) && organizationId > 0)
+  ) {
+    problems.push(`${path}.organizationId: must be a positive organisation id`);
+  }
+
+  let questions: SurveyQuestion[] = [];
+  if (!Array.isArray(raw.questions) || raw.questions.length === 0) {
+    problems.push(`${path}.questions: must list at least one question`);
+  } else {
+    questions = raw.questions
+      .map((question, index) => parseQuestion(question, `${path}.questions[${index}]`, problems))
+      .filter((question): question is SurveyQuestion => question !== null);
+  }
+
+  const { language = DEFAULT_LANGUAGE } = raw;
+  const languageProblem = languageTagProblem(language, `${path}.language`);
+  if (languageProblem) {
+    problems.push(languageProblem);
+  }
+  const cost = responseCost(questions, Array.isArray(segments) ? segments.length : 0);
+  if (cost > MAX_RESPONSE_COST) {
+    problems.push(
+      `${path}.questions: answers cost ${cost} buckets, more than the ${MAX_RESPONSE_COST} one transaction can encrypt; ` +
+        "use fewer or narrower questions, or fewer segments",
+    );
+  }
+
+  const translations =
+    raw.translations === undefined
+      ? undefined
+      : parseTranslations(raw.translations, String(language), questions.length, `${path}.translations`, problems);
+
+  return {
+    title,
+    description: String(description),
+    questions,
+    ...(raw.durationDays !== undefined && { durationDays: raw.durationDays as number }),
+    ...(startTime && { startTime }),
+    ...(endTime && { endTime }),
+    minResponses: raw.minResponses as number,
+    ...(eligibilityRoot !== undefined && { eligibilityRoot: eligibilityRoot as string }),
+    ...(Array.isArray(segments) && { segments: segments.map((label) => String(label).trim()) }),
+    ...(organizationId !== undefined && { organizationId: organizationId as number }),
+    ...(raw.language !== undefined && { language: language as string }),
+    ...(translations && { translations }),
+  };
+}
+
+/**
+ * FHE work a response to the questions needs, in answer buckets: a scale question counts its buckets
+ * plus one, a yes/no question two, and each segment one more per question. At most MAX_RESPONSE_COST.
+ */
+export function responseCost(questions: QuestionConfig[], segments = 0): number {
+  const answers = questions.reduce(
+    (sum, question) =>
+      sum + (question.questionType === QuestionType.YesNo ? 2 : question.maxValue - question.minValue + 2),
+    0,
+  );
+  return answers + segments * questions.length;
+}
+
+/**
+ * Validates parsed JSON/YAML against everything createSurvey checks on chain (except the
+ * owner-configurable response floor) and returns the surveys to create. Throws one error
+ * listing every problem, so a batch is either fully valid or nothing is sent.
+ */
+export function parseSurveyDefinitions(data: unknown): NewSurvey[] {
+  const problems: string[] = [];
+  let entries: unknown[];
+  let prefix: string;
+  if (Array.isArray(data)) {
+    [entries, prefix] = [data, ""];
+  } else if (isRecord(data) && "surveys" in data) {
+    unknownKeys(data, ["surveys"], "", problems);
+    [entries, prefix] = [Array.isArray(data.surveys) ? data.surveys : [], "surveys"];
+  } else {
+    [entries, prefix] = [[data], ""];
+  }
+
+  if (entries.length === 0) {
+    problems.push(`${prefix || "file"}: must contain at least one survey`);
+  }
+  const surveys = entries.map((entry, index) =>
+    parseSurvey(entry, entries.length === 1 && !prefix ? "survey" : `${prefix}[${index}]`, problems),
+  );
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid survey definition:\n${problems.map((problem) => `  - ${problem}`).join("\n")}`);
+  }
+  return surveys as NewSurvey[];
+}
+
+/**
+ * One-line summary of a survey definition, e.g. for a dry run
+ */
+export function describeSurvey(survey: NewSurvey): string {
+  const formats = survey.questions.map((question) => describeQuestion(question)).join(", ");
+  const audience = survey.eligibilityRoot ? ", invited employees only" : "";
+  const segments = survey.segments?.length ? `, segments: ${survey.segments.join(", ")}` : "";
+  const organization = survey.organizationId ? `, organisation ${survey.organizationId}` : "";
+  const template = survey.template ? `, template ${survey.template}` : "";
+  const languages = survey.translations
+    ? `, in ${[survey.language ?? DEFAULT_LANGUAGE, ...Object.keys(survey.translations)].join(", ")}`
+    : "";
+  const length = survey.endTime ? `until ${survey.endTime.toISOString()}` : `${survey.durationDays} day(s)`;
+  const schedule = survey.startTime ? `opens ${survey.startTime.toISOString()}, ${length}` : length;
+  return `"${survey.title}" - ${survey.questions.length} question(s) [${formats}], ${schedule}, results after ${survey.minResponses} responses${audience}${segments}${organization}${template}${languages}`;
+}
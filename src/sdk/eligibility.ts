@@ -0,0 +1,181 @@
+import { AbiCoder, concat, getAddress, isAddress, keccak256 } from "ethers";
+
+/**
+ * @title Survey eligibility rosters
+ * @notice Merkle trees of invited respondent addresses, hashed the way the contract verifies them:
+ * leaves are keccak256(keccak256(abi.encode(address))) and pairs are hashed in sorted order
+ */
+
+/** A roster row: the employee's wallet plus whatever else the CSV had on that line */
+export interface RosterEntry {
+  address: string;
+  /** 1-based line in the CSV, for error messages */
+  line: number;
+  fields: Record<string, string>;
+}
+
+export interface EligibilityTree {
+  root: string;
+  /** Checksummed addresses in leaf order */
+  addresses: string[];
+  /** Every level of the tree, leaves first and the root last */
+  layers: string[][];
+}
+
+/** What one employee needs to respond: the file written per address and loaded by the web app */
+export interface EligibilityProof {
+  root: string;
+  address: string;
+  proof: string[];
+}
+
+const ADDRESS_COLUMNS = ["wallet", "address", "wallet_address"];
+
+/**
+ * Splits CSV text into rows, honouring double-quoted fields
+ */
+function parseCsvRows(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") {
+        i++;
+      }
+      rows.push([...row, field]);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    rows.push([...row, field]);
+  }
+  return rows;
+}
+
+/**
+ * Reads an HR roster CSV. The header must have a `wallet` or `address` column; other columns
+ * are kept as they are. Throws one error listing every invalid or duplicate address.
+ */
+export function parseRoster(content: string): RosterEntry[] {
+  const rows = parseCsvRows(content);
+  const header = (rows[0] ?? []).map((name) => name.trim().toLowerCase());
+  const addressColumn = header.findIndex((name) => ADDRESS_COLUMNS.includes(name));
+  if (addressColumn === -1) {
+    throw new Error(`Roster header needs one of these columns: ${ADDRESS_COLUMNS.join(", ")}`);
+  }
+
+  const problems: string[] = [];
+  const seen = new Map<string, number>();
+  const entries: RosterEntry[] = [];
+  rows.slice(1).forEach((cells, index) => {
+    const line = index + 2;
+    if (cells.every((cell) => cell.trim() === "")) {
+      return;
+    }
+    const raw = (cells[addressColumn] ?? "").trim();
+    const lowercase = raw.toLowerCase();
+    if (!isAddress(raw)) {
+      const reason = isAddress(lowercase) ? "has a wrong checksum" : "is not an address";
+      problems.push(`line ${line}: "${raw}" ${reason}`);
+      return;
+    }
+    const address = getAddress(raw);
+    const previous = seen.get(address);
+    if (previous !== undefined) {
+      problems.push(`line ${line}: ${address} is already listed on line ${previous}`);
+      return;
+    }
+    seen.set(address, line);
+    const fields = Object.fromEntries(header.map((name, column) => [name, (cells[column] ?? "").trim()]));
+    entries.push({ address, line, fields });
+  });
+
+  if (entries.length === 0 && problems.length === 0) {
+    problems.push("roster lists no employees");
+  }
+  if (problems.length > 0) {
+    throw new Error(`Invalid roster:\n${problems.map((problem) => `  - ${problem}`).join("\n")}`);
+  }
+  return entries;
+}
+
+export function eligibilityLeaf(address: string): string {
+  return keccak256(keccak256(AbiCoder.defaultAbiCoder().encode(["address"], [address])));
+}
+
+function hashPair(a: string, b: string): string {
+  return BigInt(a) < BigInt(b) ? keccak256(concat([a, b])) : keccak256(concat([b, a]));
+}
+
+/**
+ * Builds the tree for a list of addresses. Leaves are sorted so the same roster always gives the
+ * same root; an odd node at the end of a level moves up unchanged.
+ */
+export function buildEligibilityTree(addresses: string[]): EligibilityTree {
+  if (addresses.length === 0) {
+    throw new Error("Cannot build an eligibility tree without addresses");
+  }
+  const leaves = addresses
+    .map((address) => ({ address: getAddress(address), leaf: eligibilityLeaf(address) }))
+    .sort((a, b) => (BigInt(a.leaf) < BigInt(b.leaf) ? -1 : 1));
+
+  const layers = [leaves.map((entry) => entry.leaf)];
+  while (layers[layers.length - 1].length > 1) {
+    const level = layers[layers.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < level.length; i += 2) {
+      next.push(i + 1 < level.length ? hashPair(level[i], level[i + 1]) : level[i]);
+    }
+    layers.push(next);
+  }
+
+  return { root: layers[layers.length - 1][0], addresses: leaves.map((entry) => entry.address), layers };
+}
+
+/**
+ * Proof for one address of the tree, or null when it is not on the roster
+ */
+export function eligibilityProof(tree: EligibilityTree, address: string): EligibilityProof | null {
+  const checksummed = getAddress(address);
+  let index = tree.addresses.indexOf(checksummed);
+  if (index === -1) {
+    return null;
+  }
+  const proof: string[] = [];
+  for (const level of tree.layers.slice(0, -1)) {
+    const sibling = index % 2 === 0 ? index + 1 : index - 1;
+    if (sibling < level.length) {
+      proof.push(level[sibling]);
+    }
+    index = Math.floor(index / 2);
+  }
+  return { root: tree.root, address: checksummed, proof };
+}
+
+/**
+ * Checks a proof the same way submitResponse does, so a bad proof fails before any transaction
+ */
+export function verifyEligibilityProof(root: string, address: string, proof: string[]): boolean {
+  const computed = proof.reduce((node, sibling) => hashPair(node, sibling), eligibilityLeaf(address));
+  return computed.toLowerCase() === root.toLowerCase();
+}
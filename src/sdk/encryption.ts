@@ -0,0 +1,72 @@
+import { assertValidAnswer } from "./questions";
+import type { Answer, QuestionConfig } from "./types";
+
+/** Ciphertext handles plus the proof that binds them to a contract and user */
+export interface EncryptedInput {
+  handles: Uint8Array[];
+  inputProof: Uint8Array;
+}
+
+/**
+ * The part of an FHEVM encrypted input builder the SDK needs. Both the Hardhat
+ * plugin's `fhevm.createEncryptedInput()` and the browser relayer SDK return one.
+ */
+export interface EncryptedInputBuilder {
+  add8(value: number | bigint): unknown;
+  addBool(value: boolean): unknown;
+  encrypt(): Promise<EncryptedInput>;
+}
+
+/** Anything that can start an encrypted input, e.g. `hre.fhevm` or a relayer SDK instance */
+export interface FhevmEncryptor {
+  createEncryptedInput(contractAddress: string, userAddress: string): EncryptedInputBuilder;
+}
+
+/** submitResponse arguments: scale and yes/no handles go in separate arrays */
+export interface EncryptedAnswers {
+  ratingHandles: Uint8Array[];
+  yesNoHandles: Uint8Array[];
+  /** Encrypted segment index, absent when the survey has no segments */
+  segmentHandle?: Uint8Array;
+  inputProof: Uint8Array;
+}
+
+/**
+ * Encrypts one answer per question locally, so only ciphertext handles and the
+ * input proof ever leave the respondent's machine. For segmented surveys pass the
+ * respondent's segment index as well; it is encrypted after the answers.
+ */
+export async function encryptAnswers(
+  fhevm: FhevmEncryptor,
+  contractAddress: string,
+  userAddress: string,
+  configs: QuestionConfig[],
+  answers: Answer[],
+  segment?: number,
+): Promise<EncryptedAnswers> {
+  if (answers.length !== configs.length) {
+    throw new Error(`Survey has ${configs.length} questions, got ${answers.length} answers`);
+  }
+  answers.forEach((answer, index) => assertValidAnswer(answer, configs[index], index + 1));
+
+  const input = fhevm.createEncryptedInput(contractAddress, userAddress);
+  for (const answer of answers) {
+    if (typeof answer === "boolean") {
+      input.addBool(answer);
+    } else {
+      input.add8(answer);
+    }
+  }
+  if (segment !== undefined) {
+    input.add8(segment);
+  }
+  const encrypted = await input.encrypt();
+
+  // Handles come back in question order
+  return {
+    ratingHandles: encrypted.handles.filter((_, index) => typeof answers[index] === "number"),
+    yesNoHandles: encrypted.handles.filter((_, index) => typeof answers[index] === "boolean"),
+    ...(segment !== undefined && { segmentHandle: encrypted.handles[answers.length] }),
+    inputProof: encrypted.inputProof,
+  };
+}
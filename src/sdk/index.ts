@@ -0,0 +1,96 @@
+/**
+ * @title EmployeePrivacySurvey SDK
+ * @notice Typed client for the survey contract, shared by the Hardhat tasks and the web app
+ *
+ * Usage:
+ *   const client = SurveyClient.connect(address, signer, new HttpContentStore(contentUrl));
+ *   const surveyId = await client.createSurvey({ title, description, questions, durationDays: 7, minResponses: 5 });
+ *   await client.relayResponse(surveyId, [4, true], fhevm, new RelayerClient(relayerUrl));
+ */
+export { SurveyClient } from "./client";
+export type { Invitation, RevealOptions, ViewCall } from "./client";
+export { directoryAbi, organizationAbi, surveyAbi } from "./contracts";
+export {
+  contentHash,
+  contentLanguages,
+  contentQuestions,
+  encodeSurveyContent,
+  fetchSurveyContent,
+  HttpContentStore,
+  localizeContent,
+  MemoryContentStore,
+  newSurveyContent,
+  parseSurveyContent,
+  verifySurveyContent,
+} from "./content";
+export type { ContentStore, LocalizedContent, SurveyContent } from "./content";
+export {
+  describeSurvey,
+  MAX_ANSWER_BUCKETS,
+  MAX_RESPONSE_COST,
+  MAX_SEGMENTS,
+  parseSurveyDefinitions,
+  responseCost,
+} from "./definition";
+export type { QuestionDefinition, SurveyDefinition } from "./definition";
+export {
+  buildEligibilityTree,
+  eligibilityLeaf,
+  eligibilityProof,
+  parseRoster,
+  verifyEligibilityProof,
+} from "./eligibility";
+export type { EligibilityProof, EligibilityTree, RosterEntry } from "./eligibility";
+export { userDecrypt } from "./decryption";
+export type { FhevmDecryptor, UserDecryptRequest } from "./decryption";
+export { encryptAnswers } from "./encryption";
+export type { EncryptedAnswers, EncryptedInput, EncryptedInputBuilder, FhevmEncryptor } from "./encryption";
+export { OrganizationClient, rolesFromBits } from "./organizations";
+export { DEFAULT_LANGUAGE, languageTagProblem, matchLanguage } from "./translations";
+export { RelayerClient } from "./relayer";
+export { decodeTemplateRef, encodeTemplateRef, parseSurveyTemplate, renderTemplate, templateRef } from "./templates";
+export type { SurveyTemplate, TemplateParameter, TemplateValues } from "./templates";
+export type { RelayerInfo, RelayReceipt } from "./relayer";
+export {
+  deriveRespondentKey,
+  recoverResponseSigner,
+  recoverRevisionSigner,
+  RESPONSE_TYPES,
+  responseDomain,
+  responseNullifier,
+  respondentKeyMessage,
+  REVISION_TYPES,
+  signResponse,
+  signRevision,
+} from "./signing";
+export type { SignedResponse, SignedRevision } from "./signing";
+export {
+  blindTicket,
+  TICKET_BYTES,
+  TICKET_EXPONENT,
+  ticketMessage,
+  ticketRequestMessage,
+  unblindTicket,
+  verifyTicket,
+} from "./tickets";
+export type { BlindedTicket, IssuedTicket, TicketKey, TicketRequest } from "./tickets";
+export { answerValues, assertValidAnswer, describeQuestion, FIVE_STAR_RATING, parseAnswer, YES_NO } from "./questions";
+export { OrganizationRole, QuestionType, SurveyListStatus, SurveyStatus } from "./types";
+export type {
+  Answer,
+  NewSurvey,
+  OrganizationInfo,
+  OrganizationMember,
+  OrganizationMembership,
+  QuestionConfig,
+  QuestionHistogram,
+  QuestionResult,
+  SegmentResult,
+  SurveyDetails,
+  SurveyInfo,
+  SurveyListFilter,
+  SurveyPage,
+  SurveyQuestion,
+  SurveySummary,
+  SurveyTranslation,
+} from "./types";
@@ -0,0 +1,105 @@
+import type { ContractRunner, ContractTransactionReceipt, ContractTransactionResponse } from "ethers";
+
+import { connectOrganizations, type OrganizationContract } from "./contracts";
+import { type OrganizationInfo, type OrganizationMember, type OrganizationMembership, OrganizationRole } from "./types";
+
+/** Roles held in the registry's bitmask (bit 1 << role per role), in enum order */
+export function rolesFromBits(bits: number | bigint): OrganizationRole[] {
+  return Object.values(OrganizationRole).filter((role) => (Number(bits) & (1 << role)) !== 0);
+}
+
+/**
+ * @title OrganizationClient
+ * @notice Typed wrapper around the OrganizationRegistry a survey contract checks authors and analysts
+ * against. Get one from `SurveyClient.organizations()`, or connect to the registry address directly.
+ * @dev Methods that send transactions wait for them to be mined and throw if they revert
+ */
+export class OrganizationClient {
+  readonly contract: OrganizationContract;
+
+  private constructor(contract: OrganizationContract) {
+    this.contract = contract;
+  }
+
+  static connect(address: string, runner: ContractRunner): OrganizationClient {
+    return new OrganizationClient(connectOrganizations(address, runner));
+  }
+
+  get address(): string {
+    return this.contract.target as string;
+  }
+
+  /**
+   * Creates an organisation with the signer as its first admin and returns the id from its OrganizationCreated event
+   */
+  async createOrganization(name: string): Promise<bigint> {
+    const receipt = await this.send(this.contract.createOrganization(name));
+    for (const log of receipt.logs) {
+      const parsed = this.contract.interface.parseLog(log);
+      if (parsed?.name === "OrganizationCreated") {
+        return parsed.args.organizationId as bigint;
+      }
+    }
+    throw new Error(`No OrganizationCreated event in transaction ${receipt.hash}`);
+  }
+
+  async grantRole(
+    organizationId: bigint | number,
+    role: OrganizationRole,
+    account: string,
+  ): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.grantRole(organizationId, role, account));
+  }
+
+  async revokeRole(
+    organizationId: bigint | number,
+    role: OrganizationRole,
+    account: string,
+  ): Promise<ContractTransactionReceipt> {
+    return this.send(this.contract.revokeRole(organizationId, role, account));
+  }
+
+  async getTotalOrganizations(): Promise<number> {
+    return Number(await this.contract.organizationCounter());
+  }
+
+  async getOrganization(organizationId: bigint | number): Promise<OrganizationInfo> {
+    const [name, memberCount] = await this.contract.getOrganization(organizationId);
+    return { id: BigInt(organizationId), name, memberCount: Number(memberCount) };
+  }
+
+  /** Roles the account holds in the organisation, empty for non-members */
+  async getRoles(organizationId: bigint | number, account: string): Promise<OrganizationRole[]> {
+    return rolesFromBits(await this.contract.getRoles(organizationId, account));
+  }
+
+  async getMembers(organizationId: bigint | number): Promise<OrganizationMember[]> {
+    const [accounts, roles] = await this.contract.getMembers(organizationId);
+    return accounts.map((account, index) => ({ account, roles: rolesFromBits(roles[index]) }));
+  }
+
+  /**
+   * Every organisation the account holds a role in, with those roles. Reads each organisation in
+   * turn, so it suits the handful a deployment usually has.
+   */
+  async getMemberships(account: string): Promise<OrganizationMembership[]> {
+    const total = await this.getTotalOrganizations();
+    const memberships: OrganizationMembership[] = [];
+    for (let id = 1; id <= total; id++) {
+      const roles = await this.getRoles(id, account);
+      if (roles.length > 0) {
+        memberships.push({ ...(await this.getOrganization(id)), roles });
+      }
+    }
+    return memberships;
+  }
+
+  private async send(pending: Promise<ContractTransactionResponse>): Promise<ContractTransactionReceipt> {
+    const tx = await pending;
+    const receipt = await tx.wait();
+    if (!receipt) {
+      throw new Error(`Transaction ${tx.hash} was not mined`);
+    }
+    return receipt;
+  }
+}
@@ -0,0 +1,73 @@
+import { type Answer, type QuestionConfig, QuestionType } from "./types";
+
+/**
+ * Config of the classic 1-5 star rating question
+ */
+export const FIVE_STAR_RATING: QuestionConfig = { questionType: QuestionType.Scale, minValue: 1, maxValue: 5 };
+
+/**
+ * Config of a yes/no question; the contract always stores it as 0 (no) to 1 (yes)
+ */
+export const YES_NO: QuestionConfig = { questionType: QuestionType.YesNo, minValue: 0, maxValue: 1 };
+
+/**
+ * Human-readable answer format of a question, e.g. "scale 0-10" or "yes/no"
+ */
+export function describeQuestion(config: QuestionConfig): string {
+  return config.questionType === QuestionType.YesNo ? "yes/no" : `scale ${config.minValue}-${config.maxValue}`;
+}
+
+/**
+ * Every answer value a question accepts, lowest first
+ */
+export function answerValues(config: QuestionConfig): number[] {
+  const values: number[] = [];
+  for (let value = config.minValue; value <= config.maxValue; value++) {
+    values.push(value);
+  }
+  return values;
+}
+
+/**
+ * Throws unless the answer is one the question can take. The contract clamps
+ * out-of-range values instead of reverting, so this is the only place a typo is caught.
+ */
+export function assertValidAnswer(answer: Answer, config: QuestionConfig, questionNumber: number): void {
+  if (config.questionType === QuestionType.YesNo) {
+    if (typeof answer !== "boolean") {
+      throw new Error(`Question ${questionNumber} expects yes or no, got ${answer}`);
+    }
+    return;
+  }
+
+  if (
+    typeof answer !== "number" ||
+    !Number.isInteger(answer) ||
+    answer < config.minValue ||
+    answer > config.maxValue
+  ) {
+    throw new Error(`Question ${questionNumber} expects a whole number on a ${describeQuestion(config)}, got ${answer}`);
+  }
+}
+
+/**
+ * Parses a typed-in answer such as "4" or "yes" for a question
+ */
+export function parseAnswer(raw: string, config: QuestionConfig, questionNumber: number): Answer {
+  const value = raw.trim().toLowerCase();
+  let answer: Answer;
+  if (config.questionType === QuestionType.YesNo) {
+    if (["yes", "y", "true", "1"].includes(value)) {
+      answer = true;
+    } else if (["no", "n", "false", "0"].includes(value)) {
+      answer = false;
+    } else {
+      throw new Error(`Question ${questionNumber} expects yes or no, got "${raw}"`);
+    }
+  } else {
+    answer = value === "" ? NaN : Number(value);
+  }
+
+  assertValidAnswer(answer, config, questionNumber);
+  return answer;
+}
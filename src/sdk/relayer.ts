@@ -0,0 +1,89 @@
+import type { SignedResponse, SignedRevision } from "./signing";
+import type { IssuedTicket, TicketKey, TicketRequest } from "./tickets";
+
+/** What a relayer reports about itself at GET /info */
+export interface RelayerInfo {
+  /** Survey contract it submits to */
+  contract: string;
+  chainId: string;
+  /** Account that sends the transactions; answers must be encrypted for it */
+  submitter: string;
+}
+
+export interface RelayReceipt {
+  transactionHash: string;
+  blockNumber: number;
+}
+
+/**
+ * @title RelayerClient
+ * @notice HTTP client for a response relayer (`npx hardhat relayer`). Uses fetch only, so it
+ * works in the browser as well as in Node.
+ */
+export class RelayerClient {
+  readonly url: string;
+
+  constructor(url: string) {
+    this.url = url.replace(/\/+$/, "");
+  }
+
+  async info(): Promise<RelayerInfo> {
+    return this.request<RelayerInfo>("/info");
+  }
+
+  /**
+   * Hands a signed response to the relayer and resolves once its transaction is mined
+   */
+  async submit(response: SignedResponse): Promise<RelayReceipt> {
+    return this.request<RelayReceipt>("/responses", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(response),
+    });
+  }
+
+  /**
+   * Hands a signed revision to the relayer and resolves once its transaction is mined
+   */
+  async submitRevision(revision: SignedRevision): Promise<RelayReceipt> {
+    return this.request<RelayReceipt>("/revisions", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(revision),
+    });
+  }
+
+  /**
+   * Asks the relayer's ticket issuer for the key of a new invite-only survey. Resolves to its modulus,
+   * the survey's ticketIssuer.
+   */
+  async createTicketKey(): Promise<string> {
+    const { modulus } = await this.request<TicketKey>("/ticket-keys", { method: "POST" });
+    return modulus;
+  }
+
+  /**
+   * Asks the relayer's ticket issuer to blind-sign a ticket for an invite-only survey
+   */
+  async requestTicket(request: TicketRequest): Promise<IssuedTicket> {
+    return this.request<IssuedTicket>("/tickets", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(request),
+    });
+  }
+
+  private async request<T>(path: string, init?: RequestInit): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.url}${path}`, init);
+    } catch (error) {
+      throw new Error(`Relayer at ${this.url} is unreachable: ${(error as Error).message}`);
+    }
+    const body = (await response.json().catch(() => null)) as (T & { error?: string }) | null;
+    if (!response.ok || body === null) {
+      throw new Error(`Relayer rejected the request: ${body?.error ?? `HTTP ${response.status}`}`);
+    }
+    return body;
+  }
+}
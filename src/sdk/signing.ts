@@ -0,0 +1,252 @@
+import {
+  AbiCoder,
+  hexlify,
+  keccak256,
+  type Signer,
+  type TypedDataDomain,
+  type TypedDataField,
+  verifyTypedData,
+  Wallet,
+  ZeroHash,
+} from "ethers";
+
+import type { EncryptedAnswers } from "./encryption";
+
+/**
+ * @title Signed survey responses
+ * @notice EIP-712 payloads a respondent key signs so a relayer can submit the answers. The key is
+ * derived from a wallet signature for one survey, so neither the signature nor the nullifier the
+ * contract keeps can be matched to the respondent's address.
+ */
+
+/** The Response type the contract hashes, field for field */
+export const RESPONSE_TYPES: Record<string, TypedDataField[]> = {
+  Response: [
+    { name: "surveyId", type: "uint256" },
+    { name: "ratings", type: "bytes32[]" },
+    { name: "yesNo", type: "bytes32[]" },
+    { name: "segment", type: "bytes32" },
+    { name: "inputProof", type: "bytes" },
+  ],
+};
+
+/** Revision type the contract hashes for reviseResponse */
+export const REVISION_TYPES: Record<string, TypedDataField[]> = {
+  Revision: [
+    { name: "surveyId", type: "uint256" },
+    { name: "revision", type: "uint256" },
+    { name: "ratings", type: "bytes32[]" },
+    { name: "yesNo", type: "bytes32[]" },
+    { name: "inputProof", type: "bytes" },
+  ],
+};
+
+/**
+ * A response ready to submit. Values are hex or decimal strings so it can travel as JSON
+ * to a relayer unchanged.
+ */
+export interface SignedResponse {
+  surveyId: string;
+  /** Scale answer handles, in question order */
+  ratings: string[];
+  /** Yes/no answer handles, in question order */
+  yesNo: string[];
+  /** Segment index handle, zero for surveys without segments */
+  segment: string;
+  inputProof: string;
+  /** Nullifier of the respondent key, which the contract checks against the key the signature recovers to */
+  nullifier: string;
+  /** Issuer's ticket for invite-only surveys (see sdk/tickets), "0x" otherwise */
+  ticket: string;
+  signature: string;
+}
+
+/** Replacement answers for an earlier response, ready to submit like a SignedResponse */
+export interface SignedRevision {
+  surveyId: string;
+  ratings: string[];
+  yesNo: string[];
+  inputProof: string;
+  nullifier: string;
+  /** One more than the response's current revision count (see getRevisionCount) */
+  revision: string;
+  signature: string;
+}
+
+export function responseDomain(chainId: bigint | number, contractAddress: string): TypedDataDomain {
+  return { name: "EmployeePrivacySurvey", version: "1", chainId, verifyingContract: contractAddress };
+}
+
+/**
+ * Same value as the contract's responseNullifier: one per respondent key, so one per respondent and survey
+ */
+export function responseNullifier(contractAddress: string, surveyId: bigint | number, respondentKey: string): string {
+  return keccak256(
+    AbiCoder.defaultAbiCoder().encode(["address", "uint256", "address"], [contractAddress, surveyId, respondentKey]),
+  );
+}
+
+function responseValue(response: Omit<SignedResponse, "nullifier" | "ticket" | "signature">) {
+  return {
+    surveyId: response.surveyId,
+    ratings: response.ratings,
+    yesNo: response.yesNo,
+    segment: response.segment,
+    inputProof: response.inputProof,
+  };
+}
+
+function revisionValue(revision: Omit<SignedRevision, "nullifier" | "signature">) {
+  return {
+    surveyId: revision.surveyId,
+    revision: revision.revision,
+    ratings: revision.ratings,
+    yesNo: revision.yesNo,
+    inputProof: revision.inputProof,
+  };
+}
+
+/**
+ * Hex-encodes the encrypted answers and adds the respondent key's nullifier, the part both types share
+ */
+async function unsignedAnswers(
+  respondentKey: Signer,
+  contractAddress: string,
+  surveyId: bigint | number,
+  encrypted: EncryptedAnswers,
+) {
+  const network = await respondentKey.provider?.getNetwork();
+  if (!network) {
+    throw new Error("Respondent key needs a provider to read the chain id");
+  }
+  const answers = {
+    surveyId: surveyId.toString(),
+    ratings: encrypted.ratingHandles.map((handle) => hexlify(handle)),
+    yesNo: encrypted.yesNoHandles.map((handle) => hexlify(handle)),
+    inputProof: hexlify(encrypted.inputProof),
+    nullifier: responseNullifier(contractAddress, surveyId, await respondentKey.getAddress()),
+  };
+  return { answers, domain: responseDomain(network.chainId, contractAddress) };
+}
+
+/**
+ * Signer when it matches the nullifier, null otherwise
+ */
+function matchNullifier(contractAddress: string, surveyId: string, nullifier: string, recover: () => string) {
+  let signer: string;
+  try {
+    signer = recover();
+  } catch {
+    return null;
+  }
+  return responseNullifier(contractAddress, BigInt(surveyId), signer) === nullifier.toLowerCase() ? signer : null;
+}
+
+/**
+ * Signs encrypted answers for a survey with the respondent key (see deriveRespondentKey). Encrypt them
+ * for the account that will submit the transaction (the relayer), since the input proof is checked
+ * against the sender. The contract lets the respondent key decrypt the stored answers.
+ */
+export async function signResponse(
+  respondentKey: Signer,
+  contractAddress: string,
+  surveyId: bigint | number,
+  encrypted: EncryptedAnswers,
+  ticket = "0x",
+): Promise<SignedResponse> {
+  const { answers, domain } = await unsignedAnswers(respondentKey, contractAddress, surveyId, encrypted);
+  const segment = encrypted.segmentHandle ? hexlify(encrypted.segmentHandle) : ZeroHash;
+  const unsigned = { ...answers, segment };
+  const signature = await respondentKey.signTypedData(domain, RESPONSE_TYPES, responseValue(unsigned));
+  return { ...unsigned, ticket, signature };
+}
+
+/**
+ * Signs replacement answers for the respondent key's earlier response. `revision` is one more than the
+ * response's current revision count, so each signed revision can be used only once.
+ */
+export async function signRevision(
+  respondentKey: Signer,
+  contractAddress: string,
+  surveyId: bigint | number,
+  encrypted: EncryptedAnswers,
+  revision: number,
+): Promise<SignedRevision> {
+  const { answers, domain } = await unsignedAnswers(respondentKey, contractAddress, surveyId, encrypted);
+  const unsigned = { ...answers, revision: revision.toString() };
+  const signature = await respondentKey.signTypedData(domain, REVISION_TYPES, revisionValue(unsigned));
+  return { ...unsigned, signature };
+}
+
+/**
+ * Respondent key that signed the response, or null when the signature does not match its nullifier
+ */
+export function recoverResponseSigner(
+  chainId: bigint | number,
+  contractAddress: string,
+  response: SignedResponse,
+): string | null {
+  return matchNullifier(contractAddress, response.surveyId, response.nullifier, () =>
+    verifyTypedData(
+      responseDomain(chainId, contractAddress),
+      RESPONSE_TYPES,
+      responseValue(response),
+      response.signature,
+    ),
+  );
+}
+
+/**
+ * Respondent key that signed the revision, or null when the signature does not match its nullifier
+ */
+export function recoverRevisionSigner(
+  chainId: bigint | number,
+  contractAddress: string,
+  revision: SignedRevision,
+): string | null {
+  return matchNullifier(contractAddress, revision.surveyId, revision.nullifier, () =>
+    verifyTypedData(
+      responseDomain(chainId, contractAddress),
+      REVISION_TYPES,
+      revisionValue(revision),
+      revision.signature,
+    ),
+  );
+}
+
+/**
+ * Text a respondent signs to get their respondent key for a survey
+ */
+export function respondentKeyMessage(
+  chainId: bigint | number,
+  contractAddress: string,
+  surveyId: bigint | number,
+): string {
+  return [
+    "Employee Privacy Survey respondent key",
+    "",
+    "Signing this creates the anonymous key that signs your answers and lets you decrypt them.",
+    "It does not send a transaction.",
+    `Chain: ${chainId}`,
+    `Contract: ${contractAddress}`,
+    `Survey: ${surveyId}`,
+  ].join("\n");
+}
+
+/**
+ * The key that signs the signer's response to one survey, revises it and decrypts it. It is a hash
+ * of the signer's signature over respondentKeyMessage, so nothing on chain links it to their address,
+ * and wallets sign deterministically (RFC 6979), so signing again gives the same key and nullifier back.
+ */
+export async function deriveRespondentKey(
+  signer: Signer,
+  contractAddress: string,
+  surveyId: bigint | number,
+): Promise<Wallet> {
+  const network = await signer.provider?.getNetwork();
+  if (!network) {
+    throw new Error("Signer needs a provider to read the chain id");
+  }
+  const signature = await signer.signMessage(respondentKeyMessage(network.chainId, contractAddress, surveyId));
+  return new Wallet(keccak256(signature), signer.provider);
+}
@@ -0,0 +1,222 @@
+import { decodeBytes32String, encodeBytes32String, ZeroHash } from "ethers";
+
+import { parseSurveyDefinitions } from "./definition";
+import type { NewSurvey } from "./types";
+
+/**
+ * A value a template asks for, e.g. the quarter a survey covers. `{{name}}` in the template's survey
+ * is replaced by it; a field that is only `"{{name}}"` takes a number parameter as a number.
+ */
+export interface TemplateParameter {
+  name: string;
+  label: string;
+  type: "text" | "number";
+  /** Parameters without a default must be given */
+  default?: string | number;
+}
+
+/**
+ * A reusable survey, as stored in templates/<id>.json:
+ *
+ *   {
+ *     "id": "employee-satisfaction",
+ *     "version": 2,
+ *     "name": "Employee Satisfaction",
+ *     "summary": "Quarterly check on ...",
+ *     "parameters": [{ "name": "quarter", "label": "Quarter", "type": "text" }],
+ *     "survey": { "title": "{{quarter}} Employee Satisfaction Survey", ... }
+ *   }
+ *
+ * `survey` is a survey definition (see SurveyDefinition) with placeholders. Bump `version` whenever
+ * the questions change: surveys record the version they were created from, and only results of the
+ * same version are comparable.
+ */
+export interface SurveyTemplate {
+  id: string;
+  version: number;
+  name: string;
+  summary: string;
+  parameters: TemplateParameter[];
+  survey: Record<string, unknown>;
+}
+
+/** Parameter values by name; numbers may be given as strings, e.g. from a form or the command line */
+export type TemplateValues = Record<string, string | number | undefined>;
+
+const TEMPLATE_KEYS = ["id", "version", "name", "summary", "parameters", "survey"];
+const PARAMETER_KEYS = ["name", "label", "type", "default"];
+const PLACEHOLDER = /\{\{\s*([A-Za-z][A-Za-z0-9]*)\s*\}\}/g;
+
+/** Longest "<id>@<version>" reference, so it fits the contract's bytes32 */
+const MAX_REF_LENGTH = 31;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/** Every placeholder name used in a value, however deeply nested */
+function placeholders(value: unknown, found = new Set<string>()): Set<string> {
+  if (typeof value === "string") {
+    for (const match of value.matchAll(PLACEHOLDER)) {
+      found.add(match[1]);
+    }
+  } else if (Array.isArray(value)) {
+    value.forEach((item) => placeholders(item, found));
+  } else if (isRecord(value)) {
+    Object.values(value).forEach((item) => placeholders(item, found));
+  }
+  return found;
+}
+
+function parseParameter(raw: unknown, path: string, problems: string[]): TemplateParameter | null {
+  if (!isRecord(raw)) {
+    problems.push(`${path}: must be an object`);
+    return null;
+  }
+  for (const key of Object.keys(raw).filter((key) => !PARAMETER_KEYS.includes(key))) {
+    problems.push(`${path}.${key}: unknown field`);
+  }
+  const { name, label, type = "text" } = raw;
+  if (typeof name !== "string" || !/^[A-Za-z][A-Za-z0-9]*$/.test(name)) {
+    problems.push(`${path}.name: must be letters and digits, starting with a letter`);
+  }
+  if (type !== "text" && type !== "number") {
+    problems.push(`${path}.type: must be text or number`);
+  }
+  if (raw.default !== undefined && typeof raw.default !== (type === "number" ? "number" : "string")) {
+    problems.push(`${path}.default: must be a ${type === "number" ? "number" : "string"}`);
+  }
+  return {
+    name: String(name),
+    label: typeof label === "string" && label.trim() ? label : String(name),
+    type: type as TemplateParameter["type"],
+    ...(raw.default !== undefined && { default: raw.default as string | number }),
+  };
+}
+
+/**
+ * Validates a parsed template file. Throws one error listing every problem. The survey itself is
+ * only checked once it is rendered, since its placeholders may stand for any field.
+ */
+export function parseSurveyTemplate(data: unknown, source = "template"): SurveyTemplate {
+  const problems: string[] = [];
+  if (!isRecord(data)) {
+    throw new Error(`Invalid ${source}:\n  - template: must be an object`);
+  }
+  for (const key of Object.keys(data).filter((key) => !TEMPLATE_KEYS.includes(key))) {
+    problems.push(`${key}: unknown field`);
+  }
+
+  const { id, version, name, summary = "", survey } = data;
+  if (typeof id !== "string" || !/^[a-z0-9]+(-[a-z0-9]+)*$/.test(id)) {
+    problems.push("id: must be lowercase words joined by hyphens, e.g. employee-satisfaction");
+  }
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    problems.push("version: must be a positive whole number");
+  } else if (`${id}@${version}`.length > MAX_REF_LENGTH) {
+    problems.push(`id: "${id}@${version}" must be at most ${MAX_REF_LENGTH} characters to be stored on chain`);
+  }
+  if (typeof name !== "string" || !name.trim()) {
+    problems.push("name: must be a non-empty string");
+  }
+  if (typeof summary !== "string") {
+    problems.push("summary: must be a string");
+  }
+
+  const rawParameters = data.parameters ?? [];
+  const parameters = Array.isArray(rawParameters)
+    ? rawParameters
+        .map((parameter, index) => parseParameter(parameter, `parameters[${index}]`, problems))
+        .filter((parameter): parameter is TemplateParameter => parameter !== null)
+    : [];
+  if (!Array.isArray(rawParameters)) {
+    problems.push("parameters: must be a list");
+  }
+  const names = parameters.map((parameter) => parameter.name);
+  if (new Set(names).size !== names.length) {
+    problems.push("parameters: names must be unique");
+  }
+
+  if (!isRecord(survey)) {
+    problems.push("survey: must be a survey definition");
+  } else {
+    for (const placeholder of placeholders(survey)) {
+      if (!names.includes(placeholder)) {
+        problems.push(`survey: {{${placeholder}}} is not a declared parameter`);
+      }
+    }
+  }
+
+  if (problems.length > 0) {
+    throw new Error(`Invalid ${source}:\n${problems.map((problem) => `  - ${problem}`).join("\n")}`);
+  }
+  return {
+    id: id as string,
+    version: version as number,
+    name: (name as string).trim(),
+    summary: summary as string,
+    parameters,
+    survey: survey as Record<string, unknown>,
+  };
+}
+
+/** How a survey records the template version it was created from, e.g. "employee-satisfaction@2" */
+export function templateRef(template: Pick<SurveyTemplate, "id" | "version">): string {
+  return `${template.id}@${template.version}`;
+}
+
+/** The bytes32 the contract stores for a template reference */
+export function encodeTemplateRef(ref: string): string {
+  return encodeBytes32String(ref);
+}
+
+/** Reads back a stored template reference, null when the survey was not created from a template */
+export function decodeTemplateRef(value: string): string | null {
+  return value === ZeroHash ? null : decodeBytes32String(value);
+}
+
+/**
+ * Fills in the template's parameters, falling back to their defaults, and validates the result like
+ * a survey definition. The survey records the template version it came from.
+ */
+export function renderTemplate(template: SurveyTemplate, values: TemplateValues = {}): NewSurvey {
+  const ref = templateRef(template);
+  const problems = Object.keys(values)
+    .filter((name) => !template.parameters.some((parameter) => parameter.name === name))
+    .map((name) => `${name}: not a parameter of ${ref}`);
+
+  const resolved: Record<string, string | number> = {};
+  for (const parameter of template.parameters) {
+    const raw = values[parameter.name] ?? parameter.default;
+    if (raw === undefined || String(raw).trim() === "") {
+      problems.push(`${parameter.name}: required`);
+    } else if (parameter.type === "number") {
+      const number = Number(raw);
+      if (Number.isNaN(number)) {
+        problems.push(`${parameter.name}: must be a number, got "${raw}"`);
+      }
+      resolved[parameter.name] = number;
+    } else {
+      resolved[parameter.name] = String(raw).trim();
+    }
+  }
+  if (problems.length > 0) {
+    throw new Error(
+      `Invalid parameters for template ${ref}:\n${problems.map((problem) => `  - ${problem}`).join("\n")}`,
+    );
+  }
+
+  const fill = (value: unknown): unknown => {
+    if (typeof value === "string") {
+      const whole = /^\{\{\s*([A-Za-z][A-Za-z0-9]*)\s*\}\}$/.exec(value);
+      return whole ? resolved[whole[1]] : value.replace(PLACEHOLDER, (_, name: string) => String(resolved[name]));
+    }
+    if (Array.isArray(value)) {
+      return value.map(fill);
+    }
+    return isRecord(value) ? Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fill(item)])) : value;
+  };
+
+  const [survey] = parseSurveyDefinitions(fill(template.survey));
+  return { ...survey, template: ref };
+}
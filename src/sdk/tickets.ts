@@ -0,0 +1,148 @@
+import { AbiCoder, concat, getBytes, keccak256, toBeHex, toBigInt, type Wallet } from "ethers";
+
+/**
+ * @title Invite-only survey tickets
+ * @notice RSA blind signatures that let a respondent prove they are on a survey's roster without the
+ * response naming them. The respondent blinds the ticket message of their nullifier, the issuer checks
+ * the roster proof of the account asking and signs the blinded value, and the respondent unblinds it
+ * into a ticket the contract checks against the survey's issuer modulus. The issuer learns who asked,
+ * never which nullifier it signed. Every invite-only survey has a key of its own, since a ticket does
+ * not name its survey.
+ */
+
+/** Length of the issuer's modulus and of every ticket, as in the contract */
+export const TICKET_BYTES = 256;
+
+/** Public exponent of the issuer's key */
+export const TICKET_EXPONENT = 65537;
+
+/** What a respondent sends the issuer: the blinded ticket message and who is asking */
+export interface TicketRequest {
+  surveyId: string;
+  /** Roster address, which signed the request */
+  account: string;
+  /** Merkle proof for the account's roster entry */
+  eligibilityProof: string[];
+  /** Blinded ticket message, hex */
+  blinded: string;
+  /** The account's signature over ticketRequestMessage */
+  signature: string;
+}
+
+/** A key the issuer made for a new invite-only survey */
+export interface TicketKey {
+  /** Big-endian modulus, the survey's ticketIssuer in createSurvey */
+  modulus: string;
+}
+
+/** The issuer's answer: its signature over the blinded message, still blinded */
+export interface IssuedTicket {
+  blindSignature: string;
+}
+
+export interface BlindedTicket {
+  blinded: string;
+  /** Blinding factor, kept by the respondent to unblind the issuer's signature */
+  factor: bigint;
+}
+
+/**
+ * Same bytes as the contract's ticketMessage: the nullifier stretched with keccak256, top byte cleared
+ */
+export function ticketMessage(nullifier: string): string {
+  const coder = AbiCoder.defaultAbiCoder();
+  const words = [];
+  for (let i = 0; i < TICKET_BYTES / 32; i++) {
+    words.push(keccak256(coder.encode(["bytes32", "uint256"], [nullifier, i])));
+  }
+  const message = getBytes(concat(words));
+  message[0] = 0;
+  return toBeHex(toBigInt(message), TICKET_BYTES);
+}
+
+/**
+ * Blinds the respondent key's ticket message for the issuer. The factor comes from the key itself, so
+ * asking again after a lost answer sends the issuer the same request.
+ */
+export function blindTicket(modulus: string, nullifier: string, respondentKey: Wallet): BlindedTicket {
+  const n = toBigInt(modulus);
+  const coder = AbiCoder.defaultAbiCoder();
+  const words = [];
+  for (let i = 0; i < TICKET_BYTES / 32; i++) {
+    words.push(keccak256(coder.encode(["string", "bytes32", "uint256"], ["ticket", respondentKey.privateKey, i])));
+  }
+  const bytes = getBytes(concat(words));
+  bytes[0] = 0;
+  const factor = toBigInt(bytes);
+  const blinded = (toBigInt(ticketMessage(nullifier)) * modPow(factor, BigInt(TICKET_EXPONENT), n)) % n;
+  return { blinded: toBeHex(blinded, TICKET_BYTES), factor };
+}
+
+/**
+ * Removes the blinding factor from the issuer's signature, giving the ticket to submit
+ */
+export function unblindTicket(modulus: string, blindSignature: string, factor: bigint): string {
+  const n = toBigInt(modulus);
+  return toBeHex((toBigInt(blindSignature) * modInverse(factor, n)) % n, TICKET_BYTES);
+}
+
+/**
+ * Whether the ticket is the issuer's signature over the nullifier, the check the contract makes
+ */
+export function verifyTicket(modulus: string, nullifier: string, ticket: string): boolean {
+  const n = toBigInt(modulus);
+  if (getBytes(ticket).length !== TICKET_BYTES) {
+    return false;
+  }
+  return modPow(toBigInt(ticket), BigInt(TICKET_EXPONENT), n) === toBigInt(ticketMessage(nullifier));
+}
+
+/**
+ * Text the roster account signs to ask for a ticket
+ */
+export function ticketRequestMessage(
+  chainId: bigint | number,
+  contractAddress: string,
+  surveyId: bigint | number | string,
+  blinded: string,
+): string {
+  return [
+    "Employee Privacy Survey ticket request",
+    "",
+    "Signing this asks for the ticket that lets you answer an invite-only survey anonymously.",
+    `Chain: ${chainId}`,
+    `Contract: ${contractAddress}`,
+    `Survey: ${surveyId}`,
+    `Request: ${keccak256(blinded)}`,
+  ].join("\n");
+}
+
+function modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+  const zero = BigInt(0);
+  const one = BigInt(1);
+  const two = BigInt(2);
+  let result = one;
+  let power = base % modulus;
+  for (let rest = exponent; rest > zero; rest /= two) {
+    if (rest % two === one) {
+      result = (result * power) % modulus;
+    }
+    power = (power * power) % modulus;
+  }
+  return result;
+}
+
+function modInverse(value: bigint, modulus: bigint): bigint {
+  const zero = BigInt(0);
+  let [oldR, r] = [value % modulus, modulus];
+  let [oldS, s] = [BigInt(1), zero];
+  while (r !== zero) {
+    const quotient = oldR / r;
+    [oldR, r] = [r, oldR - quotient * r];
+    [oldS, s] = [s, oldS - quotient * s];
+  }
+  if (oldR !== BigInt(1)) {
+    throw new Error("Blinding factor shares a factor with the issuer's modulus");
+  }
+  return ((oldS % modulus) + modulus) % modulus;
+}
@@ -0,0 +1,98 @@
+import type { SurveyTranslation } from "./types";
+
+/** Language of a survey's texts when it does not name one */
+export const DEFAULT_LANGUAGE = "en";
+
+const TRANSLATION_KEYS = ["title", "description", "questions"];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Problems with a language tag. Tags must be written in their canonical BCP 47 form ("pt-BR", not
+ * "pt_br"), so the same translations always encode to the same content hash.
+ */
+export function languageTagProblem(tag: unknown, path: string): string | null {
+  if (typeof tag !== "string" || !tag) {
+    return `${path}: must be a language tag such as "en" or "pt-BR"`;
+  }
+  let canonical: string;
+  try {
+    [canonical] = Intl.getCanonicalLocales(tag);
+  } catch {
+    return `${path}: "${tag}" is not a language tag such as "en" or "pt-BR"`;
+  }
+  return canonical === tag ? null : `${path}: write "${tag}" as "${canonical}"`;
+}
+
+/**
+ * Validates a survey's translations, keyed by language tag. Each one translates the title,
+ * description and every question, in the survey's question order, so answers given in any
+ * language count toward the same question.
+ */
+export function parseTranslations(
+  raw: unknown,
+  language: string,
+  questionCount: number,
+  path: string,
+  problems: string[],
+): Record<string, SurveyTranslation> {
+  if (!isRecord(raw)) {
+    problems.push(`${path}: must map language tags to translations`);
+    return {};
+  }
+  const translations: Record<string, SurveyTranslation> = {};
+  for (const [tag, translation] of Object.entries(raw)) {
+    const at = `${path}.${tag}`;
+    const tagProblem = languageTagProblem(tag, at);
+    if (tagProblem) {
+      problems.push(tagProblem);
+    } else if (tag === language) {
+      problems.push(`${at}: is the survey's own language`);
+    }
+    if (!isRecord(translation)) {
+      problems.push(`${at}: must be an object with title, description and questions`);
+      continue;
+    }
+    for (const key of Object.keys(translation).filter((key) => !TRANSLATION_KEYS.includes(key))) {
+      problems.push(`${at}.${key}: unknown field`);
+    }
+    const { title, description = "", questions } = translation;
+    if (typeof title !== "string" || !title.trim()) {
+      problems.push(`${at}.title: must be a non-empty string`);
+    }
+    if (typeof description !== "string") {
+      problems.push(`${at}.description: must be a string`);
+    }
+    if (!Array.isArray(questions) || questions.length !== questionCount) {
+      problems.push(`${at}.questions: must translate all ${questionCount} questions, in order`);
+    } else if (!questions.every((question) => typeof question === "string" && question.trim())) {
+      problems.push(`${at}.questions: must be non-empty strings`);
+    }
+    translations[tag] = {
+      title: String(title ?? "").trim(),
+      description: String(description).trim(),
+      questions: Array.isArray(questions) ? questions.map((question) => String(question).trim()) : [],
+    };
+  }
+  return translations;
+}
+
+/**
+ * The best of the available languages for a reader who prefers the given ones, most preferred
+ * first (e.g. navigator.languages): an exact match, else the same language in another region
+ * ("pt" for "pt-BR" and the other way round). Null when none fits.
+ */
+export function matchLanguage(available: readonly string[], preferred: readonly string[]): string | null {
+  const base = (tag: string) => tag.split("-")[0].toLowerCase();
+  for (const wanted of preferred) {
+    const match =
+      available.find((tag) => tag.toLowerCase() === wanted.toLowerCase()) ??
+      available.find((tag) => base(tag) === base(wanted));
+    if (match) {
+      return match;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,216 @@
+/**
+ * @title Survey SDK types
+ * @notice Plain TypeScript views of the EmployeePrivacySurvey contract structs
+ */
+
+/** Mirrors the contract's QuestionType enum */
+export const QuestionType = {
+  Scale: 0,
+  YesNo: 1,
+} as const;
+
+export type QuestionType = (typeof QuestionType)[keyof typeof QuestionType];
+
+/** Mirrors the contract's SurveyStatus enum */
+export const SurveyStatus = {
+  Upcoming: 0,
+  Open: 1,
+  Ended: 2,
+} as const;
+
+export type SurveyStatus = (typeof SurveyStatus)[keyof typeof SurveyStatus];
+
+/** Mirrors the SurveyDirectory's StatusFilter enum; Ended leaves out surveys whose results are published */
+export const SurveyListStatus = {
+  Any: 0,
+  Upcoming: 1,
+  Open: 2,
+  Ended: 3,
+  Published: 4,
+} as const;
+
+export type SurveyListStatus = (typeof SurveyListStatus)[keyof typeof SurveyListStatus];
+
+/** Mirrors the OrganizationRegistry's Role enum */
+export const OrganizationRole = {
+  Admin: 0,
+  Author: 1,
+  Analyst: 2,
+} as const;
+
+export type OrganizationRole = (typeof OrganizationRole)[keyof typeof OrganizationRole];
+
+/** Answer type and accepted range of a question */
+export interface QuestionConfig {
+  questionType: QuestionType;
+  minValue: number;
+  maxValue: number;
+}
+
+/** A question together with how it is answered */
+export interface SurveyQuestion extends QuestionConfig {
+  text: string;
+}
+
+/** A scale answer is a number in the question's range, a yes/no answer is a boolean */
+export type Answer = number | boolean;
+
+/**
+ * A survey's texts in another language. Questions are translated in the survey's question order, so
+ * answers given in any language count toward the same encrypted totals.
+ */
+export interface SurveyTranslation {
+  title: string;
+  description: string;
+  questions: string[];
+}
+
+/** Everything createSurvey needs; the title, description and question texts go to the content store */
+export interface NewSurvey {
+  title: string;
+  description: string;
+  questions: SurveyQuestion[];
+  /** When responses open; omit to open as soon as the survey is created */
+  startTime?: Date;
+  /** When responses close; omit to close durationDays after the start */
+  endTime?: Date;
+  /** Length of the survey in days, used when endTime is omitted */
+  durationDays?: number;
+  minResponses: number;
+  /** Merkle root of the invited respondents (see buildEligibilityTree); omit for an open survey */
+  eligibilityRoot?: string;
+  /**
+   * Modulus of the key that blind-signs the tickets of an invite-only survey, required with
+   * eligibilityRoot. Each survey needs a key of its own: ask the relayer for one with
+   * RelayerClient.createTicketKey.
+   */
+  ticketIssuer?: string;
+  /** Segment labels, e.g. departments, each respondent picks one of; omit for no segments */
+  segments?: string[];
+  /** Organisation to create the survey for, which the creator must be an author of; omit for a personal survey */
+  organizationId?: bigint | number;
+  /** Template version the survey was rendered from, e.g. "employee-satisfaction@2" (see renderTemplate) */
+  template?: string;
+  /** Language tag of the title, description and question texts; "en" when omitted */
+  language?: string;
+  /** The same texts in other languages, keyed by language tag */
+  translations?: Record<string, SurveyTranslation>;
+}
+
+/** Survey metadata as returned by getSurvey, with timestamps as dates */
+export interface SurveyInfo {
+  id: bigint;
+  creator: string;
+  /** Hash of the off-chain content document with the title, description and question texts */
+  contentHash: string;
+  startTime: Date;
+  endTime: Date;
+  active: boolean;
+  /** Upcoming, open or ended as of the latest block */
+  status: SurveyStatus;
+  resultsPublished: boolean;
+  totalResponses: number;
+  responsesNeeded: number;
+  /** Roster root respondents must prove membership of, null for an open survey */
+  eligibilityRoot: string | null;
+  /** Organisation whose analysts may reveal the results, null for a personal survey */
+  organizationId: bigint | null;
+  /** Template version the survey was created from, null if it was written from scratch */
+  template: string | null;
+}
+
+/** Which page of which surveys listSurveys returns */
+export interface SurveyListFilter {
+  /** Only surveys this account created */
+  creator?: string;
+  status?: SurveyListStatus;
+  /** 1-based, default 1 */
+  page?: number;
+  /** Surveys per page, default 20 */
+  pageSize?: number;
+}
+
+/** A survey as the SurveyDirectory lists it */
+export interface SurveySummary {
+  id: bigint;
+  creator: string;
+  contentHash: string;
+  startTime: Date;
+  endTime: Date;
+  status: SurveyStatus;
+  resultsPublished: boolean;
+  totalResponses: number;
+  responsesNeeded: number;
+  questionsCount: number;
+  organizationId: bigint | null;
+}
+
+/** One page of listSurveys */
+export interface SurveyPage {
+  surveys: SurveySummary[];
+  page: number;
+  pageSize: number;
+  /** Whether more surveys match after this page */
+  more: boolean;
+}
+
+/** Everything a survey view shows, as getSurveysWithResults loads it */
+export interface SurveyDetails {
+  info: SurveyInfo;
+  /** Answer types and ranges; the question texts are in the survey's content */
+  configs: QuestionConfig[];
+  segments: string[];
+  /** One per question, in question order */
+  results: QuestionResult[];
+  histograms: QuestionHistogram[];
+}
+
+/** A question's decrypted aggregate; for yes/no questions totalScore counts yes answers */
+export interface QuestionResult {
+  revealed: boolean;
+  totalResponses: number;
+  totalScore: number;
+  /** totalScore / totalResponses, i.e. the share of yes answers for yes/no questions */
+  average: number | null;
+}
+
+/**
+ * A segment's decrypted results. The contract withholds a segment (zero respondents, zero totals)
+ * unless every segment with responses reached the survey's minimum.
+ */
+export interface SegmentResult {
+  revealed: boolean;
+  /** Revealed with no respondents: some segment was too small, or nobody picked this one */
+  withheld: boolean;
+  respondents: number;
+  /** Sum of the segment's answers per question, yes counting as one */
+  totals: number[];
+  /** totals / respondents per question, null until revealed or when withheld */
+  averages: (number | null)[];
+}
+
+/** A question's decrypted answer distribution */
+export interface QuestionHistogram {
+  revealed: boolean;
+  /** Answer value each count belongs to, lowest first (0 = no, 1 = yes for yes/no questions) */
+  values: number[];
+  counts: number[];
+}
+
+/** An organisation in the registry */
+export interface OrganizationInfo {
+  id: bigint;
+  name: string;
+  memberCount: number;
+}
+
+/** An organisation together with the roles one account holds in it */
+export interface OrganizationMembership extends OrganizationInfo {
+  roles: OrganizationRole[];
+}
+
+/** An account holding at least one role in an organisation */
+export interface OrganizationMember {
+  account: string;
+  roles: OrganizationRole[];
+}
@@ -0,0 +1,17 @@
+/// <reference types="vite/client" />
+
+/** Build-time settings, read from the environment or a .env file by Vite */
+interface ImportMetaEnv {
+  /** EmployeePrivacySurvey address on Sepolia; unset to run on surveys kept in the browser */
+  readonly VITE_CONTRACT_ADDRESS?: string;
+  /** Relayer URL (`npx hardhat relayer`); unset or empty to submit from the connected wallet */
+  readonly VITE_RELAYER_URL?: string;
+  /** Content server URL (`npx hardhat content-server`); http://localhost:8788 when unset */
+  readonly VITE_CONTENT_URL?: string;
+  /** Block the contract was deployed in, where reading its events starts; 0 when unset */
+  readonly VITE_CONTRACT_DEPLOY_BLOCK?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -1,12 +1,126 @@
+import * as fs from "fs";
 import { task } from "hardhat/config";
 import type { TaskArguments } from "hardhat/types";
 import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { load as loadYaml } from "js-yaml";
+import * as path from "path";
+
+import { DirectoryContentStore } from "../src/content/store";
+import type { IndexedSurveyStatus } from "../src/indexer/types";
+import { SurveyClient } from "../src/sdk/client";
+import { contentLanguages, contentQuestions, fetchSurveyContent, localizeContent } from "../src/sdk/content";
+import { describeSurvey, parseSurveyDefinitions } from "../src/sdk/definition";
+import { buildEligibilityTree, type EligibilityProof, eligibilityProof, parseRoster } from "../src/sdk/eligibility";
+import { describeQuestion, FIVE_STAR_RATING, parseAnswer, YES_NO } from "../src/sdk/questions";
+import { parseSurveyTemplate, renderTemplate, type SurveyTemplate, type TemplateValues } from "../src/sdk/templates";
+import { matchLanguage } from "../src/sdk/translations";
+import {
+  type Answer,
+  type NewSurvey,
+  OrganizationRole,
+  QuestionType,
+  SurveyListStatus,
+  type SurveyQuestion,
+  SurveyStatus,
+} from "../src/sdk/types";
 
 /**
  * @title EmployeePrivacySurvey Custom Tasks
  * @notice Hardhat tasks for interacting with EmployeePrivacySurvey contract
  */
 
+/**
+ * Connects the SDK client to the deployed contract with the first signer.
+ * Survey content is kept in the project's content directory.
+ */
+async function connectSurvey(hre: HardhatRuntimeEnvironment): Promise<SurveyClient> {
+  const [signer] = await hre.ethers.getSigners();
+  const contractAddress = (await hre.deployments.get("EmployeePrivacySurvey")).address;
+  return SurveyClient.connect(contractAddress, signer, new DirectoryContentStore(contentDirectory(hre)));
+}
+
+/**
+ * Where survey content documents are kept, shared by every network since they are addressed by hash
+ */
+function contentDirectory(hre: HardhatRuntimeEnvironment): string {
+  return path.join(hre.config.paths.root, ".survey-content");
+}
+
+/**
+ * A survey's title for listings, or why its content could not be shown
+ */
+async function contentTitle(client: SurveyClient, hash: string): Promise<string> {
+  try {
+    return (await client.fetchContent(hash)).title;
+  } catch (error) {
+    return `(content ${hash} unavailable: ${(error as Error).message})`;
+  }
+}
+
+/**
+ * Reveal wait settings; the mock oracle is driven directly, live networks are polled
+ */
+function revealOptions(hre: HardhatRuntimeEnvironment, timeoutSeconds: number) {
+  return {
+    timeoutMs: timeoutSeconds * 1000,
+    beforePoll: async () => {
+      if (hre.fhevm.isMock) {
+        await hre.fhevm.awaitDecryptionOracle();
+      } else {
+        console.log("Waiting for the decryption oracle...");
+      }
+    },
+  };
+}
+
+const STATUS_LABELS: Record<SurveyStatus, string> = {
+  [SurveyStatus.Upcoming]: "Upcoming",
+  [SurveyStatus.Open]: "Open",
+  [SurveyStatus.Ended]: "Ended",
+};
+
+/**
+ * Parses a --start/--end value, an ISO 8601 date-time such as 2026-11-02T09:00:00Z
+ */
+function readDate(value: string, name: string): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`--${name} must be an ISO 8601 date-time, got "${value}"`);
+  }
+  return date;
+}
+
+const LIST_STATUSES: Record<string, SurveyListStatus> = {
+  upcoming: SurveyListStatus.Upcoming,
+  open: SurveyListStatus.Open,
+  ended: SurveyListStatus.Ended,
+  published: SurveyListStatus.Published,
+};
+
+const ROLE_LABELS: Record<OrganizationRole, string> = {
+  [OrganizationRole.Admin]: "admin",
+  [OrganizationRole.Author]: "author",
+  [OrganizationRole.Analyst]: "analyst",
+};
+
+/**
+ * Parses a --role value: admin, author or analyst
+ */
+function readRole(value: string): OrganizationRole {
+  const role = Object.values(OrganizationRole).find((candidate) => ROLE_LABELS[candidate] === value.toLowerCase());
+  if (role === undefined) {
+    throw new Error(`--role must be one of ${Object.values(ROLE_LABELS).join(", ")}, got "${value}"`);
+  }
+  return role;
+}
+
+/**
+ * Index file for the current network unless one is given
+ */
+function indexFile(hre: HardhatRuntimeEnvironment, file: string | undefined): string {
+  return file ?? path.join(hre.config.paths.root, ".survey-index", `${hre.network.name}.json`);
+}
+
 /**
  * Task: Get survey information
  * Usage: npx hardhat get-survey --survey-id 1 --network hardhat
@@ -14,122 +128,1070 @@ import { HardhatRuntimeEnvironment } from "hardhat/types";
 task("get-survey", "Get survey information")
   .addParam("surveyId", "The survey ID")
   .setAction(async (taskArgs: TaskArguments, hre: HardhatRuntimeEnvironment) => {
-    const surveyId = taskArgs.surveyId as string;
+    const surveyId = BigInt(taskArgs.surveyId as string);
 
-    const contractAddress = (await hre.deployments.get("EmployeePrivacySurvey")).address;
-    const contract = await hre.ethers.getContractAt("EmployeePrivacySurvey", contractAddress);
+    const client = await connectSurvey(hre);
 
-    const survey = await contract.getSurvey(surveyId);
+    const survey = await client.getSurvey(surveyId);
     console.log("\n=== Survey Information ===");
     console.log("Creator:", survey.creator);
-    console.log("Title:", survey.title);
-    console.log("Description:", survey.description);
+    console.log("Content Hash:", survey.contentHash);
+    try {
+      const content = await client.fetchContent(survey.contentHash);
+      console.log("Title:", content.title);
+      console.log("Description:", content.description);
+      console.log("Languages:", contentLanguages(content).join(", "));
+    } catch (error) {
+      console.log("Content: unavailable -", (error as Error).message);
+    }
+    console.log("Status:", STATUS_LABELS[survey.status]);
     console.log("Active:", survey.active);
     console.log("Results Published:", survey.resultsPublished);
-    console.log("Total Responses:", survey.totalResponses.toString());
-    console.log("Start Time:", new Date(Number(survey.startTime) * 1000).toISOString());
-    console.log("End Time:", new Date(Number(survey.endTime) * 1000).toISOString());
+    console.log("Total Responses:", survey.totalResponses);
+    console.log(
+      "Responses Needed To Unlock Results:",
+      survey.responsesNeeded === 0 ? "0 (threshold reached)" : survey.responsesNeeded,
+    );
+    console.log("Respondents:", survey.eligibilityRoot ? `invited roster ${survey.eligibilityRoot}` : "anyone");
+    console.log("Organization:", survey.organizationId ? survey.organizationId.toString() : "none (personal survey)");
+    const segments = await client.getSegments(surveyId);
+    if (segments.length > 0) {
+      console.log("Segments:", segments.map((label, index) => `${index}=${label}`).join(", "));
+    }
+    console.log("Template:", survey.template ?? "none");
+    console.log("Start Time:", survey.startTime.toISOString());
+    console.log("End Time:", survey.endTime.toISOString());
+  });
+
+/**
+ * Task: List surveys a page at a time, straight from the contract
+ * Usage: npx hardhat list-surveys [--creator 0x...] [--status open] [--page 2] [--page-size 20] --network hardhat
+ */
+task("list-surveys", "List surveys from the contract a page at a time, filtered by creator and status")
+  .addParam("creator", "Only surveys created by this address", undefined, undefined, true)
+  .addParam("status", "Only upcoming, open, ended (not yet published) or published surveys", undefined, undefined, true)
+  .addParam("page", "Page to show, starting at 1", "1", undefined, true)
+  .addParam("pageSize", "Surveys per page", "20", undefined, true)
+  .setAction(async (taskArgs: TaskArguments, hre: HardhatRuntimeEnvironment) => {
+    const creator = taskArgs.creator as string | undefined;
+    if (creator !== undefined && !hre.ethers.isAddress(creator)) {
+      throw new Error(`--creator must be an address, got "${creator}"`);
+    }
+    const statusName = (taskArgs.status as string | undefined)?.toLowerCase();
+    const status = statusName === undefined ? SurveyListStatus.Any : LIST_STATUSES[statusName];
+    if (status === undefined) {
+      throw new Error(`--status must be one of ${Object.keys(LIST_STATUSES).join(", ")}, got "${taskArgs.status}"`);
+    }
+
+    const client = await connectSurvey(hre);
+
+    const listing = await client.listSurveys({
+      creator,
+      status,
+      page: parseInt(taskArgs.page as string),
+      pageSize: parseInt(taskArgs.pageSize as string),
+    });
+
+    console.log(`\n=== Surveys: page ${listing.page} ===`);
+    if (listing.surveys.length === 0) {
+      console.log("No matching surveys on this page");
+      return;
+    }
+    for (const survey of listing.surveys) {
+      const state = survey.resultsPublished ? "Published" : STATUS_LABELS[survey.status];
+      console.log(`#${survey.id} [${state}] ${await contentTitle(client, survey.contentHash)}`);
+      console.log(`    Creator: ${survey.creator}`);
+      console.log(
+        `    ${survey.questionsCount} questions, ${survey.totalResponses} responses` +
+          (survey.responsesNeeded > 0 ? ` (${survey.responsesNeeded} more needed to unlock results)` : ""),
+      );
+      console.log(`    Opens ${survey.startTime.toISOString()}, ends ${survey.endTime.toISOString()}`);
+    }
+    if (listing.more) {
+      console.log(`\nNext page: --page ${listing.page + 1}`);
+    }
   });
 
 /**
  * Task: Get survey questions
- * Usage: npx hardhat get-questions --survey-id 1 --network hardhat
+ * Usage: npx hardhat get-questions --survey-id 1 [--lang es] --network hardhat
  */
 task("get-questions", "Get survey questions")
   .addParam("surveyId", "The survey ID")
+  .addParam(
+    "lang",
+    "Language to show the questions in, e.g. es or pt-BR (default: the survey's own)",
+    undefined,
+    undefined,
+    true,
+  )
   .setAction(async (taskArgs: TaskArguments, hre: HardhatRuntimeEnvironment) => {
-    const surveyId = taskArgs.surveyId as string;
+    const surveyId = BigInt(taskArgs.surveyId as string);
+    const lang = taskArgs.lang as string | undefined;
 
-    const contractAddress = (await hre.deployments.get("EmployeePrivacySurvey")).address;
-    const contract = await hre.ethers.getContractAt("EmployeePrivacySurvey", contractAddress);
+    const client = await connectSurvey(hre);
 
-    const questions = await contract.getSurveyQuestions(surveyId);
-    console.log("\n=== Survey Questions ===");
-    questions.forEach((question: string, index: number) => {
-      console.log(`${index + 1}. ${question}`);
+    const [content, configs] = await Promise.all([client.getContent(surveyId), client.getQuestionConfigs(surveyId)]);
+    if (lang !== undefined && matchLanguage(contentLanguages(content), [lang]) === null) {
+      console.log(`No ${lang} translation, available: ${contentLanguages(content).join(", ")}`);
+    }
+    const { language } = localizeContent(content, lang ?? []);
+    const questions = contentQuestions(content, configs, language);
+    console.log(`\n=== Survey Questions (${language}) ===`);
+    questions.forEach((question, index) => {
+      console.log(`${index + 1}. ${question.text} (${describeQuestion(question)})`);
     });
   });
 
 /**
  * Task: Create a test survey
- * Usage: npx hardhat create-test-survey --network hardhat
+ * Usage: npx hardhat create-test-survey [--start 2026-11-02T09:00:00Z] [--end 2026-11-02T17:00:00Z]
+ *        [--segments Engineering,Sales] [--organization 1] --network hardhat
  */
 task("create-test-survey", "Create a test survey")
   .addParam("title", "Survey title", "Employee Satisfaction Survey", undefined, true)
-  .addParam("duration", "Survey duration in days", "7", undefined, true)
+  .addParam("duration", "Survey duration in days, ignored when --end is given", "7", undefined, true)
+  .addParam(
+    "start",
+    "When responses open, as an ISO 8601 date-time (default: once created)",
+    undefined,
+    undefined,
+    true,
+  )
+  .addParam("end", "When responses close, as an ISO 8601 date-time", undefined, undefined, true)
+  .addParam("minResponses", "Responses required before results can be revealed", "3", undefined, true)
+  .addParam("segments", "Comma-separated segment labels respondents pick one of", undefined, undefined, true)
+  .addParam(
+    "organization",
+    "Organization ID to create the survey for (you must be an author)",
+    undefined,
+    undefined,
+    true,
+  )
   .setAction(async (taskArgs: TaskArguments, hre: HardhatRuntimeEnvironment) => {
-    const [signer] = await hre.ethers.getSigners();
-
-    const contractAddress = (await hre.deployments.get("EmployeePrivacySurvey")).address;
-    const contract = await hre.ethers.getContractAt("EmployeePrivacySurvey", contractAddress);
+    const client = await connectSurvey(hre);
 
     const title = taskArgs.title as string;
-    const duration = taskArgs.duration as string;
-
-    const questions = [
-      "How satisfied are you with your current role?",
-      "How satisfied are you with your manager and management?",
-      "Do you feel valued and appreciated in your position?",
-      "How would you rate the work environment and team collaboration?",
-      "Would you recommend this company as a great place to work?",
+    const durationDays = parseInt(taskArgs.duration as string);
+    const startTime = taskArgs.start ? readDate(taskArgs.start as string, "start") : undefined;
+    const endTime = taskArgs.end ? readDate(taskArgs.end as string, "end") : undefined;
+    const minResponses = parseInt(taskArgs.minResponses as string);
+    const segments = taskArgs.segments ? (taskArgs.segments as string).split(",").map((label) => label.trim()) : [];
+    const organizationId = taskArgs.organization ? BigInt(taskArgs.organization as string) : undefined;
+
+    const questions: SurveyQuestion[] = [
+      { text: "How satisfied are you with your current role?", ...FIVE_STAR_RATING },
+      { text: "How satisfied are you with your manager and management?", ...FIVE_STAR_RATING },
+      { text: "Do you feel valued and appreciated in your position?", ...YES_NO },
+      { text: "How would you rate the work environment and team collaboration?", ...FIVE_STAR_RATING },
+      {
+        text: "How likely are you to recommend this company as a great place to work?",
+        questionType: QuestionType.Scale,
+        minValue: 0,
+        maxValue: 10,
+      }, // eNPS
     ];
 
     console.log("\nCreating test survey...");
     console.log("Title:", title);
-    console.log("Duration:", duration, "days");
+    console.log("Opens:", startTime ? startTime.toISOString() : "once created");
+    console.log("Closes:", endTime ? endTime.toISOString() : `${durationDays} days after opening`);
+    console.log("Minimum Responses:", minResponses);
     console.log("Questions:", questions.length);
+    if (segments.length > 0) {
+      console.log("Segments:", segments.join(", "));
+    }
+    if (organizationId !== undefined) {
+      console.log("Organization:", organizationId.toString());
+    }
 
-    const tx = await contract.createSurvey(
+    const surveyId = await client.createSurvey({
       title,
-      "Privacy-preserving employee satisfaction survey using FHEVM",
+      description: "Privacy-preserving employee satisfaction survey using FHEVM",
       questions,
-      duration,
-    );
+      startTime,
+      ...(endTime ? { endTime } : { durationDays }),
+      minResponses,
+      segments,
+      organizationId,
+    });
 
-    const receipt = await tx.wait();
     console.log("✓ Survey created successfully!");
-    console.log("Transaction hash:", receipt?.hash);
-    console.log("Survey ID: 1");
+    console.log("Survey ID:", surveyId.toString());
   });
 
+/**
+ * Reads a survey definition or keeper policy; .yaml/.yml files are parsed as YAML, anything else as JSON
+ */
+function readDefinitionFile(file: string): unknown {
+  const content = fs.readFileSync(file, "utf8");
+  const extension = path.extname(file).toLowerCase();
+  return extension === ".yaml" || extension === ".yml" ? loadYaml(content) : JSON.parse(content);
+}
+
+/** Stands in for an invite-only survey's ticket key in dry runs; a real one has the same size, so costs the same */
+const PLACEHOLDER_TICKET_ISSUER = `0x${"ff".repeat(256)}`;
+
+/**
+ * Gives an invite-only survey a ticket key of its own, made by the relayer that will issue its tickets
+ */
+async function withTicketIssuer(survey: NewSurvey, relayer: string | undefined): Promise<NewSurvey> {
+  if (!survey.eligibilityRoot) {
+    return survey;
+  }
+  if (!relayer) {
+    throw new Error(`"${survey.title}" is invite-only: pass --relayer, whose ticket issuer makes the survey's key`);
+  }
+  const { RelayerClient } = await import("../src/sdk/relayer");
+  return { ...survey, ticketIssuer: await new RelayerClient(relayer).createTicketKey() };
+}
+
+/**
+ * Task: Create one or more surveys from a JSON or YAML definition file
+ * Usage: npx hardhat create-survey --file surveys/example.yaml [--relayer http://localhost:8787] [--dry-run] --network hardhat
+ * Invite-only surveys need --relayer, whose ticket issuer makes each one's ticket key
+ */
+task("create-survey", "Create surveys from a JSON or YAML definition file")
+  .addParam("file", "Path to the survey definition (a survey, a list of surveys, or { surveys: [...] })")
+  .addParam("relayer", "Relayer URL, to make the ticket keys of invite-only surveys", undefined, undefined, true)
+  .addFlag("dryRun", "Validate and estimate gas without sending any transaction")
+  .setAction(async (taskArgs: TaskArguments, hre: HardhatRuntimeEnvironment) => {
+    const file = taskArgs.file as string;
+    const dryRun = taskArgs.dryRun as boolean;
+    const relayer = taskArgs.relayer as string | undefined;
+
+    // Everything is checked before the first transaction so a batch never half-fails on bad input
+    const surveys = parseSurveyDefinitions(readDefinitionFile(file));
+    if (!dryRun && !relayer && surveys.some((survey) => survey.eligibilityRoot)) {
+      throw new Error("Invite-only surveys need --relayer, whose ticket issuer makes each survey's key");
+    }
+
+    const client = await connectSurvey(hre);
+
+    const floor = await client.getMinResponsesFloor();
+    const belowFloor = surveys.filter((survey) => survey.minResponses < floor);
+    if (belowFloor.length > 0) {
+      const titles = belowFloor.map((survey) => `"${survey.title}"`).join(", ");
+      throw new Error(`minResponses must be at least ${floor} on this contract: ${titles}`);
+    }
+
+    console.log(`\n${dryRun ? "Dry run" : "Creating"}: ${surveys.length} survey(s) from ${file}`);
+
+    if (dryRun) {
+      let totalGas = 0n;
+      for (const [index, survey] of surveys.entries()) {
+        const gas = await client.estimateCreateSurveyGas(
+          survey.eligibilityRoot ? { ...survey, ticketIssuer: PLACEHOLDER_TICKET_ISSUER } : survey,
+        );
+        totalGas += gas;
+        console.log(`${index + 1}. ${describeSurvey(survey)}`);
+        console.log(`   Estimated gas: ${gas}`);
+      }
+      const feeData = await hre.ethers.provider.getFeeData();
+      console.log("\nTotal estimated gas:", totalGas.toString());
+      if (feeData.gasPrice !== null) {
+        console.log("Estimated cost:", hre.ethers.formatEther(totalGas * feeData.gasPrice), "ETH");
+      }
+      console.log("No transactions were sent");
+      return;
+    }
+
+    const created: bigint[] = [];
+    for (const [index, survey] of surveys.entries()) {
+      console.log(`${index + 1}. ${describeSurvey(survey)}`);
+      try {
+        created.push(await client.createSurvey(await withTicketIssuer(survey, relayer)));
+      } catch (error) {
+        if (created.length > 0) {
+          console.log(`✗ Stopped at survey ${index + 1}, already created: ${created.join(", ")}`);
+        }
+        throw error;
+      }
+      console.log("   ✓ Survey ID:", created[created.length - 1].toString());
+    }
+
+    console.log(`✓ Created ${created.length} survey(s): ${created.join(", ")}`);
+  });
+
+/**
+ * Reads every template in the repository's templates/ directory, sorted by id
+ */
+function loadTemplates(hre: HardhatRuntimeEnvironment): SurveyTemplate[] {
+  const directory = path.join(hre.config.paths.root, "templates");
+  return fs
+    .readdirSync(directory)
+    .filter((file) => file.endsWith(".json"))
+    .map((file) => parseSurveyTemplate(readDefinitionFile(path.join(directory, file)), `template ${file}`))
+    .sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/**
+ * Task: List the survey templates and their parameters
+ * Usage: npx hardhat list-templates
+ */
+task("list-templates", "List the survey templates in templates/ and their parameters").setAction(
+  async (_taskArgs: TaskArguments, hre: HardhatRuntimeEnvironment) => {
+    for (const template of loadTemplates(hre)) {
+      console.log(`\n${template.id} (version ${template.version}): ${template.name}`);
+      if (template.summary) {
+        console.log(`  ${template.summary}`);
+      }
+      for (const parameter of template.parameters) {
+        const fallback = parameter.default === undefined ? "required" : `default ${parameter.default}`;
+        console.log(`  --params ${parameter.name}=...  ${parameter.label} (${parameter.type}, ${fallback})`);
+      }
+    }
+  },
+);
+
+/**
+ * Task: Create a survey from a template, recording the template version it came from
+ * Usage: npx hardhat create-from-template --template employee-satisfaction
+ *        [--params "quarter=Q3 2026,durationDays=14"] [--organization 1] [--dry-run] --network hardhat
+ */
+task("create-from-template", "Create a survey from a template in templates/")
+  .addParam("template", "Template id, see list-templates")
+  .addParam("params", "Comma-separated name=value template parameters", undefined, undefined, true)
+  .addParam(
+    "organization",
+    "Organization ID to create the survey for (you must be an author)",
+    undefined,
+    undefined,
+    true,
+  )
+  .addFlag("dryRun", "Validate and estimate gas without sending any transaction")
+  .setAction(async (taskArgs: TaskArguments, hre: HardhatRuntimeEnvironment) => {
+    const id = taskArgs.template as string;
+    const dryRun = taskArgs.dryRun as boolean;
+    const organizationId = taskArgs.organization ? BigInt(taskArgs.organization as string) : undefined;
+
+    const templates = loadTemplates(hre);
+    const template = templates.find((candidate) => candidate.id === id);
+    if (!template) {
+      throw new Error(`Unknown template "${id}", expected one of: ${templates.map((t) => t.id).join(", ")}`);
+    }
+    const values: TemplateValues = {};
+    for (const pair of taskArgs.params ? (taskArgs.params as string).split(",") : []) {
+      const separator = pair.indexOf("=");
+      if (separator < 1) {
+        throw new Error(`Invalid --params entry "${pair}", expected name=value`);
+      }
+      values[pair.slice(0, separator).trim()] = pair.slice(separator + 1).trim();
+    }
+    const survey = { ...renderTemplate(template, values), organizationId };
+
+    const client = await connectSurvey(hre);
+    const floor = await client.getMinResponsesFloor();
+    if (survey.minResponses < floor) {
+      throw new Error(`minResponses must be at least ${floor} on this contract, got ${survey.minResponses}`);
+    }
+
+    console.log(`\n${dryRun ? "Dry run" : "Creating"}: ${describeSurvey(survey)}`);
+    if (organizationId !== undefined) {
+      console.log("Organization:", organizationId.toString());
+    }
+
+    if (dryRun) {
+      // Recording the template is a second, small transaction that is not included here
+      console.log("Estimated gas:", (await client.estimateCreateSurveyGas(survey)).toString());
+      console.log("No transactions were sent");
+      return;
+    }
+
+    const surveyId = await client.createSurvey(survey);
+    console.log("✓ Survey created successfully!");
+    console.log("Survey ID:", surveyId.toString());
+    console.log("Template:", survey.template);
+  });
+
+/**
+ * Parses comma-separated --ratings against the survey's questions
+ */
+async function readAnswers(client: SurveyClient, surveyId: bigint, ratings: string): Promise<Answer[]> {
+  const rawAnswers = ratings.split(",");
+  const questions = await client.getQuestions(surveyId);
+  if (rawAnswers.length !== questions.length) {
+    throw new Error(`Survey ${surveyId} has ${questions.length} questions, got ${rawAnswers.length} answers`);
+  }
+  return rawAnswers.map((raw, index) => parseAnswer(raw, questions[index], index + 1));
+}
+
+/**
+ * Resolves --segment, a label or an index, against the survey's segments
+ */
+async function readSegment(
+  client: SurveyClient,
+  surveyId: bigint,
+  raw: string | undefined,
+): Promise<number | undefined> {
+  const segments = await client.getSegments(surveyId);
+  if (segments.length === 0) {
+    if (raw !== undefined) {
+      throw new Error(`Survey ${surveyId} has no segments, leave out --segment`);
+    }
+    return undefined;
+  }
+  const index = raw === undefined ? -1 : segments.findIndex((label) => label.toLowerCase() === raw.toLowerCase());
+  if (index >= 0) {
+    return index;
+  }
+  if (raw !== undefined && /^\d+$/.test(raw) && Number(raw) < segments.length) {
+    return Number(raw);
+  }
+  throw new Error(`Survey ${surveyId} is segmented, pass --segment with one of: ${segments.join(", ")}`);
+}
+
 /**
  * Task: Submit encrypted response to survey
- * Usage: npx hardhat submit-response --survey-id 1 --ratings 5,4,3,4,5 --network hardhat
+ * Usage: npx hardhat submit-response --survey-id 1 --ratings 5,4,yes,4,9 [--proof rosters/<root>/proofs/<address>.json]
+ *        [--segment Engineering] [--relayer http://localhost:8787] --network hardhat
+ * Invite-only surveys need --relayer, whose ticket issuer checks the proof
  */
 task("submit-response", "Submit encrypted response to survey")
   .addParam("surveyId", "The survey ID")
-  .addParam("ratings", "Comma-separated ratings (1-5)")
+  .addParam("ratings", "Comma-separated answers, one per question (a number for scales, yes/no for yes/no questions)")
+  .addParam(
+    "proof",
+    "Eligibility proof file from build-roster-tree, for invite-only surveys (needs --relayer)",
+    undefined,
+    undefined,
+    true,
+  )
+  .addParam(
+    "segment",
+    "Your segment in segmented surveys, by label or index (see get-survey)",
+    undefined,
+    undefined,
+    true,
+  )
+  .addParam(
+    "relayer",
+    "URL of a relayer (npx hardhat relayer) that submits the signed response for you",
+    undefined,
+    undefined,
+    true,
+  )
   .setAction(async (taskArgs: TaskArguments, hre: HardhatRuntimeEnvironment) => {
-    const surveyId = taskArgs.surveyId as string;
-    const ratingsStr = taskArgs.ratings as string;
-    const ratings = ratingsStr.split(",").map((r: string) => parseInt(r.trim()));
+    const surveyId = BigInt(taskArgs.surveyId as string);
+
+    await hre.fhevm.initializeCLIApi();
 
     const [signer] = await hre.ethers.getSigners();
+    const client = await connectSurvey(hre);
+    const answers = await readAnswers(client, surveyId, taskArgs.ratings as string);
 
-    const contractAddress = (await hre.deployments.get("EmployeePrivacySurvey")).address;
-    const contract = await hre.ethers.getContractAt("EmployeePrivacySurvey", contractAddress);
+    const { eligibilityRoot } = await client.getSurvey(surveyId);
+    let proof: string[] = [];
+    if (eligibilityRoot !== null) {
+      if (!taskArgs.proof || !taskArgs.relayer) {
+        throw new Error(
+          `Survey ${surveyId} only accepts invited employees, pass their --proof file and a --relayer to issue the ticket`,
+        );
+      }
+      const file = JSON.parse(fs.readFileSync(taskArgs.proof as string, "utf8")) as EligibilityProof;
+      if (file.root !== eligibilityRoot) {
+        throw new Error(`Proof is for roster ${file.root}, survey ${surveyId} uses ${eligibilityRoot}`);
+      }
+      proof = file.proof;
+    }
+    const segment = await readSegment(client, surveyId, taskArgs.segment as string | undefined);
 
     console.log("\nSubmitting encrypted response...");
-    console.log("Survey ID:", surveyId);
-    console.log("Ratings:", ratings);
-    console.log("Respondent:", await signer.getAddress());
+    console.log("Survey ID:", surveyId.toString());
+    console.log("Questions answered:", answers.length);
+    console.log("Respondent:", signer.address);
+    if (segment !== undefined) {
+      console.log("Segment: encrypted along with your answers");
+    }
 
-    const tx = await contract.submitResponse(surveyId, ratings);
-    const receipt = await tx.wait();
+    if (taskArgs.relayer) {
+      const { RelayerClient } = await import("../src/sdk/relayer");
+      const receipt = await client.relayResponse(
+        surveyId,
+        answers,
+        hre.fhevm,
+        new RelayerClient(taskArgs.relayer as string),
+        proof,
+        segment,
+      );
+      console.log("✓ Response relayed successfully!");
+      console.log("Transaction hash:", receipt.transactionHash);
+      console.log("Note: The relayer sent the transaction, so your address is not part of it");
+      return;
+    }
+
+    const receipt = await client.submitResponse(surveyId, answers, hre.fhevm, undefined, segment);
 
     console.log("✓ Response submitted successfully!");
-    console.log("Transaction hash:", receipt?.hash);
-    console.log("Note: Your response has been encrypted using FHEVM");
+    console.log("Transaction hash:", receipt.hash);
+    console.log("Note: Your answers were encrypted locally before submission");
+  });
+
+/**
+ * Task: Replace your answers to a survey that is still open
+ * Usage: npx hardhat revise-response --survey-id 1 --ratings 4,4,no,3,8 [--relayer http://localhost:8787] --network hardhat
+ */
+task("revise-response", "Replace your earlier answers while the survey is still open")
+  .addParam("surveyId", "The survey ID")
+  .addParam("ratings", "Comma-separated replacement answers, one per question")
+  .addParam(
+    "relayer",
+    "URL of a relayer (npx hardhat relayer) that submits the signed revision for you",
+    undefined,
+    undefined,
+    true,
+  )
+  .setAction(async (taskArgs: TaskArguments, hre: HardhatRuntimeEnvironment) => {
+    const surveyId = BigInt(taskArgs.surveyId as string);
+
+    await hre.fhevm.initializeCLIApi();
+
+    const [signer] = await hre.ethers.getSigners();
+    const client = await connectSurvey(hre);
+    const answers = await readAnswers(client, surveyId, taskArgs.ratings as string);
+
+    const nullifier = await client.myNullifier(surveyId);
+    if (!(await client.hasResponded(surveyId, nullifier))) {
+      throw new Error(`${signer.address} has not responded to survey ${surveyId} yet, use submit-response`);
+    }
+    const revisions = await client.getRevisionCount(surveyId, nullifier);
+
+    console.log("\nRevising encrypted response...");
+    console.log("Survey ID:", surveyId.toString());
+    console.log("Respondent:", signer.address);
+    console.log("Earlier revisions:", revisions);
+
+    if (taskArgs.relayer) {
+      const { RelayerClient } = await import("../src/sdk/relayer");
+      const receipt = await client.relayRevision(
+        surveyId,
+        answers,
+        hre.fhevm,
+        new RelayerClient(taskArgs.relayer as string),
+      );
+      console.log("✓ Revision relayed successfully!");
+      console.log("Transaction hash:", receipt.transactionHash);
+      return;
+    }
+
+    const receipt = await client.reviseResponse(surveyId, answers, hre.fhevm);
+
+    console.log("✓ Response revised successfully!");
+    console.log("Transaction hash:", receipt.hash);
+    console.log("Note: Totals now count your new answers instead of the old ones");
+  });
+
+/**
+ * Task: Decrypt the answers you submitted to a survey
+ * Usage: npx hardhat my-response --survey-id 1 --network hardhat
+ */
+task("my-response", "Decrypt your own stored answers to a survey with your respondent key")
+  .addParam("surveyId", "The survey ID")
+  .setAction(async (taskArgs: TaskArguments, hre: HardhatRuntimeEnvironment) => {
+    const surveyId = BigInt(taskArgs.surveyId as string);
+
+    await hre.fhevm.initializeCLIApi();
+
+    const [signer] = await hre.ethers.getSigners();
+    const client = await connectSurvey(hre);
+
+    if (!(await client.hasResponded(surveyId, await client.myNullifier(surveyId)))) {
+      throw new Error(`${signer.address} has not responded to survey ${surveyId}`);
+    }
+    const [questions, answers] = await Promise.all([
+      client.getQuestions(surveyId),
+      client.decryptMyAnswers(surveyId, hre.fhevm),
+    ]);
+
+    console.log(`\nYour answers to survey ${surveyId} (${signer.address}):`);
+    questions.forEach((question, index) => {
+      const answer = answers[index];
+      console.log(`  Q${index + 1}: ${question.text}`);
+      console.log(`      ${typeof answer === "boolean" ? (answer ? "yes" : "no") : answer}`);
+    });
+    console.log("\nNote: Scale answers are shown as stored, after clamping to the question's range");
+  });
+
+/**
+ * Task: Run the response relayer
+ * Usage: npx hardhat relayer [--port 8787] [--host 127.0.0.1] [--tickets .survey-tickets/<network>] --network sepolia
+ * With --tickets it also makes invite-only surveys' ticket keys and issues their tickets, keeping the
+ * keys and the ledger of who got a ticket in that directory
+ */
+task("relayer", "Serve an HTTP relayer that submits signed survey responses from the first account")
+  .addParam("port", "Port to listen on", "8787", undefined, true)
+  .addParam("host", "Interface to listen on", "127.0.0.1", undefined, true)
+  .addParam("tickets", "Directory of ticket keys and ledger, to issue tickets", undefined, undefined, true)
+  .setAction(async (taskArgs: TaskArguments, hre: HardhatRuntimeEnvironment) => {
+    const { createRelayer, DirectoryTicketKeyStore, JsonFileTicketLedger, TicketIssuer } = await import(
+      "../src/relayer"
+    );
+    const [signer] = await hre.ethers.getSigners();
+    const contractAddress = (await hre.deployments.get("EmployeePrivacySurvey")).address;
+
+    const ticketDir = taskArgs.tickets as string | undefined;
+    const tickets = ticketDir
+      ? new TicketIssuer(
+          new DirectoryTicketKeyStore(path.join(ticketDir, "keys")),
+          new JsonFileTicketLedger(path.join(ticketDir, "ledger.json")),
+        )
+      : undefined;
+    const server = await createRelayer(signer, contractAddress, {
+      tickets,
+      onRelay: (receipt) => console.log(`Relayed response in block ${receipt.blockNumber}: ${receipt.transactionHash}`),
+    });
+    const port = parseInt(taskArgs.port as string);
+    await new Promise<void>((resolve) => server.listen(port, taskArgs.host as string, resolve));
+
+    console.log("\n=== Response Relayer ===");
+    console.log("Contract:", contractAddress);
+    console.log("Submitting from:", signer.address);
+    console.log("Issuing tickets:", ticketDir ? `yes, keys and ledger in ${ticketDir}` : "no");
+    console.log(`Listening on http://${taskArgs.host}:${port} (Ctrl+C to stop)`);
+
+    await new Promise((resolve) => server.on("close", resolve));
+  });
+
+/**
+ * Task: Serve the survey content directory over HTTP for the web app
+ * Usage: npx hardhat content-server [--port 8788] [--host 127.0.0.1] [--dir .survey-content]
+ */
+task("content-server", "Serve survey content documents by hash, and accept new ones, over HTTP")
+  .addParam("port", "Port to listen on", "8788", undefined, true)
+  .addParam("host", "Interface to listen on", "127.0.0.1", undefined, true)
+  .addParam("dir", "Content directory (default: .survey-content)", undefined, undefined, true)
+  .setAction(async (taskArgs: TaskArguments, hre: HardhatRuntimeEnvironment) => {
+    const { createContentServer, DirectoryContentStore } = await import("../src/content");
+    const store = new DirectoryContentStore((taskArgs.dir as string | undefined) ?? contentDirectory(hre));
+
+    const server = createContentServer(store, { onStore: (hash) => console.log(`Stored survey content ${hash}`) });
+    const port = parseInt(taskArgs.port as string);
+    await new Promise<void>((resolve) => server.listen(port, taskArgs.host as string, resolve));
+
+    console.log("\n=== Survey Content Server ===");
+    console.log("Directory:", store.directory);
+    console.log(`Listening on http://${taskArgs.host}:${port} (Ctrl+C to stop)`);
+
+    await new Promise((resolve) => server.on("close", resolve));
+  });
+
+/**
+ * Task: Publish the results of ended surveys as a policy file allows
+ * Usage: npx hardhat keeper --policy surveys/keeper-policy.yaml [--dry-run] --network localhost
+ * Idempotent, so cron can run it: `*\/15 * * * * flock -n /tmp/survey-keeper.lock npx hardhat keeper ...`
+ */
+task("keeper", "Publish the results of ended surveys covered by a policy file, from the first account")
+  .addParam("policy", "JSON or YAML keeper policy (graceMinutes, creators, surveys, exclude)")
+  .addFlag("dryRun", "Print what would be published without sending any transaction")
+  .setAction(async (taskArgs: TaskArguments, hre: HardhatRuntimeEnvironment) => {
+    const { parseKeeperPolicy, runKeeper } = await import("../src/keeper");
+    const policy = parseKeeperPolicy(readDefinitionFile(taskArgs.policy as string));
+    const [signer] = await hre.ethers.getSigners();
+    const contractAddress = (await hre.deployments.get("EmployeePrivacySurvey")).address;
+    const dryRun = taskArgs.dryRun as boolean;
+
+    console.log(`
+=== Survey Keeper${dryRun ? " (dry run)" : ""} ===`);
+    const run = await runKeeper(signer, contractAddress, policy, {
+      dryRun,
+      onDecision: (decision) => console.log(`#${decision.surveyId}: ${decision.action} - ${decision.reason}`),
+    });
+    for (const failure of run.failed) {
+      console.error(`#${failure.surveyId}: publishing failed - ${failure.error}`);
+    }
+
+    const ready = run.decisions.filter((decision) => decision.action === "publish").length;
+    console.log(
+      `Checked ${run.checked} survey(s): ${
+        dryRun ? `${ready} would be published` : `${run.published.length} published`
+      }, ` + `${run.decisions.filter((decision) => decision.action === "wait").length} waiting`,
+    );
+    if (run.failed.length > 0) {
+      throw new Error(`${run.failed.length} survey(s) could not be published`);
+    }
+  });
+
+/**
+ * Task: Reveal the average rating of a question
+ * Usage: npx hardhat reveal-average --survey-id 1 --question-id 0 --network hardhat
+ */
+task("reveal-average", "Request decryption of a question average and wait for the revealed result")
+  .addParam("surveyId", "The survey ID")
+  .addParam("questionId", "The question index (0-based)")
+  .addParam("timeout", "Seconds to wait for the decryption oracle", "300", undefined, true)
+  .setAction(async (taskArgs: TaskArguments, hre: HardhatRuntimeEnvironment) => {
+    const surveyId = BigInt(taskArgs.surveyId as string);
+    const questionId = parseInt(taskArgs.questionId as string);
+    const timeoutSeconds = parseInt(taskArgs.timeout as string);
+
+    await hre.fhevm.initializeCLIApi();
+
+    const client = await connectSurvey(hre);
+
+    console.log("\nRevealing question average...");
+    const result = await client.revealAverage(surveyId, questionId, revealOptions(hre, timeoutSeconds));
+
+    if (!result.revealed || result.average === null) {
+      console.log("✗ Result not revealed yet, run the task again later");
+      return;
+    }
+
+    const question = (await client.getQuestions(surveyId))[questionId];
+
+    console.log("\n=== Question Result ===");
+    console.log("Survey ID:", surveyId.toString());
+    console.log("Question:", questionId + 1, `(${describeQuestion(question)})`);
+    if (question.questionType === QuestionType.YesNo) {
+      console.log("Yes Answers:", `${result.totalScore} (${(result.average * 100).toFixed(1)}%)`);
+    } else {
+      console.log("Average:", result.average.toFixed(2));
+      console.log("Total Score:", result.totalScore);
+    }
+    console.log("Total Responses:", result.totalResponses);
+  });
+
+/**
+ * Task: Get the rating distribution of a question
+ * Usage: npx hardhat get-histogram --survey-id 1 --question-id 0 --network hardhat
+ */
+task("get-histogram", "Reveal and print how many employees chose each answer for a question")
+  .addParam("surveyId", "The survey ID")
+  .addParam("questionId", "The question index (0-based)")
+  .addParam("timeout", "Seconds to wait for the decryption oracle", "300", undefined, true)
+  .setAction(async (taskArgs: TaskArguments, hre: HardhatRuntimeEnvironment) => {
+    const surveyId = BigInt(taskArgs.surveyId as string);
+    const questionId = parseInt(taskArgs.questionId as string);
+    const timeoutSeconds = parseInt(taskArgs.timeout as string);
+
+    await hre.fhevm.initializeCLIApi();
+
+    const client = await connectSurvey(hre);
+
+    console.log("\nRevealing answer distribution...");
+    const histogram = await client.revealHistogram(surveyId, questionId, revealOptions(hre, timeoutSeconds));
+
+    if (!histogram.revealed) {
+      console.log("✗ Distribution not revealed yet, run the task again later");
+      return;
+    }
+
+    const question = (await client.getQuestions(surveyId))[questionId];
+    const isYesNo = question.questionType === QuestionType.YesNo;
+    const total = histogram.counts.reduce((sum, count) => sum + count, 0);
+
+    console.log("\n=== Answer Distribution ===");
+    console.log("Survey ID:", surveyId.toString());
+    console.log("Question:", questionId + 1, `(${describeQuestion(question)})`);
+    histogram.counts.forEach((count, bucket) => {
+      // Yes/no questions store no as 0 and yes as 1
+      const value = histogram.values[bucket];
+      const label = isYesNo ? (value === 1 ? "Yes" : "No") : String(value);
+      const share = total > 0 ? count / total : 0;
+      const bar = "█".repeat(Math.round(share * 40));
+      console.log(`${label.padStart(3)} ${String(count).padStart(5)} ${(share * 100).toFixed(1).padStart(5)}% ${bar}`);
+    });
+    console.log("Total Responses:", total);
+  });
+
+/**
+ * Task: Reveal and print the results of every segment
+ * Usage: npx hardhat segment-report --survey-id 1 --network hardhat
+ */
+task("segment-report", "Reveal and print each segment's respondent count and per-question averages")
+  .addParam("surveyId", "The survey ID")
+  .addParam("timeout", "Seconds to wait for the decryption oracle, per segment", "300", undefined, true)
+  .setAction(async (taskArgs: TaskArguments, hre: HardhatRuntimeEnvironment) => {
+    const surveyId = BigInt(taskArgs.surveyId as string);
+    const timeoutSeconds = parseInt(taskArgs.timeout as string);
+
+    await hre.fhevm.initializeCLIApi();
+
+    const client = await connectSurvey(hre);
+    const [segments, questions, survey] = await Promise.all([
+      client.getSegments(surveyId),
+      client.getQuestions(surveyId),
+      client.getSurvey(surveyId),
+    ]);
+    if (segments.length === 0) {
+      throw new Error(`Survey ${surveyId} has no segments`);
+    }
+
+    console.log(`\nRevealing ${segments.length} segments...`);
+    const results = [];
+    for (let segment = 0; segment < segments.length; segment++) {
+      results.push(await client.revealSegment(surveyId, segment, revealOptions(hre, timeoutSeconds)));
+    }
+
+    console.log("\n=== Segment Report ===");
+    console.log("Survey ID:", surveyId.toString());
+    console.log("Total Responses:", survey.totalResponses);
+    segments.forEach((label, segment) => {
+      const result = results[segment];
+      console.log(`\n${label}`);
+      if (!result.revealed) {
+        console.log("  ✗ Not revealed yet, run the task again later");
+      } else if (result.withheld) {
+        console.log("  Withheld: a segment with responses has fewer than the survey's minimum, or none chose this one");
+      } else {
+        console.log("  Respondents:", result.respondents);
+        questions.forEach((question, index) => {
+          const average = result.averages[index]!;
+          const value =
+            question.questionType === QuestionType.YesNo ? `${(average * 100).toFixed(1)}% yes` : average.toFixed(2);
+          console.log(`  Q${index + 1}: ${value}`);
+        });
+      }
+    });
   });
 
 /**
  * Task: Get total surveys
  * Usage: npx hardhat get-total-surveys --network hardhat
  */
-task("get-total-surveys", "Get total number of surveys", async (taskArgs: TaskArguments, hre: HardhatRuntimeEnvironment) => {
-  const contractAddress = (await hre.deployments.get("EmployeePrivacySurvey")).address;
-  const contract = await hre.ethers.getContractAt("EmployeePrivacySurvey", contractAddress);
+task(
+  "get-total-surveys",
+  "Get total number of surveys",
+  async (taskArgs: TaskArguments, hre: HardhatRuntimeEnvironment) => {
+    const client = await connectSurvey(hre);
+
+    const total = await client.getTotalSurveys();
+    console.log("\nTotal surveys created:", total);
+  },
+);
+
+/**
+ * Task: Index survey events into a local file
+ * Usage: npx hardhat index-events [--confirmations 5] [--reset] --network sepolia
+ */
+task("index-events", "Index the contract's survey events into a local JSON file, resuming where the last run stopped")
+  .addParam("store", "Index file (default .survey-index/<network>.json)", undefined, undefined, true)
+  .addParam("confirmations", "Blocks to stay behind the chain head", "0", undefined, true)
+  .addParam("batchSize", "Blocks per log query", "2000", undefined, true)
+  .addFlag("reset", "Discard the existing index and start again from the deployment block")
+  .setAction(async (taskArgs: TaskArguments, hre: HardhatRuntimeEnvironment) => {
+    const { buildSurveys, JsonFileStore, SurveyIndexer } = await import("../src/indexer");
+    const store = new JsonFileStore(indexFile(hre, taskArgs.store as string | undefined));
+    if (taskArgs.reset) {
+      await store.clear();
+    }
+
+    const deployment = await hre.deployments.get("EmployeePrivacySurvey");
+    const indexer = new SurveyIndexer(hre.ethers.provider, deployment.address, store, {
+      startBlock: deployment.receipt?.blockNumber ?? 0,
+      confirmations: parseInt(taskArgs.confirmations as string),
+      batchSize: parseInt(taskArgs.batchSize as string),
+    });
+
+    console.log("\nIndexing survey events...");
+    console.log("Contract:", deployment.address);
+    console.log("Index file:", store.file);
+
+    const result = await indexer.sync((toBlock, headBlock) => console.log(`  up to block ${toBlock} of ${headBlock}`));
+
+    if (result.reorgedFrom !== null) {
+      console.log(`⚠ Chain reorganisation detected, dropped events from block ${result.reorgedFrom} on`);
+    }
+    if (result.fromBlock > result.toBlock) {
+      console.log("✓ Index already up to date at block", result.toBlock);
+    } else {
+      console.log(`✓ Indexed blocks ${result.fromBlock}-${result.toBlock}: ${result.newEvents} new event(s)`);
+    }
+
+    const state = (await store.load())!;
+    console.log("Surveys in index:", buildSurveys(state.events).length);
+    console.log("Events in index:", state.events.length);
+  });
+
+/**
+ * Task: Query surveys from the local event index
+ * Usage: npx hardhat query-surveys [--creator 0x...] [--status upcoming|open|ended|published] [--survey-id 1] [--json]
+ *        --network sepolia
+ */
+task("query-surveys", "List surveys from the local event index without calling the contract")
+  .addParam("store", "Index file (default .survey-index/<network>.json)", undefined, undefined, true)
+  .addParam("creator", "Only surveys created by this address", undefined, undefined, true)
+  .addParam("status", "Only upcoming, open, ended or published surveys", undefined, undefined, true)
+  .addParam("surveyId", "Show a single survey with its response timeline", undefined, undefined, true)
+  .addFlag("json", "Print the matching surveys as JSON")
+  .setAction(async (taskArgs: TaskArguments, hre: HardhatRuntimeEnvironment) => {
+    const { indexedSurveyStatus, JsonFileStore, querySurveys } = await import("../src/indexer");
+    const store = new JsonFileStore(indexFile(hre, taskArgs.store as string | undefined));
+
+    const status = taskArgs.status as IndexedSurveyStatus | undefined;
+    if (status !== undefined && !["upcoming", "open", "ended", "published"].includes(status)) {
+      throw new Error(`Unknown status "${status}", expected upcoming, open, ended or published`);
+    }
+
+    const state = await store.load();
+    if (!state) {
+      throw new Error(`No index at ${store.file}, run index-events first`);
+    }
+
+    let surveys = querySurveys(state, {
+      creator: taskArgs.creator as string | undefined,
+      status,
+    });
+    if (taskArgs.surveyId !== undefined) {
+      surveys = surveys.filter((survey) => survey.id === parseInt(taskArgs.surveyId as string));
+    }
+
+    if (taskArgs.json) {
+      console.log(JSON.stringify(surveys, null, 2));
+      return;
+    }
+
+    console.log(`\n=== Indexed Surveys (up to block ${state.lastBlock}) ===`);
+    if (surveys.length === 0) {
+      console.log("No matching surveys");
+      return;
+    }
+    const { DirectoryContentStore } = await import("../src/content/store");
+    const content = new DirectoryContentStore(contentDirectory(hre));
+    for (const survey of surveys) {
+      const title = await fetchSurveyContent(content, survey.contentHash).then(
+        ({ title }) => title,
+        () => `(content ${survey.contentHash} not in ${content.directory})`,
+      );
+      console.log(`#${survey.id} [${indexedSurveyStatus(survey)}] ${title}`);
+      console.log(`    Creator: ${survey.creator}`);
+      console.log(
+        `    Responses: ${
+          survey.responses
+        }, opens ${survey.startTime.toISOString()}, ends ${survey.endTime.toISOString()}`,
+      );
+      if (taskArgs.surveyId !== undefined) {
+        console.log(`    Created in block ${survey.createdBlock} (${survey.createdTransaction})`);
+        if (survey.closedAt) {
+          console.log(`    Closed early: ${survey.closedAt.toISOString()}`);
+        }
+        console.log(`    Decryption requests: ${survey.decryptionRequests}`);
+        survey.responseTimes.forEach((time, index) => console.log(`    Response ${index + 1}: ${time.toISOString()}`));
+      }
+    }
+  });
+
+/**
+ * Task: Build the eligibility tree of a survey from an HR roster
+ * Usage: npx hardhat build-roster-tree --roster employees.csv [--publish public/rosters]
+ */
+task("build-roster-tree", "Turn an HR roster CSV into an eligibility Merkle tree and one proof file per employee")
+  .addParam("roster", "CSV with a header row and a wallet (or address) column")
+  .addParam("out", "Directory for the tree and proofs; files go to <out>/<root>/", "rosters", undefined, true)
+  .addParam(
+    "publish",
+    "Also copy the proofs where the web app loads them, e.g. public/rosters",
+    undefined,
+    undefined,
+    true,
+  )
+  .setAction(async (taskArgs: TaskArguments) => {
+    const entries = parseRoster(fs.readFileSync(taskArgs.roster as string, "utf8"));
+    const tree = buildEligibilityTree(entries.map((entry) => entry.address));
+
+    const treeDir = path.join(taskArgs.out as string, tree.root);
+    const proofDir = path.join(treeDir, "proofs");
+    fs.mkdirSync(proofDir, { recursive: true });
+    fs.writeFileSync(
+      path.join(treeDir, "tree.json"),
+      JSON.stringify({ roster: path.basename(taskArgs.roster as string), ...tree }, null, 2),
+    );
+    for (const address of tree.addresses) {
+      const proof = eligibilityProof(tree, address)!;
+      fs.writeFileSync(path.join(proofDir, `${address.toLowerCase()}.json`), JSON.stringify(proof, null, 2));
+    }
 
-  const total = await contract.getTotalSurveys();
-  console.log("\nTotal surveys created:", total.toString());
-});
+    console.log("\n=== Eligibility Tree ===");
+    console.log("Employees:", tree.addresses.length);
+    console.log("Tree:", path.join(treeDir, "tree.json"));
+    console.log("Proofs:", proofDir);
+
+    if (taskArgs.publish) {
+      const publishDir = path.join(taskArgs.publish as string, tree.root);
+      fs.mkdirSync(publishDir, { recursive: true });
+      for (const file of fs.readdirSync(proofDir)) {
+        fs.copyFileSync(path.join(proofDir, file), path.join(publishDir, file));
+      }
+      console.log("Published proofs:", publishDir);
+    }
+
+    console.log("Root:", tree.root);
+    console.log("Use it as eligibilityRoot in a create-survey definition to limit responses to this roster");
+  });
+
+/**
+ * Task: Create an organization with the first account as its admin
+ * Usage: npx hardhat create-organization --name "Acme HR" --network hardhat
+ */
+task("create-organization", "Create an organization with the first account as its admin")
+  .addParam("name", "Organization name")
+  .setAction(async (taskArgs: TaskArguments, hre: HardhatRuntimeEnvironment) => {
+    const organizations = await (await connectSurvey(hre)).organizations();
+
+    const organizationId = await organizations.createOrganization(taskArgs.name as string);
+    console.log("✓ Organization created successfully!");
+    console.log("Organization ID:", organizationId.toString());
+    console.log("Registry:", organizations.address);
+  });
+
+/**
+ * Task: Grant a role in an organization (organization admins only)
+ * Usage: npx hardhat grant-role --organization 1 --role author --account 0x... --network hardhat
+ */
+task("grant-role", "Grant an organization role (admin, author or analyst) to an account")
+  .addParam("organization", "The organization ID")
+  .addParam("role", "admin, author or analyst")
+  .addParam("account", "Address to grant the role to")
+  .setAction(async (taskArgs: TaskArguments, hre: HardhatRuntimeEnvironment) => {
+    const organizationId = BigInt(taskArgs.organization as string);
+    const role = readRole(taskArgs.role as string);
+    const account = hre.ethers.getAddress(taskArgs.account as string);
+
+    const organizations = await (await connectSurvey(hre)).organizations();
+
+    const receipt = await organizations.grantRole(organizationId, role, account);
+    console.log(`✓ ${account} is now ${ROLE_LABELS[role]} of organization ${organizationId}`);
+    console.log("Transaction:", receipt.hash);
+  });
+
+/**
+ * Task: Revoke a role in an organization (organization admins only)
+ * Usage: npx hardhat revoke-role --organization 1 --role analyst --account 0x... --network hardhat
+ */
+task("revoke-role", "Revoke an organization role from an account; the last admin cannot be removed")
+  .addParam("organization", "The organization ID")
+  .addParam("role", "admin, author or analyst")
+  .addParam("account", "Address to revoke the role from")
+  .setAction(async (taskArgs: TaskArguments, hre: HardhatRuntimeEnvironment) => {
+    const organizationId = BigInt(taskArgs.organization as string);
+    const role = readRole(taskArgs.role as string);
+    const account = hre.ethers.getAddress(taskArgs.account as string);
+
+    const organizations = await (await connectSurvey(hre)).organizations();
+
+    const receipt = await organizations.revokeRole(organizationId, role, account);
+    console.log(`✓ ${account} is no longer ${ROLE_LABELS[role]} of organization ${organizationId}`);
+    console.log("Transaction:", receipt.hash);
+  });
+
+/**
+ * Task: List an organization's members and their roles
+ * Usage: npx hardhat list-members --organization 1 --network hardhat
+ */
+task("list-members", "List an organization's members and their roles")
+  .addParam("organization", "The organization ID")
+  .setAction(async (taskArgs: TaskArguments, hre: HardhatRuntimeEnvironment) => {
+    const organizationId = BigInt(taskArgs.organization as string);
+
+    const organizations = await (await connectSurvey(hre)).organizations();
+
+    const organization = await organizations.getOrganization(organizationId);
+    if (!organization.name) {
+      throw new Error(`Organization ${organizationId} does not exist`);
+    }
+    const members = await organizations.getMembers(organizationId);
+    console.log(`\n=== ${organization.name} (organization ${organizationId}) ===`);
+    console.log("Members:", organization.memberCount);
+    for (const member of members) {
+      console.log(`  ${member.account}  ${member.roles.map((role) => ROLE_LABELS[role]).join(", ")}`);
+    }
+  });
@@ -1,8 +1,22 @@
+import { FhevmType } from "@fhevm/hardhat-plugin";
 import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import type { HDNodeWallet, Wallet } from "ethers";
 import { ethers, fhevm } from "hardhat";
-import { EmployeePrivacySurvey, EmployeePrivacySurvey__factory } from "../types";
+import {
+  EmployeePrivacySurvey,
+  EmployeePrivacySurvey__factory,
+  OrganizationRegistry,
+  OrganizationRegistry__factory,
+  SurveyDirectory,
+  SurveyDirectory__factory,
+} from "../types";
 import { expect } from "chai";
-import { FhevmType } from "@fhevm/hardhat-plugin";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { buildEligibilityTree, eligibilityProof } from "../src/sdk/eligibility";
+import { deriveRespondentKey, responseNullifier, signResponse, signRevision } from "../src/sdk/signing";
+import { blindTicket, ticketMessage, unblindTicket, verifyTicket } from "../src/sdk/tickets";
+import { generateTicketKey, MemoryTicketKeyStore, TicketIssuer, ticketModulus } from "../src/relayer/tickets";
+import { constants, type KeyObject, privateDecrypt } from "crypto";
 
 /**
  * @title Employee Privacy Survey - FHEVM Test Suite
@@ -32,6 +46,34 @@ async function deployFixture() {
   return { surveyContract, surveyContractAddress };
 }
 
+const QuestionType = { Scale: 0, YesNo: 1 } as const;
+
+/**
+ * Question configs for the classic 1-5 star rating scale
+ */
+function fiveStarQuestions(count: number) {
+  return Array.from({ length: count }, () => ({ questionType: QuestionType.Scale, minValue: 1, maxValue: 5 }));
+}
+
+/**
+ * createSurvey end time a number of days after the latest block, which tests move forward with evm_increaseTime
+ */
+async function daysFromNow(days: number) {
+  const latest = await ethers.provider.getBlock("latest");
+  return latest!.timestamp + days * 24 * 60 * 60;
+}
+
+/**
+ * Encrypts ratings client-side so that no plaintext value is ever sent on chain
+ */
+async function encryptRatings(contractAddress: string, signer: HardhatEthersSigner, ratings: number[]) {
+  const input = fhevm.createEncryptedInput(contractAddress, signer.address);
+  for (const rating of ratings) {
+    input.add8(rating);
+  }
+  return input.encrypt();
+}
+
 describe("EmployeePrivacySurvey - FHEVM Access Control", function () {
   let signers: Signers;
   let surveyContract: EmployeePrivacySurvey;
@@ -58,6 +100,46 @@ describe("EmployeePrivacySurvey - FHEVM Access Control", function () {
     ({ surveyContract, surveyContractAddress } = await deployFixture());
   });
 
+  /**
+   * The key that signs the respondent's answers to a survey, derived from their wallet signature
+   */
+  function respondentKey(respondent: HardhatEthersSigner | HDNodeWallet, surveyId: number) {
+    return deriveRespondentKey(respondent, surveyContractAddress, surveyId);
+  }
+
+  /**
+   * Nullifier the respondent's response to a survey is stored under
+   */
+  async function nullifierOf(respondent: HardhatEthersSigner | HDNodeWallet, surveyId: number) {
+    return responseNullifier(surveyContractAddress, surveyId, (await respondentKey(respondent, surveyId)).address);
+  }
+
+  /**
+   * submitResponse arguments for answers the respondent's key signed. The answers must be encrypted for
+   * whoever sends the transaction, which is the respondent unless a relayer submits it.
+   */
+  async function signedResponse(
+    respondent: HardhatEthersSigner | HDNodeWallet,
+    surveyId: number,
+    ratings: Uint8Array[],
+    yesNo: Uint8Array[],
+    inputProof: Uint8Array,
+    ticket = "0x",
+    segmentHandle?: Uint8Array,
+  ) {
+    const encrypted = { ratingHandles: ratings, yesNoHandles: yesNo, segmentHandle, inputProof };
+    const key = await respondentKey(respondent, surveyId);
+    const { nullifier, segment, signature } = await signResponse(key, surveyContractAddress, surveyId, encrypted, ticket);
+    return [surveyId, ratings, yesNo, segment, inputProof, { nullifier, ticket, signature }] as const;
+  }
+
+  async function submitEncryptedResponse(signer: HardhatEthersSigner, surveyId: number, ratings: number[]) {
+    const encrypted = await encryptRatings(surveyContractAddress, signer, ratings);
+    return surveyContract
+      .connect(signer)
+      .submitResponse(...(await signedResponse(signer, surveyId, encrypted.handles, [], encrypted.inputProof)));
+  }
+
   /**
    * Test 1: Survey Creation & Metadata
    *
@@ -66,14 +148,12 @@ describe("EmployeePrivacySurvey - FHEVM Access Control", function () {
    */
   describe("Survey Creation & Metadata", function () {
     it("should create a new survey with correct parameters", async function () {
-      const title = "Employee Satisfaction Survey Q4 2024";
-      const description = "Rate your job satisfaction";
-      const questions = ["How satisfied are you with your role?", "How satisfied are you with management?"];
+      const contentHash = ethers.id("Employee Satisfaction Survey Q4 2024");
       const durationDays = 7;
 
       const tx = await surveyContract
         .connect(signers.creator)
-        .createSurvey(title, description, questions, durationDays);
+        .createSurvey(contentHash, fiveStarQuestions(2), 0, await daysFromNow(durationDays), 3, ethers.ZeroHash, "0x", [], 0);
 
       await expect(tx).to.emit(surveyContract, "SurveyCreated");
 
@@ -81,20 +161,19 @@ describe("EmployeePrivacySurvey - FHEVM Access Control", function () {
       const survey = await surveyContract.getSurvey(surveyId);
 
       expect(survey.creator).to.equal(signers.creator.address);
-      expect(survey.title).to.equal(title);
-      expect(survey.description).to.equal(description);
+      expect(survey.contentHash).to.equal(contentHash);
       expect(survey.active).to.be.true;
       expect(survey.totalResponses).to.equal(0);
     });
 
-    it("should retrieve survey questions correctly", async function () {
-      const questions = ["Question 1", "Question 2", "Question 3"];
+    it("should retrieve survey question configs correctly", async function () {
       await surveyContract
         .connect(signers.creator)
-        .createSurvey("Test Survey", "Description", questions, 7);
+        .createSurvey(ethers.id("Test Survey"), fiveStarQuestions(3), 0, await daysFromNow(7), 3, ethers.ZeroHash, "0x", [], 0);
 
-      const retrievedQuestions = await surveyContract.getSurveyQuestions(1);
-      expect(retrievedQuestions).to.deep.equal(questions);
+      const configs = await surveyContract.getQuestionConfigs(1);
+      expect(configs).to.have.length(3);
+      expect(configs.map((config) => [config.minValue, config.maxValue])).to.deep.equal([[1n, 5n], [1n, 5n], [1n, 5n]]);
     });
 
     it("should track total surveys count", async function () {
@@ -102,35 +181,55 @@ describe("EmployeePrivacySurvey - FHEVM Access Control", function () {
 
       await surveyContract
         .connect(signers.creator)
-        .createSurvey("Survey 1", "Description", ["Q1"], 7);
+        .createSurvey(ethers.id("Survey 1"), fiveStarQuestions(1), 0, await daysFromNow(7), 3, ethers.ZeroHash, "0x", [], 0);
 
       expect(await surveyContract.getTotalSurveys()).to.equal(1);
 
       await surveyContract
         .connect(signers.creator)
-        .createSurvey("Survey 2", "Description", ["Q1"], 7);
+        .createSurvey(ethers.id("Survey 2"), fiveStarQuestions(1), 0, await daysFromNow(7), 3, ethers.ZeroHash, "0x", [], 0);
 
       expect(await surveyContract.getTotalSurveys()).to.equal(2);
     });
 
-    it("should fail to create survey with empty title", async function () {
+    it("should fail to create survey without a content hash", async function () {
       await expect(
-        surveyContract.connect(signers.creator).createSurvey("", "Description", ["Q1"], 7)
-      ).to.be.revertedWith("Title cannot be empty");
+        surveyContract.connect(signers.creator).createSurvey(ethers.ZeroHash, fiveStarQuestions(1), 0, await daysFromNow(7), 3, ethers.ZeroHash, "0x", [], 0)
+      ).to.be.revertedWith("Content hash required");
     });
 
     it("should fail to create survey with no questions", async function () {
       await expect(
-        surveyContract.connect(signers.creator).createSurvey("Title", "Description", [], 7)
+        surveyContract.connect(signers.creator).createSurvey(ethers.id("Title"), [], 0, await daysFromNow(7), 3, ethers.ZeroHash, "0x", [], 0)
       ).to.be.revertedWith("Must have at least one question");
     });
+
+    it("should record the template a survey was created from once, by its creator", async function () {
+      await surveyContract
+        .connect(signers.creator)
+        .createSurvey(ethers.id("Survey 1"), fiveStarQuestions(1), 0, await daysFromNow(7), 3, ethers.ZeroHash, "0x", [], 0);
+      const template = ethers.encodeBytes32String("employee-satisfaction@1");
+      expect(await surveyContract.surveyTemplates(1)).to.equal(ethers.ZeroHash);
+
+      await expect(surveyContract.connect(signers.employee1).recordTemplate(1, template)).to.be.revertedWith(
+        "Not survey creator"
+      );
+      await expect(surveyContract.connect(signers.creator).recordTemplate(1, template))
+        .to.emit(surveyContract, "SurveyTemplateRecorded")
+        .withArgs(1, template);
+      expect(await surveyContract.surveyTemplates(1)).to.equal(template);
+
+      await expect(
+        surveyContract.connect(signers.creator).recordTemplate(1, ethers.encodeBytes32String("employee-satisfaction@2"))
+      ).to.be.revertedWith("Template already recorded");
+    });
   });
 
   /**
    * Test 2: Encrypted Responses & Access Control
    *
    * FHEVM Concepts:
-   * - Encrypted Input: Employee ratings are encrypted using FHE
+   * - Encrypted Input: Employee ratings are encrypted client-side and verified with an input proof
    * - Access Control: FHE.allowThis() and FHE.allow() manage permissions
    *
    * Privacy Guarantee: Individual responses remain encrypted and cannot be
@@ -141,19 +240,31 @@ describe("EmployeePrivacySurvey - FHEVM Access Control", function () {
       const questions = ["Satisfaction", "Work Environment"];
       await surveyContract
         .connect(signers.creator)
-        .createSurvey("Survey", "Description", questions, 7);
+        .createSurvey(ethers.id("Survey"), fiveStarQuestions(questions.length), 0, await daysFromNow(7), 3, ethers.ZeroHash, "0x", [], 0);
     });
 
     it("should submit encrypted response with correct access control", async function () {
       const surveyId = 1;
       const ratings = [5, 4]; // 5-star rating for Q1, 4-star for Q2
 
-      const tx = await surveyContract.connect(signers.employee1).submitResponse(surveyId, ratings);
+      // Encrypt client-side: only ciphertext handles and the input proof go on chain
+      const input = fhevm.createEncryptedInput(surveyContractAddress, signers.employee1.address);
+      input.add8(ratings[0]);
+      input.add8(ratings[1]);
+      const encrypted = await input.encrypt();
+
+      const tx = await surveyContract
+        .connect(signers.employee1)
+        .submitResponse(
+          ...(await signedResponse(signers.employee1, surveyId, encrypted.handles, [], encrypted.inputProof)),
+        );
 
-      await expect(tx).to.emit(surveyContract, "ResponseSubmitted").withArgs(surveyId, signers.employee1.address);
+      // The event carries the nullifier of the respondent's key, never their address
+      const nullifier = await nullifierOf(signers.employee1, surveyId);
+      await expect(tx).to.emit(surveyContract, "ResponseSubmitted").withArgs(surveyId, nullifier, anyValue);
 
       // Verify response was recorded
-      const hasResponded = await surveyContract.hasResponded(surveyId, signers.employee1.address);
+      const hasResponded = await surveyContract.hasResponded(surveyId, nullifier);
       expect(hasResponded).to.be.true;
 
       const survey = await surveyContract.getSurvey(surveyId);
@@ -165,30 +276,38 @@ describe("EmployeePrivacySurvey - FHEVM Access Control", function () {
       const ratings = [5, 4];
 
       // First response should succeed
-      await surveyContract.connect(signers.employee1).submitResponse(surveyId, ratings);
+      await submitEncryptedResponse(signers.employee1, surveyId, ratings);
 
       // Second response from same employee should fail
       await expect(
-        surveyContract.connect(signers.employee1).submitResponse(surveyId, ratings)
+        submitEncryptedResponse(signers.employee1, surveyId, ratings)
       ).to.be.revertedWith("Already responded");
     });
 
-    it("should validate rating values (1-5 range)", async function () {
+    it("should accept out-of-range ratings without revealing them through a revert", async function () {
       const surveyId = 1;
 
-      // Test rating too low (0)
-      await expect(
-        surveyContract.connect(signers.employee1).submitResponse(surveyId, [0, 3])
-      ).to.be.revertedWith("Rating must be between 1-5");
+      // Out-of-range values are clamped into 1-5 homomorphically instead of being rejected,
+      // because a revert would leak information about the encrypted value
+      await expect(submitEncryptedResponse(signers.employee1, surveyId, [0, 3]))
+        .to.emit(surveyContract, "ResponseSubmitted");
+      await expect(submitEncryptedResponse(signers.employee2, surveyId, [3, 6]))
+        .to.emit(surveyContract, "ResponseSubmitted");
+    });
 
-      // Test rating too high (6)
-      await expect(
-        surveyContract.connect(signers.employee2).submitResponse(surveyId, [3, 6])
-      ).to.be.revertedWith("Rating must be between 1-5");
+    it("should reject encrypted input bound to another account", async function () {
+      const surveyId = 1;
 
-      // Valid ratings should succeed
-      await expect(surveyContract.connect(signers.employee1).submitResponse(surveyId, [1, 5]))
-        .to.emit(surveyContract, "ResponseSubmitted");
+      // The input proof ties the ciphertexts to employee2, so employee1 cannot replay them
+      const encrypted = await encryptRatings(surveyContractAddress, signers.employee2, [5, 4]);
+
+      await expect(
+        surveyContract
+          .connect(signers.employee1)
+          .submitResponse(
+            ...(await signedResponse(signers.employee1, surveyId, encrypted.handles, [], encrypted.inputProof)),
+          ),
+      ).to.be.reverted;
     });
 
     it("should require correct number of responses", async function () {
@@ -196,26 +315,29 @@ describe("EmployeePrivacySurvey - FHEVM Access Control", function () {
 
       // Survey has 2 questions, provide 3 ratings
       await expect(
-        surveyContract.connect(signers.employee1).submitResponse(surveyId, [5, 4, 3])
+        submitEncryptedResponse(signers.employee1, surveyId, [5, 4, 3])
       ).to.be.revertedWith("Answer count mismatch");
 
       // Provide 1 rating instead of 2
       await expect(
-        surveyContract.connect(signers.employee1).submitResponse(surveyId, [5])
+        submitEncryptedResponse(signers.employee1, surveyId, [5])
       ).to.be.revertedWith("Answer count mismatch");
     });
 
     it("should prevent responses after survey expires", async function () {
-      // Create survey with 0 duration (expires immediately)
       await surveyContract
         .connect(signers.creator)
-        .createSurvey("Quick Survey", "Description", ["Q1"], 0);
+        .createSurvey(ethers.id("Quick Survey"), fiveStarQuestions(1), 0, await daysFromNow(1), 3, ethers.ZeroHash, "0x", [], 0);
 
       const surveyId = 2;
 
+      // Move past the one-day deadline
+      await ethers.provider.send("evm_increaseTime", [2 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine", []);
+
       // Try to submit response (should fail because survey is already expired)
       await expect(
-        surveyContract.connect(signers.employee1).submitResponse(surveyId, [3])
+        submitEncryptedResponse(signers.employee1, surveyId, [3])
       ).to.be.revertedWith("Survey expired");
     });
 
@@ -224,13 +346,13 @@ describe("EmployeePrivacySurvey - FHEVM Access Control", function () {
       const ratings = [5, 4];
 
       // Submit from employee1
-      await surveyContract.connect(signers.employee1).submitResponse(surveyId, ratings);
+      await submitEncryptedResponse(signers.employee1, surveyId, ratings);
 
       // Submit from employee2
-      await surveyContract.connect(signers.employee2).submitResponse(surveyId, [3, 3]);
+      await submitEncryptedResponse(signers.employee2, surveyId, [3, 3]);
 
       // Submit from employee3
-      await surveyContract.connect(signers.employee3).submitResponse(surveyId, [2, 5]);
+      await submitEncryptedResponse(signers.employee3, surveyId, [2, 5]);
 
       const survey = await surveyContract.getSurvey(surveyId);
       expect(survey.totalResponses).to.equal(3);
@@ -250,19 +372,19 @@ describe("EmployeePrivacySurvey - FHEVM Access Control", function () {
       const questions = ["Q1"];
       await surveyContract
         .connect(signers.creator)
-        .createSurvey("Survey", "Description", questions, 7);
+        .createSurvey(ethers.id("Survey"), fiveStarQuestions(questions.length), 0, await daysFromNow(7), 3, ethers.ZeroHash, "0x", [], 0);
 
       const surveyId = 1;
 
       // Submit a response while active
-      await surveyContract.connect(signers.employee1).submitResponse(surveyId, [5]);
+      await submitEncryptedResponse(signers.employee1, surveyId, [5]);
 
       // Close survey
       await surveyContract.connect(signers.creator).closeSurvey(surveyId);
 
       // Try to submit another response (should fail)
       await expect(
-        surveyContract.connect(signers.employee2).submitResponse(surveyId, [4])
+        submitEncryptedResponse(signers.employee2, surveyId, [4])
       ).to.be.revertedWith("Survey not active");
     });
 
@@ -270,7 +392,7 @@ describe("EmployeePrivacySurvey - FHEVM Access Control", function () {
       const questions = ["Q1"];
       await surveyContract
         .connect(signers.creator)
-        .createSurvey("Survey", "Description", questions, 7);
+        .createSurvey(ethers.id("Survey"), fiveStarQuestions(questions.length), 0, await daysFromNow(7), 3, ethers.ZeroHash, "0x", [], 0);
 
       const surveyId = 1;
 
@@ -281,20 +403,21 @@ describe("EmployeePrivacySurvey - FHEVM Access Control", function () {
 
       // Close as creator (should succeed)
       await expect(surveyContract.connect(signers.creator).closeSurvey(surveyId))
-        .not.to.be.reverted;
+        .to.emit(surveyContract, "SurveyClosed");
     });
 
     it("should publish results after closing", async function () {
       const questions = ["Q1", "Q2"];
       await surveyContract
         .connect(signers.creator)
-        .createSurvey("Survey", "Description", questions, 7);
+        .createSurvey(ethers.id("Survey"), fiveStarQuestions(questions.length), 0, await daysFromNow(7), 3, ethers.ZeroHash, "0x", [], 0);
 
       const surveyId = 1;
 
       // Add responses
-      await surveyContract.connect(signers.employee1).submitResponse(surveyId, [5, 4]);
-      await surveyContract.connect(signers.employee2).submitResponse(surveyId, [3, 3]);
+      await submitEncryptedResponse(signers.employee1, surveyId, [5, 4]);
+      await submitEncryptedResponse(signers.employee2, surveyId, [3, 3]);
+      await submitEncryptedResponse(signers.employee3, surveyId, [4, 2]);
 
       // Close survey
       await surveyContract.connect(signers.creator).closeSurvey(surveyId);
@@ -311,7 +434,7 @@ describe("EmployeePrivacySurvey - FHEVM Access Control", function () {
       const questions = ["Q1"];
       await surveyContract
         .connect(signers.creator)
-        .createSurvey("Survey", "Description", questions, 7);
+        .createSurvey(ethers.id("Survey"), fiveStarQuestions(questions.length), 0, await daysFromNow(7), 3, ethers.ZeroHash, "0x", [], 0);
 
       const surveyId = 1;
 
@@ -328,12 +451,14 @@ describe("EmployeePrivacySurvey - FHEVM Access Control", function () {
       const questions = ["Q1"];
       await surveyContract
         .connect(signers.creator)
-        .createSurvey("Survey", "Description", questions, 7);
+        .createSurvey(ethers.id("Survey"), fiveStarQuestions(questions.length), 0, await daysFromNow(7), 3, ethers.ZeroHash, "0x", [], 0);
 
       const surveyId = 1;
 
-      // Add response
-      await surveyContract.connect(signers.employee1).submitResponse(surveyId, [5]);
+      // Add enough responses to unlock results
+      await submitEncryptedResponse(signers.employee1, surveyId, [5]);
+      await submitEncryptedResponse(signers.employee2, surveyId, [4]);
+      await submitEncryptedResponse(signers.employee3, surveyId, [3]);
 
       // Close and publish
       await surveyContract.connect(signers.creator).closeSurvey(surveyId);
@@ -344,6 +469,33 @@ describe("EmployeePrivacySurvey - FHEVM Access Control", function () {
         surveyContract.connect(signers.creator).publishResults(surveyId)
       ).to.be.revertedWith("Results already published");
     });
+
+    it("should close on its own and let anyone publish once expired", async function () {
+      await surveyContract
+        .connect(signers.creator)
+        .createSurvey(ethers.id("Survey"), fiveStarQuestions(1), 0, await daysFromNow(1), 3, ethers.ZeroHash, "0x", [], 0);
+
+      const surveyId = 1;
+      await submitEncryptedResponse(signers.employee1, surveyId, [5]);
+      await submitEncryptedResponse(signers.employee2, surveyId, [4]);
+      await submitEncryptedResponse(signers.employee3, surveyId, [3]);
+
+      // Before the end time only the creator may publish, and only after closing
+      await expect(
+        surveyContract.connect(signers.employee1).publishResults(surveyId)
+      ).to.be.revertedWith("Not survey creator");
+      await expect(
+        surveyContract.connect(signers.creator).publishResults(surveyId)
+      ).to.be.revertedWith("Survey still active");
+
+      await ethers.provider.send("evm_increaseTime", [24 * 60 * 60 + 1]);
+      await ethers.provider.send("evm_mine", []);
+      expect((await surveyContract.getSurvey(surveyId)).active).to.be.false;
+      expect((await surveyContract.getCurrentSurveyInfo(surveyId)).active).to.be.false;
+
+      await expect(surveyContract.connect(signers.employee1).publishResults(surveyId))
+        .to.emit(surveyContract, "ResultsPublished");
+    });
   });
 
   /**
@@ -357,13 +509,13 @@ describe("EmployeePrivacySurvey - FHEVM Access Control", function () {
       const questions = ["Q1", "Q2"];
       await surveyContract
         .connect(signers.creator)
-        .createSurvey("Survey", "Description", questions, 7);
+        .createSurvey(ethers.id("Survey"), fiveStarQuestions(questions.length), 0, await daysFromNow(7), 3, ethers.ZeroHash, "0x", [], 0);
 
       const surveyId = 1;
 
       // Add responses
-      await surveyContract.connect(signers.employee1).submitResponse(surveyId, [5, 4]);
-      await surveyContract.connect(signers.employee2).submitResponse(surveyId, [3, 3]);
+      await submitEncryptedResponse(signers.employee1, surveyId, [5, 4]);
+      await submitEncryptedResponse(signers.employee2, surveyId, [3, 3]);
 
       const info = await surveyContract.getCurrentSurveyInfo(surveyId);
 
@@ -373,24 +525,25 @@ describe("EmployeePrivacySurvey - FHEVM Access Control", function () {
       expect(info.resultsPublished).to.be.false;
     });
 
-    it("should track employee response status", async function () {
+    it("should track response status by nullifier", async function () {
       const questions = ["Q1"];
       await surveyContract
         .connect(signers.creator)
-        .createSurvey("Survey", "Description", questions, 7);
+        .createSurvey(ethers.id("Survey"), fiveStarQuestions(questions.length), 0, await daysFromNow(7), 3, ethers.ZeroHash, "0x", [], 0);
 
       const surveyId = 1;
+      const nullifier = await nullifierOf(signers.employee1, surveyId);
 
       // Before responding
-      let status = await surveyContract.getEmployeeResponseStatus(surveyId, signers.employee1.address);
-      expect(status.responded).to.be.false;
+      expect(await surveyContract.hasResponded(surveyId, nullifier)).to.be.false;
 
       // Submit response
-      await surveyContract.connect(signers.employee1).submitResponse(surveyId, [5]);
+      await submitEncryptedResponse(signers.employee1, surveyId, [5]);
 
-      // After responding
-      status = await surveyContract.getEmployeeResponseStatus(surveyId, signers.employee1.address);
-      expect(status.responded).to.be.true;
+      // After responding; the nullifier the contract derives from the signature is the one the respondent derives
+      expect(await surveyContract.hasResponded(surveyId, nullifier)).to.be.true;
+      expect(await surveyContract.responseNullifier(surveyId, (await respondentKey(signers.employee1, surveyId)).address))
+        .to.equal(nullifier);
     });
   });
 
@@ -409,14 +562,14 @@ describe("EmployeePrivacySurvey - FHEVM Access Control", function () {
       const questions = ["Satisfaction"];
       await surveyContract
         .connect(signers.creator)
-        .createSurvey("Survey", "Description", questions, 7);
+        .createSurvey(ethers.id("Survey"), fiveStarQuestions(questions.length), 0, await daysFromNow(7), 3, ethers.ZeroHash, "0x", [], 0);
 
       const surveyId = 1;
 
       // Add responses
-      await surveyContract.connect(signers.employee1).submitResponse(surveyId, [5]);
-      await surveyContract.connect(signers.employee2).submitResponse(surveyId, [4]);
-      await surveyContract.connect(signers.employee3).submitResponse(surveyId, [3]);
+      await submitEncryptedResponse(signers.employee1, surveyId, [5]);
+      await submitEncryptedResponse(signers.employee2, surveyId, [4]);
+      await submitEncryptedResponse(signers.employee3, surveyId, [3]);
 
       // Close and publish
       await surveyContract.connect(signers.creator).closeSurvey(surveyId);
@@ -434,12 +587,12 @@ describe("EmployeePrivacySurvey - FHEVM Access Control", function () {
       const questions = ["Q1"];
       await surveyContract
         .connect(signers.creator)
-        .createSurvey("Survey", "Description", questions, 7);
+        .createSurvey(ethers.id("Survey"), fiveStarQuestions(questions.length), 0, await daysFromNow(7), 3, ethers.ZeroHash, "0x", [], 0);
 
       const surveyId = 1;
 
       // Add response
-      await surveyContract.connect(signers.employee1).submitResponse(surveyId, [5]);
+      await submitEncryptedResponse(signers.employee1, surveyId, [5]);
 
       // Try to request average without publishing (should fail)
       await expect(
@@ -451,7 +604,7 @@ describe("EmployeePrivacySurvey - FHEVM Access Control", function () {
       const questions = ["Q1"];
       await surveyContract
         .connect(signers.creator)
-        .createSurvey("Survey", "Description", questions, 7);
+        .createSurvey(ethers.id("Survey"), fiveStarQuestions(questions.length), 0, await daysFromNow(7), 3, ethers.ZeroHash, "0x", [], 0);
 
       const surveyId = 1;
 
@@ -468,12 +621,14 @@ describe("EmployeePrivacySurvey - FHEVM Access Control", function () {
       const questions = ["Q1"];
       await surveyContract
         .connect(signers.creator)
-        .createSurvey("Survey", "Description", questions, 7);
+        .createSurvey(ethers.id("Survey"), fiveStarQuestions(questions.length), 0, await daysFromNow(7), 3, ethers.ZeroHash, "0x", [], 0);
 
       const surveyId = 1;
 
-      // Add response
-      await surveyContract.connect(signers.employee1).submitResponse(surveyId, [5]);
+      // Add enough responses to unlock results
+      await submitEncryptedResponse(signers.employee1, surveyId, [5]);
+      await submitEncryptedResponse(signers.employee2, surveyId, [4]);
+      await submitEncryptedResponse(signers.employee3, surveyId, [3]);
 
       // Close and publish
       await surveyContract.connect(signers.creator).closeSurvey(surveyId);
@@ -487,7 +642,354 @@ describe("EmployeePrivacySurvey - FHEVM Access Control", function () {
   });
 
   /**
-   * Test 6: Ownership & Permissions
+   * Test 6: Decryption Callback & Revealed Results
+   *
+   * FHEVM Concepts:
+   * - Decryption Oracle: FHE.requestDecryption() returns a request ID that the
+   *   contract maps back to the survey and question
+   * - Signature Verification: FHE.checkSignatures() rejects forged cleartexts
+   *
+   * The mock oracle is driven with fhevm.awaitDecryptionOracle()
+   */
+  describe("Decryption Callback & Revealed Results", function () {
+    async function closeAndPublish(surveyId: number) {
+      await surveyContract.connect(signers.creator).closeSurvey(surveyId);
+      await surveyContract.connect(signers.creator).publishResults(surveyId);
+    }
+
+    async function requestAverage(surveyId: number, questionId: number) {
+      const tx = await surveyContract.connect(signers.creator).requestQuestionAverage(surveyId, questionId);
+      const receipt = await tx.wait();
+      const event = receipt!.logs
+        .map((log) => surveyContract.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "ResultDecryptionRequested");
+      return event!.args.requestId as bigint;
+    }
+
+    beforeEach(async function () {
+      // Callbacks are exercised with only a few respondents; Test 10 covers the threshold itself
+      await surveyContract.connect(signers.owner).setMinResponsesFloor(1);
+      await surveyContract
+        .connect(signers.creator)
+        .createSurvey(ethers.id("Survey"), fiveStarQuestions(2), 0, await daysFromNow(7), 1, ethers.ZeroHash, "0x", [], 0);
+    });
+
+    it("should store the revealed average and count after the oracle callback", async function () {
+      const surveyId = 1;
+
+      await submitEncryptedResponse(signers.employee1, surveyId, [5, 1]);
+      await submitEncryptedResponse(signers.employee2, surveyId, [4, 2]);
+      await submitEncryptedResponse(signers.employee3, surveyId, [3, 3]);
+      await closeAndPublish(surveyId);
+
+      await requestAverage(surveyId, 0);
+
+      let result = await surveyContract.getQuestionResult(surveyId, 0);
+      expect(result.revealed).to.be.false;
+
+      await fhevm.awaitDecryptionOracle();
+
+      result = await surveyContract.getQuestionResult(surveyId, 0);
+      expect(result.revealed).to.be.true;
+      expect(result.averageRating).to.equal(4);
+      expect(result.totalResponses).to.equal(3);
+      expect(result.totalScore).to.equal(12);
+
+      // Only the requested question is revealed
+      const other = await surveyContract.getQuestionResult(surveyId, 1);
+      expect(other.revealed).to.be.false;
+    });
+
+    it("should map each request ID to its own question", async function () {
+      const surveyId = 1;
+
+      await submitEncryptedResponse(signers.employee1, surveyId, [5, 1]);
+      await submitEncryptedResponse(signers.employee2, surveyId, [5, 3]);
+      await closeAndPublish(surveyId);
+
+      const firstRequest = await requestAverage(surveyId, 0);
+      const secondRequest = await requestAverage(surveyId, 1);
+      expect(secondRequest).to.not.equal(firstRequest);
+
+      await fhevm.awaitDecryptionOracle();
+
+      const first = await surveyContract.getQuestionResult(surveyId, 0);
+      const second = await surveyContract.getQuestionResult(surveyId, 1);
+      expect(first.averageRating).to.equal(5);
+      expect(second.averageRating).to.equal(2);
+    });
+
+    it("should aggregate clamped values for out-of-range encrypted ratings", async function () {
+      const surveyId = 1;
+
+      // 0 is clamped to 1 and 9 is clamped to 5
+      await submitEncryptedResponse(signers.employee1, surveyId, [0, 3]);
+      await submitEncryptedResponse(signers.employee2, surveyId, [9, 3]);
+      await closeAndPublish(surveyId);
+
+      await requestAverage(surveyId, 0);
+      await fhevm.awaitDecryptionOracle();
+
+      const result = await surveyContract.getQuestionResult(surveyId, 0);
+      expect(result.averageRating).to.equal(3);
+      expect(result.totalResponses).to.equal(2);
+    });
+
+    it("should prevent requesting a result that is already revealed", async function () {
+      const surveyId = 1;
+
+      await submitEncryptedResponse(signers.employee1, surveyId, [4, 4]);
+      await closeAndPublish(surveyId);
+
+      await requestAverage(surveyId, 0);
+      await fhevm.awaitDecryptionOracle();
+
+      await expect(
+        surveyContract.connect(signers.creator).requestQuestionAverage(surveyId, 0)
+      ).to.be.revertedWith("Result already revealed");
+    });
+
+    it("should reject callbacks for unknown requests", async function () {
+      await expect(
+        surveyContract.processQuestionAverage(12345, "0x", "0x")
+      ).to.be.revertedWith("Unknown decryption request");
+    });
+
+    it("should reject cleartexts without valid decryption signatures", async function () {
+      const surveyId = 1;
+
+      await submitEncryptedResponse(signers.employee1, surveyId, [2, 2]);
+      await closeAndPublish(surveyId);
+
+      const requestId = await requestAverage(surveyId, 0);
+      const forged = ethers.AbiCoder.defaultAbiCoder().encode(["uint32"], [5]);
+
+      await expect(
+        surveyContract.connect(signers.employee1).processQuestionAverage(requestId, forged, "0x")
+      ).to.be.reverted;
+
+      const result = await surveyContract.getQuestionResult(surveyId, 0);
+      expect(result.revealed).to.be.false;
+    });
+  });
+
+  /**
+   * Test 7: Running Encrypted Totals
+   *
+   * FHEVM Concept: Choosing an encrypted type wide enough for the aggregate.
+   * Ratings are euint8, but each question keeps an euint32 running total that
+   * submitResponse() updates, so sums never wrap and a reveal costs the same
+   * however many employees respond.
+   */
+  describe("Running Encrypted Totals", function () {
+    async function fundedRespondents(count: number) {
+      const wallets = [];
+      for (let i = 0; i < count; i++) {
+        const wallet = ethers.Wallet.createRandom().connect(ethers.provider);
+        await ethers.provider.send("hardhat_setBalance", [wallet.address, "0xDE0B6B3A7640000"]);
+        wallets.push(wallet);
+      }
+      return wallets;
+    }
+
+    async function submitFrom(wallet: HDNodeWallet, surveyId: number, ratings: number[]) {
+      const input = fhevm.createEncryptedInput(surveyContractAddress, wallet.address);
+      for (const rating of ratings) {
+        input.add8(rating);
+      }
+      const encrypted = await input.encrypt();
+      await surveyContract
+        .connect(wallet)
+        .submitResponse(...(await signedResponse(wallet, surveyId, encrypted.handles, [], encrypted.inputProof)));
+    }
+
+    async function revealAll(surveyId: number, questionCount: number) {
+      await surveyContract.connect(signers.creator).closeSurvey(surveyId);
+      await surveyContract.connect(signers.creator).publishResults(surveyId);
+      for (let questionId = 0; questionId < questionCount; questionId++) {
+        await surveyContract.connect(signers.creator).requestQuestionAverage(surveyId, questionId);
+      }
+      await fhevm.awaitDecryptionOracle();
+    }
+
+    it("should not wrap when the sum of ratings exceeds 255", async function () {
+      this.timeout(120000);
+      await surveyContract.connect(signers.creator).createSurvey(ethers.id("Survey"), fiveStarQuestions(1), 0, await daysFromNow(7), 3, ethers.ZeroHash, "0x", [], 0);
+      const surveyId = 1;
+
+      // 52 five-star answers sum to 260, which used to wrap an euint8 accumulator
+      for (const wallet of await fundedRespondents(52)) {
+        await submitFrom(wallet, surveyId, [5]);
+      }
+      await revealAll(surveyId, 1);
+
+      const result = await surveyContract.getQuestionResult(surveyId, 0);
+      expect(result.totalScore).to.equal(260);
+      expect(result.totalResponses).to.equal(52);
+      expect(result.averageRating).to.equal(5);
+    });
+
+    it("should count more than 255 respondents", async function () {
+      this.timeout(300000);
+      await surveyContract.connect(signers.creator).createSurvey(ethers.id("Survey"), fiveStarQuestions(2), 0, await daysFromNow(7), 3, ethers.ZeroHash, "0x", [], 0);
+      const surveyId = 1;
+
+      const respondents = await fundedRespondents(260);
+      for (let i = 0; i < respondents.length; i++) {
+        // Q1: alternating 4 and 2, Q2: always 1
+        await submitFrom(respondents[i], surveyId, [i % 2 === 0 ? 4 : 2, 1]);
+      }
+      await revealAll(surveyId, 2);
+
+      const first = await surveyContract.getQuestionResult(surveyId, 0);
+      expect(first.totalResponses).to.equal(260);
+      expect(first.totalScore).to.equal(780);
+      expect(first.averageRating).to.equal(3);
+
+      const second = await surveyContract.getQuestionResult(surveyId, 1);
+      expect(second.totalResponses).to.equal(260);
+      expect(second.totalScore).to.equal(260);
+      expect(second.averageRating).to.equal(1);
+    });
+
+    it("should cost the same to request a reveal regardless of respondent count", async function () {
+      this.timeout(120000);
+      await surveyContract.connect(signers.creator).createSurvey(ethers.id("Small"), fiveStarQuestions(1), 0, await daysFromNow(7), 3, ethers.ZeroHash, "0x", [], 0);
+      await surveyContract.connect(signers.creator).createSurvey(ethers.id("Large"), fiveStarQuestions(1), 0, await daysFromNow(7), 3, ethers.ZeroHash, "0x", [], 0);
+
+      await submitEncryptedResponse(signers.employee1, 1, [3]);
+      await submitEncryptedResponse(signers.employee2, 1, [3]);
+      await submitEncryptedResponse(signers.employee3, 1, [3]);
+      for (const wallet of await fundedRespondents(30)) {
+        await submitFrom(wallet, 2, [3]);
+      }
+
+      const gasUsed = [];
+      for (const surveyId of [1, 2]) {
+        await surveyContract.connect(signers.creator).closeSurvey(surveyId);
+        await surveyContract.connect(signers.creator).publishResults(surveyId);
+        const tx = await surveyContract.connect(signers.creator).requestQuestionAverage(surveyId, 0);
+        gasUsed.push((await tx.wait())!.gasUsed);
+      }
+
+      // Allow for cold vs. warm storage slots, but no per-respondent growth
+      const difference = gasUsed[1] > gasUsed[0] ? gasUsed[1] - gasUsed[0] : gasUsed[0] - gasUsed[1];
+      expect(difference).to.be.lessThan(25000n);
+    });
+  });
+
+  /**
+   * Test 8: Encrypted Rating Histogram
+   *
+   * FHEVM Concepts:
+   * - Encrypted Comparison: FHE.eq() tests each rating against every bucket
+   * - Encrypted Selection: FHE.select() adds one to the matching bucket only
+   * - Multi-value Decryption: all buckets are revealed in a single oracle request
+   */
+  describe("Encrypted Rating Histogram", function () {
+    beforeEach(async function () {
+      // Callbacks are exercised with only a few respondents; Test 10 covers the threshold itself
+      await surveyContract.connect(signers.owner).setMinResponsesFloor(1);
+      await surveyContract
+        .connect(signers.creator)
+        .createSurvey(ethers.id("Survey"), fiveStarQuestions(2), 0, await daysFromNow(7), 1, ethers.ZeroHash, "0x", [], 0);
+    });
+
+    async function closeAndPublish(surveyId: number) {
+      await surveyContract.connect(signers.creator).closeSurvey(surveyId);
+      await surveyContract.connect(signers.creator).publishResults(surveyId);
+    }
+
+    it("should reveal how many employees chose each rating", async function () {
+      const surveyId = 1;
+
+      await submitEncryptedResponse(signers.employee1, surveyId, [5, 2]);
+      await submitEncryptedResponse(signers.employee2, surveyId, [4, 2]);
+      await submitEncryptedResponse(signers.employee3, surveyId, [4, 3]);
+      await submitEncryptedResponse(signers.owner, surveyId, [1, 2]);
+      await closeAndPublish(surveyId);
+
+      await surveyContract.connect(signers.creator).requestQuestionHistogram(surveyId, 0);
+      await surveyContract.connect(signers.creator).requestQuestionHistogram(surveyId, 1);
+
+      let histogram = await surveyContract.getQuestionHistogram(surveyId, 0);
+      expect(histogram.revealed).to.be.false;
+      expect(histogram.counts).to.deep.equal([]);
+
+      await fhevm.awaitDecryptionOracle();
+
+      histogram = await surveyContract.getQuestionHistogram(surveyId, 0);
+      expect(histogram.revealed).to.be.true;
+      expect(histogram.counts).to.deep.equal([1n, 0n, 0n, 2n, 1n]);
+
+      const second = await surveyContract.getQuestionHistogram(surveyId, 1);
+      expect(second.counts).to.deep.equal([0n, 3n, 1n, 0n, 0n]);
+    });
+
+    it("should count clamped out-of-range ratings in the edge buckets", async function () {
+      const surveyId = 1;
+
+      await submitEncryptedResponse(signers.employee1, surveyId, [0, 3]);
+      await submitEncryptedResponse(signers.employee2, surveyId, [9, 3]);
+      await closeAndPublish(surveyId);
+
+      await surveyContract.connect(signers.creator).requestQuestionHistogram(surveyId, 0);
+      await fhevm.awaitDecryptionOracle();
+
+      const histogram = await surveyContract.getQuestionHistogram(surveyId, 0);
+      expect(histogram.counts).to.deep.equal([1n, 0n, 0n, 0n, 1n]);
+    });
+
+    it("should only let the creator request the histogram after publishing", async function () {
+      const surveyId = 1;
+
+      await submitEncryptedResponse(signers.employee1, surveyId, [3, 3]);
+
+      await expect(
+        surveyContract.connect(signers.creator).requestQuestionHistogram(surveyId, 0)
+      ).to.be.revertedWith("Results not published");
+
+      await closeAndPublish(surveyId);
+
+      await expect(
+        surveyContract.connect(signers.employee1).requestQuestionHistogram(surveyId, 0)
+      ).to.be.revertedWith("Not survey creator or analyst");
+    });
+
+    it("should prevent revealing the same histogram twice", async function () {
+      const surveyId = 1;
+
+      await submitEncryptedResponse(signers.employee1, surveyId, [3, 3]);
+      await closeAndPublish(surveyId);
+
+      await surveyContract.connect(signers.creator).requestQuestionHistogram(surveyId, 0);
+      await fhevm.awaitDecryptionOracle();
+
+      await expect(
+        surveyContract.connect(signers.creator).requestQuestionHistogram(surveyId, 0)
+      ).to.be.revertedWith("Histogram already revealed");
+    });
+
+    it("should not route an average request to the histogram callback", async function () {
+      const surveyId = 1;
+
+      await submitEncryptedResponse(signers.employee1, surveyId, [3, 3]);
+      await closeAndPublish(surveyId);
+
+      const tx = await surveyContract.connect(signers.creator).requestQuestionAverage(surveyId, 0);
+      const receipt = await tx.wait();
+      const event = receipt!.logs
+        .map((log) => surveyContract.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "ResultDecryptionRequested");
+
+      await expect(
+        surveyContract.processQuestionHistogram(event!.args.requestId, "0x", "0x")
+      ).to.be.revertedWith("Unknown decryption request");
+    });
+  });
+
+  /**
+   * Test 9: Ownership & Permissions
    *
    * FHEVM Concept: Access Control patterns
    */
@@ -506,4 +1008,1085 @@ describe("EmployeePrivacySurvey - FHEVM Access Control", function () {
       ).to.be.revertedWith("Not authorized");
     });
   });
+
+  /**
+   * Test 10: Minimum Respondent Threshold
+   *
+   * Privacy Guarantee: An aggregate over one or two responses would reveal
+   * individual ratings, so nothing is decrypted until a survey has collected
+   * its minimum number of responses (never lower than the owner's floor)
+   */
+  describe("Minimum Respondent Threshold", function () {
+    it("should default the floor and reject survey minimums below it", async function () {
+      expect(await surveyContract.minResponsesFloor()).to.equal(3);
+
+      await expect(
+        surveyContract.connect(signers.creator).createSurvey(ethers.id("Survey"), fiveStarQuestions(1), 0, await daysFromNow(7), 2, ethers.ZeroHash, "0x", [], 0)
+      ).to.be.revertedWith("Minimum responses below floor");
+    });
+
+    it("should report how many more responses are needed", async function () {
+      await surveyContract.connect(signers.creator).createSurvey(ethers.id("Survey"), fiveStarQuestions(1), 0, await daysFromNow(7), 4, ethers.ZeroHash, "0x", [], 0);
+      const surveyId = 1;
+
+      expect(await surveyContract.getResponsesNeeded(surveyId)).to.equal(4);
+      await submitEncryptedResponse(signers.employee1, surveyId, [5]);
+      await submitEncryptedResponse(signers.employee2, surveyId, [4]);
+      expect(await surveyContract.getResponsesNeeded(surveyId)).to.equal(2);
+      await submitEncryptedResponse(signers.employee3, surveyId, [3]);
+      await submitEncryptedResponse(signers.owner, surveyId, [2]);
+      expect(await surveyContract.getResponsesNeeded(surveyId)).to.equal(0);
+    });
+
+    it("should refuse to publish results below the survey minimum", async function () {
+      await surveyContract.connect(signers.creator).createSurvey(ethers.id("Survey"), fiveStarQuestions(1), 0, await daysFromNow(7), 4, ethers.ZeroHash, "0x", [], 0);
+      const surveyId = 1;
+
+      await submitEncryptedResponse(signers.employee1, surveyId, [5]);
+      await submitEncryptedResponse(signers.employee2, surveyId, [4]);
+      await submitEncryptedResponse(signers.employee3, surveyId, [3]);
+      await surveyContract.connect(signers.creator).closeSurvey(surveyId);
+
+      await expect(
+        surveyContract.connect(signers.creator).publishResults(surveyId)
+      ).to.be.revertedWith("Not enough responses");
+    });
+
+    it("should lock reveals of published surveys when the floor is raised", async function () {
+      await surveyContract.connect(signers.creator).createSurvey(ethers.id("Survey"), fiveStarQuestions(1), 0, await daysFromNow(7), 3, ethers.ZeroHash, "0x", [], 0);
+      const surveyId = 1;
+
+      await submitEncryptedResponse(signers.employee1, surveyId, [5]);
+      await submitEncryptedResponse(signers.employee2, surveyId, [4]);
+      await submitEncryptedResponse(signers.employee3, surveyId, [3]);
+      await surveyContract.connect(signers.creator).closeSurvey(surveyId);
+      await surveyContract.connect(signers.creator).publishResults(surveyId);
+
+      await surveyContract.connect(signers.owner).setMinResponsesFloor(5);
+      expect(await surveyContract.getResponsesNeeded(surveyId)).to.equal(2);
+
+      await expect(
+        surveyContract.connect(signers.creator).requestQuestionAverage(surveyId, 0)
+      ).to.be.revertedWith("Not enough responses");
+      await expect(
+        surveyContract.connect(signers.creator).requestQuestionHistogram(surveyId, 0)
+      ).to.be.revertedWith("Not enough responses");
+    });
+
+    it("should only let the owner change the floor", async function () {
+      await expect(surveyContract.connect(signers.owner).setMinResponsesFloor(10))
+        .to.emit(surveyContract, "MinResponsesFloorUpdated")
+        .withArgs(10);
+      expect(await surveyContract.minResponsesFloor()).to.equal(10);
+
+      await expect(
+        surveyContract.connect(signers.creator).setMinResponsesFloor(1)
+      ).to.be.revertedWith("Not authorized");
+      await expect(
+        surveyContract.connect(signers.owner).setMinResponsesFloor(0)
+      ).to.be.revertedWith("Floor must be positive");
+    });
+  });
+
+  /**
+   * Test 11: Question Types & Answer Scales
+   *
+   * FHEVM Concepts:
+   * - Encrypted Booleans: yes/no answers arrive as externalEbool and are stored as ebool
+   * - Encrypted Range Checks: scale answers are clamped to their question's own range
+   * - Mixed Encrypted Input: one input proof covers both euint8 and ebool handles
+   */
+  describe("Question Types & Answer Scales", function () {
+    const questions = ["How likely are you to recommend us? (eNPS)", "Do you feel valued?", "I trust leadership"];
+    const configs = [
+      { questionType: QuestionType.Scale, minValue: 0, maxValue: 10 },
+      { questionType: QuestionType.YesNo, minValue: 0, maxValue: 0 },
+      { questionType: QuestionType.Scale, minValue: 1, maxValue: 7 },
+    ];
+
+    async function submitAnswers(signer: HardhatEthersSigner, enps: number, valued: boolean, trust: number) {
+      const input = fhevm.createEncryptedInput(surveyContractAddress, signer.address);
+      input.add8(enps);
+      input.addBool(valued);
+      input.add8(trust);
+      const encrypted = await input.encrypt();
+
+      // Handles come back in the order they were added
+      const [enpsHandle, valuedHandle, trustHandle] = encrypted.handles;
+      return surveyContract
+        .connect(signer)
+        .submitResponse(
+          ...(await signedResponse(signer, 1, [enpsHandle, trustHandle], [valuedHandle], encrypted.inputProof)),
+        );
+    }
+
+    beforeEach(async function () {
+      await surveyContract.connect(signers.creator).createSurvey(ethers.id("Pulse"), configs, 0, await daysFromNow(7), 3, ethers.ZeroHash, "0x", [], 0);
+    });
+
+    it("should store each question's type and range", async function () {
+      const stored = await surveyContract.getQuestionConfigs(1);
+      const ranges = stored.map((config) => [
+        Number(config.questionType),
+        Number(config.minValue),
+        Number(config.maxValue),
+      ]);
+
+      // Yes/no questions are always stored as 0 (no) to 1 (yes)
+      expect(ranges).to.deep.equal([
+        [QuestionType.Scale, 0, 10],
+        [QuestionType.YesNo, 0, 1],
+        [QuestionType.Scale, 1, 7],
+      ]);
+    });
+
+    it("should reject invalid answer ranges", async function () {
+      const create = async (config: { questionType: number; minValue: number; maxValue: number }) =>
+        surveyContract.connect(signers.creator).createSurvey(ethers.id("Survey"), [config], 0, await daysFromNow(7), 3, ethers.ZeroHash, "0x", [], 0);
+
+      await expect(create({ questionType: QuestionType.Scale, minValue: 3, maxValue: 3 })).to.be.revertedWith(
+        "Invalid answer range",
+      );
+      await expect(create({ questionType: QuestionType.Scale, minValue: 5, maxValue: 1 })).to.be.revertedWith(
+        "Invalid answer range",
+      );
+      await expect(create({ questionType: QuestionType.Scale, minValue: 0, maxValue: 11 })).to.be.revertedWith(
+        "Invalid answer range",
+      );
+    });
+
+    it("should refuse surveys whose responses need more FHE work than one transaction may do", async function () {
+      const create = async (questionConfigs: typeof configs, segments: string[] = []) =>
+        surveyContract.connect(signers.creator).createSurvey(ethers.id("Survey"), questionConfigs, 0, await daysFromNow(7), 3, ethers.ZeroHash, "0x", segments, 0);
+      const eNps = configs[0];
+      expect(await surveyContract.MAX_RESPONSE_COST()).to.equal(42);
+
+      // A five-star question costs 6 buckets, a 0-10 scale 12 and each segment one more per question
+      await expect(create(fiveStarQuestions(8))).to.be.revertedWith("Too many answers for one transaction");
+      await expect(create([eNps, eNps, eNps, eNps])).to.be.revertedWith("Too many answers for one transaction");
+      await expect(create([eNps, eNps, eNps], ["Engineering", "Sales", "Support"])).to.be.revertedWith(
+        "Too many answers for one transaction",
+      );
+      await expect(create(fiveStarQuestions(7))).to.emit(surveyContract, "SurveyCreated");
+      await expect(create([eNps, eNps, eNps], ["Engineering", "Sales"])).to.emit(surveyContract, "SurveyCreated");
+    });
+
+    it("should aggregate scale and yes/no answers homomorphically", async function () {
+      await submitAnswers(signers.employee1, 10, true, 7);
+      await submitAnswers(signers.employee2, 0, false, 4);
+      // 12 is outside the 1-7 range and is clamped to 7 without a revert
+      await submitAnswers(signers.employee3, 9, true, 12);
+
+      await surveyContract.connect(signers.creator).closeSurvey(1);
+      await surveyContract.connect(signers.creator).publishResults(1);
+      for (let questionId = 0; questionId < questions.length; questionId++) {
+        await surveyContract.connect(signers.creator).requestQuestionAverage(1, questionId);
+        await surveyContract.connect(signers.creator).requestQuestionHistogram(1, questionId);
+      }
+      await fhevm.awaitDecryptionOracle();
+
+      expect((await surveyContract.getQuestionResult(1, 0)).totalScore).to.equal(19);
+      expect((await surveyContract.getQuestionResult(1, 1)).totalScore).to.equal(2); // yes answers
+      expect((await surveyContract.getQuestionResult(1, 2)).totalScore).to.equal(18);
+
+      expect((await surveyContract.getQuestionHistogram(1, 0)).counts).to.deep.equal([
+        1n, 0n, 0n, 0n, 0n, 0n, 0n, 0n, 0n, 1n, 1n,
+      ]);
+      expect((await surveyContract.getQuestionHistogram(1, 1)).counts).to.deep.equal([1n, 2n]);
+      expect((await surveyContract.getQuestionHistogram(1, 2)).counts).to.deep.equal([0n, 0n, 0n, 1n, 0n, 0n, 2n]);
+    });
+
+    it("should require one answer of the right kind per question", async function () {
+      const input = fhevm.createEncryptedInput(surveyContractAddress, signers.employee1.address);
+      input.add8(8);
+      input.add8(1);
+      input.add8(5);
+      const encrypted = await input.encrypt();
+
+      await expect(
+        surveyContract
+          .connect(signers.employee1)
+          .submitResponse(...(await signedResponse(signers.employee1, 1, encrypted.handles, [], encrypted.inputProof))),
+      ).to.be.revertedWith("Answer count mismatch");
+
+      // An euint8 handle cannot stand in for an encrypted boolean
+      const [first, second, third] = encrypted.handles;
+      await expect(
+        surveyContract
+          .connect(signers.employee1)
+          .submitResponse(
+            ...(await signedResponse(signers.employee1, 1, [first, third], [second], encrypted.inputProof)),
+          ),
+      ).to.be.reverted;
+    });
+  });
+
+  /**
+   * Test 12: Invite-Only Surveys
+   *
+   * A survey can carry the Merkle root of an HR roster and the key of its ticket issuer. The issuer
+   * checks a wallet's roster proof and blind-signs a ticket for the nullifier of its respondent key with
+   * the survey's key, so the response proves it comes from someone on the roster without carrying the
+   * proof, which would name the wallet.
+   */
+  describe("Eligibility Roster", function () {
+    let root: string;
+    let proofs: Record<string, string[]>;
+    let issuerKey: KeyObject;
+    let modulus: string;
+
+    /**
+     * The issuer's RSA signature over the nullifier's ticket message, what a respondent holds after unblinding
+     */
+    function signTicket(nullifier: string, key: KeyObject = issuerKey) {
+      const message = ethers.getBytes(ticketMessage(nullifier));
+      return ethers.hexlify(privateDecrypt({ key, padding: constants.RSA_NO_PADDING }, message));
+    }
+
+    async function ticketedResponse(respondent: HardhatEthersSigner, ticket?: string, surveyId = 1) {
+      const encrypted = await encryptRatings(surveyContractAddress, respondent, [4]);
+      ticket ??= signTicket(await nullifierOf(respondent, surveyId));
+      return signedResponse(respondent, surveyId, encrypted.handles, [], encrypted.inputProof, ticket);
+    }
+
+    async function createInviteOnly(issuer: string) {
+      return surveyContract
+        .connect(signers.creator)
+        .createSurvey(ethers.id("Invite only"), fiveStarQuestions(1), 0, await daysFromNow(7), 3, root, issuer, [], 0);
+    }
+
+    before(async function () {
+      issuerKey = await generateTicketKey();
+      modulus = ticketModulus(issuerKey);
+    });
+
+    beforeEach(async function () {
+      const roster = [signers.employee1, signers.employee2, signers.owner].map((signer) => signer.address);
+      const tree = buildEligibilityTree(roster);
+      root = tree.root;
+      proofs = Object.fromEntries(roster.map((address) => [address, eligibilityProof(tree, address)!.proof]));
+
+      await createInviteOnly(modulus);
+    });
+
+    it("should store the roster root and check proofs for the issuer", async function () {
+      expect(await surveyContract.getEligibilityRoot(1)).to.equal(root);
+      expect(await surveyContract.ticketIssuers(1)).to.equal(modulus);
+      expect(await surveyContract.isEligible(1, signers.employee2.address, proofs[signers.employee2.address])).to.equal(
+        true,
+      );
+      expect(await surveyContract.isEligible(1, signers.employee3.address, proofs[signers.employee1.address])).to.equal(
+        false,
+      );
+
+      await surveyContract
+        .connect(signers.creator)
+        .createSurvey(ethers.id("Open"), fiveStarQuestions(1), 0, await daysFromNow(7), 3, ethers.ZeroHash, "0x", [], 0);
+      expect(await surveyContract.getEligibilityRoot(2)).to.equal(ethers.ZeroHash);
+      expect(await surveyContract.isEligible(2, signers.employee3.address, [])).to.equal(true);
+      expect(await surveyContract.ticketIssuers(2)).to.equal("0x");
+    });
+
+    it("should take a ticket issuer key for invite-only surveys only, and each key for one survey", async function () {
+      const otherModulus = ticketModulus(await generateTicketKey());
+
+      await expect(createInviteOnly("0x")).to.be.revertedWith("Invalid ticket issuer key");
+      await expect(createInviteOnly("0x1234")).to.be.revertedWith("Invalid ticket issuer key");
+      await expect(createInviteOnly(modulus)).to.be.revertedWith("Ticket issuer key already used");
+      await expect(
+        surveyContract
+          .connect(signers.creator)
+          .createSurvey(ethers.id("Open"), fiveStarQuestions(1), 0, await daysFromNow(7), 3, ethers.ZeroHash, otherModulus, [], 0),
+      ).to.be.revertedWith("Open surveys take no ticket issuer");
+
+      await createInviteOnly(otherModulus);
+      expect(await surveyContract.ticketIssuers(2)).to.equal(otherModulus);
+    });
+
+    it("should accept a response with a ticket for its nullifier", async function () {
+      await expect(surveyContract.connect(signers.employee1).submitResponse(...(await ticketedResponse(signers.employee1))))
+        .to.emit(surveyContract, "ResponseSubmitted");
+
+      expect(await surveyContract.hasResponded(1, await nullifierOf(signers.employee1, 1))).to.equal(true);
+    });
+
+    it("should accept a ticket the issuer signed blind", async function () {
+      const key = await respondentKey(signers.employee1, 1);
+      const nullifier = await nullifierOf(signers.employee1, 1);
+      const { blinded, factor } = blindTicket(modulus, nullifier, key);
+
+      // The issuer only sees the blinded value, which says nothing about the nullifier
+      const keys = new MemoryTicketKeyStore();
+      await keys.add(issuerKey);
+      const blindSignature = await new TicketIssuer(keys).issue("1", modulus, signers.employee1.address, blinded);
+      const ticket = unblindTicket(modulus, blindSignature!, factor);
+      expect(verifyTicket(modulus, nullifier, ticket)).to.equal(true);
+      expect(ticket).to.equal(signTicket(nullifier));
+
+      await expect(
+        surveyContract.connect(signers.employee1).submitResponse(...(await ticketedResponse(signers.employee1, ticket))),
+      ).to.emit(surveyContract, "ResponseSubmitted");
+    });
+
+    it("should reject responses without a valid ticket", async function () {
+      await expect(
+        surveyContract.connect(signers.employee3).submitResponse(...(await ticketedResponse(signers.employee3, "0x"))),
+      ).to.be.revertedWith("Not eligible for this survey");
+
+      // Someone else's ticket is for their nullifier
+      const ticket = signTicket(await nullifierOf(signers.employee1, 1));
+      await expect(
+        surveyContract.connect(signers.employee3).submitResponse(...(await ticketedResponse(signers.employee3, ticket))),
+      ).to.be.revertedWith("Not eligible for this survey");
+
+      // A ticket signed with another key does not match the registered modulus
+      const forged = signTicket(await nullifierOf(signers.employee3, 1), await generateTicketKey());
+      await expect(
+        surveyContract.connect(signers.employee3).submitResponse(...(await ticketedResponse(signers.employee3, forged))),
+      ).to.be.revertedWith("Not eligible for this survey");
+    });
+
+    it("should reject a ticket signed with another survey's key", async function () {
+      // employee3 is on survey 2's roster but not survey 1's
+      const otherKey = await generateTicketKey();
+      const firstRoot = root;
+      root = buildEligibilityTree([signers.employee3.address]).root;
+      await createInviteOnly(ticketModulus(otherKey));
+
+      // Survey 2's issuer signs blind, so it could be asked to sign the nullifier for survey 1
+      const crossTicket = signTicket(await nullifierOf(signers.employee3, 1), otherKey);
+      await expect(
+        surveyContract.connect(signers.employee3).submitResponse(...(await ticketedResponse(signers.employee3, crossTicket))),
+      ).to.be.revertedWith("Not eligible for this survey");
+      expect(await surveyContract.getEligibilityRoot(1)).to.equal(firstRoot);
+
+      const ticket = signTicket(await nullifierOf(signers.employee3, 2), otherKey);
+      await expect(
+        surveyContract
+          .connect(signers.employee3)
+          .submitResponse(...(await ticketedResponse(signers.employee3, ticket, 2))),
+      ).to.emit(surveyContract, "ResponseSubmitted");
+    });
+  });
+
+  /**
+   * Test 13: Relayed Responses
+   *
+   * Respondents sign their encrypted answers with a key derived from their wallet for this survey;
+   * any account (a relayer) can send them. The nullifier comes from that key, so neither storage,
+   * events nor calldata hold anything computable from the respondent's address.
+   */
+  describe("Relayed Responses", function () {
+    beforeEach(async function () {
+      await surveyContract
+        .connect(signers.creator)
+        .createSurvey(ethers.id("Relayed"), fiveStarQuestions(2), 0, await daysFromNow(7), 3, ethers.ZeroHash, "0x", [], 0);
+    });
+
+    /**
+     * Answers from a respondent, encrypted for the relayer that will submit them
+     */
+    async function relayedResponse(respondent: HardhatEthersSigner, ratings: number[]) {
+      const encrypted = await encryptRatings(surveyContractAddress, signers.owner, ratings);
+      return signedResponse(respondent, 1, encrypted.handles, [], encrypted.inputProof);
+    }
+
+    it("should accept a relayed response that cannot be linked to the respondent", async function () {
+      const response = await relayedResponse(signers.employee1, [5, 3]);
+      const tx = await surveyContract.connect(signers.owner).submitResponse(...response);
+      const receipt = (await tx.wait())!;
+
+      const nullifier = await nullifierOf(signers.employee1, 1);
+      await expect(tx).to.emit(surveyContract, "ResponseSubmitted").withArgs(1, nullifier, anyValue);
+      expect(await surveyContract.hasResponded(1, nullifier)).to.equal(true);
+
+      // Anyone holding the list of employee addresses can compute these values, so none may show up
+      // in the calldata or in any log of the transaction, the ACL's included
+      const published = [tx.data, ...receipt.logs.flatMap((log) => [...log.topics, log.data])].join("").toLowerCase();
+      for (const signer of [signers.employee1, signers.employee2, signers.employee3]) {
+        const traces = [
+          signer.address,
+          ethers.keccak256(ethers.AbiCoder.defaultAbiCoder().encode(["address"], [signer.address])),
+          responseNullifier(surveyContractAddress, 1, signer.address),
+        ];
+        for (const trace of traces) {
+          expect(published).not.to.include(trace.slice(2).toLowerCase());
+        }
+        expect(await surveyContract.hasResponded(1, responseNullifier(surveyContractAddress, 1, signer.address))).to
+          .be.false;
+      }
+    });
+
+    it("should reject responses changed after signing", async function () {
+      const [surveyId, ratings, yesNo, segment, inputProof, authorization] = await relayedResponse(
+        signers.employee1,
+        [5, 3],
+      );
+
+      await expect(
+        surveyContract
+          .connect(signers.owner)
+          .submitResponse(surveyId, [ratings[1], ratings[0]], yesNo, segment, inputProof, authorization),
+      ).to.be.revertedWith("Invalid response signature");
+
+      // Claiming another respondent's nullifier breaks the signature as well
+      const nullifier = await nullifierOf(signers.employee2, 1);
+      await expect(
+        surveyContract
+          .connect(signers.owner)
+          .submitResponse(surveyId, ratings, yesNo, segment, inputProof, { ...authorization, nullifier }),
+      ).to.be.revertedWith("Invalid response signature");
+    });
+
+    it("should count a respondent once whoever submits for them", async function () {
+      await submitEncryptedResponse(signers.employee1, 1, [4, 4]);
+
+      await expect(
+        surveyContract.connect(signers.owner).submitResponse(...(await relayedResponse(signers.employee1, [5, 3]))),
+      ).to.be.revertedWith("Already responded");
+      expect((await surveyContract.getSurvey(1)).totalResponses).to.equal(1);
+    });
+  });
+
+  /**
+   * Test 14: Revising Responses
+   *
+   * FHEVM Concepts:
+   * - Homomorphic Subtraction: FHE.sub() takes the old answer back out of each running total
+   * - Encrypted Bucket Moves: FHE.eq()/FHE.select() decrement the old bucket and increment the new one
+   * - Replay Protection: each revision signs the next revision number, so old signatures cannot roll answers back
+   */
+  describe("Revising Responses", function () {
+    const configs = [
+      { questionType: QuestionType.Scale, minValue: 1, maxValue: 5 },
+      { questionType: QuestionType.YesNo, minValue: 0, maxValue: 0 },
+    ];
+
+    beforeEach(async function () {
+      // Reveals are exercised with only a few respondents; Test 10 covers the threshold itself
+      await surveyContract.connect(signers.owner).setMinResponsesFloor(1);
+      await surveyContract
+        .connect(signers.creator)
+        .createSurvey(ethers.id("Pulse"), configs, 0, await daysFromNow(7), 1, ethers.ZeroHash, "0x", [], 0);
+    });
+
+    async function encryptAnswers(signer: HardhatEthersSigner, rating: number, valued: boolean) {
+      const input = fhevm.createEncryptedInput(surveyContractAddress, signer.address);
+      input.add8(rating);
+      input.addBool(valued);
+      const { handles, inputProof } = await input.encrypt();
+      return { ratings: [handles[0]], yesNo: [handles[1]], inputProof };
+    }
+
+    async function respond(signer: HardhatEthersSigner, rating: number, valued: boolean) {
+      const { ratings, yesNo, inputProof } = await encryptAnswers(signer, rating, valued);
+      await surveyContract
+        .connect(signer)
+        .submitResponse(...(await signedResponse(signer, 1, ratings, yesNo, inputProof)));
+    }
+
+    /**
+     * reviseResponse arguments signed by the respondent for the given revision number
+     */
+    async function signedRevision(
+      signer: HardhatEthersSigner,
+      rating: number,
+      valued: boolean,
+      revision: number,
+      surveyId = 1,
+    ) {
+      const { ratings, yesNo, inputProof } = await encryptAnswers(signer, rating, valued);
+      const encrypted = { ratingHandles: ratings, yesNoHandles: yesNo, inputProof };
+      const key = await respondentKey(signer, surveyId);
+      const signed = await signRevision(key, surveyContractAddress, surveyId, encrypted, revision);
+      const authorization = { nullifier: signed.nullifier, revision, signature: signed.signature };
+      return [surveyId, ratings, yesNo, inputProof, authorization] as const;
+    }
+
+    async function revise(rating: number, valued: boolean, revision: number, surveyId = 1) {
+      const employee = signers.employee1;
+      return surveyContract
+        .connect(employee)
+        .reviseResponse(...(await signedRevision(employee, rating, valued, revision, surveyId)));
+    }
+
+    async function revealAll() {
+      await surveyContract.connect(signers.creator).closeSurvey(1);
+      await surveyContract.connect(signers.creator).publishResults(1);
+      for (const questionId of [0, 1]) {
+        await surveyContract.connect(signers.creator).requestQuestionAverage(1, questionId);
+        await surveyContract.connect(signers.creator).requestQuestionHistogram(1, questionId);
+      }
+      await fhevm.awaitDecryptionOracle();
+    }
+
+    it("should swap the old answers for the new ones in every total", async function () {
+      // 9 is clamped to 5 on the way in, and the clamped value is what gets taken back out
+      await respond(signers.employee1, 9, true);
+      await respond(signers.employee2, 3, false);
+
+      const tx = await revise(2, false, 1);
+      await expect(tx)
+        .to.emit(surveyContract, "ResponseRevised")
+        .withArgs(1, await nullifierOf(signers.employee1, 1), 1, anyValue);
+      expect(await surveyContract.getRevisionCount(1, await nullifierOf(signers.employee1, 1))).to.equal(1);
+      expect((await surveyContract.getSurvey(1)).totalResponses).to.equal(2);
+
+      await revealAll();
+
+      const rating = await surveyContract.getQuestionResult(1, 0);
+      expect(rating.totalScore).to.equal(5);
+      expect(rating.totalResponses).to.equal(2);
+      expect((await surveyContract.getQuestionResult(1, 1)).totalScore).to.equal(0); // yes answers
+      expect((await surveyContract.getQuestionHistogram(1, 0)).counts).to.deep.equal([0n, 1n, 1n, 0n, 0n]);
+      expect((await surveyContract.getQuestionHistogram(1, 1)).counts).to.deep.equal([2n, 0n]);
+    });
+
+    it("should keep only the latest of several revisions", async function () {
+      await respond(signers.employee1, 1, false);
+      await revise(4, true, 1);
+      await revise(3, true, 2);
+
+      await revealAll();
+
+      expect((await surveyContract.getQuestionResult(1, 0)).totalScore).to.equal(3);
+      expect((await surveyContract.getQuestionHistogram(1, 0)).counts).to.deep.equal([0n, 0n, 1n, 0n, 0n]);
+      expect((await surveyContract.getQuestionHistogram(1, 1)).counts).to.deep.equal([0n, 1n]);
+    });
+
+    it("should reject replayed, skipped and unsigned revisions", async function () {
+      await respond(signers.employee1, 5, true);
+      const first = await signedRevision(signers.employee1, 1, false, 1);
+      await surveyContract.connect(signers.employee1).reviseResponse(...first);
+
+      // Replaying the first revision would roll the answers back
+      await expect(surveyContract.connect(signers.employee1).reviseResponse(...first)).to.be.revertedWith(
+        "Stale revision",
+      );
+      await expect(revise(2, true, 3)).to.be.revertedWith("Stale revision");
+
+      const [surveyId, ratings, yesNo, inputProof, authorization] = await signedRevision(signers.employee1, 2, true, 2);
+      await expect(
+        surveyContract
+          .connect(signers.employee1)
+          .reviseResponse(surveyId, ratings, yesNo, inputProof, { ...authorization, revision: 5 }),
+      ).to.be.revertedWith("Invalid response signature");
+    });
+
+    it("should only revise an existing response", async function () {
+      await expect(revise(2, true, 1)).to.be.revertedWith("No response to revise");
+    });
+
+    it("should stop revisions once the survey is closed or past its end time", async function () {
+      await respond(signers.employee1, 5, true);
+      await surveyContract
+        .connect(signers.creator)
+        .createSurvey(ethers.id("Quick"), configs, 0, await daysFromNow(1), 1, ethers.ZeroHash, "0x", [], 0);
+      const { ratings, yesNo, inputProof } = await encryptAnswers(signers.employee1, 4, true);
+      await surveyContract
+        .connect(signers.employee1)
+        .submitResponse(...(await signedResponse(signers.employee1, 2, ratings, yesNo, inputProof)));
+
+      await surveyContract.connect(signers.creator).closeSurvey(1);
+      await expect(revise(2, true, 1)).to.be.revertedWith("Survey not active");
+
+      // Move past survey 2's one-day deadline
+      await ethers.provider.send("evm_increaseTime", [2 * 24 * 60 * 60]);
+      await ethers.provider.send("evm_mine", []);
+
+      await expect(revise(1, false, 1, 2)).to.be.revertedWith("Survey expired");
+    });
+  });
+
+  /**
+   * Test 15: Respondent Decryption
+   *
+   * FHEVM Concepts:
+   * - User Decryption: FHE.allow() lets one key decrypt a stored answer, re-encrypted for a keypair it signs for
+   * - Unlinkable Access: the key is the respondent key that signed the response, not the respondent's address,
+   *   so the ACL entry does not name them
+   */
+  describe("Respondent Decryption", function () {
+    const configs = [
+      { questionType: QuestionType.Scale, minValue: 1, maxValue: 5 },
+      { questionType: QuestionType.YesNo, minValue: 0, maxValue: 0 },
+    ];
+
+    beforeEach(async function () {
+      await surveyContract
+        .connect(signers.creator)
+        .createSurvey(ethers.id("Pulse"), configs, 0, await daysFromNow(7), 3, ethers.ZeroHash, "0x", [], 0);
+    });
+
+    async function respond(signer: HardhatEthersSigner, rating: number, valued: boolean) {
+      const input = fhevm.createEncryptedInput(surveyContractAddress, signer.address);
+      input.add8(rating);
+      input.addBool(valued);
+      const { handles, inputProof } = await input.encrypt();
+      const response = await signedResponse(signer, 1, [handles[0]], [handles[1]], inputProof);
+      await surveyContract.connect(signer).submitResponse(...response);
+    }
+
+    async function decryptAnswers(handles: string[], user: HDNodeWallet | HardhatEthersSigner | Wallet) {
+      return [
+        await fhevm.userDecryptEuint(FhevmType.euint8, handles[0], surveyContractAddress, user),
+        await fhevm.userDecryptEbool(handles[1], surveyContractAddress, user),
+      ];
+    }
+
+    it("should return a response's handles and let its respondent key decrypt them", async function () {
+      // 7 is clamped to 5, and the respondent sees the stored value
+      await respond(signers.employee1, 7, true);
+      await respond(signers.employee2, 2, false);
+
+      const handles = await surveyContract.getAnswers(1, await nullifierOf(signers.employee1, 1));
+      expect(handles).to.have.length(2);
+      expect(await decryptAnswers([...handles], await respondentKey(signers.employee1, 1))).to.deep.equal([5n, true]);
+
+      const others = await surveyContract.getAnswers(1, await nullifierOf(signers.employee2, 1));
+      expect(others[0]).not.to.equal(handles[0]);
+    });
+
+    it("should not let anyone else decrypt a respondent's answers", async function () {
+      await respond(signers.employee1, 4, true);
+      await respond(signers.employee2, 2, false);
+      const handles = [...(await surveyContract.getAnswers(1, await nullifierOf(signers.employee1, 1)))];
+
+      // Not the respondent's address (no ACL entry names it), another respondent's key, nor the creator
+      await expect(decryptAnswers(handles, signers.employee1)).to.be.rejected;
+      await expect(decryptAnswers(handles, await respondentKey(signers.employee2, 1))).to.be.rejected;
+      await expect(decryptAnswers(handles, signers.creator)).to.be.rejected;
+    });
+
+    it("should keep the respondent key's access after a revision", async function () {
+      await respond(signers.employee1, 4, true);
+
+      const input = fhevm.createEncryptedInput(surveyContractAddress, signers.employee1.address);
+      input.add8(2);
+      input.addBool(false);
+      const { handles: [rating, valued], inputProof } = await input.encrypt();
+      const encrypted = { ratingHandles: [rating], yesNoHandles: [valued], inputProof };
+      const key = await respondentKey(signers.employee1, 1);
+      const { nullifier, signature } = await signRevision(key, surveyContractAddress, 1, encrypted, 1);
+      await surveyContract
+        .connect(signers.employee1)
+        .reviseResponse(1, [rating], [valued], inputProof, { nullifier, revision: 1, signature });
+
+      const handles = await surveyContract.getAnswers(1, nullifier);
+      expect(await decryptAnswers([...handles], key)).to.deep.equal([2n, false]);
+    });
+
+    it("should only return handles for nullifiers that responded", async function () {
+      await respond(signers.employee1, 4, true);
+
+      await expect(surveyContract.getAnswers(1, await nullifierOf(signers.employee2, 1))).to.be.revertedWith(
+        "No response",
+      );
+    });
+  });
+
+  /**
+   * Test 16: Department Segments
+   *
+   * FHEVM Concepts:
+   * - Encrypted Routing: the respondent's segment index is encrypted, and FHE.eq()/FHE.select() add their
+   *   answers to their segment's totals and zero to every other segment's
+   * - Homomorphic Threshold: FHE.ge() checks segment sizes without decrypting them, and segments are only
+   *   revealed when every segment with responses is large enough
+   */
+  describe("Department Segments", function () {
+    const configs = [
+      { questionType: QuestionType.Scale, minValue: 1, maxValue: 5 },
+      { questionType: QuestionType.YesNo, minValue: 0, maxValue: 0 },
+    ];
+    const segments = ["Engineering", "Sales", "Support"];
+
+    async function createSegmented(minResponses: number) {
+      await surveyContract.connect(signers.owner).setMinResponsesFloor(1);
+      await surveyContract
+        .connect(signers.creator)
+        .createSurvey(ethers.id("Pulse"), configs, 0, await daysFromNow(7), minResponses, ethers.ZeroHash, "0x", [
+          ...segments,
+        ], 0);
+    }
+
+    async function respond(signer: HardhatEthersSigner, rating: number, valued: boolean, segment: number) {
+      const input = fhevm.createEncryptedInput(surveyContractAddress, signer.address);
+      input.add8(rating);
+      input.addBool(valued);
+      input.add8(segment);
+      const { handles, inputProof } = await input.encrypt();
+      const response = await signedResponse(signer, 1, [handles[0]], [handles[1]], inputProof, "0x", handles[2]);
+      await surveyContract.connect(signer).submitResponse(...response);
+    }
+
+    async function revealSegments() {
+      await surveyContract.connect(signers.creator).closeSurvey(1);
+      await surveyContract.connect(signers.creator).publishResults(1);
+      for (const segment of segments.keys()) {
+        await surveyContract.connect(signers.creator).requestSegmentResults(1, segment);
+      }
+      await fhevm.awaitDecryptionOracle();
+      return Promise.all(segments.map((_, segment) => surveyContract.getSegmentResults(1, segment)));
+    }
+
+    it("should store the segment labels and cap how many a survey declares", async function () {
+      await createSegmented(1);
+      expect(await surveyContract.getSegments(1)).to.deep.equal(segments);
+
+      const tooMany = Array.from({ length: 9 }, (_, index) => `Team ${index}`);
+      await expect(
+        surveyContract
+          .connect(signers.creator)
+          .createSurvey(ethers.id("Survey"), fiveStarQuestions(1), 0, await daysFromNow(7), 3, ethers.ZeroHash, "0x", tooMany, 0),
+      ).to.be.revertedWith("Too many segments");
+    });
+
+    it("should total each segment's answers without learning who belongs to it", async function () {
+      await createSegmented(1);
+      await respond(signers.employee1, 4, true, 0);
+      await respond(signers.employee2, 2, false, 0);
+      // An index past the last segment is clamped into it rather than reverting
+      await respond(signers.employee3, 5, true, 7);
+
+      const [engineering, sales, support] = await revealSegments();
+
+      expect(engineering.revealed).to.equal(true);
+      expect(engineering.respondents).to.equal(2);
+      expect(engineering.totals).to.deep.equal([6n, 1n]);
+      // Nobody picked Sales; an empty segment does not hold the others back
+      expect(sales.respondents).to.equal(0);
+      expect(sales.totals).to.deep.equal([0n, 0n]);
+      expect(support.respondents).to.equal(1);
+      expect(support.totals).to.deep.equal([5n, 1n]);
+    });
+
+    it("should withhold every segment while one with responses is below the minimum", async function () {
+      await createSegmented(2);
+      await respond(signers.employee1, 4, true, 0);
+      await respond(signers.employee2, 2, false, 0);
+      await respond(signers.employee3, 5, true, 1);
+
+      const results = await revealSegments();
+
+      // Revealing Engineering alone would expose Sales as the survey totals minus Engineering's
+      for (const result of results) {
+        expect(result.revealed).to.equal(true);
+        expect(result.respondents).to.equal(0);
+        expect(result.totals).to.deep.equal([0n, 0n]);
+      }
+    });
+
+    it("should move a revised response's answers within its segment", async function () {
+      await createSegmented(1);
+      await respond(signers.employee1, 4, true, 0);
+      await respond(signers.employee2, 2, false, 1);
+
+      const input = fhevm.createEncryptedInput(surveyContractAddress, signers.employee1.address);
+      input.add8(1);
+      input.addBool(false);
+      const { handles: [rating, valued], inputProof } = await input.encrypt();
+      const encrypted = { ratingHandles: [rating], yesNoHandles: [valued], inputProof };
+      const key = await respondentKey(signers.employee1, 1);
+      const { nullifier, signature } = await signRevision(key, surveyContractAddress, 1, encrypted, 1);
+      await surveyContract
+        .connect(signers.employee1)
+        .reviseResponse(1, [rating], [valued], inputProof, { nullifier, revision: 1, signature });
+
+      const [engineering, sales] = await revealSegments();
+      expect(engineering.respondents).to.equal(1);
+      expect(engineering.totals).to.deep.equal([1n, 0n]);
+      expect(sales.totals).to.deep.equal([2n, 0n]);
+    });
+
+    it("should only reveal published segments once, to the creator", async function () {
+      await createSegmented(1);
+      await respond(signers.employee1, 4, true, 0);
+
+      await expect(surveyContract.connect(signers.creator).requestSegmentResults(1, 0)).to.be.revertedWith(
+        "Results not published",
+      );
+      await surveyContract.connect(signers.creator).closeSurvey(1);
+      await surveyContract.connect(signers.creator).publishResults(1);
+      await expect(surveyContract.connect(signers.employee1).requestSegmentResults(1, 0)).to.be.revertedWith(
+        "Not survey creator or analyst",
+      );
+      await expect(surveyContract.connect(signers.creator).requestSegmentResults(1, 3)).to.be.revertedWith(
+        "Invalid segment",
+      );
+
+      await surveyContract.connect(signers.creator).requestSegmentResults(1, 0);
+      await fhevm.awaitDecryptionOracle();
+      await expect(surveyContract.connect(signers.creator).requestSegmentResults(1, 0)).to.be.revertedWith(
+        "Segment already revealed",
+      );
+    });
+  });
+
+  /**
+   * Test 17: Scheduled Surveys
+   *
+   * Not an FHEVM feature, but it decides when encrypted input is accepted at all: responses only
+   * count between the survey's start and end timestamps. evm_increaseTime moves the chain clock.
+   */
+  describe("Scheduled Surveys", function () {
+    const Status = { Upcoming: 0n, Open: 1n, Ended: 2n } as const;
+
+    async function increaseTime(seconds: number) {
+      await ethers.provider.send("evm_increaseTime", [seconds]);
+      await ethers.provider.send("evm_mine", []);
+    }
+
+    async function createScheduled(startsInHours: number, openForHours: number) {
+      const start = (await daysFromNow(0)) + startsInHours * 60 * 60;
+      await surveyContract
+        .connect(signers.creator)
+        .createSurvey(ethers.id("Launch"), fiveStarQuestions(1), start, start + openForHours * 60 * 60, 3, ethers.ZeroHash, "0x", [], 0);
+      return start;
+    }
+
+    it("should store the requested start and end", async function () {
+      const start = await daysFromNow(2);
+      const tx = await surveyContract
+        .connect(signers.creator)
+        .createSurvey(ethers.id("Launch"), fiveStarQuestions(1), start, start + 4 * 60 * 60, 3, ethers.ZeroHash, "0x", [], 0);
+
+      await expect(tx)
+        .to.emit(surveyContract, "SurveyCreated")
+        .withArgs(1, signers.creator.address, ethers.id("Launch"), start, start + 4 * 60 * 60);
+      const survey = await surveyContract.getSurvey(1);
+      expect(survey.startTime).to.equal(start);
+      expect(survey.endTime).to.equal(start + 4 * 60 * 60);
+    });
+
+    it("should open straight away when the start has already passed", async function () {
+      const tx = await surveyContract
+        .connect(signers.creator)
+        .createSurvey(ethers.id("Now"), fiveStarQuestions(1), 0, await daysFromNow(1), 3, ethers.ZeroHash, "0x", [], 0);
+
+      const block = await ethers.provider.getBlock((await tx.wait())!.blockNumber);
+      expect((await surveyContract.getSurvey(1)).startTime).to.equal(block!.timestamp);
+      await submitEncryptedResponse(signers.employee1, 1, [4]);
+    });
+
+    it("should reject schedules that end before they start", async function () {
+      const start = await daysFromNow(2);
+      await expect(
+        surveyContract
+          .connect(signers.creator)
+          .createSurvey(ethers.id("Backwards"), fiveStarQuestions(1), start, start, 3, ethers.ZeroHash, "0x", [], 0),
+      ).to.be.revertedWith("End must be after start");
+      await expect(
+        surveyContract
+          .connect(signers.creator)
+          .createSurvey(ethers.id("Past"), fiveStarQuestions(1), 0, await daysFromNow(0), 3, ethers.ZeroHash, "0x", [], 0),
+      ).to.be.revertedWith("End must be after start");
+    });
+
+    it("should only accept responses between start and end", async function () {
+      await createScheduled(24, 3);
+
+      await expect(submitEncryptedResponse(signers.employee1, 1, [4])).to.be.revertedWith("Survey not started");
+
+      await increaseTime(24 * 60 * 60);
+      await submitEncryptedResponse(signers.employee1, 1, [4]);
+
+      await increaseTime(3 * 60 * 60);
+      await expect(submitEncryptedResponse(signers.employee2, 1, [4])).to.be.revertedWith("Survey expired");
+      expect((await surveyContract.getSurvey(1)).totalResponses).to.equal(1);
+    });
+
+    it("should report upcoming, open and ended with the time to the next change", async function () {
+      const start = await createScheduled(24, 3);
+
+      let info = await surveyContract.getCurrentSurveyInfo(1);
+      expect(info.status).to.equal(Status.Upcoming);
+      expect(info.timeRemaining).to.equal(start - (await daysFromNow(0)));
+
+      await increaseTime(25 * 60 * 60);
+      info = await surveyContract.getCurrentSurveyInfo(1);
+      expect(info.status).to.equal(Status.Open);
+      expect(info.timeRemaining).to.equal(start + 3 * 60 * 60 - (await daysFromNow(0)));
+
+      await increaseTime(2 * 60 * 60);
+      info = await surveyContract.getCurrentSurveyInfo(1);
+      expect(info.status).to.equal(Status.Ended);
+      expect(info.timeRemaining).to.equal(0);
+    });
+
+    it("should report a survey closed before it opened as ended", async function () {
+      await createScheduled(24, 3);
+      await surveyContract.connect(signers.creator).closeSurvey(1);
+
+      const info = await surveyContract.getCurrentSurveyInfo(1);
+      expect(info.status).to.equal(Status.Ended);
+      expect(info.timeRemaining).to.equal(0);
+    });
+  });
+
+  /**
+   * Test 18: Organisations
+   *
+   * Not an FHEVM feature either, but it widens who FHE.allow-style access is granted to: besides the
+   * creator, the analysts of a survey's organisation may request its public decryptions. Roles live
+   * in an OrganizationRegistry the survey contract deploys, and are plain public state.
+   */
+  describe("Organisations", function () {
+    const Role = { Admin: 0, Author: 1, Analyst: 2 } as const;
+    let registry: OrganizationRegistry;
+
+    beforeEach(async function () {
+      registry = OrganizationRegistry__factory.connect(await surveyContract.organizations(), signers.owner);
+      await registry.createOrganization("Acme HR");
+    });
+
+    async function createOrganizationSurvey(creator: HardhatEthersSigner, organizationId: number) {
+      return surveyContract
+        .connect(creator)
+        .createSurvey(ethers.id("Team Pulse"), fiveStarQuestions(1), 0, await daysFromNow(7), 3, ethers.ZeroHash, "0x", [], organizationId);
+    }
+
+    it("should let admins grant and revoke roles", async function () {
+      expect([...(await registry.getOrganization(1))]).to.deep.equal(["Acme HR", 1n]);
+      expect(await registry.hasRole(1, Role.Admin, signers.owner.address)).to.equal(true);
+
+      await expect(registry.grantRole(1, Role.Author, signers.creator.address))
+        .to.emit(registry, "RoleGranted")
+        .withArgs(1, Role.Author, signers.creator.address, signers.owner.address);
+      await registry.grantRole(1, Role.Analyst, signers.creator.address);
+      await registry.grantRole(1, Role.Analyst, signers.employee3.address);
+      expect(await registry.getRoles(1, signers.creator.address)).to.equal(0b110);
+
+      await expect(
+        registry.connect(signers.creator).grantRole(1, Role.Author, signers.employee1.address),
+      ).to.be.revertedWith("Not organization admin");
+      await expect(registry.revokeRole(1, Role.Admin, signers.owner.address)).to.be.revertedWith(
+        "Organization needs an admin",
+      );
+
+      await expect(registry.revokeRole(1, Role.Analyst, signers.employee3.address))
+        .to.emit(registry, "RoleRevoked")
+        .withArgs(1, Role.Analyst, signers.employee3.address, signers.owner.address);
+      const [members, roles] = await registry.getMembers(1);
+      expect([...members]).to.deep.equal([signers.owner.address, signers.creator.address]);
+      expect([...roles]).to.deep.equal([0b001n, 0b110n]);
+    });
+
+    it("should only let authors create surveys for their organisation", async function () {
+      await expect(createOrganizationSurvey(signers.creator, 1)).to.be.revertedWith("Not organization author");
+
+      await registry.grantRole(1, Role.Author, signers.creator.address);
+      await createOrganizationSurvey(signers.creator, 1);
+      await createOrganizationSurvey(signers.employee1, 0);
+
+      expect(await surveyContract.getSurveyOrganization(1)).to.equal(1);
+      expect(await surveyContract.getSurveyOrganization(2)).to.equal(0);
+    });
+
+    it("should let the organisation's analysts reveal results", async function () {
+      await registry.grantRole(1, Role.Author, signers.creator.address);
+      await registry.grantRole(1, Role.Analyst, signers.employee3.address);
+      await createOrganizationSurvey(signers.creator, 1);
+      for (const employee of [signers.employee1, signers.employee2, signers.employee3]) {
+        await submitEncryptedResponse(employee, 1, [4]);
+      }
+      await surveyContract.connect(signers.creator).closeSurvey(1);
+      await surveyContract.connect(signers.creator).publishResults(1);
+
+      await expect(surveyContract.connect(signers.employee3).requestQuestionAverage(1, 0)).to.emit(
+        surveyContract,
+        "ResultDecryptionRequested",
+      );
+      await fhevm.awaitDecryptionOracle();
+      expect((await surveyContract.getQuestionResult(1, 0)).totalScore).to.equal(12);
+
+      await expect(surveyContract.connect(signers.employee1).requestQuestionHistogram(1, 0)).to.be.revertedWith(
+        "Not survey creator or analyst",
+      );
+      await registry.revokeRole(1, Role.Analyst, signers.employee3.address);
+      await expect(surveyContract.connect(signers.employee3).requestQuestionHistogram(1, 0)).to.be.revertedWith(
+        "Not survey creator or analyst",
+      );
+    });
+  });
+
+  /**
+   * Survey Directory: paginated summaries and batched reads, deployed by the survey contract
+   */
+  describe("Survey Directory", function () {
+    const StatusFilter = { Any: 0, Upcoming: 1, Open: 2, Ended: 3, Published: 4 } as const;
+    let directory: SurveyDirectory;
+
+    beforeEach(async function () {
+      directory = SurveyDirectory__factory.connect(await surveyContract.directory(), signers.owner);
+    });
+
+    async function createSurveyAs(creator: HardhatEthersSigner, title: string, startTime = 0) {
+      return surveyContract
+        .connect(creator)
+        .createSurvey(ethers.id(title), fiveStarQuestions(2), startTime, await daysFromNow(7), 3, ethers.ZeroHash, "0x", [], 0);
+    }
+
+    it("should page through survey summaries with creator and status filters", async function () {
+      await createSurveyAs(signers.creator, "Survey 1");
+      await createSurveyAs(signers.employee1, "Survey 2");
+      await createSurveyAs(signers.creator, "Survey 3");
+      await createSurveyAs(signers.creator, "Survey 4", await daysFromNow(1));
+      await surveyContract.connect(signers.creator).closeSurvey(3);
+
+      const [page, more] = await directory.listSurveys(ethers.ZeroAddress, StatusFilter.Any, 1, 2);
+      expect(more).to.equal(true);
+      expect(page.map((summary) => summary.contentHash)).to.deep.equal([ethers.id("Survey 2"), ethers.id("Survey 3")]);
+      expect(page[0].creator).to.equal(signers.employee1.address);
+      expect(page[0].questionsCount).to.equal(2);
+      expect(page[0].responsesNeeded).to.equal(3);
+
+      const ids = async (creator: string, status: number) =>
+        (await directory.listSurveys(creator, status, 0, 10))[0].map((summary) => summary.id);
+      expect(await ids(signers.creator.address, StatusFilter.Any)).to.deep.equal([1n, 3n, 4n]);
+      expect(await ids(ethers.ZeroAddress, StatusFilter.Open)).to.deep.equal([1n, 2n]);
+      expect(await ids(ethers.ZeroAddress, StatusFilter.Ended)).to.deep.equal([3n]);
+      expect(await ids(ethers.ZeroAddress, StatusFilter.Upcoming)).to.deep.equal([4n]);
+      expect(await ids(ethers.ZeroAddress, StatusFilter.Published)).to.deep.equal([]);
+
+      const [mine, moreMine] = await directory.listSurveys(signers.creator.address, StatusFilter.Any, 1, 1);
+      expect(mine.map((summary) => summary.id)).to.deep.equal([3n]);
+      expect(moreMine).to.equal(true);
+      const [last, moreAfterLast] = await directory.listSurveys(signers.creator.address, StatusFilter.Any, 2, 1);
+      expect(last.map((summary) => summary.id)).to.deep.equal([4n]);
+      expect(moreAfterLast).to.equal(false);
+
+      const [beyond, moreBeyond] = await directory.listSurveys(ethers.ZeroAddress, StatusFilter.Any, 10, 5);
+      expect(beyond).to.deep.equal([]);
+      expect(moreBeyond).to.equal(false);
+    });
+
+    it("should only read surveys up to the end of the requested page", async function () {
+      await createSurveyAs(signers.creator, "Survey 1");
+      await createSurveyAs(signers.creator, "Survey 2");
+      const firstPage = () => directory.listSurveys.estimateGas(ethers.ZeroAddress, StatusFilter.Open, 0, 1);
+      const before = await firstPage();
+
+      for (let i = 3; i <= 12; i++) {
+        await createSurveyAs(signers.creator, `Survey ${i}`);
+      }
+      expect(await firstPage()).to.equal(before);
+    });
+
+    it("should batch survey views and pass on their reverts", async function () {
+      await createSurveyAs(signers.creator, "Survey 1");
+      const calls = [
+        surveyContract.interface.encodeFunctionData("getQuestionConfigs", [1]),
+        surveyContract.interface.encodeFunctionData("getResponsesNeeded", [1]),
+      ];
+
+      const [configs, needed] = await directory.multicall(calls);
+      expect(surveyContract.interface.decodeFunctionResult("getQuestionConfigs", configs)[0]).to.have.length(2);
+      expect(surveyContract.interface.decodeFunctionResult("getResponsesNeeded", needed)[0]).to.equal(3);
+
+      await expect(
+        directory.multicall([...calls, surveyContract.interface.encodeFunctionData("getAnswers", [1, ethers.ZeroHash])])
+      ).to.be.revertedWith("No response");
+    });
+  });
 });
@@ -0,0 +1,522 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import { EmployeePrivacySurvey, EmployeePrivacySurvey__factory } from "../types";
+import { expect } from "chai";
+import { EventFragment, FunctionFragment, Interface } from "ethers";
+import { TicketIssuer } from "../src/relayer";
+import {
+  buildEligibilityTree,
+  directoryAbi,
+  eligibilityProof,
+  FIVE_STAR_RATING,
+  MemoryContentStore,
+  organizationAbi,
+  parseAnswer,
+  QuestionType,
+  RelayerClient,
+  SurveyClient,
+  SurveyListStatus,
+  type SurveyQuestion,
+  SurveyStatus,
+  surveyAbi,
+  YES_NO,
+} from "../src/sdk";
+
+/**
+ * @title Survey SDK Test Suite
+ * @dev Drives the contract through SurveyClient the way the tasks and web app do,
+ * so encryption, id parsing and result decoding are covered end to end.
+ */
+
+type Signers = {
+  owner: HardhatEthersSigner;
+  employee1: HardhatEthersSigner;
+  employee2: HardhatEthersSigner;
+  employee3: HardhatEthersSigner;
+};
+
+const QUESTIONS: SurveyQuestion[] = [
+  { text: "How satisfied are you with your role?", ...FIVE_STAR_RATING },
+  { text: "Do you feel valued?", ...YES_NO },
+  { text: "How likely are you to recommend us?", questionType: QuestionType.Scale, minValue: 0, maxValue: 10 },
+];
+
+const MOCK_REVEAL = { intervalMs: 0, timeoutMs: 0, beforePoll: () => fhevm.awaitDecryptionOracle() };
+
+async function deployFixture() {
+  const factory = (await ethers.getContractFactory("EmployeePrivacySurvey")) as EmployeePrivacySurvey__factory;
+  const surveyContract = (await factory.deploy()) as EmployeePrivacySurvey;
+  const surveyContractAddress = await surveyContract.getAddress();
+
+  return { surveyContract, surveyContractAddress };
+}
+
+describe("SurveyClient", function () {
+  let signers: Signers;
+  let surveyContractAddress: string;
+  let client: SurveyClient;
+  let content: MemoryContentStore;
+
+  function clientFor(signer: HardhatEthersSigner) {
+    return SurveyClient.connect(surveyContractAddress, signer, content);
+  }
+
+  async function createSurvey(minResponses = 3) {
+    return client.createSurvey({
+      title: "Quarterly Pulse",
+      description: "Short pulse survey",
+      questions: QUESTIONS,
+      durationDays: 7,
+      minResponses,
+    });
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = { owner: ethSigners[0], employee1: ethSigners[1], employee2: ethSigners[2], employee3: ethSigners[3] };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    ({ surveyContractAddress } = await deployFixture());
+    content = new MemoryContentStore();
+    client = clientFor(signers.owner);
+  });
+
+  it("should return the survey id emitted by SurveyCreated", async function () {
+    expect(await createSurvey()).to.equal(1n);
+    expect(await createSurvey()).to.equal(2n);
+    expect(await client.getTotalSurveys()).to.equal(2);
+  });
+
+  it("should estimate createSurvey gas without sending a transaction", async function () {
+    const survey = {
+      title: "Quarterly Pulse",
+      description: "",
+      questions: QUESTIONS,
+      durationDays: 7,
+      minResponses: 3,
+    };
+
+    expect(await client.estimateCreateSurveyGas(survey)).to.be.greaterThan(0n);
+    expect(await client.getTotalSurveys()).to.equal(0);
+    expect(await client.getMinResponsesFloor()).to.equal(3);
+    await expect(client.estimateCreateSurveyGas({ ...survey, minResponses: 2 })).to.be.revertedWith(
+      "Minimum responses below floor",
+    );
+  });
+
+  it("should decode survey metadata and question configs", async function () {
+    const latest = (await ethers.provider.getBlock("latest"))!.timestamp;
+    const surveyId = await createSurvey(4);
+
+    const survey = await client.getSurvey(surveyId);
+    expect(survey.id).to.equal(surveyId);
+    expect(await client.getContent(surveyId)).to.deep.equal({
+      title: "Quarterly Pulse",
+      description: "Short pulse survey",
+      questions: QUESTIONS.map((question) => question.text),
+    });
+    expect(survey.creator).to.equal(signers.owner.address);
+    expect(survey.active).to.equal(true);
+    expect(survey.responsesNeeded).to.equal(4);
+    expect(survey.status).to.equal(SurveyStatus.Open);
+    // durationDays counts from the chain's clock, not this machine's
+    expect(survey.endTime.getTime()).to.equal((latest + 7 * 24 * 60 * 60) * 1000);
+
+    expect(await client.getQuestions(surveyId)).to.deep.equal(QUESTIONS);
+    expect(survey.template).to.equal(null);
+  });
+
+  it("should refuse survey content that does not match its on-chain hash", async function () {
+    const surveyId = await createSurvey();
+    const { contentHash } = await client.getSurvey(surveyId);
+    const tampered = await content.get(contentHash).then((document) => document.replace("Quarterly", "Annual"));
+    const forged = SurveyClient.connect(surveyContractAddress, signers.employee1, {
+      put: (document) => content.put(document),
+      get: async () => tampered,
+    });
+
+    await expect(forged.getQuestions(surveyId)).to.be.rejectedWith("Survey content does not match its on-chain hash");
+    await expect(SurveyClient.connect(surveyContractAddress, signers.owner).getContent(surveyId)).to.be.rejectedWith(
+      "SurveyClient needs a content store",
+    );
+    // Answering only needs the question configs on chain
+    await forged.submitResponse(surveyId, [4, true, 8], fhevm);
+  });
+
+  it("should record the template version a survey was created from", async function () {
+    const surveyId = await client.createSurvey({
+      title: "Q3 2026 Pulse",
+      description: "",
+      questions: QUESTIONS,
+      durationDays: 7,
+      minResponses: 3,
+      template: "quarterly-pulse@2",
+    });
+
+    expect((await client.getSurvey(surveyId)).template).to.equal("quarterly-pulse@2");
+  });
+
+  it("should read the questions in the respondent's language", async function () {
+    const es = {
+      title: "Pulso trimestral",
+      description: "",
+      questions: ["¿Está satisfecho con su puesto?", "¿Se siente valorado?", "¿Nos recomendaría?"],
+    };
+    const surveyId = await client.createSurvey({
+      title: "Quarterly Pulse",
+      description: "",
+      questions: QUESTIONS,
+      durationDays: 7,
+      minResponses: 3,
+      language: "en",
+      translations: { es },
+    });
+
+    const questions = await clientFor(signers.employee1).getQuestions(surveyId, ["es-ES", "en"]);
+    expect(questions.map((question) => question.text)).to.deep.equal(es.questions);
+    expect(questions[2]).to.deep.include({ minValue: 0, maxValue: 10 });
+    expect(await client.getQuestions(surveyId, "de")).to.deep.equal(QUESTIONS);
+  });
+
+  it("should schedule a survey to open later", async function () {
+    const latest = (await ethers.provider.getBlock("latest"))!.timestamp;
+    const startTime = new Date((latest + 60 * 60) * 1000);
+    const surveyId = await client.createSurvey({
+      title: "Launch Day",
+      description: "",
+      questions: QUESTIONS,
+      startTime,
+      endTime: new Date(startTime.getTime() + 8 * 60 * 60 * 1000),
+      minResponses: 3,
+    });
+
+    const survey = await client.getSurvey(surveyId);
+    expect(survey.startTime).to.deep.equal(startTime);
+    expect(survey.status).to.equal(SurveyStatus.Upcoming);
+    await expect(clientFor(signers.employee1).submitResponse(surveyId, [5, true, 10], fhevm)).to.be.revertedWith(
+      "Survey not started",
+    );
+
+    await ethers.provider.send("evm_increaseTime", [60 * 60]);
+    await ethers.provider.send("evm_mine", []);
+    expect((await client.getSurvey(surveyId)).status).to.equal(SurveyStatus.Open);
+    await clientFor(signers.employee1).submitResponse(surveyId, [5, true, 10], fhevm);
+
+    await expect(
+      client.createSurvey({ title: "Open-ended", description: "", questions: QUESTIONS, minResponses: 3 }),
+    ).to.be.rejectedWith("A survey needs an endTime or a durationDays");
+  });
+
+  it("should encrypt mixed answers and reveal decoded results", async function () {
+    const surveyId = await createSurvey();
+
+    await clientFor(signers.employee1).submitResponse(surveyId, [5, true, 10], fhevm);
+    await clientFor(signers.employee2).submitResponse(surveyId, [4, false, 9], fhevm);
+    await clientFor(signers.employee3).submitResponse(surveyId, [3, true, 6], fhevm);
+    expect(await client.hasResponded(surveyId, await clientFor(signers.employee1).myNullifier(surveyId))).to.equal(
+      true,
+    );
+
+    await client.closeSurvey(surveyId);
+    await client.publishResults(surveyId);
+
+    const rating = await client.revealAverage(surveyId, 0, MOCK_REVEAL);
+    expect(rating).to.deep.equal({ revealed: true, totalResponses: 3, totalScore: 12, average: 4 });
+
+    const valued = await client.revealAverage(surveyId, 1, MOCK_REVEAL);
+    expect(valued.totalScore).to.equal(2);
+    expect(valued.average).to.equal(2 / 3);
+
+    const histogram = await client.revealHistogram(surveyId, 2, MOCK_REVEAL);
+    expect(histogram.revealed).to.equal(true);
+    expect(histogram.values).to.deep.equal([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    expect(histogram.counts).to.deep.equal([0, 0, 0, 0, 0, 0, 1, 0, 0, 1, 1]);
+  });
+
+  it("should request every reveal of a survey before waiting and report the questions still encrypted", async function () {
+    const surveyId = await createSurvey();
+    for (const employee of [signers.employee1, signers.employee2, signers.employee3]) {
+      await clientFor(employee).submitResponse(surveyId, [4, true, 8], fhevm);
+    }
+    await client.closeSurvey(surveyId);
+    await client.publishResults(surveyId);
+    await client.revealAverage(surveyId, 1, MOCK_REVEAL);
+
+    // Without the mock oracle nothing is decrypted before the wait ends
+    expect(await client.revealResults(surveyId, { timeoutMs: 0 })).to.deep.equal([0, 1, 2]);
+    expect((await client.getQuestionResult(surveyId, 1)).revealed).to.equal(true);
+
+    await fhevm.awaitDecryptionOracle();
+    expect(await client.revealResults(surveyId, MOCK_REVEAL)).to.deep.equal([]);
+    expect((await client.getQuestionResult(surveyId, 0)).average).to.equal(4);
+    expect((await client.getQuestionHistogram(surveyId, 2)).counts[8]).to.equal(3);
+  });
+
+  it("should list survey pages and load several surveys with their results in one go", async function () {
+    const published = await createSurvey();
+    const open = await createSurvey(4);
+    for (const employee of [signers.employee1, signers.employee2, signers.employee3]) {
+      await clientFor(employee).submitResponse(published, [4, true, 8], fhevm);
+    }
+    await client.closeSurvey(published);
+    await client.publishResults(published);
+    await client.revealAverage(published, 0, MOCK_REVEAL);
+
+    const all = await client.listSurveys({ pageSize: 1 });
+    expect(all).to.deep.include({ page: 1, pageSize: 1, more: true });
+    expect(all.surveys.map((survey) => survey.id)).to.deep.equal([published]);
+    const second = await client.listSurveys({ page: 2, pageSize: 1 });
+    expect(second.more).to.equal(false);
+    expect(second.surveys[0]).to.deep.include({
+      id: open,
+      creator: signers.owner.address,
+      status: SurveyStatus.Open,
+      questionsCount: 3,
+      responsesNeeded: 4,
+      organizationId: null,
+    });
+    const ids = async (filter: Parameters<SurveyClient["listSurveys"]>[0]) =>
+      (await client.listSurveys(filter)).surveys.map((survey) => survey.id);
+    expect(await ids({ status: SurveyListStatus.Published })).to.deep.equal([published]);
+    expect(await ids({ status: SurveyListStatus.Open })).to.deep.equal([open]);
+    expect(await ids({ creator: signers.employee1.address })).to.deep.equal([]);
+    await expect(client.listSurveys({ page: 0 })).to.be.rejectedWith("page and pageSize must be positive");
+
+    const [details, other] = await client.getSurveysWithResults([published, open]);
+    expect(details.info).to.deep.equal(await client.getSurvey(published));
+    expect(details.configs).to.deep.equal(
+      QUESTIONS.map(({ questionType, minValue, maxValue }) => ({ questionType, minValue, maxValue })),
+    );
+    expect(details.results[0]).to.deep.equal(await client.getQuestionResult(published, 0));
+    expect(details.histograms[2]).to.deep.equal(await client.getQuestionHistogram(published, 2));
+    expect(other.results.map((result) => result.revealed)).to.deep.equal([false, false, false]);
+    const nullifier = await clientFor(signers.employee1).myNullifier(published);
+    expect(await client.multicall([["hasResponded", [published, nullifier]]])).to.deep.equal([true]);
+  });
+
+  it("should list when each response was submitted", async function () {
+    const fromBlock = await ethers.provider.getBlockNumber();
+    const surveyId = await createSurvey();
+    expect(await client.getResponseTimes(surveyId)).to.deep.equal([]);
+
+    await clientFor(signers.employee1).submitResponse(surveyId, [4, true, 8], fhevm);
+    await clientFor(signers.employee2).submitResponse(surveyId, [3, false, 6], fhevm);
+    await clientFor(signers.employee1).reviseResponse(surveyId, [5, true, 9], fhevm);
+
+    const times = await client.getResponseTimes(surveyId);
+    const latest = (await ethers.provider.getBlock("latest"))!.timestamp;
+    expect(times).to.have.length(2);
+    expect(times[0].getTime()).to.be.at.most(times[1].getTime());
+    expect(times[1].getTime()).to.be.at.most(latest * 1000);
+    // Read a block at a time from before the survey, as on nodes that limit log queries
+    expect(await client.getResponseTimes(surveyId, fromBlock, 1)).to.deep.equal(times);
+    expect(await client.getResponseTimes(surveyId + 1n)).to.deep.equal([]);
+  });
+
+  it("should revise answers and count the latest ones only", async function () {
+    const surveyId = await createSurvey();
+    const employee1 = clientFor(signers.employee1);
+
+    await employee1.submitResponse(surveyId, [5, true, 10], fhevm);
+    await clientFor(signers.employee2).submitResponse(surveyId, [4, false, 9], fhevm);
+    await clientFor(signers.employee3).submitResponse(surveyId, [3, true, 6], fhevm);
+    await employee1.reviseResponse(surveyId, [1, false, 0], fhevm);
+    await employee1.reviseResponse(surveyId, [2, false, 0], fhevm);
+    expect(await client.getRevisionCount(surveyId, await employee1.myNullifier(surveyId))).to.equal(2);
+    expect((await client.getSurvey(surveyId)).totalResponses).to.equal(3);
+
+    await client.closeSurvey(surveyId);
+    await client.publishResults(surveyId);
+
+    expect(await client.revealAverage(surveyId, 0, MOCK_REVEAL)).to.deep.equal({
+      revealed: true,
+      totalResponses: 3,
+      totalScore: 9,
+      average: 3,
+    });
+    expect((await client.revealAverage(surveyId, 1, MOCK_REVEAL)).totalScore).to.equal(1);
+    expect((await client.revealHistogram(surveyId, 2, MOCK_REVEAL)).counts).to.deep.equal([
+      1, 0, 0, 0, 0, 0, 1, 0, 0, 1, 0,
+    ]);
+  });
+
+  it("should decrypt the respondent's own latest answers", async function () {
+    const surveyId = await createSurvey();
+    const employee1 = clientFor(signers.employee1);
+
+    await employee1.submitResponse(surveyId, [5, true, 10], fhevm);
+    expect(await employee1.decryptMyAnswers(surveyId, fhevm)).to.deep.equal([5, true, 10]);
+
+    await employee1.reviseResponse(surveyId, [2, false, 0], fhevm);
+    expect(await employee1.decryptMyAnswers(surveyId, fhevm)).to.deep.equal([2, false, 0]);
+
+    await expect(clientFor(signers.employee2).decryptMyAnswers(surveyId, fhevm)).to.be.revertedWith("No response");
+  });
+
+  it("should return the request id of a decryption request", async function () {
+    const surveyId = await createSurvey();
+    for (const employee of [signers.employee1, signers.employee2, signers.employee3]) {
+      await clientFor(employee).submitResponse(surveyId, [4, true, 8], fhevm);
+    }
+    await client.closeSurvey(surveyId);
+    await client.publishResults(surveyId);
+
+    const requestId = await client.requestAverage(surveyId, 0);
+    expect(requestId).to.be.a("bigint");
+    expect((await client.getQuestionResult(surveyId, 0)).average).to.equal(null);
+  });
+
+  it("should reject answers that do not fit the questions before encrypting", async function () {
+    const surveyId = await createSurvey();
+    const employee = clientFor(signers.employee1);
+
+    await expect(employee.submitResponse(surveyId, [4, true], fhevm)).to.be.rejectedWith(
+      "Survey has 3 questions, got 2 answers",
+    );
+    await expect(employee.submitResponse(surveyId, [6, true, 5], fhevm)).to.be.rejectedWith(
+      "Question 1 expects a whole number on a scale 1-5",
+    );
+    await expect(employee.submitResponse(surveyId, [4, 1, 5], fhevm)).to.be.rejectedWith(
+      "Question 2 expects yes or no",
+    );
+    expect(await client.hasResponded(surveyId, await employee.myNullifier(surveyId))).to.equal(false);
+  });
+
+  it("should derive the same respondent key and nullifier every time", async function () {
+    const surveyId = await createSurvey();
+    const employee1 = clientFor(signers.employee1);
+    const key = await employee1.respondentKey(surveyId);
+
+    expect((await employee1.respondentKey(surveyId)).address).to.equal(key.address);
+    expect((await employee1.respondentKey(surveyId + 1n)).address).not.to.equal(key.address);
+    expect((await clientFor(signers.employee2).respondentKey(surveyId)).address).not.to.equal(key.address);
+    expect(key.address).not.to.equal(signers.employee1.address);
+
+    await employee1.submitResponse(surveyId, [5, true, 10], fhevm);
+    expect(await client.hasResponded(surveyId, await employee1.myNullifier(surveyId))).to.equal(true);
+  });
+
+  it("should answer and revise the largest survey the contract creates", async function () {
+    const stars = (count: number) =>
+      Array.from({ length: count }, (_, index) => ({ text: `Question ${index + 1}`, ...FIVE_STAR_RATING }));
+    const create = (questions: SurveyQuestion[], segments?: string[]) =>
+      client.createSurvey({ title: "Long", description: "", questions, durationDays: 7, minResponses: 3, segments });
+    await expect(create(stars(8))).to.be.rejectedWith("Too many answers for one transaction");
+    await expect(create(stars(6), ["Engineering", "Sales"])).to.be.rejectedWith("Too many answers for one transaction");
+
+    // A revision adds the new answers and subtracts the old ones, the most FHE work one transaction does
+    const surveyId = await create(stars(7));
+    const employee1 = clientFor(signers.employee1);
+    await employee1.submitResponse(surveyId, [5, 4, 3, 2, 1, 5, 4], fhevm);
+    await employee1.reviseResponse(surveyId, [1, 2, 3, 4, 5, 1, 2], fhevm);
+    expect(await employee1.getRevisionCount(surveyId, await employee1.myNullifier(surveyId))).to.equal(1);
+  });
+
+  it("should need an invitation for invite-only surveys", async function () {
+    const tree = buildEligibilityTree([signers.employee1.address, signers.employee2.address]);
+    const inviteOnly = {
+      title: "Invite only",
+      description: "",
+      questions: QUESTIONS,
+      durationDays: 7,
+      minResponses: 3,
+      eligibilityRoot: tree.root,
+    };
+    await expect(client.createSurvey(inviteOnly)).to.be.rejectedWith("Invalid ticket issuer key");
+    const ticketIssuer = await new TicketIssuer().createKey();
+    const surveyId = await client.createSurvey({ ...inviteOnly, ticketIssuer });
+    const open = await createSurvey();
+    expect((await client.getSurvey(surveyId)).eligibilityRoot).to.equal(tree.root);
+    expect((await client.getSurvey(open)).eligibilityRoot).to.equal(null);
+    expect(await client.getTicketIssuer(surveyId)).to.equal(ticketIssuer);
+    expect(await client.getTicketIssuer(open)).to.equal(null);
+
+    const { proof } = eligibilityProof(tree, signers.employee1.address)!;
+    expect(await client.isEligible(surveyId, signers.employee1.address, proof)).to.equal(true);
+    expect(await client.isEligible(surveyId, signers.employee3.address, proof)).to.equal(false);
+
+    // Tickets come from the relayer's issuer (see SurveyRelayer)
+    await expect(clientFor(signers.employee1).submitResponse(surveyId, [5, true, 10], fhevm)).to.be.rejectedWith(
+      "Survey is invite-only",
+    );
+    const employee1 = clientFor(signers.employee1);
+    const issuer = new RelayerClient("http://127.0.0.1:1");
+    await expect(employee1.requestTicket(open, await employee1.respondentKey(open), proof, issuer)).to.be.rejectedWith(
+      "Survey is not invite-only",
+    );
+  });
+
+  it("should encrypt the respondent's segment and reveal per-segment results", async function () {
+    await EmployeePrivacySurvey__factory.connect(surveyContractAddress, signers.owner).setMinResponsesFloor(1);
+    const surveyId = await client.createSurvey({
+      title: "Segmented Pulse",
+      description: "Short pulse survey",
+      questions: QUESTIONS,
+      durationDays: 7,
+      minResponses: 1,
+      segments: ["Engineering", "Sales"],
+    });
+    expect(await client.getSegments(surveyId)).to.deep.equal(["Engineering", "Sales"]);
+
+    await expect(clientFor(signers.employee1).submitResponse(surveyId, [5, true, 10], fhevm)).to.be.rejectedWith(
+      "Pick a segment between 0 and 1 (Engineering, Sales)",
+    );
+    await clientFor(signers.employee1).submitResponse(surveyId, [5, true, 10], fhevm, [], 0);
+    await clientFor(signers.employee2).submitResponse(surveyId, [3, false, 6], fhevm, [], 0);
+    await clientFor(signers.employee3).submitResponse(surveyId, [2, true, 4], fhevm, [], 1);
+    await client.closeSurvey(surveyId);
+    await client.publishResults(surveyId);
+
+    expect(await client.revealSegment(surveyId, 0, MOCK_REVEAL)).to.deep.equal({
+      revealed: true,
+      withheld: false,
+      respondents: 2,
+      totals: [8, 1, 16],
+      averages: [4, 0.5, 8],
+    });
+    expect((await client.revealSegment(surveyId, 1, MOCK_REVEAL)).totals).to.deep.equal([2, 1, 4]);
+  });
+
+  it("should surface contract reverts", async function () {
+    const surveyId = await createSurvey();
+
+    await expect(client.publishResults(surveyId)).to.be.revertedWith("Survey still active");
+  });
+
+  it("should only use ABI fragments the compiled contracts have", async function () {
+    const compiled = [
+      [surveyAbi, (await ethers.getContractFactory("EmployeePrivacySurvey")).interface],
+      [directoryAbi, (await ethers.getContractFactory("SurveyDirectory")).interface],
+      [organizationAbi, (await ethers.getContractFactory("OrganizationRegistry")).interface],
+    ] as const;
+    for (const [abi, contract] of compiled) {
+      for (const fragment of new Interface(abi).fragments) {
+        // Looked up by name, so a changed parameter list fails as a mismatch rather than as missing
+        const match =
+          fragment instanceof FunctionFragment
+            ? contract.getFunction(fragment.name)
+            : fragment instanceof EventFragment
+              ? contract.getEvent(fragment.name)
+              : null;
+        expect(match, `${fragment.format()} is not in the compiled ABI`).to.not.equal(null);
+        // The full format holds each input's and output's type and name, indexed flags and mutability
+        expect(fragment.format("full")).to.equal(match?.format("full"));
+      }
+    }
+  });
+
+  it("should parse typed-in answers", async function () {
+    expect(parseAnswer(" Yes", YES_NO, 1)).to.equal(true);
+    expect(parseAnswer("n", YES_NO, 1)).to.equal(false);
+    expect(parseAnswer("5", FIVE_STAR_RATING, 1)).to.equal(5);
+    expect(() => parseAnswer("", FIVE_STAR_RATING, 2)).to.throw("Question 2 expects a whole number");
+    expect(() => parseAnswer("4.5", FIVE_STAR_RATING, 2)).to.throw("Question 2 expects a whole number");
+    expect(() => parseAnswer("maybe", YES_NO, 3)).to.throw('Question 3 expects yes or no, got "maybe"');
+  });
+});
@@ -0,0 +1,144 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import * as os from "os";
+import * as path from "path";
+import { createContentServer, DirectoryContentStore } from "../src/content";
+import {
+  contentHash,
+  encodeSurveyContent,
+  HttpContentStore,
+  localizeContent,
+  matchLanguage,
+  parseSurveyContent,
+  verifySurveyContent,
+} from "../src/sdk";
+
+/**
+ * @title Survey Content Test Suite
+ * @dev Encoding and verification of the off-chain survey content, and the directory store and
+ * HTTP server the tasks and web app keep it in. Nothing here touches the chain.
+ */
+
+const CONTENT = {
+  title: "Quarterly Pulse",
+  description: "Short pulse survey",
+  questions: ["How satisfied are you with your role?", "Do you feel valued?"],
+};
+
+describe("Survey content", function () {
+  it("should encode the same content to the same hash whatever the key order", function () {
+    const document = encodeSurveyContent(CONTENT);
+    expect(document).to.equal(JSON.stringify(CONTENT));
+    expect(
+      encodeSurveyContent({ questions: CONTENT.questions, description: CONTENT.description, title: CONTENT.title }),
+    ).to.equal(document);
+    expect(verifySurveyContent(document, contentHash(document))).to.deep.equal(CONTENT);
+  });
+
+  it("should refuse content that does not match the expected hash", function () {
+    const document = encodeSurveyContent(CONTENT);
+    const tampered = document.replace("Quarterly", "Annual");
+    expect(() => verifySurveyContent(tampered, contentHash(document)))
+      .to.throw(Error)
+      .with.property("message")
+      .that.includes("does not match its on-chain hash");
+  });
+
+  it("should list every problem with a content document", function () {
+    expect(() => parseSurveyContent({ title: " ", questions: ["Q1", ""], lang: "en" }))
+      .to.throw(Error)
+      .with.property("message")
+      .that.includes("lang: unknown field")
+      .and.includes("title: must be a non-empty string")
+      .and.includes("questions[1]: must be a non-empty string");
+  });
+
+  describe("Translations", function () {
+    const TRANSLATED = {
+      ...CONTENT,
+      language: "en",
+      translations: {
+        fr: {
+          title: "Pouls trimestriel",
+          description: "Courte enquête",
+          questions: ["Êtes-vous satisfait de votre poste ?", "Vous sentez-vous valorisé ?"],
+        },
+        es: {
+          title: "Pulso trimestral",
+          description: "Encuesta breve",
+          questions: ["¿Está satisfecho con su puesto?", "¿Se siente valorado?"],
+        },
+      },
+    };
+
+    it("should encode translations in language order", function () {
+      const document = encodeSurveyContent(TRANSLATED);
+      expect(document.indexOf('"es"')).to.be.lessThan(document.indexOf('"fr"'));
+      expect(encodeSurveyContent({ ...TRANSLATED, translations: { ...TRANSLATED.translations } })).to.equal(document);
+      expect(verifySurveyContent(document, contentHash(document)).translations).to.deep.equal(TRANSLATED.translations);
+    });
+
+    it("should show the closest translation, else the survey's own language", function () {
+      expect(localizeContent(TRANSLATED, ["es-MX", "en"])).to.deep.equal({
+        language: "es",
+        ...TRANSLATED.translations.es,
+      });
+      expect(localizeContent(TRANSLATED, "de").title).to.equal("Quarterly Pulse");
+      expect(localizeContent(CONTENT, "fr").language).to.equal("en");
+      expect(matchLanguage(["en", "pt-BR"], ["pt-PT", "en"])).to.equal("pt-BR");
+      expect(matchLanguage(["en"], ["de"])).to.equal(null);
+    });
+
+    it("should refuse translations that miss questions or repeat the survey's language", function () {
+      expect(() =>
+        parseSurveyContent({
+          ...TRANSLATED,
+          translations: { en: TRANSLATED.translations.es, fr: { ...TRANSLATED.translations.fr, questions: ["Q1"] } },
+        }),
+      )
+        .to.throw(Error)
+        .with.property("message")
+        .that.includes("translations.en: is the survey's own language")
+        .and.includes("translations.fr.questions: must translate all 2 questions, in order");
+    });
+  });
+
+  describe("DirectoryContentStore and content server", function () {
+    let store: DirectoryContentStore;
+    let server: Server;
+    let http: HttpContentStore;
+
+    beforeEach(async function () {
+      store = new DirectoryContentStore(fs.mkdtempSync(path.join(os.tmpdir(), "survey-content-")));
+      server = createContentServer(store);
+      await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+      http = new HttpContentStore(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+    });
+
+    afterEach(async function () {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    it("should store documents by hash and serve them byte for byte", async function () {
+      const document = encodeSurveyContent(CONTENT);
+      const hash = await http.put(document);
+      expect(hash).to.equal(contentHash(document));
+      expect(fs.readFileSync(path.join(store.directory, `${hash}.json`), "utf8")).to.equal(document);
+      expect(await http.get(hash)).to.equal(document);
+      expect(await store.get(hash.toUpperCase().replace("0X", "0x"))).to.equal(document);
+    });
+
+    it("should reject documents that are not canonical survey content", async function () {
+      await expect(http.put(JSON.stringify({ title: "Pulse" }))).to.be.rejectedWith(
+        "questions: must be a non-empty list",
+      );
+      await expect(http.put(JSON.stringify(CONTENT, null, 2))).to.be.rejectedWith(
+        "must be encoded with encodeSurveyContent",
+      );
+      await expect(http.get(contentHash("missing"))).to.be.rejectedWith("No survey content");
+      await expect(store.get("../secrets")).to.be.rejectedWith('Invalid content hash "../secrets"');
+    });
+  });
+});
@@ -0,0 +1,207 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import { load as loadYaml } from "js-yaml";
+import * as path from "path";
+import {
+  describeSurvey,
+  FIVE_STAR_RATING,
+  MAX_RESPONSE_COST,
+  parseSurveyDefinitions,
+  QuestionType,
+  responseCost,
+  YES_NO,
+} from "../src/sdk";
+
+/**
+ * @title Survey Definition Test Suite
+ * @dev Validation of the JSON/YAML files read by the create-survey task. Nothing here touches the chain.
+ */
+
+const VALID = {
+  title: "Quarterly Pulse",
+  description: "Short pulse survey",
+  durationDays: 14,
+  minResponses: 5,
+  questions: [
+    "How satisfied are you with your role?",
+    { text: "Do you feel valued?", type: "yesno" },
+    { text: "How likely are you to recommend us?", type: "scale", min: 0, max: 10 },
+  ],
+};
+
+describe("Survey definitions", function () {
+  it("should turn a single definition into a survey", function () {
+    expect(parseSurveyDefinitions(VALID)).to.deep.equal([
+      {
+        title: "Quarterly Pulse",
+        description: "Short pulse survey",
+        durationDays: 14,
+        minResponses: 5,
+        questions: [
+          { text: "How satisfied are you with your role?", ...FIVE_STAR_RATING },
+          { text: "Do you feel valued?", ...YES_NO },
+          { text: "How likely are you to recommend us?", questionType: QuestionType.Scale, minValue: 0, maxValue: 10 },
+        ],
+      },
+    ]);
+  });
+
+  it("should accept a list or a surveys key for batches", function () {
+    const second = { ...VALID, title: "Second" };
+
+    expect(parseSurveyDefinitions([VALID, second]).map((survey) => survey.title)).to.deep.equal([
+      "Quarterly Pulse",
+      "Second",
+    ]);
+    expect(parseSurveyDefinitions({ surveys: [VALID, second] })).to.have.length(2);
+  });
+
+  it("should default the description and the scale range", function () {
+    const [survey] = parseSurveyDefinitions({
+      ...VALID,
+      description: undefined,
+      questions: [{ text: "Rate the onboarding" }],
+    });
+
+    expect(survey.description).to.equal("");
+    expect(survey.questions).to.deep.equal([{ text: "Rate the onboarding", ...FIVE_STAR_RATING }]);
+  });
+
+  it("should report every problem with its location", function () {
+    const broken = {
+      surveys: [
+        VALID,
+        {
+          title: " ",
+          durationDays: 0,
+          minResponses: 2.5,
+          questions: ["", { text: "Too wide", min: 0, max: 11 }, { text: "Which?", type: "choice" }],
+          deadline: "soon",
+        },
+      ],
+    };
+
+    expect(() => parseSurveyDefinitions(broken))
+      .to.throw("Invalid survey definition")
+      .with.property("message")
+      .that.includes("surveys[1].deadline: unknown field")
+      .and.includes("surveys[1].title: must be a non-empty string")
+      .and.includes("surveys[1].durationDays: must be a positive whole number")
+      .and.includes("surveys[1].minResponses: must be a positive whole number")
+      .and.includes("surveys[1].questions[0].text: must be a non-empty string")
+      .and.includes("surveys[1].questions[1]: scale 0-11 must go up and have at most 11 values")
+      .and.includes('surveys[1].questions[2].type: must be "scale" or "yesno"');
+  });
+
+  it("should reject ranges the contract cannot store", function () {
+    const withQuestion = (question: unknown) => ({ ...VALID, questions: [question] });
+
+    expect(() => parseSurveyDefinitions(withQuestion({ text: "Q", min: 5, max: 5 }))).to.throw("scale 5-5");
+    expect(() => parseSurveyDefinitions(withQuestion({ text: "Q", min: 250, max: 256 }))).to.throw(
+      "min and max must be whole numbers between 0 and 255",
+    );
+    expect(() => parseSurveyDefinitions(withQuestion({ text: "Q", type: "yesno", max: 3 }))).to.throw(
+      "yes/no questions take no min or max",
+    );
+    expect(() => parseSurveyDefinitions({ ...VALID, questions: [] })).to.throw(
+      "survey.questions: must list at least one question",
+    );
+    expect(() => parseSurveyDefinitions([])).to.throw("file: must contain at least one survey");
+  });
+
+  it("should trim segment labels and reject ones the contract cannot tally", function () {
+    const [survey] = parseSurveyDefinitions({ ...VALID, segments: [" Engineering ", "Sales"] });
+    expect(survey.segments).to.deep.equal(["Engineering", "Sales"]);
+
+    expect(() => parseSurveyDefinitions({ ...VALID, segments: ["Everyone"] })).to.throw(
+      "survey.segments: must list between 2 and 8 labels",
+    );
+    expect(() => parseSurveyDefinitions({ ...VALID, segments: ["Sales", "Sales "] })).to.throw(
+      "survey.segments: labels must be unique",
+    );
+    expect(() => parseSurveyDefinitions({ ...VALID, segments: ["Sales", ""] })).to.throw(
+      "survey.segments: labels must be non-empty strings",
+    );
+  });
+
+  it("should reject surveys whose responses need more FHE work than one transaction may do", function () {
+    const ratings = (count: number) => Array.from({ length: count }, (_, index) => `Question ${index + 1}?`);
+    const eNps = { questionType: QuestionType.Scale, minValue: 0, maxValue: 10 };
+    expect(responseCost([FIVE_STAR_RATING, YES_NO, eNps])).to.equal(20);
+    expect(responseCost([FIVE_STAR_RATING, YES_NO, eNps], 3)).to.equal(29);
+
+    expect(parseSurveyDefinitions({ ...VALID, questions: ratings(7) })[0].questions).to.have.length(7);
+    expect(responseCost(Array(7).fill(FIVE_STAR_RATING))).to.equal(MAX_RESPONSE_COST);
+    expect(() => parseSurveyDefinitions({ ...VALID, questions: ratings(8) })).to.throw(
+      `survey.questions: answers cost 48 buckets, more than the ${MAX_RESPONSE_COST} one transaction can encrypt`,
+    );
+    const segments = Array.from({ length: 8 }, (_, index) => `Team ${index + 1}`);
+    expect(() => parseSurveyDefinitions({ ...VALID, segments })).to.throw("answers cost 44 buckets");
+  });
+
+  it("should accept an organisation id for surveys created for an organisation", function () {
+    const [survey] = parseSurveyDefinitions({ ...VALID, organizationId: 2 });
+    expect(survey.organizationId).to.equal(2);
+    expect(describeSurvey(survey)).to.include(", organisation 2");
+
+    expect(() => parseSurveyDefinitions({ ...VALID, organizationId: 0 })).to.throw(
+      "survey.organizationId: must be a positive organisation id",
+    );
+  });
+
+  it("should take translations of every text under the same questions", function () {
+    const es = {
+      title: "Pulso trimestral",
+      description: "Encuesta breve",
+      questions: ["¿Está satisfecho con su puesto?", "¿Se siente valorado?", "¿Nos recomendaría?"],
+    };
+    const [survey] = parseSurveyDefinitions({ ...VALID, language: "en", translations: { es } });
+    expect(survey.language).to.equal("en");
+    expect(survey.translations).to.deep.equal({ es });
+    expect(describeSurvey(survey)).to.include(", in en, es");
+
+    expect(() =>
+      parseSurveyDefinitions({
+        ...VALID,
+        language: "EN",
+        translations: { pt_br: es, de: { ...es, questions: es.questions.slice(1), note: "" } },
+      }),
+    )
+      .to.throw(Error)
+      .with.property("message")
+      .that.includes('survey.language: write "EN" as "en"')
+      .and.includes('survey.translations.pt_br: "pt_br" is not a language tag')
+      .and.includes("survey.translations.de.note: unknown field")
+      .and.includes("survey.translations.de.questions: must translate all 3 questions, in order");
+  });
+
+  it("should take a start and an end time instead of a duration", function () {
+    const { durationDays: _, ...scheduled } = VALID;
+    const [survey] = parseSurveyDefinitions({
+      ...scheduled,
+      startTime: "2026-11-02T09:00:00Z",
+      endTime: new Date("2026-11-02T17:00:00Z"),
+    });
+    expect(survey.startTime?.toISOString()).to.equal("2026-11-02T09:00:00.000Z");
+    expect(survey.endTime?.toISOString()).to.equal("2026-11-02T17:00:00.000Z");
+    expect(survey.durationDays).to.be.undefined;
+
+    expect(() => parseSurveyDefinitions({ ...VALID, endTime: "2026-11-02T17:00:00Z" })).to.throw(
+      "survey: give endTime or durationDays, not both",
+    );
+    expect(() =>
+      parseSurveyDefinitions({ ...scheduled, startTime: "2026-11-02T17:00:00Z", endTime: "2026-11-02T09:00:00Z" }),
+    ).to.throw("survey.endTime: must be after startTime");
+    expect(() => parseSurveyDefinitions({ ...VALID, startTime: "next monday" })).to.throw(
+      "survey.startTime: must be an ISO 8601 date-time",
+    );
+  });
+
+  it("should accept the example definition file", function () {
+    const file = path.join(__dirname, "..", "surveys", "example.yaml");
+    const surveys = parseSurveyDefinitions(loadYaml(fs.readFileSync(file, "utf8")));
+
+    expect(surveys).to.have.length(2);
+    expect(surveys[0].questions[3]).to.deep.include({ minValue: 0, maxValue: 10 });
+  });
+});
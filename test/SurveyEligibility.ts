@@ -0,0 +1,76 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { buildEligibilityTree, eligibilityProof, parseRoster, verifyEligibilityProof } from "../src/sdk";
+
+/**
+ * @title Eligibility Roster Test Suite
+ * @dev Roster CSV parsing and the Merkle tree behind build-roster-tree. The contract side is
+ * covered in EmployeePrivacySurvey.ts; here the proofs are checked with the same hashing off chain.
+ */
+
+function randomAddresses(count: number) {
+  return Array.from({ length: count }, () => ethers.Wallet.createRandom().address);
+}
+
+describe("Eligibility rosters", function () {
+  it("should read the wallet column of a roster and keep the other fields", function () {
+    const [alice, bob] = randomAddresses(2);
+    const csv = [
+      "employee_id,name,Wallet,department",
+      `E-1,"Doe, Alice",${alice.toLowerCase()},Engineering`,
+      "",
+      `E-2,"Bob ""Bobby"" Smith",${bob},Sales`,
+    ].join("\r\n");
+
+    const entries = parseRoster(csv);
+
+    expect(entries.map((entry) => entry.address)).to.deep.equal([alice, bob]);
+    expect(entries[0].fields).to.deep.include({ name: "Doe, Alice", department: "Engineering" });
+    expect(entries[1]).to.deep.include({ line: 4 });
+    expect(entries[1].fields.name).to.equal('Bob "Bobby" Smith');
+  });
+
+  it("should report every invalid and duplicate address", function () {
+    const [alice, bob] = randomAddresses(2);
+    // Flip the case of one hex letter so only the checksum is wrong
+    const letter = bob.slice(2).search(/[a-fA-F]/) + 2;
+    const flipped = bob[letter] === bob[letter].toUpperCase() ? bob[letter].toLowerCase() : bob[letter].toUpperCase();
+    const wrongChecksum = bob.slice(0, letter) + flipped + bob.slice(letter + 1);
+    const csv = `name,address\nAlice,${alice}\nTypo,0x1234\nAgain,${alice.toLowerCase()}\nBob,${wrongChecksum}\n`;
+
+    expect(() => parseRoster(csv))
+      .to.throw("Invalid roster")
+      .with.property("message")
+      .that.includes('line 3: "0x1234" is not an address')
+      .and.includes(`line 4: ${alice} is already listed on line 2`)
+      .and.includes(`line 5: "${wrongChecksum}" has a wrong checksum`);
+    expect(() => parseRoster("name,email\nAlice,alice@example.com")).to.throw("Roster header needs one of");
+    expect(() => parseRoster("wallet\n")).to.throw("roster lists no employees");
+  });
+
+  it("should give every employee a proof that verifies against the root", function () {
+    for (const size of [1, 2, 3, 5, 8, 13]) {
+      const addresses = randomAddresses(size);
+      const tree = buildEligibilityTree(addresses);
+      for (const address of addresses) {
+        const { proof } = eligibilityProof(tree, address)!;
+        expect(verifyEligibilityProof(tree.root, address, proof), `${size} employees`).to.equal(true);
+      }
+    }
+  });
+
+  it("should not produce or accept proofs for outsiders", function () {
+    const addresses = randomAddresses(4);
+    const [outsider] = randomAddresses(1);
+    const tree = buildEligibilityTree(addresses);
+
+    expect(eligibilityProof(tree, outsider)).to.equal(null);
+    expect(verifyEligibilityProof(tree.root, outsider, eligibilityProof(tree, addresses[0])!.proof)).to.equal(false);
+  });
+
+  it("should build the same root whatever the roster order", function () {
+    const addresses = randomAddresses(6);
+
+    expect(buildEligibilityTree([...addresses].reverse()).root).to.equal(buildEligibilityTree(addresses).root);
+  });
+});
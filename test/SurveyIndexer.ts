@@ -0,0 +1,198 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import * as fs from "fs";
+import { hexlify, randomBytes, type Provider } from "ethers";
+import { ethers, fhevm, network } from "hardhat";
+import * as os from "os";
+import * as path from "path";
+import { JsonFileStore, querySurveys, SurveyIndexer } from "../src/indexer";
+import {
+  contentHash,
+  FIVE_STAR_RATING,
+  fetchSurveyContent,
+  MemoryContentStore,
+  newSurveyContent,
+  SurveyClient,
+} from "../src/sdk";
+import { EmployeePrivacySurvey, EmployeePrivacySurvey__factory } from "../types";
+
+/**
+ * @title Survey Indexer Test Suite
+ * @dev Indexes a freshly deployed contract into a temporary JSON file, including resuming
+ * from a second indexer instance and rewinding after a snapshot revert stands in for a reorg.
+ */
+
+describe("SurveyIndexer", function () {
+  let owner: HardhatEthersSigner;
+  let employees: HardhatEthersSigner[];
+  let surveyContractAddress: string;
+  let startBlock: number;
+  let client: SurveyClient;
+  let store: JsonFileStore;
+  const content = new MemoryContentStore();
+
+  function newIndexer() {
+    return new SurveyIndexer(ethers.provider, surveyContractAddress, store, { startBlock, batchSize: 3 });
+  }
+
+  function pulse(title: string) {
+    return {
+      title,
+      description: "",
+      questions: [{ text: "How satisfied are you with your role?", ...FIVE_STAR_RATING }],
+      durationDays: 7,
+      minResponses: 3,
+    };
+  }
+
+  async function createSurvey(title: string) {
+    return client.createSurvey(pulse(title));
+  }
+
+  /** Titles of the indexed surveys, looked up by their content hash the way query-surveys does */
+  async function titles() {
+    const surveys = querySurveys((await store.load())!);
+    return Promise.all(surveys.map(async (survey) => (await fetchSurveyContent(content, survey.contentHash)).title));
+  }
+
+  before(async function () {
+    [owner, ...employees] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    const factory = (await ethers.getContractFactory("EmployeePrivacySurvey")) as EmployeePrivacySurvey__factory;
+    const surveyContract = (await factory.deploy()) as EmployeePrivacySurvey;
+    surveyContractAddress = await surveyContract.getAddress();
+    startBlock = (await surveyContract.deploymentTransaction()!.wait())!.blockNumber;
+    client = SurveyClient.connect(surveyContractAddress, owner, content);
+    store = new JsonFileStore(path.join(fs.mkdtempSync(path.join(os.tmpdir(), "survey-index-")), "index.json"));
+  });
+
+  it("should index the survey lifecycle", async function () {
+    const surveyId = await createSurvey("Quarterly Pulse");
+    await createSurvey("Remote Work");
+    for (const employee of employees.slice(0, 3)) {
+      await SurveyClient.connect(surveyContractAddress, employee).submitResponse(surveyId, [4], fhevm);
+    }
+    await client.closeSurvey(surveyId);
+    await client.publishResults(surveyId);
+    await client.requestAverage(surveyId, 0);
+
+    const result = await newIndexer().sync();
+    expect(result.newEvents).to.equal(8);
+    expect(result.reorgedFrom).to.equal(null);
+
+    const [quarterly, remote] = querySurveys((await store.load())!);
+    expect(quarterly).to.deep.include({
+      id: 1,
+      contentHash: contentHash(newSurveyContent(pulse("Quarterly Pulse"))),
+      creator: owner.address,
+      responses: 3,
+    });
+    expect(quarterly.resultsPublished).to.equal(true);
+    expect(quarterly.closedAt).to.be.instanceOf(Date);
+    expect(quarterly.decryptionRequests).to.equal(1);
+    expect(quarterly.responseTimes).to.have.length(3);
+    expect(remote).to.deep.include({ id: 2, responses: 0, resultsPublished: false });
+  });
+
+  it("should filter indexed surveys by creator and status", async function () {
+    const latest = (await ethers.provider.getBlock("latest"))!.timestamp;
+    await createSurvey("Owner survey");
+    await SurveyClient.connect(surveyContractAddress, employees[0], content).createSurvey({
+      title: "Team survey",
+      description: "",
+      questions: [{ text: "How is the team doing?", ...FIVE_STAR_RATING }],
+      durationDays: 1,
+      minResponses: 3,
+    });
+    await client.createSurvey({
+      title: "Next quarter",
+      description: "",
+      questions: [{ text: "How satisfied are you with your role?", ...FIVE_STAR_RATING }],
+      startTime: new Date((latest + 5 * 24 * 60 * 60) * 1000),
+      durationDays: 7,
+      minResponses: 3,
+    });
+    await newIndexer().sync();
+    const state = (await store.load())!;
+
+    const byEmployee = querySurveys(state, { creator: employees[0].address.toLowerCase() });
+    expect(byEmployee.map((survey) => survey.id)).to.deep.equal([2]);
+
+    const inThreeDays = new Date((latest + 3 * 24 * 60 * 60) * 1000);
+    expect(querySurveys(state, { status: "open" }, inThreeDays).map((survey) => survey.id)).to.deep.equal([1]);
+    expect(querySurveys(state, { status: "ended" }, inThreeDays).map((survey) => survey.id)).to.deep.equal([2]);
+    expect(querySurveys(state, { status: "upcoming" }, inThreeDays).map((survey) => survey.id)).to.deep.equal([3]);
+
+    await client.closeSurvey(1);
+    await newIndexer().sync();
+    const closed = querySurveys((await store.load())!, { status: "ended" }, inThreeDays);
+    expect(closed.map((survey) => survey.id)).to.deep.equal([1, 2]);
+  });
+
+  it("should resume from the last indexed block", async function () {
+    await createSurvey("First");
+    const first = await newIndexer().sync();
+
+    await createSurvey("Second");
+    const second = await newIndexer().sync();
+
+    expect(second.fromBlock).to.equal(first.toBlock + 1);
+    expect(second.newEvents).to.equal(1);
+    expect(await titles()).to.deep.equal(["First", "Second"]);
+
+    const upToDate = await newIndexer().sync();
+    expect(upToDate.newEvents).to.equal(0);
+    expect(upToDate.fromBlock).to.be.greaterThan(upToDate.toBlock);
+  });
+
+  it("should drop events from blocks replaced by a reorg", async function () {
+    await createSurvey("Kept");
+    const snapshot = await network.provider.send("evm_snapshot");
+    await createSurvey("Orphaned");
+    await newIndexer().sync();
+    expect(await titles()).to.deep.equal(["Kept", "Orphaned"]);
+
+    // Replace the block holding "Orphaned" with a different one at the same height
+    await network.provider.send("evm_revert", [snapshot]);
+    await createSurvey("Replacement");
+
+    const result = await newIndexer().sync();
+    expect(result.reorgedFrom).to.not.equal(null);
+    expect(await titles()).to.deep.equal(["Kept", "Replacement"]);
+  });
+
+  it("should give up on a range whose blocks keep changing", async function () {
+    await createSurvey("Unsettled");
+    // Every block lookup returns a new hash, as if each read landed on another fork
+    const unsettled = new Proxy(ethers.provider, {
+      get(target, property, receiver) {
+        if (property === "getBlock") {
+          return async () => ({ hash: hexlify(randomBytes(32)) });
+        }
+        const value = Reflect.get(target, property, receiver);
+        return typeof value === "function" ? value.bind(target) : value;
+      },
+    }) as unknown as Provider;
+
+    const indexer = new SurveyIndexer(unsettled, surveyContractAddress, store, {
+      startBlock,
+      maxAttempts: 3,
+      retryDelayMs: 1,
+    });
+    await expect(indexer.sync()).to.be.rejectedWith("gave up after 3 attempts");
+  });
+
+  it("should refuse an index built for another contract", async function () {
+    await newIndexer().sync();
+
+    const other = new SurveyIndexer(ethers.provider, owner.address, store);
+    await expect(other.sync()).to.be.rejectedWith("Index was built for");
+  });
+});
@@ -0,0 +1,142 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { expect } from "chai";
+import { ethers, fhevm } from "hardhat";
+import { parseKeeperPolicy, runKeeper } from "../src/keeper";
+import { FIVE_STAR_RATING, MemoryContentStore, SurveyClient } from "../src/sdk";
+import { EmployeePrivacySurvey, EmployeePrivacySurvey__factory } from "../types";
+
+/**
+ * @title Survey Keeper Test Suite
+ * @dev Runs the keeper against a freshly deployed contract, moving the chain clock past survey
+ * end times with evm_increaseTime the way a cron job would find them on a local node.
+ */
+
+describe("SurveyKeeper", function () {
+  let owner: HardhatEthersSigner;
+  let keeper: HardhatEthersSigner;
+  let employees: HardhatEthersSigner[];
+  let surveyContractAddress: string;
+  const content = new MemoryContentStore();
+
+  async function increaseHours(hours: number) {
+    await ethers.provider.send("evm_increaseTime", [hours * 60 * 60]);
+    await ethers.provider.send("evm_mine", []);
+  }
+
+  /** Survey by `creator` open for a day, with `responses` answers from the employees */
+  async function createSurvey(creator: HardhatEthersSigner, title: string, responses: number) {
+    const surveyId = await SurveyClient.connect(surveyContractAddress, creator, content).createSurvey({
+      title,
+      description: "",
+      questions: [{ text: "How satisfied are you with your role?", ...FIVE_STAR_RATING }],
+      durationDays: 1,
+      minResponses: 3,
+    });
+    for (const employee of employees.slice(0, responses)) {
+      await SurveyClient.connect(surveyContractAddress, employee).submitResponse(surveyId, [4], fhevm);
+    }
+    return surveyId;
+  }
+
+  async function isPublished(surveyId: bigint) {
+    return (await SurveyClient.connect(surveyContractAddress, owner).getSurvey(surveyId)).resultsPublished;
+  }
+
+  before(async function () {
+    [owner, keeper, ...employees] = await ethers.getSigners();
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    const factory = (await ethers.getContractFactory("EmployeePrivacySurvey")) as EmployeePrivacySurvey__factory;
+    const surveyContract = (await factory.deploy()) as EmployeePrivacySurvey;
+    surveyContractAddress = await surveyContract.getAddress();
+  });
+
+  it("should fill in the policy defaults and list every problem", function () {
+    expect(parseKeeperPolicy(undefined)).to.deep.equal({ graceMinutes: 0, creators: [], surveys: [], exclude: [] });
+    expect(parseKeeperPolicy({ creators: [owner.address.toLowerCase()] }).creators).to.deep.equal([owner.address]);
+
+    expect(() => parseKeeperPolicy({ graceMinutes: -5, creators: ["alice"], surveys: [0], cron: "* * * * *" }))
+      .to.throw(Error)
+      .with.property("message")
+      .that.includes("cron: unknown field")
+      .and.includes("graceMinutes: must be a whole number")
+      .and.includes("creators: must be a list of addresses")
+      .and.includes("surveys: must be a list of survey ids");
+  });
+
+  it("should publish expired surveys once and leave the rest alone", async function () {
+    const expired = await createSurvey(owner, "Expired", 3);
+    const empty = await createSurvey(owner, "Empty", 0);
+    const short = await createSurvey(owner, "Short", 2);
+    await increaseHours(25);
+    const open = await createSurvey(owner, "Still open", 3);
+    const policy = parseKeeperPolicy({});
+
+    const dryRun = await runKeeper(keeper, surveyContractAddress, policy, { dryRun: true });
+    expect(dryRun.checked).to.equal(4);
+    expect(dryRun.decisions.map((decision) => [decision.surveyId, decision.action])).to.deep.equal([
+      [expired, "publish"],
+      [empty, "skip"],
+      [short, "skip"],
+    ]);
+    expect(dryRun.published).to.deep.equal([]);
+    expect(await isPublished(expired)).to.equal(false);
+
+    const run = await runKeeper(keeper, surveyContractAddress, policy);
+    expect(run.published).to.deep.equal([expired]);
+    expect(run.failed).to.deep.equal([]);
+    expect(await isPublished(expired)).to.equal(true);
+    expect(await isPublished(open)).to.equal(false);
+
+    const again = await runKeeper(keeper, surveyContractAddress, policy);
+    expect(again.published).to.deep.equal([]);
+    expect(again.decisions.map((decision) => decision.surveyId)).to.deep.equal([empty, short]);
+  });
+
+  it("should leave expired surveys to their creator during the grace period", async function () {
+    const others = await createSurvey(owner, "Owner's", 3);
+    const own = await createSurvey(keeper, "Keeper's", 3);
+    await increaseHours(25);
+    const policy = parseKeeperPolicy({ graceMinutes: 120 });
+
+    const run = await runKeeper(keeper, surveyContractAddress, policy);
+    expect(run.published).to.deep.equal([own]);
+    expect(run.decisions.find((decision) => decision.surveyId === others)!.action).to.equal("wait");
+
+    await increaseHours(2);
+    expect((await runKeeper(keeper, surveyContractAddress, policy)).published).to.deep.equal([others]);
+  });
+
+  it("should only publish surveys the policy covers", async function () {
+    const owners = await createSurvey(owner, "Owner's", 3);
+    const employees0 = await createSurvey(employees[0], "Employee's", 3);
+    const excluded = await createSurvey(owner, "Excluded", 3);
+    await increaseHours(25);
+
+    const run = await runKeeper(
+      keeper,
+      surveyContractAddress,
+      parseKeeperPolicy({ creators: [owner.address], exclude: [Number(excluded)] }),
+    );
+    expect(run.published).to.deep.equal([owners]);
+    expect(await isPublished(employees0)).to.equal(false);
+    expect(await isPublished(excluded)).to.equal(false);
+  });
+
+  it("should publish surveys closed early only when it created them", async function () {
+    const others = await createSurvey(owner, "Owner's", 3);
+    const own = await createSurvey(keeper, "Keeper's", 3);
+    await SurveyClient.connect(surveyContractAddress, owner).closeSurvey(others);
+    await SurveyClient.connect(surveyContractAddress, keeper).closeSurvey(own);
+
+    const run = await runKeeper(keeper, surveyContractAddress, parseKeeperPolicy({}));
+    expect(run.published).to.deep.equal([own]);
+    expect(run.decisions.find((decision) => decision.surveyId === others)!.action).to.equal("wait");
+  });
+});
@@ -0,0 +1,282 @@
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { ethers, fhevm } from "hardhat";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { EmployeePrivacySurvey__factory } from "../types";
+import { expect } from "chai";
+import { createRelayer, MemoryTicketLedger, TicketIssuer } from "../src/relayer";
+import {
+  blindTicket,
+  buildEligibilityTree,
+  eligibilityProof,
+  encryptAnswers,
+  FIVE_STAR_RATING,
+  MemoryContentStore,
+  QuestionType,
+  recoverResponseSigner,
+  RelayerClient,
+  responseNullifier,
+  signResponse,
+  SurveyClient,
+  type SurveyQuestion,
+  ticketMessage,
+  ticketRequestMessage,
+  unblindTicket,
+  verifyTicket,
+  YES_NO,
+} from "../src/sdk";
+
+/**
+ * @title Response Relayer Test Suite
+ * @dev Runs the relayer HTTP service in-process against the Hardhat network and submits
+ * responses through it the way the web app and the submit-response task do.
+ */
+
+type Signers = {
+  relayer: HardhatEthersSigner;
+  creator: HardhatEthersSigner;
+  employee1: HardhatEthersSigner;
+  employee2: HardhatEthersSigner;
+  employee3: HardhatEthersSigner;
+};
+
+const QUESTIONS: SurveyQuestion[] = [
+  { text: "How satisfied are you with your role?", ...FIVE_STAR_RATING },
+  { text: "Do you feel valued?", ...YES_NO },
+  { text: "How likely are you to recommend us?", questionType: QuestionType.Scale, minValue: 0, maxValue: 10 },
+];
+
+describe("Response Relayer", function () {
+  let signers: Signers;
+  let surveyContractAddress: string;
+  let server: Server;
+  let relayer: RelayerClient;
+  let ledger: MemoryTicketLedger;
+  const content = new MemoryContentStore();
+
+  function clientFor(signer: HardhatEthersSigner) {
+    return SurveyClient.connect(surveyContractAddress, signer, content);
+  }
+
+  async function createSurvey(eligibilityRoot?: string, ticketIssuer?: string) {
+    return clientFor(signers.creator).createSurvey({
+      title: "Quarterly Pulse",
+      description: "Short pulse survey",
+      questions: QUESTIONS,
+      durationDays: 7,
+      minResponses: 3,
+      eligibilityRoot,
+      ticketIssuer: eligibilityRoot && (ticketIssuer ?? (await relayer.createTicketKey())),
+    });
+  }
+
+  before(async function () {
+    const ethSigners: HardhatEthersSigner[] = await ethers.getSigners();
+    signers = {
+      relayer: ethSigners[0],
+      creator: ethSigners[1],
+      employee1: ethSigners[2],
+      employee2: ethSigners[3],
+      employee3: ethSigners[4],
+    };
+  });
+
+  beforeEach(async function () {
+    if (!fhevm.isMock) {
+      console.warn(`This test suite cannot run on Sepolia Testnet`);
+      this.skip();
+    }
+
+    const contract = await new EmployeePrivacySurvey__factory(signers.creator).deploy();
+    surveyContractAddress = await contract.getAddress();
+
+    ledger = new MemoryTicketLedger();
+    server = await createRelayer(signers.relayer, surveyContractAddress, {
+      tickets: new TicketIssuer(undefined, ledger),
+    });
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+    relayer = new RelayerClient(`http://127.0.0.1:${(server.address() as AddressInfo).port}/`);
+  });
+
+  afterEach(async function () {
+    if (server?.listening) {
+      await new Promise((resolve) => server.close(resolve));
+    }
+  });
+
+  it("should report the account answers are encrypted for", async function () {
+    const info = await relayer.info();
+
+    expect(info.contract).to.equal(surveyContractAddress);
+    expect(info.submitter).to.equal(signers.relayer.address);
+    expect(info.chainId).to.equal((await ethers.provider.getNetwork()).chainId.toString());
+  });
+
+  it("should submit signed responses from its own account", async function () {
+    const surveyId = await createSurvey();
+
+    const receipt = await clientFor(signers.employee1).relayResponse(surveyId, [5, true, 10], fhevm, relayer);
+
+    const tx = await ethers.provider.getTransaction(receipt.transactionHash);
+    expect(tx!.from).to.equal(signers.relayer.address);
+    // The calldata carries the respondent key's nullifier, nothing derived from the employee's address
+    const nullifier = await clientFor(signers.employee1).myNullifier(surveyId);
+    const data = tx!.data.toLowerCase();
+    expect(data).to.include(nullifier.slice(2));
+    expect(data).not.to.include(signers.employee1.address.slice(2).toLowerCase());
+    expect(data).not.to.include(responseNullifier(surveyContractAddress, surveyId, signers.employee1.address).slice(2));
+    const survey = await clientFor(signers.creator).getSurvey(surveyId);
+    expect(survey.totalResponses).to.equal(1);
+    expect(await clientFor(signers.creator).hasResponded(surveyId, nullifier)).to.equal(true);
+  });
+
+  it("should refuse tampered responses before sending anything", async function () {
+    const surveyId = await createSurvey();
+    const response = await clientFor(signers.employee1).prepareResponse(
+      surveyId,
+      [5, true, 10],
+      fhevm,
+      signers.relayer.address,
+    );
+    const { chainId } = await ethers.provider.getNetwork();
+    const key = await clientFor(signers.employee1).respondentKey(surveyId);
+    expect(recoverResponseSigner(chainId, surveyContractAddress, response)).to.equal(key.address);
+
+    const nonce = await ethers.provider.getTransactionCount(signers.relayer.address);
+    const swapped = { ...response, ratings: [...response.ratings].reverse() };
+    await expect(relayer.submit(swapped)).to.be.rejectedWith("Signature does not match");
+    await expect(relayer.submit({ ...response, signature: "0x1234" })).to.be.rejectedWith(
+      "signature must be a 65-byte hex string",
+    );
+    expect(await ethers.provider.getTransactionCount(signers.relayer.address)).to.equal(nonce);
+  });
+
+  it("should pass on contract rejections without spending gas", async function () {
+    const tree = buildEligibilityTree([signers.employee1.address, signers.employee2.address]);
+    const surveyId = await createSurvey(tree.root);
+    const { proof } = eligibilityProof(tree, signers.employee1.address)!;
+    const employee1 = clientFor(signers.employee1);
+
+    await employee1.relayResponse(surveyId, [4, false, 7], fhevm, relayer, proof);
+    const nonce = await ethers.provider.getTransactionCount(signers.relayer.address);
+
+    await expect(employee1.relayResponse(surveyId, [4, false, 7], fhevm, relayer, proof)).to.be.rejectedWith(
+      "Already responded",
+    );
+    await expect(
+      clientFor(signers.employee3).relayResponse(surveyId, [4, false, 7], fhevm, relayer, proof),
+    ).to.be.rejectedWith("Not eligible for this survey");
+    expect(await ethers.provider.getTransactionCount(signers.relayer.address)).to.equal(nonce);
+  });
+
+  it("should blind-sign one ticket per roster account", async function () {
+    const tree = buildEligibilityTree([signers.employee1.address, signers.employee2.address]);
+    const surveyId = await createSurvey(tree.root);
+    const { proof } = eligibilityProof(tree, signers.employee1.address)!;
+    const employee1 = clientFor(signers.employee1);
+    const { chainId } = await ethers.provider.getNetwork();
+    const modulus = (await employee1.getTicketIssuer(surveyId))!;
+
+    await employee1.relayResponse(surveyId, [4, false, 7], fhevm, relayer, proof);
+
+    // The issuer recorded who asked, but what it signed is blinded: not the ticket message of the nullifier
+    const recorded = await ledger.get(surveyId.toString(), signers.employee1.address);
+    expect(recorded).not.to.equal(null);
+    expect(recorded).not.to.equal(ticketMessage(await employee1.myNullifier(surveyId)));
+
+    const request = async (signer: HardhatEthersSigner, account = signer.address, id = surveyId) => {
+      const { blinded } = blindTicket(modulus, ethers.hexlify(ethers.randomBytes(32)), ethers.Wallet.createRandom());
+      const signature = await signer.signMessage(ticketRequestMessage(chainId, surveyContractAddress, id, blinded));
+      return relayer.requestTicket({ surveyId: id.toString(), account, eligibilityProof: proof, blinded, signature });
+    };
+    await expect(request(signers.employee1)).to.be.rejectedWith("already has a ticket");
+    await expect(request(signers.employee2, signers.employee1.address)).to.be.rejectedWith(
+      "Signature does not match the ticket request",
+    );
+    await expect(request(signers.employee1, signers.employee1.address, await createSurvey())).to.be.rejectedWith(
+      "Survey is not invite-only",
+    );
+  });
+
+  it("should sign tickets only with the key of the survey they are asked for", async function () {
+    const tree = buildEligibilityTree([signers.employee1.address, signers.employee2.address]);
+    const first = await createSurvey(tree.root);
+    const second = await createSurvey(tree.root);
+    const { proof } = eligibilityProof(tree, signers.employee1.address)!;
+    const employee1 = clientFor(signers.employee1);
+    const { chainId } = await ethers.provider.getNetwork();
+    expect(await employee1.getTicketIssuer(first)).not.to.equal(await employee1.getTicketIssuer(second));
+
+    // A ticket got for survey 2 but over the survey-1 nullifier is signed with survey 2's key
+    const key = await employee1.respondentKey(first);
+    const nullifier = await employee1.myNullifier(first);
+    const modulus = (await employee1.getTicketIssuer(second))!;
+    const { blinded, factor } = blindTicket(modulus, nullifier, key);
+    const signature = await signers.employee1.signMessage(
+      ticketRequestMessage(chainId, surveyContractAddress, second, blinded),
+    );
+    const { blindSignature } = await relayer.requestTicket({
+      surveyId: second.toString(),
+      account: signers.employee1.address,
+      eligibilityProof: proof,
+      blinded,
+      signature,
+    });
+    const crossTicket = unblindTicket(modulus, blindSignature, factor);
+    expect(verifyTicket(modulus, nullifier, crossTicket)).to.equal(true);
+    expect(verifyTicket((await employee1.getTicketIssuer(first))!, nullifier, crossTicket)).to.equal(false);
+
+    // Survey 1 only takes tickets signed with its own key
+    const configs = await employee1.getQuestionConfigs(first);
+    const encrypted = await encryptAnswers(fhevm, surveyContractAddress, signers.relayer.address, configs, [
+      4,
+      false,
+      7,
+    ]);
+    const response = await signResponse(key, surveyContractAddress, first, encrypted, crossTicket);
+    await expect(relayer.submit(response)).to.be.rejectedWith("Not eligible for this survey");
+  });
+
+  it("should refuse tickets for surveys whose key another issuer made", async function () {
+    const tree = buildEligibilityTree([signers.employee1.address]);
+    const { proof } = eligibilityProof(tree, signers.employee1.address)!;
+    const foreign = new TicketIssuer();
+    const surveyId = await createSurvey(tree.root, await foreign.createKey());
+
+    await expect(
+      clientFor(signers.employee1).relayResponse(surveyId, [4, false, 7], fhevm, relayer, proof),
+    ).to.be.rejectedWith("issued by another key than this relayer's");
+  });
+
+  it("should relay revisions and refuse replays", async function () {
+    const surveyId = await createSurvey();
+    const employee1 = clientFor(signers.employee1);
+    await employee1.relayResponse(surveyId, [5, true, 10], fhevm, relayer);
+
+    const revision = await employee1.prepareRevision(surveyId, [2, false, 3], fhevm, signers.relayer.address);
+    const receipt = await relayer.submitRevision(revision);
+
+    expect((await ethers.provider.getTransaction(receipt.transactionHash))!.from).to.equal(signers.relayer.address);
+    expect(await employee1.getRevisionCount(surveyId, await employee1.myNullifier(surveyId))).to.equal(1);
+    await expect(relayer.submitRevision(revision)).to.be.rejectedWith("Stale revision");
+    await expect(relayer.submitRevision({ ...revision, revision: "2" })).to.be.rejectedWith(
+      "Signature does not match the revision",
+    );
+    await expect(
+      clientFor(signers.employee2).relayRevision(surveyId, [2, false, 3], fhevm, relayer),
+    ).to.be.rejectedWith("No response to revise");
+  });
+
+  it("should relay concurrent responses one transaction at a time", async function () {
+    const surveyId = await createSurvey();
+
+    const receipts = await Promise.all(
+      [signers.employee1, signers.employee2, signers.employee3].map((signer, index) =>
+        clientFor(signer).relayResponse(surveyId, [index + 1, true, index], fhevm, relayer),
+      ),
+    );
+
+    expect(new Set(receipts.map((receipt) => receipt.transactionHash)).size).to.equal(3);
+    expect((await clientFor(signers.creator).getSurvey(surveyId)).totalResponses).to.equal(3);
+  });
+});
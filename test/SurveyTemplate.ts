@@ -0,0 +1,109 @@
+import { expect } from "chai";
+import * as fs from "fs";
+import * as path from "path";
+import {
+  decodeTemplateRef,
+  encodeTemplateRef,
+  FIVE_STAR_RATING,
+  parseSurveyTemplate,
+  renderTemplate,
+  templateRef,
+} from "../src/sdk";
+
+/**
+ * @title Survey Template Test Suite
+ * @dev Validation and rendering of the templates read by the create-from-template task and the
+ * create-survey form. Nothing here touches the chain.
+ */
+
+const TEMPLATE = {
+  id: "quarterly-check",
+  version: 2,
+  name: "Quarterly Check",
+  summary: "Two questions every quarter",
+  parameters: [
+    { name: "quarter", label: "Quarter", type: "text" },
+    { name: "durationDays", label: "Duration (days)", type: "number", default: 14 },
+  ],
+  survey: {
+    title: "{{quarter}} Check",
+    description: "How {{ quarter }} went",
+    durationDays: "{{durationDays}}",
+    minResponses: 3,
+    questions: ["How satisfied were you this quarter?", "How was your workload in {{quarter}}?"],
+  },
+};
+
+describe("Survey templates", function () {
+  it("should parse and render every template in the repository", function () {
+    const directory = path.join(__dirname, "..", "templates");
+    const files = fs.readdirSync(directory).filter((file) => file.endsWith(".json"));
+    expect(files).to.not.be.empty;
+    for (const file of files) {
+      const template = parseSurveyTemplate(JSON.parse(fs.readFileSync(path.join(directory, file), "utf8")), file);
+      expect(file).to.equal(`${template.id}.json`);
+      const values = Object.fromEntries(
+        template.parameters.filter((parameter) => parameter.default === undefined).map(({ name }) => [name, "Q1"]),
+      );
+      expect(renderTemplate(template, values).template).to.equal(templateRef(template));
+    }
+  });
+
+  it("should fill in parameters and defaults and record the version", function () {
+    const template = parseSurveyTemplate(TEMPLATE);
+    expect(renderTemplate(template, { quarter: "Q3 2026" })).to.deep.equal({
+      title: "Q3 2026 Check",
+      description: "How Q3 2026 went",
+      durationDays: 14,
+      minResponses: 3,
+      questions: [
+        { text: "How satisfied were you this quarter?", ...FIVE_STAR_RATING },
+        { text: "How was your workload in Q3 2026?", ...FIVE_STAR_RATING },
+      ],
+      template: "quarterly-check@2",
+    });
+    expect(renderTemplate(template, { quarter: "Q4", durationDays: "7" }).durationDays).to.equal(7);
+  });
+
+  it("should round-trip template references through bytes32", function () {
+    expect(decodeTemplateRef(encodeTemplateRef("quarterly-check@2"))).to.equal("quarterly-check@2");
+    expect(decodeTemplateRef("0x" + "00".repeat(32))).to.equal(null);
+  });
+
+  it("should list every problem with a template", function () {
+    expect(() =>
+      parseSurveyTemplate({
+        id: "Quarterly Check",
+        version: 0,
+        name: "",
+        parameters: [{ name: "quarter", type: "date" }, { name: "quarter" }],
+        survey: { title: "{{year}} Check" },
+        author: "hr",
+      }),
+    )
+      .to.throw(Error)
+      .with.property("message")
+      .that.includes("author: unknown field")
+      .and.includes("id: must be lowercase words joined by hyphens")
+      .and.includes("version: must be a positive whole number")
+      .and.includes("name: must be a non-empty string")
+      .and.includes("parameters[0].type: must be text or number")
+      .and.includes("parameters: names must be unique")
+      .and.includes("survey: {{year}} is not a declared parameter");
+
+    expect(() => parseSurveyTemplate({ ...TEMPLATE, id: "a-template-id-far-too-long-for-chain" }))
+      .to.throw(Error)
+      .with.property("message")
+      .that.includes("must be at most 31 characters");
+  });
+
+  it("should reject missing, unknown and non-numeric parameters", function () {
+    const template = parseSurveyTemplate(TEMPLATE);
+    expect(() => renderTemplate(template, { durationDays: "two weeks", team: "Sales" }))
+      .to.throw(Error)
+      .with.property("message")
+      .that.includes("team: not a parameter of quarterly-check@2")
+      .and.includes("quarter: required")
+      .and.includes('durationDays: must be a number, got "two weeks"');
+  });
+});